@@ -4,9 +4,21 @@ import { Session } from '@supabase/supabase-js';
 import { supabase } from './services/supabaseClient';
 import * as dbService from './services/dbService';
 import { NewNotification } from './services/dbService';
-import { Task, Settings, Mode, Page, DbDailyLog, Project, Goal, Target, AppState, PomodoroHistory, Commitment, ChatMessage, AiMemory, AppNotification, FocusLevel } from './types';
+import * as offlineQueue from './services/offlineQueue';
+import { QueuedMutation } from './services/offlineQueue';
+import { getStorageMode, setStorageMode, getLocalSession } from './services/storageAdapter';
+import { Task, Subtask, Settings, Mode, Page, DbDailyLog, Project, Goal, Target, AppState, PomodoroHistory, Commitment, ChatMessage, AiMemory, AppNotification, FocusLevel, ActiveSession, FocusSessionDetails, BreakSessionDetails, ManualFocusEntry, WellbeingCheckIn, PomodoroHistoryFields, DailyReview, WeeklyReview, WeeklyReviewAnswers } from './types';
 import { getTodayDateString } from './utils/date';
-import { playFocusStartSound, playFocusEndSound, playBreakStartSound, playBreakEndSound, playAlertLoop, resumeAudioContext, playNotificationSound } from './utils/audio';
+import { getTimerDurations, isLongBreakDue, splitFocusSession } from './utils/timer';
+import { orderUnblockedFirst } from './utils/dependencies';
+import { appendSubtaskSummary, getSubtasksCompletedSince } from './utils/subtasks';
+import { getHabitStats, HABIT_STREAK_ALERT_MIN } from './utils/habits';
+import { findBestFocusWindow } from './utils/focusWindows';
+import { getTaskSoundMix, playSoundscape, fadeOutSoundscape } from './utils/soundscape';
+import { playFocusStartSound, playFocusEndSound, playBreakStartSound, playBreakEndSound, startAlertLoop, stopAlertLoop, resumeAudioContext, playNotificationSound, configureSounds, loadCustomSounds, DEFAULT_SOUND_SETTINGS } from './utils/audio';
+import { showSystemNotification, closeSystemNotifications, subscribeToNotificationClicks, NotificationClickMessage } from './utils/systemNotifications';
+import { generateUUID } from './utils/id';
+import { getCustomSounds } from './services/soundLibrary';
 
 import Navbar from './components/layout/Navbar';
 import TimerPage from './pages/TimerPage';
@@ -18,14 +30,16 @@ import CompletionModal from './components/CompletionModal';
 import AuthPage from './pages/AuthPage';
 import LoadingAnimation from './components/common/LoadingAnimation';
 import GoalsPage from './pages/GoalsPage';
+import ReviewPage from './pages/ReviewPage';
 import CommandPalette from './components/CommandPalette';
 import NotificationPanel from './components/common/NotificationPanel';
 import { BellIcon } from './components/common/Icons';
 import CelebrationAnimation from './components/common/CelebrationAnimation';
 import DailyReflectionModal from './components/DailyReflectionModal';
+import OfflineQueueIndicator from './components/common/OfflineQueueIndicator';
 
 // Reads from localStorage to initialize the timer state synchronously.
-const getInitialAppState = (): { initialState: AppState; initialPhaseEndTime: number | null; wasRestored: boolean } => {
+const getInitialAppState = (): { initialState: AppState; initialPhaseEndTime: number | null; wasRestored: boolean; initialSessionDetails: FocusSessionDetails | null; initialBreakDetails: BreakSessionDetails | null } => {
     const defaultState: AppState = {
         mode: 'focus',
         currentSession: 1,
@@ -38,24 +52,24 @@ const getInitialAppState = (): { initialState: AppState; initialPhaseEndTime: nu
 
     if (savedStateJSON) {
         try {
-            const { savedAppState, savedPhaseEndTime } = JSON.parse(savedStateJSON);
+            const { savedAppState, savedPhaseEndTime, savedSessionDetails = null, savedBreakDetails = null } = JSON.parse(savedStateJSON);
 
             // If the timer was running, calculate the correct remaining time from phaseEndTime
             if (savedAppState.isRunning && savedPhaseEndTime) {
                 const newTimeRemaining = Math.max(0, Math.round((savedPhaseEndTime - Date.now()) / 1000));
                 const finalState = { ...savedAppState, timeRemaining: newTimeRemaining };
-                return { initialState: finalState, initialPhaseEndTime: savedPhaseEndTime, wasRestored: true };
+                return { initialState: finalState, initialPhaseEndTime: savedPhaseEndTime, wasRestored: true, initialSessionDetails: savedSessionDetails, initialBreakDetails: savedBreakDetails };
             }
 
             // If it was paused, the saved state is accurate.
-            return { initialState: savedAppState, initialPhaseEndTime: null, wasRestored: true };
+            return { initialState: savedAppState, initialPhaseEndTime: null, wasRestored: true, initialSessionDetails: savedSessionDetails, initialBreakDetails: savedBreakDetails };
         } catch (e) {
             console.error("Failed to parse saved state:", e);
             localStorage.removeItem('pomodoroAppState');
         }
     }
 
-    return { initialState: defaultState, initialPhaseEndTime: null, wasRestored: false };
+    return { initialState: defaultState, initialPhaseEndTime: null, wasRestored: false, initialSessionDetails: null, initialBreakDetails: null };
 };
 
 const ToastNotification: React.FC<{ message: string; onDismiss: () => void }> = ({ message, onDismiss }) => {
@@ -97,6 +111,48 @@ const augmentTargetsWithStatus = (targets: Target[]): Target[] => {
     });
 };
 
+// Minutes added by each "extend break" click
+const BREAK_EXTENSION_MINUTES = 5;
+const BREAK_ACTIVITY_INDEX_KEY = 'focusflow-break-activity-index';
+
+// Rotates through the user's break activities, continuing where the previous break left off
+const takeNextBreakActivity = (activities: string[]): string | null => {
+    if (activities.length === 0) return null;
+    const index = (parseInt(localStorage.getItem(BREAK_ACTIVITY_INDEX_KEY) || '0', 10) || 0) % activities.length;
+    localStorage.setItem(BREAK_ACTIVITY_INDEX_KEY, String(index + 1));
+    return activities[index];
+};
+
+const toBreakHistoryEntry = (details: BreakSessionDetails, fallbackEndedAt: string, fallbackDurationSeconds: number) => ({
+    task_id: details.task_id,
+    started_at: details.started_at,
+    ended_at: details.ended_at || fallbackEndedAt,
+    planned_minutes: details.planned_minutes,
+    duration_minutes: Math.round((details.duration_seconds ?? fallbackDurationSeconds) / 60),
+    extended_minutes: details.extended_minutes,
+    is_long_break: details.is_long_break,
+    outcome: details.skipped ? 'skipped' as const : details.extended_minutes > 0 ? 'extended' as const : 'completed' as const,
+    activity: details.activity,
+});
+
+// Phase-end notifications share one tag so a newer one replaces the last; "+5 min" reopens the phase for this long
+const PHASE_NOTIFICATION_TAG = 'focusflow-phase';
+const PHASE_SNOOZE_MINUTES = 5;
+
+// Grace period before the next phase auto-starts, long enough to rate the session or cancel
+const AUTO_CONTINUE_SECONDS = 10;
+
+// The daily review opens by itself once per evening from this hour, even with tasks still open
+const DAILY_REVIEW_PROMPT_HOUR = 20;
+const DAILY_REVIEW_PROMPTED_KEY = 'focusflow-daily-review-prompted';
+
+// Recent weeks say more about when the user focuses well than the full six months of loaded history
+const FOCUS_WINDOW_LOOKBACK_DAYS = 56;
+
+// Closes a pause that is still open when the session ends, so wall-clock time adds up
+const finalizeSessionDetails = (details: FocusSessionDetails | null, endedAt: string, checkIn: WellbeingCheckIn | null = null): FocusSessionDetails | undefined =>
+    details ? { ...details, interruptions: details.interruptions.map(i => i.resumed_at ? i : { ...i, resumed_at: endedAt }), ...(checkIn && { check_in: checkIn }) } : undefined;
+
 // Custom hook to get the previous value of a prop or state
 function usePrevious<T>(value: T): T | undefined {
     const ref = useRef<T | undefined>(undefined);
@@ -116,12 +172,24 @@ const App: React.FC = () => {
     const [appState, setAppState] = useState<AppState>(memoizedInitialState.initialState);
     const [phaseEndTime, setPhaseEndTime] = useState<number | null>(memoizedInitialState.initialPhaseEndTime);
     const [didRestoreFromStorage, setDidRestoreFromStorage] = useState<boolean>(memoizedInitialState.wasRestored);
+    // Start time and pauses of the focus session in progress; written to its history row when it ends.
+    const [focusSessionDetails, setFocusSessionDetails] = useState<FocusSessionDetails | null>(memoizedInitialState.initialSessionDetails);
+    const [breakSessionDetails, setBreakSessionDetails] = useState<BreakSessionDetails | null>(memoizedInitialState.initialBreakDetails);
 
     const [settings, setSettings] = useState<Settings>({
         focusDuration: 25,
         breakDuration: 5,
+        longBreakDuration: 15,
         sessionsPerCycle: 2,
+        autoStartNextPhase: false,
+        customTimerPresets: [],
+        breakActivities: dbService.DEFAULT_BREAK_ACTIVITIES,
+        soundMixes: [],
+        autoPlaySoundscape: false,
+        soundSettings: DEFAULT_SOUND_SETTINGS,
         todaySortBy: 'default',
+        splitSessionCredit: 'proportional',
+        wellbeingCheckIns: true,
         dailyFocusTarget: null,
         dailyFocusTargetsByDay: null,
     });
@@ -135,7 +203,9 @@ const App: React.FC = () => {
     const [todaysHistory, setTodaysHistory] = useState<PomodoroHistory[]>([]);
     const [allPomodoroHistory, setAllPomodoroHistory] = useState<PomodoroHistory[]>([]);
     const [aiMemories, setAiMemories] = useState<AiMemory[]>([]);
+    const [weeklyReviews, setWeeklyReviews] = useState<WeeklyReview[]>([]);
     const [toastNotification, setToastNotification] = useState<string | null>(null);
+    const [queuedMutations, setQueuedMutations] = useState<QueuedMutation[]>([]);
     const [isSyncing, setIsSyncing] = useState(false);
 
     const [aiChatMessages, setAiChatMessages] = useState<ChatMessage[]>([
@@ -144,6 +214,7 @@ const App: React.FC = () => {
 
     const [page, setPage] = useState<Page>('timer');
     const [isModalVisible, setIsModalVisible] = useState(false);
+    const [pendingNotificationAction, setPendingNotificationAction] = useState<string | null>(null); // Clicked while the app was closed
     const [modalContent, setModalContent] = useState({ title: '', message: '', nextMode: 'focus' as Mode, showCommentBox: false });
     const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
     const [isReflectionModalOpen, setIsReflectionModalOpen] = useState(false);
@@ -160,7 +231,6 @@ const App: React.FC = () => {
     const [taskToAutomate, setTaskToAutomate] = useState<Task | null>(null);
 
     const timerInterval = useRef<number | null>(null);
-    const notificationInterval = useRef<number | null>(null);
     const wakeLock = useRef<any | null>(null);
     const isInitialLoad = useRef(true);
     const timerWorker = useRef<Worker | null>(null);
@@ -218,23 +288,38 @@ const App: React.FC = () => {
     const tasksToday = useMemo(() => {
         const todayTasks = tasks.filter(t => t.due_date === todayString && !t.completed_at);
         if (settings.todaySortBy === 'priority') {
-            return todayTasks.sort((a, b) => {
+            todayTasks.sort((a, b) => {
                 const priorityA = a.priority ?? 5;
                 const priorityB = b.priority ?? 5;
                 if (priorityA !== priorityB) return priorityA - priorityB;
                 return (a.task_order ?? Infinity) - (b.task_order ?? Infinity);
             });
         }
-        return todayTasks;
+        // Unless another task is chosen, the timer works on tasksToday[0], so tasks still waiting on prerequisites go last.
+        return orderUnblockedFirst(todayTasks, tasks);
     }, [tasks, todayString, settings.todaySortBy]);
 
     const tasksForTomorrow = useMemo(() => tasks.filter(t => t.due_date === tomorrowString && !t.completed_at), [tasks, tomorrowString]);
     const tasksFuture = useMemo(() => tasks.filter(t => t.due_date > tomorrowString && !t.completed_at), [tasks, tomorrowString]);
     const completedToday = useMemo(() => tasks.filter(t => !!t.completed_at && t.due_date === todayString), [tasks, todayString]);
-    const isStopwatchMode = useMemo(() => appState.mode === 'focus' && tasksToday[0]?.total_poms < 0, [appState.mode, tasksToday]);
+    // The chosen task stays active until it's completed or removed; then the timer falls back to today's list.
+    const currentTask = useMemo(() => {
+        if (appState.activeTaskId === null) return undefined;
+        const chosen = appState.activeTaskId ? tasks.find(t => t.id === appState.activeTaskId && !t.completed_at) : undefined;
+        return chosen || tasksToday[0];
+    }, [appState.activeTaskId, tasks, tasksToday]);
+    const isFreeSession = appState.activeTaskId === null;
+    const isStopwatchMode = useMemo(() => appState.mode === 'focus' && currentTask?.total_poms < 0, [appState.mode, currentTask]);
     const activeCommitments = useMemo(() => {
         return allCommitments.filter(c => c.status === 'active' && (!c.due_date || c.due_date >= todayString));
     }, [allCommitments, todayString]);
+    // Today's weekday has its own best window once there's enough data for it; otherwise use all days.
+    const bestFocusWindow = useMemo(() => {
+        const since = new Date();
+        since.setDate(since.getDate() - FOCUS_WINDOW_LOOKBACK_DAYS);
+        const recentHistory = allPomodoroHistory.filter(h => new Date(h.ended_at) >= since);
+        return findBestFocusWindow(recentHistory, 2, (new Date().getDay() + 6) % 7) ?? findBestFocusWindow(recentHistory);
+    }, [allPomodoroHistory, todayString]);
     const [todayDbLog, setTodayDbLog] = useState<DbDailyLog | null>(null);
 
     useEffect(() => {
@@ -271,10 +356,33 @@ const App: React.FC = () => {
         });
         const newHistoricalLogs = Array.from(logsByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
         const calculatedTodayLog = logsByDate.get(today) || { date: today, completed_sessions: 0, total_focus_minutes: 0 };
-        const finalTodayLog = { ...calculatedTodayLog, challenges: todayDbLog?.challenges || null, improvements: todayDbLog?.improvements || null };
+        const finalTodayLog = {
+            ...calculatedTodayLog, challenges: todayDbLog?.challenges || null, improvements: todayDbLog?.improvements || null,
+            wins: todayDbLog?.wins || null, mood: todayDbLog?.mood ?? null, energy: todayDbLog?.energy ?? null,
+            tomorrow_priorities: todayDbLog?.tomorrow_priorities || null, reviewed_at: todayDbLog?.reviewed_at || null, check_in: todayDbLog?.check_in || null,
+        };
         return { dailyLog: finalTodayLog, historicalLogs: newHistoricalLogs };
     }, [allPomodoroHistory, todayDbLog]);
 
+    useEffect(() => {
+        if (!session || isLoading || dailyLog.reviewed_at) return;
+        const prompt = async () => {
+            const today = getTodayDateString();
+            if (localStorage.getItem(DAILY_REVIEW_PROMPTED_KEY) === today) return;
+            // Today's log may not have loaded yet, so check the stored review directly.
+            const [log] = await dbService.getHistoricalLogs(today, today);
+            if (log?.reviewed_at) return;
+            localStorage.setItem(DAILY_REVIEW_PROMPTED_KEY, today);
+            setIsReflectionModalOpen(true);
+        };
+        const promptAt = new Date();
+        promptAt.setHours(DAILY_REVIEW_PROMPT_HOUR, 0, 0, 0);
+        const delay = promptAt.getTime() - Date.now();
+        if (delay <= 0) { prompt(); return; }
+        const timeout = window.setTimeout(prompt, delay);
+        return () => clearTimeout(timeout);
+    }, [session, isLoading, dailyLog.reviewed_at, todayString]);
+
     const triggerCelebration = useCallback((message: string) => {
         if (!celebration) {
             resumeAudioContext();
@@ -328,11 +436,18 @@ const App: React.FC = () => {
     }, [dailyLog, prevDailyLog, historicalLogs, todayString, triggerCelebration]);
 
     useEffect(() => {
+        if (getStorageMode() === 'local') {
+            setSession(getLocalSession());
+            return;
+        }
+
         supabase.auth.getSession().then(({ data: { session } }) => {
             setSession(session);
         });
 
         const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+            // Local mode may have been chosen on the auth page after this listener was attached.
+            if (getStorageMode() === 'local') return;
             setSession(session);
         });
 
@@ -342,11 +457,17 @@ const App: React.FC = () => {
     useEffect(() => {
         const urlParams = new URLSearchParams(window.location.search);
         const pageParam = urlParams.get('page');
-        if (pageParam && ['timer', 'plan', 'stats', 'ai', 'settings', 'goals'].includes(pageParam)) {
+        if (pageParam && ['timer', 'plan', 'stats', 'review', 'ai', 'settings', 'goals'].includes(pageParam)) {
             setPage(pageParam as Page);
             window.history.replaceState({}, document.title, window.location.pathname);
         }
 
+        const notificationActionParam = urlParams.get('notificationAction');
+        if (notificationActionParam) {
+            setPendingNotificationAction(notificationActionParam);
+            window.history.replaceState({}, document.title, window.location.pathname);
+        }
+
         const actionParam = urlParams.get('action');
         if (actionParam === 'start-focus') {
             setPage('timer');
@@ -419,19 +540,63 @@ const App: React.FC = () => {
         if (memories) setAiMemories(memories);
     }, [session]);
 
+    const refreshWeeklyReviews = useCallback(async () => {
+        if (!session) return;
+        const reviews = await dbService.getWeeklyReviews();
+        if (reviews) setWeeklyReviews(reviews);
+    }, [session]);
+
     const refreshNotifications = useCallback(async () => {
         if (!session) return;
         const userNotifications = await dbService.getNotifications();
         if (userNotifications) setNotifications(userNotifications);
     }, [session]);
 
+    useEffect(() => offlineQueue.subscribeToQueue(setQueuedMutations), []);
+
+    // Replays writes made while offline, then reloads the data they touch.
+    const syncOfflineQueue = useCallback(async () => {
+        if (!session) return;
+        const synced = await offlineQueue.replayQueue();
+        if (synced > 0) {
+            await Promise.all([refreshTasks(), refreshHistoryAndLogs(), refreshProjects(), refreshTargets()]);
+            setToastNotification(`🔄 Synced ${synced} offline change${synced === 1 ? '' : 's'}.`);
+        }
+    }, [session, refreshTasks, refreshHistoryAndLogs, refreshProjects, refreshTargets]);
+
+    useEffect(() => {
+        syncOfflineQueue();
+        window.addEventListener('online', syncOfflineQueue);
+        return () => window.removeEventListener('online', syncOfflineQueue);
+    }, [syncOfflineQueue]);
+
+    // Queued writes keep their optimistic state; refreshing now would overwrite it with stale server data.
+    const reportUnsyncedWrite = (status: offlineQueue.WriteStatus) => {
+        if (status === 'queued') {
+            setToastNotification('📴 Offline — saved locally, will sync when back online.');
+            if (navigator.onLine) syncOfflineQueue();
+        } else if (status === 'failed') {
+            setToastNotification('⚠️ Sync failed — kept in the sync queue to retry.');
+        }
+    };
+
+    const handleRetryQueuedMutation = async (id: number) => {
+        const synced = await offlineQueue.retryMutation(id);
+        if (synced > 0) await Promise.all([refreshTasks(), refreshHistoryAndLogs(), refreshProjects(), refreshTargets()]);
+    };
+
+    const handleDiscardQueuedMutation = async (id: number) => {
+        await offlineQueue.discardMutation(id);
+        await Promise.all([refreshTasks(), refreshHistoryAndLogs()]);
+    };
+
     const fetchData = useCallback(async (showLoading = true) => {
         if (!session) return;
         if (showLoading) setIsLoading(true);
         try {
             const newTasksCreatedFromRecurring = await dbService.processRecurringTasks();
 
-            const [userSettings, userTasks, userProjects, userGoals, userTargets, userCommitments, allPomodoroHistoryForRange, userAiMemories, userNotifications, userRecurringTasks] = await Promise.all([
+            const [userSettings, userTasks, userProjects, userGoals, userTargets, userCommitments, allPomodoroHistoryForRange, userAiMemories, userNotifications, userRecurringTasks, userWeeklyReviews] = await Promise.all([
                 dbService.getSettings(),
                 dbService.getTasks(),
                 dbService.getProjects(),
@@ -443,6 +608,7 @@ const App: React.FC = () => {
                 dbService.getAiMemories(),
                 dbService.getNotifications(),
                 dbService.getRecurringTasks(),
+                dbService.getWeeklyReviews(),
             ]);
 
             if (userRecurringTasks) setRecurringTasks(userRecurringTasks);
@@ -475,13 +641,15 @@ const App: React.FC = () => {
             if (userTargets) setTargets(augmentTargetsWithStatus(userTargets));
             if (userAiMemories) setAiMemories(userAiMemories);
             if (userNotifications) setNotifications(userNotifications);
+            if (userWeeklyReviews) setWeeklyReviews(userWeeklyReviews);
 
             if (showLoading && !didRestoreFromStorage) {
                 const initialTasks = newTasksCreatedFromRecurring ? await dbService.getTasks() : userTasks;
-                const firstTask = initialTasks?.filter(t => t.due_date === getTodayDateString() && !t.completed_at)[0];
+                const firstTask = initialTasks ? orderUnblockedFirst(initialTasks.filter(t => t.due_date === getTodayDateString() && !t.completed_at), initialTasks)[0] : undefined;
                 const isStopwatch = firstTask?.total_poms < 0;
-                const initialFocusTime = isStopwatch ? 0 : (firstTask?.custom_focus_duration || userSettings?.focusDuration || 25) * 60;
-                const initialTotalTime = isStopwatch ? (firstTask?.custom_focus_duration || userSettings?.focusDuration || 25) * 60 : initialFocusTime;
+                const initialFocusMinutes = userSettings ? getTimerDurations(firstTask, userSettings).focusDuration : (firstTask?.custom_focus_duration || 25);
+                const initialFocusTime = isStopwatch ? 0 : initialFocusMinutes * 60;
+                const initialTotalTime = isStopwatch ? initialFocusMinutes * 60 : initialFocusTime;
 
                 setAppState(prev => ({
                     ...prev,
@@ -507,8 +675,10 @@ const App: React.FC = () => {
             const { initialState } = getInitialAppState();
             setAppState(initialState);
             setPhaseEndTime(null);
+            setFocusSessionDetails(null);
+            setBreakSessionDetails(null);
             setDidRestoreFromStorage(false);
-            setSettings({ focusDuration: 25, breakDuration: 5, sessionsPerCycle: 2, todaySortBy: 'default', dailyFocusTarget: null, dailyFocusTargetsByDay: null });
+            setSettings({ focusDuration: 25, breakDuration: 5, longBreakDuration: 15, sessionsPerCycle: 2, autoStartNextPhase: false, customTimerPresets: [], breakActivities: dbService.DEFAULT_BREAK_ACTIVITIES, soundMixes: [], autoPlaySoundscape: false, soundSettings: DEFAULT_SOUND_SETTINGS, todaySortBy: 'default', splitSessionCredit: 'proportional', wellbeingCheckIns: true, dailyFocusTarget: null, dailyFocusTargetsByDay: null });
             setTasks([]);
             setRecurringTasks([]);
             setProjects([]);
@@ -518,6 +688,7 @@ const App: React.FC = () => {
             setTodaysHistory([]);
             setAllPomodoroHistory([]);
             setAiMemories([]);
+            setWeeklyReviews([]);
             setNotifications([]);
             setAiChatMessages([{ role: 'model', text: 'Hello! I am your AI Coach. I have access to your goals, projects, and performance data. Ask me for insights, a weekly plan, or to add tasks for you!' }]);
             localStorage.removeItem('pomodoroAppState');
@@ -533,19 +704,19 @@ const App: React.FC = () => {
         }
         if (appState.isRunning) return;
 
-        const currentTask = tasksToday[0];
         if (appState.timeRemaining > 0 && appState.timeRemaining < appState.sessionTotalTime) return;
 
         if (appState.mode === 'focus') {
             let newTime;
             let newTotalTime;
-            if (tasksToday.length === 0) {
+            if (!currentTask && !isFreeSession) {
                 newTime = 0;
                 newTotalTime = 0;
             } else {
                 const isCurrentStopwatch = currentTask?.total_poms < 0;
-                newTime = isCurrentStopwatch ? 0 : (currentTask?.custom_focus_duration || settings.focusDuration) * 60;
-                newTotalTime = isCurrentStopwatch ? (currentTask?.custom_focus_duration || settings.focusDuration) * 60 : newTime;
+                const focusMinutes = getTimerDurations(currentTask, settings).focusDuration;
+                newTime = isCurrentStopwatch ? 0 : focusMinutes * 60;
+                newTotalTime = isCurrentStopwatch ? focusMinutes * 60 : newTime;
             }
 
             if (appState.timeRemaining !== newTime || appState.sessionTotalTime !== newTotalTime) {
@@ -556,7 +727,7 @@ const App: React.FC = () => {
                 }));
             }
         }
-    }, [isLoading, isInitialLoad, appState.isRunning, appState.mode, appState.timeRemaining, appState.sessionTotalTime, tasksToday, settings.focusDuration]);
+    }, [isLoading, isInitialLoad, appState.isRunning, appState.mode, appState.timeRemaining, appState.sessionTotalTime, currentTask, isFreeSession, settings]);
 
     // ... (Keep existing useEffects for background color, keyboard listener, PWA install, Notifications)
     // NOTE: Background color effect can be removed as we handle it via CSS now for a dark theme.
@@ -609,6 +780,9 @@ const App: React.FC = () => {
         setInstallPrompt(null);
     };
 
+    // The in-page modal and notification list cover a visible tab; otherwise reach the user through the OS.
+    const shouldShowSystemNotification = () => document.visibilityState !== 'visible' || settings.soundSettings.silentMode;
+
     // Notification Logic (Keep exactly as original, abbreviated here for brevity but it exists in full context)
     useEffect(() => {
         if (isLoading || !session) return;
@@ -621,16 +795,28 @@ const App: React.FC = () => {
                 newNotifications.push({ unique_id, message, type });
             }
         };
+        // Habit streaks: one alert when a missed occurrence ends a streak worth keeping.
+        const recentMissCutoff = getTodayDateString(new Date(Date.now() - 2 * 24 * 60 * 60 * 1000));
+        recurringTasks.filter(template => template.is_active !== false).forEach(template => {
+            const { brokenOn, brokenLength } = getHabitStats(tasks.filter(t => t.template_task_id === template.id), todayString);
+            if (brokenOn && brokenLength >= HABIT_STREAK_ALERT_MIN && brokenOn >= recentMissCutoff) {
+                const missedOn = new Date(brokenOn + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'long' });
+                createNotificationPayload(`habit-streak-${template.id}-${brokenOn}`, `💔 Your ${brokenLength}-in-a-row streak for "${template.text}" ended on ${missedOn}. Start a new one today!`, 'alert');
+            }
+        });
         // ... (Rest of notification logic remains unchanged)
         if (newNotifications.length > 0) {
             const addAndRefreshNotifications = async () => {
                 await dbService.addNotifications(newNotifications);
                 playNotificationSound();
+                if (shouldShowSystemNotification()) {
+                    newNotifications.forEach(n => showSystemNotification('FocusFlow', n.message, { tag: n.unique_id, data: { page: n.type === 'deadline' || n.type === 'milestone' ? 'goals' : 'plan' } }));
+                }
                 await refreshNotifications();
             };
             addAndRefreshNotifications();
         }
-    }, [isLoading, session, tasks, projects, targets, historicalLogs, notifications, clearedNotificationIds, allPomodoroHistory, refreshNotifications]);
+    }, [isLoading, session, tasks, recurringTasks, todayString, projects, targets, historicalLogs, notifications, clearedNotificationIds, allPomodoroHistory, refreshNotifications]);
 
     const handleMarkNotificationRead = async (id: string) => {
         const updated = await dbService.markNotificationRead(id);
@@ -652,24 +838,53 @@ const App: React.FC = () => {
     };
 
     // ... (Timer Logic: stopTimer, resetTimer, startTimer, completePhase - Keep unchanged)
-    const stopTimer = useCallback(() => {
+    // Shares the timer with the user's other devices; see applyRemoteActiveSession for the receiving side.
+    const publishActiveSession = useCallback((state: AppState, endTime: number | null, taskId: string | null) => {
+        dbService.saveActiveSession({ mode: state.mode, task_id: taskId, phase_end_time: endTime, current_session: state.currentSession, time_remaining: state.timeRemaining, session_total_time: state.sessionTotalTime, is_running: state.isRunning });
+    }, []);
+
+    const haltTimer = useCallback(() => {
         setAppState(prev => ({ ...prev, isRunning: false }));
         if (!isStopwatchMode) setPhaseEndTime(null);
         timerWorker.current?.postMessage({ command: 'stop' });
     }, [isStopwatchMode]);
 
-    const resetTimer = useCallback(() => {
-        stopTimer();
-        const firstTask = tasksToday.find(t => !t.completed_at);
-        const isStopwatch = firstTask?.total_poms < 0;
+    const stopTimer = useCallback(() => {
+        haltTimer();
+        if (appState.mode === 'focus') {
+            setFocusSessionDetails(prev => prev && { ...prev, interruptions: [...prev.interruptions, { paused_at: new Date().toISOString(), resumed_at: null, reason: null }] });
+        }
+        publishActiveSession({ ...appState, isRunning: false }, null, currentTask?.id ?? null);
+    }, [haltTimer, publishActiveSession, appState, currentTask]);
+
+    const handleSetInterruptionReason = (reason: string | null) => {
+        setFocusSessionDetails(prev => {
+            if (!prev || prev.interruptions.length === 0) return prev;
+            const interruptions = [...prev.interruptions];
+            interruptions[interruptions.length - 1] = { ...interruptions[interruptions.length - 1], reason };
+            return { ...prev, interruptions };
+        });
+    };
+
+    const resetTimerState = useCallback(() => {
+        haltTimer();
+        setFocusSessionDetails(null);
+        setBreakSessionDetails(null);
+        const isStopwatch = currentTask?.total_poms < 0;
+        const focusMinutes = getTimerDurations(currentTask, settings).focusDuration;
         let time, totalTime;
         if (isStopwatch) {
-            time = 0; totalTime = (firstTask?.custom_focus_duration || settings.focusDuration) * 60;
+            time = 0; totalTime = focusMinutes * 60;
         } else {
-            time = (firstTask?.custom_focus_duration || settings.focusDuration) * 60; totalTime = time;
+            time = focusMinutes * 60; totalTime = time;
         }
         setAppState(prev => ({ ...prev, mode: 'focus', currentSession: 1, timeRemaining: time, sessionTotalTime: totalTime }));
-    }, [stopTimer, settings.focusDuration, tasksToday]);
+    }, [haltTimer, settings, currentTask]);
+
+    const resetTimer = useCallback(() => {
+        resetTimerState();
+        dbService.clearActiveSession();
+    }, [resetTimerState]);
 
     const playStartSound = useCallback(() => {
         if (appState.mode === 'focus') playFocusStartSound(); else playBreakStartSound();
@@ -677,15 +892,16 @@ const App: React.FC = () => {
 
     const startTimer = useCallback(async () => {
         if (appState.isRunning) return;
-        if (appState.mode === 'focus' && tasksToday.length === 0) {
-            setToastNotification("Please add a task to start a focus session.");
+        if (appState.mode === 'focus' && !currentTask && !isFreeSession) {
+            setToastNotification("Please add a task or start a free session to begin focusing.");
             return;
         }
         resumeAudioContext();
         playStartSound();
 
+        const endTime = isStopwatchMode ? null : Date.now() + appState.timeRemaining * 1000;
         if (!isStopwatchMode) {
-            setPhaseEndTime(Date.now() + appState.timeRemaining * 1000);
+            setPhaseEndTime(endTime);
             timerWorker.current?.postMessage({ command: 'start', duration: appState.timeRemaining * 1000 });
         } else {
             const duration = appState.sessionTotalTime - appState.timeRemaining;
@@ -694,31 +910,47 @@ const App: React.FC = () => {
             }
         }
         setAppState(prev => ({ ...prev, isRunning: true }));
-    }, [appState.isRunning, appState.timeRemaining, isStopwatchMode, appState.mode, tasksToday, playStartSound, appState.sessionTotalTime]);
+        if (appState.mode === 'focus') {
+            const now = new Date().toISOString();
+            setFocusSessionDetails(prev => prev
+                ? { ...prev, interruptions: prev.interruptions.map(i => i.resumed_at ? i : { ...i, resumed_at: now }) }
+                : { started_at: now, interruptions: [] });
+        }
+        publishActiveSession({ ...appState, isRunning: true }, endTime, currentTask?.id ?? null);
+    }, [appState, isStopwatchMode, currentTask, isFreeSession, playStartSound, publishActiveSession]);
 
     const completePhase = useCallback(async () => {
         if (isModalVisible) return;
-        stopTimer();
-        notificationInterval.current = window.setInterval(playAlertLoop, 3000);
-        playAlertLoop();
+        // Every device reaches the phase end on its own; the one that continues publishes the next phase.
+        haltTimer();
+        startAlertLoop();
+        let content: typeof modalContent;
         if (appState.mode === 'focus') {
             playFocusEndSound();
-            if (appState.currentSession >= settings.sessionsPerCycle) {
-                setModalContent({ title: '🎉 Full Cycle Complete!', message: 'Congratulations! You completed a full study cycle.<br/>Take a well-deserved break!', nextMode: 'break', showCommentBox: true });
+            const durations = getTimerDurations(currentTask, settings);
+            if (isLongBreakDue(appState.currentSession, durations)) {
+                content = { title: '🎉 Full Cycle Complete!', message: `Congratulations! You completed a full study cycle.<br/>Enjoy a ${durations.longBreakDuration}-minute long break!`, nextMode: 'break', showCommentBox: true };
             } else {
-                setModalContent({ title: '⏰ Focus Complete!', message: 'Great work! Time for a break.', nextMode: 'break', showCommentBox: true });
+                content = { title: '⏰ Focus Complete!', message: `Great work! Time for a ${durations.breakDuration}-minute break.`, nextMode: 'break', showCommentBox: true };
             }
         } else {
             playBreakEndSound();
-            const activeTask = tasksToday.find(t => t.completed_at === null);
-            const nextTaskMessage = activeTask ? `Next task: <br><strong>${activeTask.text}</strong>` : 'Add a new task to get started!';
-            setModalContent({ title: '⏰ Break Over!', message: nextTaskMessage, nextMode: 'focus', showCommentBox: false });
+            const endedAt = new Date().toISOString();
+            setBreakSessionDetails(prev => prev && !prev.ended_at ? { ...prev, ended_at: endedAt, duration_seconds: appState.sessionTotalTime } : prev);
+            const nextTaskMessage = currentTask ? `Next task: <br><strong>${currentTask.text}</strong>` : isFreeSession ? 'Next up: a free session.' : 'Add a new task to get started!';
+            content = { title: '⏰ Break Over!', message: nextTaskMessage, nextMode: 'focus', showCommentBox: false };
+        }
+        setModalContent(content);
+        if (shouldShowSystemNotification()) {
+            const actions = appState.mode === 'focus'
+                ? [{ action: 'continue', title: 'Start break' }, { action: 'snooze', title: `+${PHASE_SNOOZE_MINUTES} min` }, ...(currentTask ? [{ action: 'complete-task', title: 'Complete task' }] : [])]
+                : [{ action: 'continue', title: 'Start focus' }, { action: 'snooze', title: `+${PHASE_SNOOZE_MINUTES} min` }];
+            showSystemNotification(content.title, content.message, { tag: PHASE_NOTIFICATION_TAG, actions, data: { page: 'timer' } });
         }
         setIsModalVisible(true);
-    }, [appState, settings, stopTimer, tasksToday, isModalVisible]);
+    }, [appState, settings, haltTimer, currentTask, isFreeSession, isModalVisible]);
 
     useEffect(() => {
-        const currentTask = tasksToday[0];
         const isCurrentTaskStopwatch = appState.mode === 'focus' && currentTask?.total_poms < 0;
         if (appState.isRunning && !isModalVisible) {
             if (!isCurrentTaskStopwatch && appState.timeRemaining <= 0) {
@@ -733,22 +965,92 @@ const App: React.FC = () => {
             totalTimeForTitle = baseTime + appState.timeRemaining;
         }
         document.title = `${Math.floor(totalTimeForTitle / 60).toString().padStart(2, '0')}:${(totalTimeForTitle % 60).toString().padStart(2, '0')} - ${appState.mode === 'focus' ? 'Focus' : 'Break'} | FocusFlow`;
-    }, [appState, settings.focusDuration, completePhase, tasksToday, todaysHistory, isModalVisible]);
+    }, [appState, settings.focusDuration, completePhase, currentTask, todaysHistory, isModalVisible]);
+
+    // Adopts a timer change made on another device. A remote continue also dismisses this device's completion modal.
+    const applyRemoteActiveSession = (remote: ActiveSession | null) => {
+        if (isModalVisible) {
+            stopAlertLoop();
+            closeSystemNotifications(PHASE_NOTIFICATION_TAG);
+            setIsModalVisible(false);
+        }
+        const phaseChanged = !remote || remote.mode !== appState.mode || remote.current_session !== appState.currentSession || remote.task_id !== (currentTask?.id ?? null);
+        if (phaseChanged) {
+            Promise.all([refreshTasks(), refreshHistoryAndLogs()]);
+            // The device that moved the phase on logs the break it ended.
+            setBreakSessionDetails(null);
+        }
+
+        if (!remote) {
+            resetTimerState();
+            return;
+        }
+        const isRemoteStopwatch = remote.phase_end_time === null;
+        let timeRemaining = remote.time_remaining;
+        if (remote.is_running) {
+            timeRemaining = isRemoteStopwatch
+                ? remote.time_remaining + Math.max(0, Math.round((Date.now() - new Date(remote.updated_at).getTime()) / 1000))
+                : Math.max(0, Math.round((remote.phase_end_time! - Date.now()) / 1000));
+        }
+        // Follow the other device's task choice; a task-less session while tasks are waiting was a free session.
+        const activeTaskId = remote.task_id ? (remote.task_id === tasksToday[0]?.id ? undefined : remote.task_id) : (tasksToday.length > 0 ? null : undefined);
+        setAppState({ mode: remote.mode, currentSession: remote.current_session, timeRemaining, sessionTotalTime: remote.session_total_time, isRunning: remote.is_running, activeTaskId });
+        setPhaseEndTime(remote.is_running ? remote.phase_end_time : null);
+        if (remote.is_running) {
+            const duration = isRemoteStopwatch ? (remote.session_total_time - timeRemaining) * 1000 : timeRemaining * 1000;
+            timerWorker.current?.postMessage({ command: 'start', duration });
+        } else {
+            timerWorker.current?.postMessage({ command: 'stop' });
+        }
+    };
+    const remoteSessionHandlerRef = useRef(applyRemoteActiveSession);
+    useEffect(() => { remoteSessionHandlerRef.current = applyRemoteActiveSession; });
+
+    useEffect(() => {
+        if (!session || isLoading) return;
+        let cancelled = false;
+        // The server copy wins over the localStorage restore; if there is none, share this device's running timer.
+        dbService.getActiveSession().then(remote => {
+            if (cancelled) return;
+            if (remote) remoteSessionHandlerRef.current(remote);
+            else if (appState.isRunning || (appState.timeRemaining > 0 && appState.timeRemaining !== appState.sessionTotalTime)) publishActiveSession(appState, phaseEndTime, currentTask?.id ?? null);
+        });
+        const unsubscribe = dbService.subscribeToActiveSession(session.user.id, remote => remoteSessionHandlerRef.current(remote));
+        return () => { cancelled = true; unsubscribe(); };
+    }, [session?.user.id, isLoading]);
+
+    useEffect(() => {
+        configureSounds(settings.soundSettings);
+    }, [settings.soundSettings]);
+
+    useEffect(() => {
+        getCustomSounds().then(loadCustomSounds);
+    }, []);
+
+    // With auto-play on, the soundscape follows the timer: the task's own mix (or the last one used) plays during focus.
+    useEffect(() => {
+        if (!settings.autoPlaySoundscape) return;
+        if (appState.mode === 'focus' && appState.isRunning) {
+            playSoundscape(getTaskSoundMix(currentTask, settings) || undefined);
+        } else if (appState.mode === 'break') {
+            fadeOutSoundscape();
+        }
+    }, [settings.autoPlaySoundscape, settings.soundMixes, appState.mode, appState.isRunning, currentTask?.id]);
 
     // Persistence Logic
     useEffect(() => {
         if (!session) return;
-        const currentTask = tasksToday[0];
         const isCurrentStopwatch = currentTask?.total_poms < 0;
         const isPristineCountdown = !isCurrentStopwatch && appState.timeRemaining === appState.sessionTotalTime;
         const isPristineStopwatch = isCurrentStopwatch && appState.timeRemaining === 0;
-        if (!appState.isRunning && (isPristineCountdown || isPristineStopwatch)) {
+        // An untouched timer is only worth keeping when it remembers a chosen task.
+        if (!appState.isRunning && (isPristineCountdown || isPristineStopwatch) && appState.activeTaskId === undefined) {
             localStorage.removeItem('pomodoroAppState');
         } else {
-            const stateToSave = { savedAppState: appState, savedPhaseEndTime: phaseEndTime };
+            const stateToSave = { savedAppState: appState, savedPhaseEndTime: phaseEndTime, savedSessionDetails: focusSessionDetails, savedBreakDetails: breakSessionDetails };
             localStorage.setItem('pomodoroAppState', JSON.stringify(stateToSave));
         }
-    }, [appState, phaseEndTime, session, tasksToday]);
+    }, [appState, phaseEndTime, focusSessionDetails, breakSessionDetails, session, currentTask]);
 
     useEffect(() => {
         const requestWakeLock = async () => {
@@ -782,26 +1084,37 @@ const App: React.FC = () => {
 
     // Task Handlers (Keep exactly as original: handleCompleteStopwatchTask, handleModalContinue, handleUpdateTaskTimers, handleUpdateTask, handleAddTask, handleDeleteTask, etc.)
     const handleCompleteStopwatchTask = async () => {
-        const currentTask = tasksToday.find(t => !t.completed_at);
         if (!currentTask || currentTask.total_poms >= 0) return;
         const preUpdateState = { appState: { ...appState }, tasks: [...tasks], phaseEndTime };
-        stopTimer();
+        haltTimer();
+        dbService.clearActiveSession();
         const sessionDurationMinutes = Math.round(appState.timeRemaining / 60);
         const optimisticTasks = tasks.map(t => t.id === currentTask.id ? { ...t, completed_at: new Date().toISOString() } : t);
         setTasks(optimisticTasks);
-        const nextTask = optimisticTasks.filter(t => t.due_date === todayString && !t.completed_at)[0];
+        const nextTask = orderUnblockedFirst(optimisticTasks.filter(t => t.due_date === todayString && !t.completed_at), optimisticTasks)[0];
         const isNextStopwatch = nextTask?.total_poms < 0;
-        const newTime = isNextStopwatch ? 0 : (nextTask?.custom_focus_duration || settings.focusDuration) * 60;
-        const newTotalTime = isNextStopwatch ? (nextTask?.custom_focus_duration || settings.focusDuration) * 60 : newTime;
+        const nextFocusMinutes = getTimerDurations(nextTask, settings).focusDuration;
+        const newTime = isNextStopwatch ? 0 : nextFocusMinutes * 60;
+        const newTotalTime = isNextStopwatch ? nextFocusMinutes * 60 : newTime;
         setAppState({ mode: 'focus', currentSession: 1, timeRemaining: newTime, sessionTotalTime: newTotalTime, isRunning: false });
         setPhaseEndTime(null);
+        setFocusSessionDetails(null);
         setIsSyncing(true);
         const remainingTasksToday = optimisticTasks.filter(t => t.due_date === todayString && !t.completed_at);
         if (remainingTasksToday.length === 0) setIsReflectionModalOpen(true);
         try {
-            if (sessionDurationMinutes > 0) await dbService.addPomodoroHistory(currentTask.id, sessionDurationMinutes, null);
-            await dbService.updateTask(currentTask.id, { completed_at: new Date().toISOString() });
-            if (currentTask.project_id) await dbService.addProjectUpdate(currentTask.project_id, todayString, `Completed task: "${currentTask.text}"`, currentTask.id);
+            const endedAt = new Date().toISOString();
+            const sessionDetails = finalizeSessionDetails(focusSessionDetails, endedAt);
+            const statuses: offlineQueue.WriteStatus[] = [];
+            if (sessionDurationMinutes > 0) statuses.push((await offlineQueue.runOrQueue('addPomodoroHistory', currentTask.id, sessionDurationMinutes, null, endedAt, sessionDetails)).status);
+            statuses.push((await offlineQueue.runOrQueue('updateTask', currentTask.id, { completed_at: endedAt })).status);
+            if (currentTask.project_id) statuses.push((await offlineQueue.runOrQueue('addProjectUpdate', currentTask.project_id, todayString, `Completed task: "${currentTask.text}"`, currentTask.id)).status);
+            const unsyncedStatus = statuses.find(status => status !== 'synced');
+            if (unsyncedStatus) {
+                if (sessionDurationMinutes > 0) processAndSetHistoryData([...allPomodoroHistory, { id: `local-${Date.now()}`, user_id: currentTask.user_id, task_id: currentTask.id, ended_at: endedAt, duration_minutes: sessionDurationMinutes, difficulty: null, ...sessionDetails }]);
+                reportUnsyncedWrite(unsyncedStatus);
+                return;
+            }
             await Promise.all([refreshTasks(), refreshHistoryAndLogs(), refreshProjects(), refreshTargets()]);
             setToastNotification('Task completed and time saved!');
         } catch (error) {
@@ -809,61 +1122,88 @@ const App: React.FC = () => {
         } finally { setIsSyncing(false); }
     };
 
-    const handleModalContinue = (comment: string, focusLevel: FocusLevel | null) => {
+    const handleModalContinue = (comment: string, focusLevel: FocusLevel | null, content = modalContent, endedBreak = breakSessionDetails, completeTask = false, checkIn: WellbeingCheckIn | null = null) => {
         if (isSyncing) return;
         const preUpdateState = { appState, tasks, phaseEndTime };
-        if (notificationInterval.current) clearInterval(notificationInterval.current);
+        stopAlertLoop();
+        closeSystemNotifications(PHASE_NOTIFICATION_TAG);
         setIsModalVisible(false);
         setIsSyncing(true);
         playStartSound();
 
-        const wasFocusSession = modalContent.showCommentBox;
-        const taskJustWorkedOn = tasksToday.find(t => !t.completed_at);
+        const wasFocusSession = content.showCommentBox;
+        const taskJustWorkedOn = currentTask;
         const sessionTotalTime = appState.sessionTotalTime;
+        const sessionEndedAt = new Date().toISOString();
+        const sessionDetails = wasFocusSession ? finalizeSessionDetails(focusSessionDetails, sessionEndedAt, checkIn) : undefined;
+        const sessionSubtasks = wasFocusSession ? getSubtasksCompletedSince(taskJustWorkedOn, focusSessionDetails?.started_at) : [];
+        const commentWithSubtasks = appendSubtaskSummary(comment, sessionSubtasks);
+        // A session that switched tasks is logged per segment, with the pomodoro shared out by the configured rule.
+        const splitLogs = wasFocusSession && sessionDetails && (sessionDetails.segments?.length ?? 0) > 1 ? splitFocusSession(sessionDetails, sessionTotalTime, sessionEndedAt, settings.splitSessionCredit) : null;
+        const getPomCredit = (taskId: string) => splitLogs ? splitLogs.filter(l => l.task_id === taskId).reduce((sum, l) => sum + l.pom_credit, 0) : 1;
         let optimisticUpdatedTask: Task | null = null;
         if (wasFocusSession && taskJustWorkedOn) {
             optimisticUpdatedTask = {
                 ...taskJustWorkedOn,
-                completed_poms: taskJustWorkedOn.total_poms < 0 ? taskJustWorkedOn.completed_poms : taskJustWorkedOn.completed_poms + 1,
-                comments: comment ? [...(taskJustWorkedOn.comments || []), comment] : taskJustWorkedOn.comments,
+                completed_poms: taskJustWorkedOn.total_poms < 0 ? taskJustWorkedOn.completed_poms : Math.round((taskJustWorkedOn.completed_poms + getPomCredit(taskJustWorkedOn.id)) * 10) / 10,
+                comments: commentWithSubtasks ? [...(taskJustWorkedOn.comments || []), commentWithSubtasks] : taskJustWorkedOn.comments,
             };
-            if (taskJustWorkedOn.total_poms > 0 && optimisticUpdatedTask.completed_poms >= taskJustWorkedOn.total_poms) {
+            if (completeTask || (taskJustWorkedOn.total_poms > 0 && optimisticUpdatedTask.completed_poms >= taskJustWorkedOn.total_poms)) {
                 optimisticUpdatedTask.completed_at = new Date().toISOString();
             }
         }
-        const optimisticTasks = optimisticUpdatedTask ? tasks.map(t => t.id === optimisticUpdatedTask!.id ? optimisticUpdatedTask! : t) : tasks;
+        const switchedAwayTasks = splitLogs ? tasks.filter(t => t.id !== taskJustWorkedOn?.id && t.total_poms >= 0 && getPomCredit(t.id) > 0).map(t => {
+            const completedPoms = Math.round((t.completed_poms + getPomCredit(t.id)) * 10) / 10;
+            return { ...t, completed_poms: completedPoms, completed_at: t.completed_at || (t.total_poms > 0 && completedPoms >= t.total_poms ? sessionEndedAt : null) };
+        }) : [];
+        const optimisticTasks = [optimisticUpdatedTask, ...switchedAwayTasks].reduce((list, updated) => updated ? list.map(t => t.id === updated.id ? updated : t) : list, tasks);
+        const toLocalHistory = (userId: string, focusDuration: number): PomodoroHistory[] => splitLogs
+            ? splitLogs.map((log, i) => ({ id: `local-${Date.now()}-${i}`, user_id: userId, task_id: log.task_id, ended_at: log.ended_at, duration_minutes: log.duration_minutes, difficulty: focusLevel, pom_credit: log.pom_credit, ...log.details }))
+            : [{ id: `local-${Date.now()}`, user_id: userId, task_id: taskJustWorkedOn?.id ?? null, ended_at: sessionEndedAt, duration_minutes: focusDuration, difficulty: focusLevel, ...sessionDetails }];
         if (wasFocusSession && taskJustWorkedOn && optimisticUpdatedTask?.completed_at) {
             const remainingTasksToday = optimisticTasks.filter(t => t.due_date === todayString && !t.completed_at);
             if (remainingTasksToday.length === 0) setIsReflectionModalOpen(true);
         }
 
-        const nextMode = modalContent.nextMode;
+        const nextMode = content.nextMode;
         const currentSessionNumber = appState.currentSession;
-        const sessionsPerCycle = settings.sessionsPerCycle;
-        const newCurrentSession = nextMode === 'focus' ? (currentSessionNumber >= sessionsPerCycle ? 1 : currentSessionNumber + 1) : currentSessionNumber;
+        const justWorkedOnDurations = getTimerDurations(taskJustWorkedOn, settings);
+        const newCurrentSession = nextMode === 'focus' ? (isLongBreakDue(currentSessionNumber, justWorkedOnDurations) ? 1 : currentSessionNumber + 1) : currentSessionNumber;
         let nextTaskForTimer: Task | undefined;
-        if (nextMode === 'break') { nextTaskForTimer = taskJustWorkedOn; } else {
+        if (nextMode === 'break' || isFreeSession) { nextTaskForTimer = taskJustWorkedOn; } else if (appState.activeTaskId && optimisticTasks.some(t => t.id === appState.activeTaskId && !t.completed_at)) {
+            nextTaskForTimer = optimisticTasks.find(t => t.id === appState.activeTaskId);
+        } else {
             const optimisticTasksToday = optimisticTasks.filter(t => t.due_date === todayString && !t.completed_at);
             if (settings.todaySortBy === 'priority') {
                 optimisticTasksToday.sort((a, b) => (a.priority ?? 5) - (b.priority ?? 5) || (a.task_order ?? Infinity) - (b.task_order ?? Infinity));
             }
-            nextTaskForTimer = optimisticTasksToday[0];
+            nextTaskForTimer = orderUnblockedFirst(optimisticTasksToday, optimisticTasks)[0];
         }
 
         let newTime, newTotalTime, isNextStopwatch = false;
         if (nextMode === 'break') {
-            newTime = (taskJustWorkedOn?.custom_break_duration || settings.breakDuration) * 60; newTotalTime = newTime;
+            newTime = (isLongBreakDue(currentSessionNumber, justWorkedOnDurations) ? justWorkedOnDurations.longBreakDuration : justWorkedOnDurations.breakDuration) * 60; newTotalTime = newTime;
         } else {
-            if (!nextTaskForTimer) { newTime = 0; newTotalTime = 0; } else {
+            if (isFreeSession) { newTime = getTimerDurations(undefined, settings).focusDuration * 60; newTotalTime = newTime; } else if (!nextTaskForTimer) { newTime = 0; newTotalTime = 0; } else {
                 isNextStopwatch = nextTaskForTimer.total_poms < 0;
-                if (isNextStopwatch) { newTime = 0; newTotalTime = (nextTaskForTimer.custom_focus_duration || settings.focusDuration) * 60; } else { newTime = (nextTaskForTimer.custom_focus_duration || settings.focusDuration) * 60; newTotalTime = newTime; }
+                const nextFocusMinutes = getTimerDurations(nextTaskForTimer, settings).focusDuration;
+                if (isNextStopwatch) { newTime = 0; newTotalTime = nextFocusMinutes * 60; } else { newTime = nextFocusMinutes * 60; newTotalTime = newTime; }
             }
         }
-        const shouldBeRunning = nextMode === 'break' || !!nextTaskForTimer;
+        const shouldBeRunning = nextMode === 'break' || !!nextTaskForTimer || isFreeSession;
         const newEndTime = shouldBeRunning && !isNextStopwatch ? Date.now() + newTime * 1000 : null;
-        setAppState(prev => ({ ...prev, mode: nextMode, currentSession: newCurrentSession, timeRemaining: newTime, sessionTotalTime: newTotalTime, isRunning: shouldBeRunning }));
+        // Finishing the chosen task hands the timer back to today's list.
+        const nextActiveTaskId = optimisticUpdatedTask?.completed_at ? undefined : appState.activeTaskId;
+        setAppState(prev => ({ ...prev, mode: nextMode, currentSession: newCurrentSession, timeRemaining: newTime, sessionTotalTime: newTotalTime, isRunning: shouldBeRunning, activeTaskId: nextActiveTaskId }));
         setPhaseEndTime(newEndTime);
         setTasks(optimisticTasks);
+        setFocusSessionDetails(nextMode === 'focus' && shouldBeRunning ? { started_at: new Date().toISOString(), interruptions: [] } : null);
+        const breakEntry = !wasFocusSession && endedBreak ? toBreakHistoryEntry(endedBreak, sessionEndedAt, sessionTotalTime) : null;
+        setBreakSessionDetails(nextMode === 'break' ? {
+            started_at: new Date().toISOString(), task_id: taskJustWorkedOn?.id ?? null, planned_minutes: Math.round(newTime / 60), extended_minutes: 0,
+            is_long_break: isLongBreakDue(currentSessionNumber, justWorkedOnDurations), activity: takeNextBreakActivity(settings.breakActivities), skipped: false, ended_at: null, duration_seconds: null,
+        } : null);
+        publishActiveSession({ mode: nextMode, currentSession: newCurrentSession, timeRemaining: newTime, sessionTotalTime: newTotalTime, isRunning: shouldBeRunning }, newEndTime, nextTaskForTimer?.id ?? null);
 
         if (shouldBeRunning) {
             const duration = isNextStopwatch ? newTotalTime * 1000 : newTime * 1000;
@@ -871,6 +1211,7 @@ const App: React.FC = () => {
         }
 
         const performAllUpdatesInBackground = async () => {
+            let writeStatus: offlineQueue.WriteStatus = 'synced';
             try {
                 if (wasFocusSession && taskJustWorkedOn) {
                     let taskComment = comment;
@@ -887,30 +1228,163 @@ const App: React.FC = () => {
                         dbService.addAiMemory('learning', cleanLearningContent, combinedTags, taskJustWorkedOn.id).then(newMemory => { if (newMemory) { setToastNotification('🧠 AI memory updated!'); refreshAiMemories(); } });
                     }
                     const focusDuration = Math.round(sessionTotalTime / 60);
-                    const updatedTask = await dbService.logPomodoroCompletion(taskJustWorkedOn, taskComment, focusDuration, focusLevel);
-                    if (!updatedTask) throw new Error("Failed to save pomodoro session.");
-                    const recalcPromises: Promise<any>[] = [];
-                    if (updatedTask.tags && updatedTask.tags.length > 0) { recalcPromises.push(dbService.recalculateProgressForAffectedTargets(updatedTask.tags, session?.user.id || '')); }
-                    await Promise.all(recalcPromises);
+                    // Target progress is recalculated inside the queued mutation so it also happens on replay.
+                    writeStatus = splitLogs
+                        ? (await offlineQueue.runOrQueue('logSplitPomodoroCompletion', splitLogs, appendSubtaskSummary(taskComment, sessionSubtasks), focusLevel)).status
+                        : (await offlineQueue.runOrQueue('logPomodoroCompletion', taskJustWorkedOn, appendSubtaskSummary(taskComment, sessionSubtasks), focusDuration, focusLevel, sessionEndedAt, sessionDetails)).status;
+                    if (completeTask) {
+                        const completeStatus = (await offlineQueue.runOrQueue('updateTask', taskJustWorkedOn.id, { completed_at: sessionEndedAt })).status;
+                        if (writeStatus === 'synced') writeStatus = completeStatus;
+                    }
+                    if (writeStatus !== 'synced') {
+                        processAndSetHistoryData([...allPomodoroHistory, ...toLocalHistory(taskJustWorkedOn.user_id, focusDuration)]);
+                    }
+                } else if (wasFocusSession && isFreeSession) {
+                    const focusDuration = Math.round(sessionTotalTime / 60);
+                    writeStatus = splitLogs
+                        ? (await offlineQueue.runOrQueue('logSplitPomodoroCompletion', splitLogs, '', focusLevel)).status
+                        : (await offlineQueue.runOrQueue('addPomodoroHistory', null, focusDuration, focusLevel, sessionEndedAt, sessionDetails)).status;
+                    if (writeStatus !== 'synced') {
+                        processAndSetHistoryData([...allPomodoroHistory, ...toLocalHistory(session!.user.id, focusDuration)]);
+                    }
                 }
-                setToastNotification('✅ Progress saved!');
+                if (breakEntry) writeStatus = (await offlineQueue.runOrQueue('addBreakHistory', breakEntry)).status;
+                if (writeStatus === 'synced') setToastNotification('✅ Progress saved!'); else reportUnsyncedWrite(writeStatus);
             } catch (err) {
                 console.error("Sync Error", err); setToastNotification("⚠️ Sync Failed! Restoring previous state."); setAppState(preUpdateState.appState); setTasks(preUpdateState.tasks); setPhaseEndTime(preUpdateState.phaseEndTime);
             } finally {
-                try { await Promise.all([refreshHistoryAndLogs(), refreshTasks(), refreshProjects(), refreshTargets()]); } catch (refreshErr) { console.error(refreshErr); setToastNotification("⚠️ Sync Error. Please refresh the page."); } finally { setIsSyncing(false); }
+                try { if (writeStatus === 'synced') await Promise.all([refreshHistoryAndLogs(), refreshTasks(), refreshProjects(), refreshTargets()]); } catch (refreshErr) { console.error(refreshErr); setToastNotification("⚠️ Sync Error. Please refresh the page."); } finally { setIsSyncing(false); }
             }
         };
         performAllUpdatesInBackground();
     };
 
+    // Ends the break now and goes straight to the next focus session, without the "Break Over" modal.
+    const handleSkipBreak = () => {
+        if (appState.mode !== 'break' || isModalVisible || isSyncing) return;
+        haltTimer();
+        const skippedBreak = breakSessionDetails && { ...breakSessionDetails, skipped: true, ended_at: new Date().toISOString(), duration_seconds: appState.sessionTotalTime - appState.timeRemaining };
+        handleModalContinue('', null, { title: '', message: '', nextMode: 'focus', showCommentBox: false }, skippedBreak);
+    };
+
+    const handleExtendBreak = () => {
+        if (appState.mode !== 'break') return;
+        const extraSeconds = BREAK_EXTENSION_MINUTES * 60;
+        const newState = { ...appState, timeRemaining: appState.timeRemaining + extraSeconds, sessionTotalTime: appState.sessionTotalTime + extraSeconds };
+        const newEndTime = appState.isRunning && phaseEndTime ? phaseEndTime + extraSeconds * 1000 : null;
+        setAppState(newState);
+        if (newEndTime) {
+            setPhaseEndTime(newEndTime);
+            timerWorker.current?.postMessage({ command: 'start', duration: newEndTime - Date.now() });
+        }
+        setBreakSessionDetails(prev => prev && { ...prev, extended_minutes: prev.extended_minutes + BREAK_EXTENSION_MINUTES });
+        publishActiveSession(newState, newEndTime, currentTask?.id ?? null);
+    };
+
+    // Reopens the phase that just ended for a few more minutes instead of moving on.
+    const handleSnoozePhase = () => {
+        if (!isModalVisible || isSyncing || isStopwatchMode) return;
+        stopAlertLoop();
+        closeSystemNotifications(PHASE_NOTIFICATION_TAG);
+        setIsModalVisible(false);
+        const extraSeconds = PHASE_SNOOZE_MINUTES * 60;
+        const newState = { ...appState, timeRemaining: extraSeconds, sessionTotalTime: appState.sessionTotalTime + extraSeconds, isRunning: true };
+        const newEndTime = Date.now() + extraSeconds * 1000;
+        setAppState(newState);
+        setPhaseEndTime(newEndTime);
+        timerWorker.current?.postMessage({ command: 'start', duration: extraSeconds * 1000 });
+        if (appState.mode === 'break') {
+            setBreakSessionDetails(prev => prev && { ...prev, ended_at: null, duration_seconds: null, extended_minutes: prev.extended_minutes + PHASE_SNOOZE_MINUTES });
+        }
+        publishActiveSession(newState, newEndTime, currentTask?.id ?? null);
+    };
+
+    const handleNotificationClick = (message: NotificationClickMessage) => {
+        const targetPage = message.data.page as Page | undefined;
+        if (targetPage) setPage(targetPage);
+        if (!isModalVisible) return;
+        if (message.action === 'continue') handleModalContinue('', null);
+        else if (message.action === 'snooze') handleSnoozePhase();
+        else if (message.action === 'complete-task' && modalContent.showCommentBox) handleModalContinue('', null, modalContent, breakSessionDetails, true);
+    };
+
+    const notificationClickHandlerRef = useRef(handleNotificationClick);
+    useEffect(() => { notificationClickHandlerRef.current = handleNotificationClick; });
+    useEffect(() => subscribeToNotificationClicks(message => notificationClickHandlerRef.current(message)), []);
+
+    // A restored timer whose phase ended while the app was closed shows its modal on load; apply the action clicked then.
+    useEffect(() => {
+        if (!pendingNotificationAction || isLoading) return;
+        const isPhaseEnding = appState.isRunning && appState.timeRemaining <= 0 && !isModalVisible;
+        if (isPhaseEnding) return;
+        if (isModalVisible) notificationClickHandlerRef.current({ type: 'notification-click', action: pendingNotificationAction, data: {} });
+        setPendingNotificationAction(null);
+    }, [pendingNotificationAction, isLoading, isModalVisible, appState.isRunning, appState.timeRemaining]);
+
+    // Moves a focus session in progress onto another task without touching the countdown. Each stretch becomes its own history row at the end.
+    const switchTaskMidSession = (taskId: string | null | undefined) => {
+        const nextTask = taskId === undefined ? tasksToday[0] : taskId ? tasks.find(t => t.id === taskId && !t.completed_at) : undefined;
+        if (taskId && !nextTask) return;
+        const nextTaskId = nextTask?.id ?? null;
+        if (nextTaskId === (currentTask?.id ?? null)) return;
+        if (isStopwatchMode || nextTask?.total_poms < 0) {
+            setToastNotification("Stopwatch tasks can't be switched mid-session. Finish or reset the current session first.");
+            return;
+        }
+        const now = new Date().toISOString();
+        const elapsedSeconds = appState.sessionTotalTime - appState.timeRemaining;
+        setFocusSessionDetails(prev => {
+            const details = prev || { started_at: now, interruptions: [] };
+            const segments = details.segments || [{ task_id: currentTask?.id ?? null, started_at: details.started_at, start_elapsed_seconds: 0 }];
+            return { ...details, segments: [...segments, { task_id: nextTaskId, started_at: now, start_elapsed_seconds: elapsedSeconds }] };
+        });
+        const newState = { ...appState, activeTaskId: taskId };
+        setAppState(newState);
+        publishActiveSession(newState, phaseEndTime, nextTaskId);
+        setToastNotification(`Switched to ${nextTask ? `"${nextTask.text}"` : 'a free session'}. The ${Math.round(elapsedSeconds / 60)} min so far stay with ${currentTask ? `"${currentTask.text}"` : 'the free session'}.`);
+    };
+
+    // Chooses what the timer works on: a task (from any day), null for a free session, or undefined to follow today's list.
+    const handleSetActiveTask = (taskId: string | null | undefined) => {
+        const isPristine = isStopwatchMode ? appState.timeRemaining === 0 : appState.timeRemaining === appState.sessionTotalTime;
+        if (appState.mode === 'focus' && (appState.isRunning || !isPristine)) {
+            switchTaskMidSession(taskId);
+            return;
+        }
+        setAppState(prev => ({ ...prev, activeTaskId: taskId }));
+        const task = taskId ? tasks.find(t => t.id === taskId) : undefined;
+        setToastNotification(taskId === null ? 'Free session: focus time is logged without a task.' : task ? `Focusing on "${task.text}"` : "Following today's task list.");
+    };
+
+    const handleNextBreakActivity = () => {
+        setBreakSessionDetails(prev => prev && { ...prev, activity: takeNextBreakActivity(settings.breakActivities) });
+    };
+
     // (Keep handleUpdateTaskTimers, handleUpdateTask, handleAddTask, handleDeleteTask, handleMoveTask, handleBringTaskForward, handleSortChange, handleReorderTasks, handleMarkTaskIncomplete, handleAddRecurringTask, etc. exactly as original)
     // ... [Omitting strict repetition for brevity, but assume full original logic here] ...
-    const handleUpdateTaskTimers = async (id: string, newTimers: { focus: number | null, break: number | null }) => {
-        const updates = { custom_focus_duration: newTimers.focus, custom_break_duration: newTimers.break };
+    const handleUpdateTaskTimers = async (id: string, newTimers: { focus: number | null, break: number | null, preset: string | null, soundMix: string | null }) => {
+        const updates = { custom_focus_duration: newTimers.focus, custom_break_duration: newTimers.break, timer_preset_id: newTimers.preset, sound_mix_id: newTimers.soundMix };
+        const tasksSnapshot = [...tasks];
+        setTasks(currentTasks => currentTasks.map(t => t.id === id ? { ...t, ...updates } : t));
+        setIsSyncing(true);
+        try { const { status } = await offlineQueue.runOrQueue('updateTask', id, updates); if (status !== 'synced') return reportUnsyncedWrite(status); await refreshTasks(); setToastNotification('Task timers updated!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+    };
+
+    const handleUpdateTaskPrerequisites = async (id: string, prerequisiteIds: string[]) => {
+        const updates = { prerequisite_ids: prerequisiteIds.length > 0 ? prerequisiteIds : null };
         const tasksSnapshot = [...tasks];
         setTasks(currentTasks => currentTasks.map(t => t.id === id ? { ...t, ...updates } : t));
         setIsSyncing(true);
-        try { await dbService.updateTask(id, updates); await refreshTasks(); setToastNotification('Task timers updated!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+        try { const { status } = await offlineQueue.runOrQueue('updateTask', id, updates); if (status !== 'synced') return reportUnsyncedWrite(status); await refreshTasks(); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+    };
+
+    const handleUpdateTaskSubtasks = async (id: string, subtasks: Subtask[]) => {
+        const updates = { subtasks: subtasks.length > 0 ? subtasks : null };
+        const tasksSnapshot = [...tasks];
+        const task = tasks.find(t => t.id === id);
+        setTasks(currentTasks => currentTasks.map(t => t.id === id ? { ...t, ...updates } : t));
+        setIsSyncing(true);
+        try { const { status } = await offlineQueue.runOrQueue('updateTask', id, updates); if (status !== 'synced') return reportUnsyncedWrite(status); await Promise.all([refreshTasks(), task?.project_id ? refreshProjects() : Promise.resolve()]); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
     };
 
     const handleUpdateTask = async (id: string, newText: string, newTags: string[], newPoms: number, projectId: string | null, priority: number | null) => {
@@ -918,26 +1392,13 @@ const App: React.FC = () => {
         const tasksSnapshot = [...tasks];
         setTasks(currentTasks => currentTasks.map(t => t.id === id ? { ...t, ...updates } : t));
         setIsSyncing(true);
-        try { await dbService.updateTask(id, updates); await Promise.all([refreshTasks(), refreshProjects(), refreshTargets()]); setToastNotification('Task updated!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+        try { const { status } = await offlineQueue.runOrQueue('updateTask', id, updates); if (status !== 'synced') return reportUnsyncedWrite(status); await Promise.all([refreshTasks(), refreshProjects(), refreshTargets()]); setToastNotification('Task updated!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
     };
 
     const handleAddTask = async (text: string, poms: number, dueDate: string, projectId: string | null, tags: string[], priority: number | null) => {
-        const { data: { user } } = await supabase.auth.getUser();
+        const user = session?.user;
         if (!user) return;
 
-        // Fallback UUID generator for browsers that don't support crypto.randomUUID()
-        const generateUUID = () => {
-            if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-                return crypto.randomUUID();
-            }
-            // Fallback implementation
-            return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
-                const r = Math.random() * 16 | 0;
-                const v = c === 'x' ? r : (r & 0x3 | 0x8);
-                return v.toString(16);
-            });
-        };
-
         // Check daily limit
         if (dueDate === todayString || dueDate === tomorrowString) {
             const dayOfWeek = new Date(dueDate + 'T00:00:00').getDay();
@@ -947,7 +1408,7 @@ const App: React.FC = () => {
                 const tasksForDay = tasks.filter(t => t.due_date === dueDate && !t.completed_at && t.total_poms > 0);
                 const currentFocusMinutes = tasksForDay.reduce((total, task) => {
                     const remainingPoms = task.total_poms - task.completed_poms;
-                    const focusDuration = task.custom_focus_duration || settings.focusDuration;
+                    const focusDuration = getTimerDurations(task, settings).focusDuration;
                     return total + (remainingPoms * focusDuration);
                 }, 0);
                 const newTaskFocusMinutes = poms > 0 ? poms * settings.focusDuration : 0;
@@ -962,30 +1423,31 @@ const App: React.FC = () => {
         const tasksSnapshot = [...tasks];
         setTasks(currentTasks => [...currentTasks, optimisticTask]);
         setIsSyncing(true);
-        try { await dbService.addTask(text, poms, dueDate, projectId, tags, priority); await Promise.all([refreshTasks(), projectId ? refreshProjects() : Promise.resolve()]); setToastNotification('Task added!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Add task failed! Restoring."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+        try { const { status } = await offlineQueue.runOrQueue('addTask', text, poms, dueDate, projectId, tags, priority, optimisticTask.id); if (status !== 'synced') return reportUnsyncedWrite(status); await Promise.all([refreshTasks(), projectId ? refreshProjects() : Promise.resolve()]); setToastNotification('Task added!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Add task failed! Restoring."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
     };
 
     const handleDeleteTask = async (id: string) => {
         const tasksSnapshot = [...tasks];
         setTasks(currentTasks => currentTasks.filter(t => t.id !== id));
         setIsSyncing(true);
-        try { await dbService.deleteTask(id); await Promise.all([refreshTasks(), refreshProjects(), refreshTargets()]); setToastNotification('Task deleted.'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Delete failed! Restoring."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+        const isRecurringInstance = !!tasksSnapshot.find(t => t.id === id)?.template_task_id;
+        try { const { status } = await offlineQueue.runOrQueue('deleteTask', id); if (status !== 'synced') return reportUnsyncedWrite(status); await Promise.all([refreshTasks(), refreshProjects(), refreshTargets()]); if (isRecurringInstance) { const refreshed = await dbService.getRecurringTasks(); if (refreshed) setRecurringTasks(refreshed); } setToastNotification(isRecurringInstance ? 'Occurrence skipped.' : 'Task deleted.'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Delete failed! Restoring."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
     };
 
     const handleMoveTask = async (id: string, action: 'postpone' | 'duplicate') => {
-        setIsSyncing(true); try { await dbService.moveTask(id, action); await refreshTasks(); setToastNotification(`Task ${action}d!`); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Action failed!"); } finally { setIsSyncing(false); }
+        setIsSyncing(true); try { const { status } = await offlineQueue.runOrQueue('moveTask', id, action); if (status !== 'synced') return reportUnsyncedWrite(status); await refreshTasks(); setToastNotification(`Task ${action}d!`); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Action failed!"); } finally { setIsSyncing(false); }
     };
     const handleBringTaskForward = async (id: string) => {
-        const tasksSnapshot = [...tasks]; const today = getTodayDateString(); setTasks(currentTasks => currentTasks.map(t => t.id === id ? { ...t, due_date: today } : t)); setIsSyncing(true); try { await dbService.bringTaskForward(id); await refreshTasks(); setToastNotification('Task moved to today!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Move failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+        const tasksSnapshot = [...tasks]; const today = getTodayDateString(); setTasks(currentTasks => currentTasks.map(t => t.id === id ? { ...t, due_date: today } : t)); setIsSyncing(true); try { const { status } = await offlineQueue.runOrQueue('bringTaskForward', id); if (status !== 'synced') return reportUnsyncedWrite(status); await refreshTasks(); setToastNotification('Task moved to today!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Move failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
     };
     const handleSortChange = async (newSortBy: 'default' | 'priority') => {
-        const settingsSnapshot = { ...settings }; setSettings(s => ({ ...s, todaySortBy: newSortBy })); setIsSyncing(true); try { await dbService.updateSettings({ ...settings, todaySortBy: newSortBy }); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Sort preference not saved."); setSettings(settingsSnapshot); } finally { setIsSyncing(false); }
+        const settingsSnapshot = { ...settings }; setSettings(s => ({ ...s, todaySortBy: newSortBy })); setIsSyncing(true); try { if (!(await dbService.updateSettings({ ...settings, todaySortBy: newSortBy }))) throw new Error("Settings were not saved."); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Sort preference not saved."); setSettings(settingsSnapshot); } finally { setIsSyncing(false); }
     };
     const handleReorderTasks = async (reorderedTasks: Task[]) => {
-        const tasksSnapshot = [...tasks]; const reorderedIds = new Set(reorderedTasks.map(t => t.id)); const otherTasks = tasks.filter(t => !reorderedIds.has(t.id)); const newOptimisticTasks = [...otherTasks, ...reorderedTasks].sort((a, b) => (a.task_order ?? Infinity) - (b.task_order ?? Infinity)); setTasks(newOptimisticTasks); handleSortChange('default'); setIsSyncing(true); try { await dbService.updateTaskOrder(reorderedTasks.map((task, index) => ({ id: task.id, task_order: index }))); await refreshTasks(); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Reorder failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+        const tasksSnapshot = [...tasks]; const reorderedIds = new Set(reorderedTasks.map(t => t.id)); const otherTasks = tasks.filter(t => !reorderedIds.has(t.id)); const newOptimisticTasks = [...otherTasks, ...reorderedTasks].sort((a, b) => (a.task_order ?? Infinity) - (b.task_order ?? Infinity)); setTasks(newOptimisticTasks); handleSortChange('default'); setIsSyncing(true); try { const { status } = await offlineQueue.runOrQueue('updateTaskOrder', reorderedTasks.map((task, index) => ({ id: task.id, task_order: index }))); if (status !== 'synced') return reportUnsyncedWrite(status); await refreshTasks(); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Reorder failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
     };
     const handleMarkTaskIncomplete = async (id: string) => {
-        const tasksSnapshot = [...tasks]; setTasks(currentTasks => currentTasks.map(t => t.id === id ? { ...t, completed_at: null } : t)); setIsSyncing(true); try { await dbService.markTaskIncomplete(id); await Promise.all([refreshTasks(), refreshProjects(), refreshTargets()]); setToastNotification('Task marked as incomplete.'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
+        const tasksSnapshot = [...tasks]; setTasks(currentTasks => currentTasks.map(t => t.id === id ? { ...t, completed_at: null } : t)); setIsSyncing(true); try { const { status } = await offlineQueue.runOrQueue('markTaskIncomplete', id); if (status !== 'synced') return reportUnsyncedWrite(status); await Promise.all([refreshTasks(), refreshProjects(), refreshTargets()]); setToastNotification('Task marked as incomplete.'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setTasks(tasksSnapshot); } finally { setIsSyncing(false); }
     };
 
     // Recurring Task Handlers
@@ -993,17 +1455,44 @@ const App: React.FC = () => {
         setIsSyncing(true); try { const newTask = await dbService.addRecurringTask(taskData); if (newTask) { const refreshed = await dbService.getRecurringTasks(); if (refreshed) setRecurringTasks(refreshed); const created = await dbService.processRecurringTasks(); if (created) await refreshTasks(); setToastNotification('Recurring task created!'); } } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Add recurring task failed."); } finally { setIsSyncing(false); }
     };
     const handleUpdateRecurringTask = async (id: string, updates: Partial<Task>) => {
-        const recurringTasksSnapshot = [...recurringTasks]; setRecurringTasks(current => current.map(t => t.id === id ? { ...t, ...updates } as Task : t)); setIsSyncing(true); try { await dbService.updateRecurringTask(id, updates); setToastNotification('Recurring task updated!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setRecurringTasks(recurringTasksSnapshot); } finally { setIsSyncing(false); }
+        const recurringTasksSnapshot = [...recurringTasks]; setRecurringTasks(current => current.map(t => t.id === id ? { ...t, ...updates } as Task : t)); setIsSyncing(true); try { await dbService.updateRecurringTask(id, updates); await refreshTasks(); setToastNotification('Recurring task updated!'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setRecurringTasks(recurringTasksSnapshot); } finally { setIsSyncing(false); }
     };
     const handleDeleteRecurringTask = async (id: string) => {
-        const recurringTasksSnapshot = [...recurringTasks]; setRecurringTasks(current => current.filter(t => t.id !== id)); setIsSyncing(true); try { await dbService.deleteRecurringTask(id); setToastNotification('Recurring task automation deleted.'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Delete failed! Reverting."); setRecurringTasks(recurringTasksSnapshot); } finally { setIsSyncing(false); }
+        const recurringTasksSnapshot = [...recurringTasks]; setRecurringTasks(current => current.filter(t => t.id !== id)); setIsSyncing(true); try { await dbService.deleteRecurringTask(id); await refreshTasks(); setToastNotification('Recurring task automation deleted.'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Delete failed! Reverting."); setRecurringTasks(recurringTasksSnapshot); } finally { setIsSyncing(false); }
     };
     const handleSetRecurringTaskActive = async (id: string, isActive: boolean) => {
-        const recurringTasksSnapshot = [...recurringTasks]; setRecurringTasks(current => current.map(t => t.id === id ? { ...t, is_active: isActive } as Task : t)); setIsSyncing(true); try { await dbService.updateRecurringTask(id, { is_active: isActive }); setToastNotification(`Automation ${isActive ? 'resumed' : 'paused'}.`); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setRecurringTasks(recurringTasksSnapshot); } finally { setIsSyncing(false); }
+        const recurringTasksSnapshot = [...recurringTasks]; setRecurringTasks(current => current.map(t => t.id === id ? { ...t, is_active: isActive } as Task : t)); setIsSyncing(true); try { await dbService.updateRecurringTask(id, { is_active: isActive }); if (isActive) await dbService.processRecurringTasks(); await refreshTasks(); setToastNotification(`Automation ${isActive ? 'resumed' : 'paused'}.`); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Update failed! Reverting."); setRecurringTasks(recurringTasksSnapshot); } finally { setIsSyncing(false); }
+    };
+    const handleSetRecurrenceException = async (templateId: string, occurrenceDate: string, dueDate: string | null | undefined) => {
+        setIsSyncing(true); try { const success = await dbService.setRecurrenceException(templateId, occurrenceDate, dueDate); if (!success) throw new Error('Recurrence exception failed'); const [refreshed] = await Promise.all([dbService.getRecurringTasks(), refreshTasks()]); if (refreshed) setRecurringTasks(refreshed); setToastNotification(dueDate === null ? 'Occurrence skipped.' : dueDate === undefined ? 'Occurrence restored.' : 'Occurrence moved.'); } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Could not update that occurrence."); } finally { setIsSyncing(false); }
     };
     const handleSetTaskToAutomate = (task: Task) => { setTaskToAutomate(task); setPage('plan'); };
-    const handleSaveReflection = async (challenges: string, improvements: string) => {
-        setIsSyncing(true); try { await dbService.saveDailyReflection(getTodayDateString(), challenges, improvements); await refreshHistoryAndLogs(); setToastNotification('Reflection saved!'); } catch (error) { console.error(error); setToastNotification("⚠️ Failed to save reflection."); } finally { setIsSyncing(false); setIsReflectionModalOpen(false); }
+    const handleLogManualSession = async (entry: ManualFocusEntry): Promise<boolean> => {
+        setIsSyncing(true);
+        try { const { status } = await offlineQueue.runOrQueue('logManualFocusSession', entry); if (status !== 'synced') { reportUnsyncedWrite(status); return status === 'queued'; } await Promise.all([refreshHistoryAndLogs(), refreshProjects(), refreshTargets()]); setToastNotification(`Logged ${entry.duration_minutes} min of focus.`); return true; } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Failed to log time."); return false; } finally { setIsSyncing(false); }
+    };
+    const handleUpdatePomodoroHistory = async (id: string, updates: PomodoroHistoryFields): Promise<boolean> => {
+        setIsSyncing(true);
+        try { const { status } = await offlineQueue.runOrQueue('updatePomodoroHistory', id, updates); if (status !== 'synced') { reportUnsyncedWrite(status); return status === 'queued'; } await Promise.all([refreshTasks(), refreshHistoryAndLogs(), refreshProjects(), refreshTargets()]); setToastNotification('Session updated.'); return true; } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Failed to update session."); return false; } finally { setIsSyncing(false); }
+    };
+    const handleDeletePomodoroHistory = async (id: string): Promise<boolean> => {
+        setIsSyncing(true);
+        try { const { status } = await offlineQueue.runOrQueue('deletePomodoroHistoryById', id); if (status !== 'synced') { reportUnsyncedWrite(status); return status === 'queued'; } await Promise.all([refreshTasks(), refreshHistoryAndLogs(), refreshProjects(), refreshTargets()]); setToastNotification('Session deleted.'); return true; } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Failed to delete session."); return false; } finally { setIsSyncing(false); }
+    };
+    const handleSaveReflection = async (review: DailyReview) => {
+        const today = getTodayDateString();
+        setTodayDbLog(prev => ({ ...(prev || { date: today, completed_sessions: 0, total_focus_minutes: 0 }), ...review, reviewed_at: new Date().toISOString() }));
+        setIsSyncing(true); try { const { status } = await offlineQueue.runOrQueue('saveDailyReview', today, review); if (status !== 'synced') return reportUnsyncedWrite(status); await refreshHistoryAndLogs(); setToastNotification('Daily review saved!'); } catch (error) { console.error(error); setToastNotification("⚠️ Failed to save review."); } finally { setIsSyncing(false); setIsReflectionModalOpen(false); }
+    };
+    const handleSaveDailyCheckIn = async (checkIn: WellbeingCheckIn): Promise<boolean> => {
+        const today = getTodayDateString();
+        const previousLog = todayDbLog;
+        setTodayDbLog(prev => ({ ...(prev || { date: today, completed_sessions: 0, total_focus_minutes: 0 }), check_in: checkIn }));
+        try { const { status } = await offlineQueue.runOrQueue('saveDailyCheckIn', today, checkIn); if (status !== 'synced') { if (status === 'failed') setTodayDbLog(previousLog); reportUnsyncedWrite(status); return status === 'queued'; } setToastNotification('Checked in. Have a good day!'); return true; } catch (error) { console.error("Sync Error", error); setTodayDbLog(previousLog); setToastNotification("⚠️ Failed to save check-in."); return false; }
+    };
+    const handleSaveWeeklyReview = async (weekStart: string, answers: WeeklyReviewAnswers): Promise<boolean> => {
+        setIsSyncing(true);
+        try { const { status } = await offlineQueue.runOrQueue('saveWeeklyReview', weekStart, answers); if (status !== 'synced') { reportUnsyncedWrite(status); return status === 'queued'; } await refreshWeeklyReviews(); setToastNotification('Weekly review saved!'); return true; } catch (error) { console.error("Sync Error", error); setToastNotification("⚠️ Failed to save weekly review."); return false; } finally { setIsSyncing(false); }
     };
 
     // Project, Goal, Target, Commitment Handlers (Compact versions)
@@ -1037,19 +1526,30 @@ const App: React.FC = () => {
     const handleAddTaskFromAI = async (text: string, poms: number, dueDate: string, projectId: string | null, tags: string[], priority: number | null): Promise<void> => { await handleAddTask(text, poms, dueDate, projectId, tags, priority); };
     const handleMemoryChangeFromAI = async () => { await refreshAiMemories(); setToastNotification('🧠 AI memory updated!'); };
     const handleHistoryChangeFromAI = async () => { await Promise.all([refreshHistoryAndLogs(), refreshTasks(), refreshProjects(), refreshTargets()]); setToastNotification('🗓️ History data refreshed.'); };
-    const handleSaveSettings = async (newSettings: Settings) => { const s = { ...settings }; setSettings(newSettings); setIsSyncing(true); try { await dbService.updateSettings(newSettings); setToastNotification('Settings saved!'); } catch (e) { console.error(e); setToastNotification("⚠️ Failed! Reverting."); setSettings(s); } finally { setIsSyncing(false); } };
+    const handleSaveSettings = async (newSettings: Settings) => { const s = { ...settings }; setSettings(newSettings); setIsSyncing(true); try { if (!(await dbService.updateSettings(newSettings))) throw new Error("Settings were not saved."); setToastNotification('Settings saved!'); } catch (e) { console.error(e); setToastNotification("⚠️ Failed! Reverting."); setSettings(s); } finally { setIsSyncing(false); } };
+
+    const handleUseLocalMode = () => { setStorageMode('local'); setSession(getLocalSession()); };
+    const handleLogout = () => {
+        if (getStorageMode() === 'local') {
+            setStorageMode('supabase');
+            setSession(null);
+        } else {
+            supabase.auth.signOut();
+        }
+    };
 
-    if (!session) return <AuthPage />;
+    if (!session) return <AuthPage onUseLocalMode={handleUseLocalMode} />;
     if (isLoading) return <LoadingAnimation />;
 
     const renderPage = () => {
         switch (page) {
-            case 'timer': return <TimerPage appState={appState} settings={settings} tasksToday={tasksToday} completedToday={completedToday} dailyLog={dailyLog} startTimer={startTimer} stopTimer={stopTimer} resetTimer={resetTimer} navigateToSettings={() => setPage('settings')} currentTask={tasksToday[0]} todaysHistory={todaysHistory} historicalLogs={historicalLogs} isStopwatchMode={isStopwatchMode} completeStopwatchTask={handleCompleteStopwatchTask} onOpenReflection={() => setIsReflectionModalOpen(true)} allTasks={tasks} />;
-            case 'plan': return <PlanPage tasksToday={tasksToday} tasksForTomorrow={tasksForTomorrow} tasksFuture={tasksFuture} completedToday={completedToday} projects={projects} settings={settings} onAddTask={handleAddTask} onAddProject={(name) => handleAddProject(name, null, null, null, { type: 'manual', value: null }, null, null)} onDeleteTask={handleDeleteTask} onMoveTask={handleMoveTask} onBringTaskForward={handleBringTaskForward} onReorderTasks={handleReorderTasks} onUpdateTaskTimers={handleUpdateTaskTimers} onUpdateTask={handleUpdateTask} onMarkTaskIncomplete={handleMarkTaskIncomplete} todaySortBy={settings.todaySortBy} onSortTodayByChange={handleSortChange} recurringTasks={recurringTasks} onAddRecurringTask={handleAddRecurringTask} onUpdateRecurringTask={handleUpdateRecurringTask} onDeleteRecurringTask={handleDeleteRecurringTask} onSetRecurringTaskActive={handleSetRecurringTaskActive} onSetTaskToAutomate={handleSetTaskToAutomate} taskToAutomate={taskToAutomate} onClearTaskToAutomate={() => setTaskToAutomate(null)} />;
-            case 'stats': return <StatsPage />;
-            case 'ai': return <AICoachPage goals={goals} targets={targets} projects={projects} allCommitments={activeCommitments} onAddTask={handleAddTaskFromAI} onAddProject={handleAddProject} onAddTarget={(text, deadline, priority) => handleAddTarget(text, deadline, priority, null, 'manual', null, null)} onAddCommitment={handleAddCommitment} onRescheduleItem={handleRescheduleItemFromAI} chatMessages={aiChatMessages} setChatMessages={setAiChatMessages} aiMemories={aiMemories} onMemoryChange={handleMemoryChangeFromAI} onHistoryChange={handleHistoryChangeFromAI} />;
-            case 'goals': return <GoalsPage goals={goals} targets={targets} projects={projects} commitments={allCommitments} onAddGoal={handleAddGoal} onUpdateGoal={handleUpdateGoal} onDeleteGoal={handleDeleteGoal} onSetGoalCompletion={handleSetGoalCompletion} onAddTarget={handleAddTarget} onUpdateTarget={handleUpdateTarget} onDeleteTarget={handleDeleteTarget} onAddProject={handleAddProject} onUpdateProject={handleUpdateProject} onDeleteProject={handleDeleteProject} onAddCommitment={handleAddCommitment} onUpdateCommitment={handleUpdateCommitment} onDeleteCommitment={handleDeleteCommitment} onSetCommitmentCompletion={handleSetCommitmentCompletion} onMarkCommitmentBroken={handleMarkCommitmentBroken} onSetPinnedItem={handleSetPinnedItem} onClearPins={handleClearPins} />;
-            case 'settings': return <SettingsPage settings={settings} onSave={handleSaveSettings} canInstall={!!installPrompt} onInstall={handleInstallClick} isStandalone={isStandalone} />;
+            case 'timer': return <TimerPage appState={appState} settings={settings} tasksToday={tasksToday} completedToday={completedToday} dailyLog={dailyLog} startTimer={startTimer} stopTimer={stopTimer} resetTimer={resetTimer} navigateToSettings={() => setPage('settings')} currentTask={currentTask} isFreeSession={isFreeSession} onSetActiveTask={handleSetActiveTask} sessionSegments={focusSessionDetails?.segments ?? []} todaysHistory={todaysHistory} historicalLogs={historicalLogs} isStopwatchMode={isStopwatchMode} completeStopwatchTask={handleCompleteStopwatchTask} onOpenReflection={() => setIsReflectionModalOpen(true)} allTasks={tasks} openInterruption={focusSessionDetails?.interruptions.find(i => !i.resumed_at) ?? null} onSetInterruptionReason={handleSetInterruptionReason} breakActivity={breakSessionDetails?.activity ?? null} onNextBreakActivity={handleNextBreakActivity} onSkipBreak={handleSkipBreak} onExtendBreak={handleExtendBreak} onSaveSettings={handleSaveSettings} onUpdateSubtasks={handleUpdateTaskSubtasks} onUpdatePomodoroHistory={handleUpdatePomodoroHistory} onDeletePomodoroHistory={handleDeletePomodoroHistory} onSaveDailyCheckIn={handleSaveDailyCheckIn} />;
+            case 'plan': return <PlanPage tasksToday={tasksToday} tasksForTomorrow={tasksForTomorrow} tasksFuture={tasksFuture} completedToday={completedToday} allTasks={tasks} projects={projects} settings={settings} onAddTask={handleAddTask} onAddProject={(name) => handleAddProject(name, null, null, null, { type: 'manual', value: null }, null, null)} onDeleteTask={handleDeleteTask} onMoveTask={handleMoveTask} onBringTaskForward={handleBringTaskForward} onReorderTasks={handleReorderTasks} onUpdateTaskTimers={handleUpdateTaskTimers} onUpdateTask={handleUpdateTask} onUpdateTaskPrerequisites={handleUpdateTaskPrerequisites} onUpdateTaskSubtasks={handleUpdateTaskSubtasks} onMarkTaskIncomplete={handleMarkTaskIncomplete} todaySortBy={settings.todaySortBy} onSortTodayByChange={handleSortChange} recurringTasks={recurringTasks} onAddRecurringTask={handleAddRecurringTask} onUpdateRecurringTask={handleUpdateRecurringTask} onDeleteRecurringTask={handleDeleteRecurringTask} onSetRecurringTaskActive={handleSetRecurringTaskActive} onSetRecurrenceException={handleSetRecurrenceException} onSetTaskToAutomate={handleSetTaskToAutomate} activeTaskId={currentTask?.id ?? null} onFocusTask={handleSetActiveTask} bestFocusWindow={bestFocusWindow} taskToAutomate={taskToAutomate} onClearTaskToAutomate={() => setTaskToAutomate(null)} />;
+            case 'stats': return <StatsPage onLogManualSession={handleLogManualSession} onUpdatePomodoroHistory={handleUpdatePomodoroHistory} onDeletePomodoroHistory={handleDeletePomodoroHistory} />;
+            case 'review': return <ReviewPage weeklyReviews={weeklyReviews} commitments={allCommitments} targets={targets} onSaveWeeklyReview={handleSaveWeeklyReview} onOpenDailyReview={() => setIsReflectionModalOpen(true)} />;
+            case 'ai': return <AICoachPage weeklyReviews={weeklyReviews} goals={goals} targets={targets} projects={projects} allCommitments={activeCommitments} onAddTask={handleAddTaskFromAI} onAddProject={handleAddProject} onAddTarget={(text, deadline, priority) => handleAddTarget(text, deadline, priority, null, 'manual', null, null)} onAddCommitment={handleAddCommitment} onRescheduleItem={handleRescheduleItemFromAI} chatMessages={aiChatMessages} setChatMessages={setAiChatMessages} aiMemories={aiMemories} onMemoryChange={handleMemoryChangeFromAI} onHistoryChange={handleHistoryChangeFromAI} />;
+            case 'goals': return <GoalsPage goals={goals} targets={targets} projects={projects} commitments={allCommitments} settings={settings} onAddGoal={handleAddGoal} onUpdateGoal={handleUpdateGoal} onDeleteGoal={handleDeleteGoal} onSetGoalCompletion={handleSetGoalCompletion} onAddTarget={handleAddTarget} onUpdateTarget={handleUpdateTarget} onDeleteTarget={handleDeleteTarget} onAddProject={handleAddProject} onUpdateProject={handleUpdateProject} onDeleteProject={handleDeleteProject} onAddCommitment={handleAddCommitment} onUpdateCommitment={handleUpdateCommitment} onDeleteCommitment={handleDeleteCommitment} onSetCommitmentCompletion={handleSetCommitmentCompletion} onMarkCommitmentBroken={handleMarkCommitmentBroken} onSetPinnedItem={handleSetPinnedItem} onClearPins={handleClearPins} />;
+            case 'settings': return <SettingsPage settings={settings} onSave={handleSaveSettings} canInstall={!!installPrompt} onInstall={handleInstallClick} isStandalone={isStandalone} onDataImported={() => fetchData(false)} />;
             default: return <div>Page not found</div>;
         }
     };
@@ -1059,11 +1559,12 @@ const App: React.FC = () => {
             {celebration && <CelebrationAnimation message={celebration.message} onComplete={handleCelebrationComplete} />}
             {toastNotification && <ToastNotification message={toastNotification} onDismiss={() => setToastNotification(null)} />}
             {isSyncing && <SyncIndicator />}
+            <OfflineQueueIndicator items={queuedMutations} onRetry={handleRetryQueuedMutation} onDiscard={handleDiscardQueuedMutation} />
 
             <Navbar
                 currentPage={page}
                 setPage={setPage}
-                onLogout={() => supabase.auth.signOut()}
+                onLogout={handleLogout}
                 unreadNotificationCount={unreadNotificationCount}
                 onToggleNotifications={() => setIsNotificationPanelOpen(prev => !prev)}
             />
@@ -1094,8 +1595,11 @@ const App: React.FC = () => {
                     message={modalContent.message}
                     nextMode={modalContent.nextMode}
                     showCommentBox={modalContent.showCommentBox}
-                    onContinue={handleModalContinue}
+                    completedSubtasks={modalContent.showCommentBox ? getSubtasksCompletedSince(currentTask, focusSessionDetails?.started_at).map(s => s.text) : []}
+                    onContinue={(comment, focusLevel, checkIn) => handleModalContinue(comment, focusLevel, modalContent, breakSessionDetails, false, checkIn)}
                     isSyncing={isSyncing}
+                    autoContinueSeconds={settings.autoStartNextPhase ? AUTO_CONTINUE_SECONDS : null}
+                    showCheckIn={settings.wellbeingCheckIns}
                 />
             )}
 
@@ -1104,8 +1608,11 @@ const App: React.FC = () => {
                     isOpen={isReflectionModalOpen}
                     onClose={() => setIsReflectionModalOpen(false)}
                     onSave={handleSaveReflection}
-                    initialChallenges={dailyLog.challenges || ''}
-                    initialImprovements={dailyLog.improvements || ''}
+                    dailyLog={dailyLog}
+                    completedToday={completedToday}
+                    carriedOverTasks={tasksToday}
+                    tasksForTomorrow={tasksForTomorrow}
+                    onPostponeTask={async (id) => { await handleMoveTask(id, 'postpone'); }}
                 />
             )}
 
@@ -1127,6 +1634,7 @@ const App: React.FC = () => {
                     projects={projects}
                     goals={goals}
                     targets={targets}
+                    onFocusTask={handleSetActiveTask}
                 />
             )}
         </div>
@@ -1,66 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { SavedSoundMix, Settings, SoundChannel, SoundMix, Task } from '../types';
+import { SOUND_CHANNELS, applySoundMix, getCurrentSoundMix, getTaskSoundMix, isSoundscapePlaying, playSoundscape, stopSoundscape, subscribeToSoundscape } from '../utils/soundscape';
+import { resumeAudioContext } from '../utils/audio';
+import { TrashIcon } from './common/Icons';
 
+interface AmbientSoundsProps {
+    settings: Settings;
+    currentTask?: Task;
+    onSaveSettings: (newSettings: Settings) => void;
+}
 
-import React, { useState, useEffect } from 'react';
-import { playWhiteNoise, stopWhiteNoise, setWhiteNoiseVolume } from '../utils/audio';
+const isSameMix = (a: SoundMix, b: SoundMix) =>
+    SOUND_CHANNELS.every(({ id }) => (a.volumes[id] || 0) === (b.volumes[id] || 0)) && a.binauralBaseHz === b.binauralBaseHz && a.binauralBeatHz === b.binauralBeatHz;
+
+const AmbientSounds: React.FC<AmbientSoundsProps> = ({ settings, currentTask, onSaveSettings }) => {
+    const [isPlaying, setIsPlaying] = useState(isSoundscapePlaying());
+    const [mix, setMix] = useState<SoundMix>(getCurrentSoundMix());
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [newMixName, setNewMixName] = useState('');
+    const [newMixTags, setNewMixTags] = useState('');
 
-const AmbientSounds: React.FC = () => {
-    const [isPlaying, setIsPlaying] = useState(false);
-    const [volume, setVolume] = useState(0.1);
+    // The mixer keeps playing across pages and can be started by the timer, so follow its state rather than own it.
+    useEffect(() => subscribeToSoundscape((playing, currentMix) => {
+        setIsPlaying(playing);
+        setMix(currentMix);
+    }), []);
 
-    useEffect(() => {
+    const savedMixes = settings.soundMixes || [];
+    const taskMix = getTaskSoundMix(currentTask, settings);
+    const activeSavedMix = savedMixes.find(m => isSameMix(m, mix));
+
+    const handleTogglePlay = () => {
         if (isPlaying) {
-            playWhiteNoise();
+            stopSoundscape();
         } else {
-            stopWhiteNoise();
+            resumeAudioContext();
+            playSoundscape();
         }
-        return () => {
-            stopWhiteNoise(); // Cleanup on component unmount
-        };
-    }, [isPlaying]);
+    };
 
-    useEffect(() => {
-        setWhiteNoiseVolume(volume);
-    }, [volume]);
+    const handleVolumeChange = (channel: SoundChannel, volume: number) => {
+        applySoundMix({ ...mix, volumes: { ...mix.volumes, [channel]: volume } });
+    };
 
-    const handleTogglePlay = () => {
-        setIsPlaying(prev => !prev);
+    const handleSaveMix = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newMixName.trim();
+        if (!name) return;
+        const newMix: SavedSoundMix = {
+            ...mix,
+            id: `mix-${Date.now()}`,
+            name,
+            tags: newMixTags.split(',').map(t => t.trim()).filter(Boolean),
+        };
+        onSaveSettings({ ...settings, soundMixes: [...savedMixes, newMix] });
+        setNewMixName('');
+        setNewMixTags('');
     };
 
-    const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setVolume(parseFloat(e.target.value));
+    const handleDeleteMix = (id: string) => {
+        onSaveSettings({ ...settings, soundMixes: savedMixes.filter(m => m.id !== id) });
     };
 
     return (
         <div className="bg-slate-800/50 backdrop-blur-md rounded-xl p-3 sm:p-4 border border-slate-700/80">
             <div className="flex items-center justify-between gap-4">
-                 <div className="flex items-center gap-3">
+                <button onClick={() => setIsExpanded(e => !e)} className="flex items-center gap-3 min-w-0 text-left" aria-expanded={isExpanded}>
                     <div className="text-2xl flex-shrink-0">🎧</div>
-                    <span className="text-white font-semibold hidden sm:inline">Ambient Noise</span>
-                </div>
-                <div className="flex items-center gap-4 flex-grow">
-                     <input
-                        type="range"
-                        min="0"
-                        max="0.2"
-                        step="0.01"
-                        value={volume}
-                        onChange={handleVolumeChange}
-                        className="w-full h-2 bg-slate-700/50 rounded-lg appearance-none cursor-pointer accent-cyan-400"
-                        disabled={!isPlaying}
-                        aria-label="White noise volume"
-                    />
-                    <button
-                        onClick={handleTogglePlay}
-                        className={`w-24 px-4 py-2 rounded-full font-bold text-white transition hover:scale-105 ${
-                            isPlaying ? 'bg-gradient-to-br from-pink-500 to-red-500' : 'bg-gradient-to-br from-cyan-400 to-blue-600'
-                        }`}
-                    >
-                        {isPlaying ? 'Stop' : 'Play'}
-                    </button>
-                </div>
+                    <div className="min-w-0">
+                        <span className="text-white font-semibold block">Soundscape</span>
+                        <span className="text-xs text-slate-400 truncate block">{activeSavedMix ? activeSavedMix.name : 'Custom mix'} · {isExpanded ? 'hide mixer' : 'open mixer'}</span>
+                    </div>
+                </button>
+                <button
+                    onClick={handleTogglePlay}
+                    className={`w-24 px-4 py-2 rounded-full font-bold text-white transition hover:scale-105 ${
+                        isPlaying ? 'bg-gradient-to-br from-pink-500 to-red-500' : 'bg-gradient-to-br from-cyan-400 to-blue-600'
+                    }`}
+                >
+                    {isPlaying ? 'Stop' : 'Play'}
+                </button>
             </div>
+
+            {isExpanded && (
+                <div className="mt-4 space-y-4 animate-fadeIn">
+                    {taskMix && !isSameMix(taskMix, mix) && (
+                        <button onClick={() => applySoundMix(taskMix)} className="w-full text-xs text-cyan-300 bg-cyan-500/10 hover:bg-cyan-500/20 border border-cyan-400/30 rounded-lg p-2 transition">
+                            Load this task's soundscape: <strong>{taskMix.name}</strong>
+                        </button>
+                    )}
+
+                    <div className="space-y-2">
+                        {SOUND_CHANNELS.map(channel => (
+                            <div key={channel.id} className="flex items-center gap-3">
+                                <span className="w-36 text-sm text-slate-300 flex-shrink-0">{channel.icon} {channel.label}</span>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="1"
+                                    step="0.05"
+                                    value={mix.volumes[channel.id] || 0}
+                                    onChange={(e) => handleVolumeChange(channel.id, parseFloat(e.target.value))}
+                                    className="w-full h-2 bg-slate-700/50 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+                                    aria-label={`${channel.label} volume`}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    {(mix.volumes.binaural || 0) > 0 && (
+                        <div className="grid grid-cols-2 gap-3 text-xs text-slate-300">
+                            <label>
+                                Carrier tone (Hz)
+                                <input type="number" min="40" max="1000" value={mix.binauralBaseHz} onChange={(e) => applySoundMix({ ...mix, binauralBaseHz: parseFloat(e.target.value) || 200 })} className="w-full mt-1 text-center bg-slate-800 border border-slate-600 rounded-md p-1.5 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400" />
+                            </label>
+                            <label>
+                                Beat frequency (Hz)
+                                <input type="number" min="1" max="40" step="0.5" value={mix.binauralBeatHz} onChange={(e) => applySoundMix({ ...mix, binauralBeatHz: parseFloat(e.target.value) || 10 })} className="w-full mt-1 text-center bg-slate-800 border border-slate-600 rounded-md p-1.5 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400" />
+                            </label>
+                            <p className="col-span-2 text-slate-500">Binaural beats need headphones.</p>
+                        </div>
+                    )}
+
+                    {savedMixes.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {savedMixes.map(saved => (
+                                <div key={saved.id} className={`flex items-center rounded-full border text-xs transition ${activeSavedMix?.id === saved.id ? 'bg-cyan-500/30 border-cyan-400/60 text-white' : 'bg-white/5 border-white/10 text-slate-300 hover:bg-white/10'}`}>
+                                    <button onClick={() => applySoundMix(saved)} className="px-3 py-1" title={saved.tags.length > 0 ? `Default for: ${saved.tags.join(', ')}` : undefined}>{saved.name}</button>
+                                    <button onClick={() => handleDeleteMix(saved.id)} className="pr-2 text-slate-500 hover:text-red-400" title="Delete Mix"><TrashIcon /></button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <form onSubmit={handleSaveMix} className="flex flex-wrap gap-2">
+                        <input type="text" value={newMixName} onChange={(e) => setNewMixName(e.target.value)} placeholder="Save mix as..." className="flex-1 min-w-[8rem] bg-slate-800 border border-slate-600 rounded-md p-2 text-white text-sm placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400" />
+                        <input type="text" value={newMixTags} onChange={(e) => setNewMixTags(e.target.value)} placeholder="Default for tags (optional)" className="flex-1 min-w-[8rem] bg-slate-800 border border-slate-600 rounded-md p-2 text-white text-sm placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400" />
+                        <button type="submit" disabled={!newMixName.trim()} className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-semibold rounded-md transition disabled:opacity-50">Save</button>
+                    </form>
+
+                    <label className="flex items-center justify-between gap-4 text-sm text-slate-300 cursor-pointer">
+                        <span>Play with focus sessions and fade out for breaks</span>
+                        <input type="checkbox" checked={settings.autoPlaySoundscape} onChange={(e) => onSaveSettings({ ...settings, autoPlaySoundscape: e.target.checked })} className="w-5 h-5 accent-cyan-500" />
+                    </label>
+                </div>
+            )}
         </div>
     );
 };
 
-export default AmbientSounds;
\ No newline at end of file
+export default AmbientSounds;
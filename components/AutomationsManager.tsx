@@ -1,41 +1,137 @@
-import React, { useState, useEffect } from 'react';
-import { Task, Project } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Task, Project, RecurrenceFrequency, RecurrenceRule } from '../types';
 import Panel from './common/Panel';
 import PrioritySelector from './common/PrioritySelector';
 import DaySelector from './common/DaySelector';
 import { EditIcon, TrashIcon, PlayIcon, PauseIcon } from './common/Icons';
 import ExplanationTooltip from './common/ExplanationTooltip';
+import HabitHeatmap from './HabitHeatmap';
 import { getTodayDateString } from '../utils/date';
+import { describeRecurrence, getRecurrenceAdherence, getRecurrenceRule, getUpcomingOccurrences, RECURRENCE_DAY_LABELS } from '../utils/recurrence';
+import { getHabitStats } from '../utils/habits';
 
 interface AutomationsManagerProps {
     recurringTasks: Task[];
+    allTasks: Task[]; // Generated instances, for adherence
     projects: Project[];
     onAddProject: (name: string) => Promise<string | null>;
     onAddRecurringTask: (taskData: Partial<Task>) => void;
     onUpdateRecurringTask: (id: string, updates: Partial<Task>) => void;
     onDeleteRecurringTask: (id: string) => void;
     onSetRecurringTaskActive: (id: string, isActive: boolean) => void;
+    onSetRecurrenceException: (templateId: string, occurrenceDate: string, dueDate: string | null | undefined) => void;
     taskToAutomate: Task | null;
     onClearTaskToAutomate: () => void;
 }
 
 interface RecurringTaskItemProps {
     task: Task;
+    instances: Task[];
     projects: Project[];
     onUpdate: (id: string, updates: Partial<Task>) => void;
     onDelete: (id: string) => void;
     onSetTaskActive: (id: string, isActive: boolean) => void;
+    onSetException: (templateId: string, occurrenceDate: string, dueDate: string | null | undefined) => void;
 }
 
-const RecurringTaskItem: React.FC<RecurringTaskItemProps> = ({ task, projects, onUpdate, onDelete, onSetTaskActive }) => {
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'interval', label: 'Every N days' },
+    { value: 'monthly_date', label: 'Monthly on a date' },
+    { value: 'monthly_weekday', label: 'Monthly on a weekday' },
+    { value: 'after_completion', label: 'After completion' },
+];
+
+const WEEK_OF_MONTH_OPTIONS = [{ value: 1, label: '1st' }, { value: 2, label: '2nd' }, { value: 3, label: '3rd' }, { value: 4, label: '4th' }, { value: -1, label: 'Last' }];
+
+const formatOccurrenceDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const UpcomingOccurrences: React.FC<{ task: Task; onSetException: RecurringTaskItemProps['onSetException'] }> = ({ task, onSetException }) => {
+    const [movingDate, setMovingDate] = useState<string | null>(null);
+    const [moveTo, setMoveTo] = useState('');
+    const todayString = getTodayDateString();
+
+    if (getRecurrenceRule(task).frequency === 'after_completion') {
+        return <p className="text-xs text-slate-400">The next task is created once the current one is completed. Delete it from the planner to skip it.</p>;
+    }
+
+    const exceptions = task.recurrence_exceptions || {};
+    const dates = getUpcomingOccurrences(task, 6);
+    if (dates.length === 0) return <p className="text-xs text-slate-400">No upcoming occurrences.</p>;
+
+    return (
+        <ul className="space-y-1 text-xs">
+            {dates.map(date => {
+                const exception = exceptions[date];
+                return (
+                    <li key={date} className="flex flex-wrap items-center gap-2 bg-black/20 rounded-md px-2 py-1.5">
+                        <span className={`flex-grow ${exception === null ? 'line-through text-slate-500' : 'text-slate-200'}`}>
+                            {formatOccurrenceDate(date)}
+                            {exception && <span className="text-amber-300"> → {formatOccurrenceDate(exception)}</span>}
+                        </span>
+                        {movingDate === date ? (
+                            <>
+                                <input type="date" value={moveTo} min={todayString} onChange={e => setMoveTo(e.target.value)} className="bg-slate-800 border border-slate-600 rounded-md p-1 text-white" style={{colorScheme: 'dark'}} />
+                                <button onClick={() => { if (moveTo) onSetException(task.id, date, moveTo); setMovingDate(null); }} disabled={!moveTo} className="px-2 py-1 rounded-md font-bold text-white bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50">Move</button>
+                                <button onClick={() => setMovingDate(null)} className="px-2 py-1 rounded-md text-slate-300 hover:text-white">Cancel</button>
+                            </>
+                        ) : exception !== undefined ? (
+                            <button onClick={() => onSetException(task.id, date, undefined)} className="px-2 py-1 rounded-md text-sky-300 hover:bg-sky-500/20">Restore</button>
+                        ) : (
+                            <>
+                                <button onClick={() => { setMovingDate(date); setMoveTo(date); }} className="px-2 py-1 rounded-md text-sky-300 hover:bg-sky-500/20">Move</button>
+                                <button onClick={() => onSetException(task.id, date, null)} className="px-2 py-1 rounded-md text-amber-300 hover:bg-amber-500/20">Skip</button>
+                            </>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+const formatPercent = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`;
+
+const HabitSummary: React.FC<{ task: Task; instances: Task[] }> = ({ task, instances }) => {
+    const todayString = getTodayDateString();
+    const { completed, missed, rate } = getRecurrenceAdherence(instances, todayString);
+    const stats = useMemo(() => getHabitStats(instances, todayString), [instances, todayString]);
+    if (instances.length === 0) return null;
+    const percent = Math.round((rate ?? 0) * 100);
+    const color = percent >= 80 ? 'bg-green-500' : percent >= 50 ? 'bg-amber-500' : 'bg-red-500';
+
+    return (
+        <div className="mt-2 space-y-2">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-300">
+                <span>🔥 Streak: <span className="font-semibold text-white">{stats.current}</span></span>
+                <span>Best: <span className="font-semibold text-white">{stats.longest}</span></span>
+                <span>90 days: <span className="font-semibold text-white">{formatPercent(stats.completion90)}</span></span>
+            </div>
+            {rate !== null && (
+                <div title="Completed occurrences over the last 30 days. Days the app wasn't opened count as missed; skipped ones don't count.">
+                    <div className="flex justify-between text-xs text-slate-300 mb-1">
+                        <span>Adherence (30 days): <span className="font-semibold text-white">{percent}%</span></span>
+                        <span>{completed} done · <span className={missed > 0 ? 'text-red-300' : ''}>{missed} missed</span></span>
+                    </div>
+                    <div className="w-full bg-slate-700 rounded-full h-1.5">
+                        <div className={`${color} h-1.5 rounded-full transition-all duration-500`} style={{ width: `${percent}%` }}></div>
+                    </div>
+                </div>
+            )}
+            <HabitHeatmap template={task} instances={instances} />
+        </div>
+    );
+};
+
+const RecurringTaskItem: React.FC<RecurringTaskItemProps> = ({ task, instances, projects, onUpdate, onDelete, onSetTaskActive, onSetException }) => {
     const [isEditing, setIsEditing] = useState(false);
+    const [showUpcoming, setShowUpcoming] = useState(false);
     const [editText, setEditText] = useState(task.text);
     const [editPoms, setEditPoms] = useState(Math.abs(task.total_poms).toString());
     const [editIsStopwatch, setEditIsStopwatch] = useState(task.total_poms < 0);
     const [editProjectId, setEditProjectId] = useState(task.project_id || 'none');
     const [editTags, setEditTags] = useState(task.tags?.join(', ') || '');
     const [editPriority, setEditPriority] = useState(task.priority ?? 3);
-    const [editRecurringDays, setEditRecurringDays] = useState<number[]>(task.recurring_days || []);
     const [editRecurringEndDate, setEditRecurringEndDate] = useState(task.recurring_end_date || '');
     const [editStopOnProjectCompletion, setEditStopOnProjectCompletion] = useState(task.stop_on_project_completion ?? true);
     
@@ -47,7 +143,6 @@ const RecurringTaskItem: React.FC<RecurringTaskItemProps> = ({ task, projects, o
             setEditProjectId(task.project_id || 'none');
             setEditTags(task.tags?.join(', ') || '');
             setEditPriority(task.priority ?? 3);
-            setEditRecurringDays(task.recurring_days || []);
             setEditRecurringEndDate(task.recurring_end_date || '');
             setEditStopOnProjectCompletion(task.stop_on_project_completion ?? true);
         }
@@ -78,10 +173,7 @@ const RecurringTaskItem: React.FC<RecurringTaskItemProps> = ({ task, projects, o
         onSetTaskActive(task.id, !isActive);
     };
 
-    const dayMap = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    const recurringDaysText = task.recurring_days && task.recurring_days.length > 0
-        ? task.recurring_days.sort().map(d => dayMap[d]).join(', ')
-        : 'Every day';
+    const recurrenceText = describeRecurrence(task);
 
     if (isEditing) {
         const todayString = getTodayDateString();
@@ -146,11 +238,9 @@ const RecurringTaskItem: React.FC<RecurringTaskItemProps> = ({ task, projects, o
                         </div>
                     </div>
 
-                    <div className="space-y-2 text-center">
-                        <label className="text-xs text-slate-300">Repeat On</label>
-                        <div className="pointer-events-none">
-                             <DaySelector selectedDays={editRecurringDays} onDayToggle={() => {}} />
-                        </div>
+                    <div>
+                        <label className="text-xs text-slate-300 mb-1 block">Repeats</label>
+                        <input type="text" value={recurrenceText} disabled className="w-full bg-slate-800/80 border border-slate-600 rounded-lg p-2 text-white disabled:cursor-not-allowed" />
                     </div>
 
                     <div>
@@ -175,10 +265,13 @@ const RecurringTaskItem: React.FC<RecurringTaskItemProps> = ({ task, projects, o
                 <div className="flex-grow">
                     <p className={`font-bold text-white ${!isActive ? 'line-through' : ''}`}>{task.text}</p>
                     <div className="text-xs text-slate-300 mt-1 space-y-1">
-                        <p>Repeats: <span className="font-semibold text-cyan-300">{recurringDaysText}</span></p>
+                        <p>Repeats: <span className="font-semibold text-cyan-300">{recurrenceText}</span></p>
+                        {task.recurring_start_date && task.recurring_start_date > getTodayDateString() && <p>Starts: <span className="font-semibold text-cyan-300">{new Date(task.recurring_start_date + 'T00:00:00').toLocaleDateString()}</span></p>}
                         {task.recurring_end_date && <p>Until: <span className="font-semibold text-cyan-300">{new Date(task.recurring_end_date + 'T00:00:00').toLocaleDateString()}</span></p>}
+                        {task.recurring_count && <p>Stops after: <span className="font-semibold text-cyan-300">{task.recurring_count} occurrence{task.recurring_count === 1 ? '' : 's'}</span></p>}
                         {task.project_id && <p>Stops with project: <span className="font-semibold text-cyan-300">{task.stop_on_project_completion ? 'Yes' : 'No'}</span></p>}
                     </div>
+                    <HabitSummary task={task} instances={instances} />
                 </div>
                 <div className="flex items-center gap-1">
                     <button onClick={handleToggleActive} className="p-2 rounded-full text-amber-400 hover:bg-amber-500/20 transition" title={isActive ? 'Pause Automation' : 'Resume Automation'}>
@@ -192,11 +285,19 @@ const RecurringTaskItem: React.FC<RecurringTaskItemProps> = ({ task, projects, o
                     }} className="p-2 rounded-full text-red-400 hover:bg-red-500/20 transition"><TrashIcon /></button>
                 </div>
             </div>
+            {isActive && (
+                <div className="mt-2">
+                    <button onClick={() => setShowUpcoming(v => !v)} className="text-xs font-semibold text-slate-400 hover:text-white transition">
+                        {showUpcoming ? '▾' : '▸'} Upcoming occurrences
+                    </button>
+                    {showUpcoming && <div className="mt-2 animate-fadeIn"><UpcomingOccurrences task={task} onSetException={onSetException} /></div>}
+                </div>
+            )}
         </li>
     );
 };
 
-const AutomationsManager: React.FC<AutomationsManagerProps> = ({ recurringTasks, projects, onAddProject, onAddRecurringTask, onUpdateRecurringTask, onDeleteRecurringTask, onSetRecurringTaskActive, taskToAutomate, onClearTaskToAutomate }) => {
+const AutomationsManager: React.FC<AutomationsManagerProps> = ({ recurringTasks, allTasks, projects, onAddProject, onAddRecurringTask, onUpdateRecurringTask, onDeleteRecurringTask, onSetRecurringTaskActive, onSetRecurrenceException, taskToAutomate, onClearTaskToAutomate }) => {
     const [isFormVisible, setIsFormVisible] = useState(false);
     const [text, setText] = useState('');
     const [poms, setPoms] = useState('1');
@@ -207,6 +308,26 @@ const AutomationsManager: React.FC<AutomationsManagerProps> = ({ recurringTasks,
     const [recurringDays, setRecurringDays] = useState<number[]>([]);
     const [recurringEndDate, setRecurringEndDate] = useState('');
     const [stopOnProjectCompletion, setStopOnProjectCompletion] = useState(true);
+    const [frequency, setFrequency] = useState<RecurrenceFrequency>('weekly');
+    const [repeatInterval, setRepeatInterval] = useState('1');
+    const [monthDay, setMonthDay] = useState(new Date().getDate());
+    const [weekOfMonth, setWeekOfMonth] = useState(1);
+    const [weekday, setWeekday] = useState(new Date().getDay());
+    const [startDate, setStartDate] = useState('');
+    const [occurrenceCount, setOccurrenceCount] = useState('');
+
+    const instancesByTemplate = useMemo(() => {
+        const map = new Map<string, Task[]>();
+        allTasks.forEach((t: Task) => {
+            if (t.template_task_id) map.set(t.template_task_id, [...(map.get(t.template_task_id) || []), t]);
+        });
+        return map;
+    }, [allTasks]);
+
+    const resetSchedule = () => {
+        setRecurringDays([]); setRecurringEndDate(''); setFrequency('weekly'); setRepeatInterval('1');
+        setMonthDay(new Date().getDate()); setWeekOfMonth(1); setWeekday(new Date().getDay()); setStartDate(''); setOccurrenceCount('');
+    };
 
     useEffect(() => {
         if (taskToAutomate) {
@@ -219,8 +340,7 @@ const AutomationsManager: React.FC<AutomationsManagerProps> = ({ recurringTasks,
             setPriority(taskToAutomate.priority ?? 3);
             
             // Reset schedule-specific fields
-            setRecurringDays([]);
-            setRecurringEndDate('');
+            resetSchedule();
             
             // Scroll to the top of the form for better UX
             window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -235,6 +355,24 @@ const AutomationsManager: React.FC<AutomationsManagerProps> = ({ recurringTasks,
             alert("Task text and a valid pomodoro number are required.");
             return;
         }
+        const intervalInt = parseInt(repeatInterval, 10);
+        const countInt = occurrenceCount ? parseInt(occurrenceCount, 10) : null;
+        if (isNaN(intervalInt) || intervalInt < 1 || (countInt !== null && (isNaN(countInt) || countInt < 1))) {
+            alert("Repeat intervals and occurrence limits must be positive numbers.");
+            return;
+        }
+        const start = startDate || getTodayDateString();
+        if (recurringEndDate && recurringEndDate < start) {
+            alert("The end date must be after the start date.");
+            return;
+        }
+
+        // Plain weekly schedules keep using recurring_days alone, like automations created before rules existed.
+        const rule: RecurrenceRule | null =
+            frequency === 'weekly' ? (intervalInt > 1 ? { frequency, interval: intervalInt } : null)
+            : frequency === 'monthly_date' ? { frequency, month_day: monthDay }
+            : frequency === 'monthly_weekday' ? { frequency, week_of_month: weekOfMonth, weekday }
+            : { frequency, interval: intervalInt };
 
         const taskData: Partial<Task> = {
             text: text.trim(),
@@ -242,15 +380,18 @@ const AutomationsManager: React.FC<AutomationsManagerProps> = ({ recurringTasks,
             project_id: projectId === 'none' ? null : projectId,
             tags: tags.split(',').map(t => t.trim()).filter(Boolean),
             priority,
-            recurring_days: recurringDays.length > 0 ? recurringDays.sort() : null,
+            recurring_days: frequency === 'weekly' && recurringDays.length > 0 ? recurringDays.sort() : null,
             recurring_end_date: recurringEndDate || null,
+            recurrence_rule: rule,
+            recurring_start_date: start,
+            recurring_count: countInt,
             stop_on_project_completion: projectId !== 'none' ? stopOnProjectCompletion : false,
             completed_poms: 0,
             comments: [],
         };
         onAddRecurringTask(taskData);
         // Reset form
-        setText(''); setPoms('1'); setIsStopwatch(false); setProjectId('none'); setTags(''); setPriority(3); setRecurringDays([]); setRecurringEndDate(''); setStopOnProjectCompletion(true);
+        setText(''); setPoms('1'); setIsStopwatch(false); setProjectId('none'); setTags(''); setPriority(3); resetSchedule(); setStopOnProjectCompletion(true);
         setIsFormVisible(false);
     };
 
@@ -296,16 +437,69 @@ const AutomationsManager: React.FC<AutomationsManagerProps> = ({ recurringTasks,
                                 />
                             </label>
                         )}
-                        <div className="space-y-2 text-center">
-                            <label className="text-sm text-slate-300">Repeat On (leave blank for every day)</label>
-                            <DaySelector selectedDays={recurringDays} onDayToggle={handleDayToggle} />
+                        <div className="space-y-3 bg-black/20 p-3 rounded-lg">
+                            <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-slate-300">
+                                <label htmlFor="recurrence-frequency">Repeat</label>
+                                <select id="recurrence-frequency" value={frequency} onChange={e => setFrequency(e.target.value as RecurrenceFrequency)} className="bg-slate-800/80 border-2 border-slate-600 rounded-lg p-2 text-white focus:outline-none focus:border-cyan-400">
+                                    {FREQUENCY_OPTIONS.map(o => <option key={o.value} value={o.value} className="bg-slate-900">{o.label}</option>)}
+                                </select>
+                                {(frequency === 'weekly' || frequency === 'interval' || frequency === 'after_completion') && (
+                                    <>
+                                        {frequency !== 'after_completion' && <span>every</span>}
+                                        <input type="number" min="1" value={repeatInterval} onChange={e => setRepeatInterval(e.target.value)} className="w-16 text-center bg-slate-800/80 border-2 border-slate-600 rounded-lg p-2 text-white focus:outline-none focus:border-cyan-400" />
+                                        <span>{frequency === 'weekly' ? 'week(s)' : frequency === 'interval' ? 'day(s)' : 'day(s) after the last one is completed'}</span>
+                                    </>
+                                )}
+                                {frequency === 'monthly_date' && (
+                                    <>
+                                        <span>on day</span>
+                                        <input type="number" min="1" max="31" value={monthDay} onChange={e => setMonthDay(Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)))} className="w-16 text-center bg-slate-800/80 border-2 border-slate-600 rounded-lg p-2 text-white focus:outline-none focus:border-cyan-400" />
+                                    </>
+                                )}
+                                {frequency === 'monthly_weekday' && (
+                                    <>
+                                        <span>on the</span>
+                                        <select value={weekOfMonth} onChange={e => setWeekOfMonth(Number(e.target.value))} className="bg-slate-800/80 border-2 border-slate-600 rounded-lg p-2 text-white focus:outline-none focus:border-cyan-400">
+                                            {WEEK_OF_MONTH_OPTIONS.map(o => <option key={o.value} value={o.value} className="bg-slate-900">{o.label}</option>)}
+                                        </select>
+                                        <select value={weekday} onChange={e => setWeekday(Number(e.target.value))} className="bg-slate-800/80 border-2 border-slate-600 rounded-lg p-2 text-white focus:outline-none focus:border-cyan-400">
+                                            {RECURRENCE_DAY_LABELS.map((label, i) => <option key={label} value={i} className="bg-slate-900">{label}</option>)}
+                                        </select>
+                                    </>
+                                )}
+                            </div>
+                            {frequency === 'weekly' && (
+                                <div className="space-y-2 text-center">
+                                    <label className="text-sm text-slate-300">Repeat On (leave blank for every day)</label>
+                                    <DaySelector selectedDays={recurringDays} onDayToggle={handleDayToggle} />
+                                </div>
+                            )}
+                            {frequency === 'monthly_date' && monthDay > 28 && (
+                                <p className="text-xs text-center text-slate-400">In shorter months this falls on the last day of the month.</p>
+                            )}
                         </div>
-                        <div>
-                            <label className="text-sm text-slate-300 flex items-center gap-1.5 justify-center">
-                                End Date (Optional)
-                                <ExplanationTooltip title="End Date" content="The task will stop repeating after this date."/>
-                            </label>
-                            <input type="date" value={recurringEndDate} onChange={(e) => setRecurringEndDate(e.target.value)} className="w-full bg-slate-800/80 border-2 border-slate-600 rounded-lg p-3 text-white/80 text-center" style={{colorScheme: 'dark'}} />
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                            <div>
+                                <label className="text-sm text-slate-300 flex items-center gap-1.5 justify-center">
+                                    Start Date
+                                    <ExplanationTooltip title="Start Date" content="The first day this task can be created. Intervals like <strong>every 2 weeks</strong> are counted from here. Defaults to today."/>
+                                </label>
+                                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-full bg-slate-800/80 border-2 border-slate-600 rounded-lg p-3 text-white/80 text-center" style={{colorScheme: 'dark'}} />
+                            </div>
+                            <div>
+                                <label className="text-sm text-slate-300 flex items-center gap-1.5 justify-center">
+                                    End Date (Optional)
+                                    <ExplanationTooltip title="End Date" content="The task will stop repeating after this date."/>
+                                </label>
+                                <input type="date" value={recurringEndDate} onChange={(e) => setRecurringEndDate(e.target.value)} className="w-full bg-slate-800/80 border-2 border-slate-600 rounded-lg p-3 text-white/80 text-center" style={{colorScheme: 'dark'}} />
+                            </div>
+                            <div>
+                                <label className="text-sm text-slate-300 flex items-center gap-1.5 justify-center">
+                                    End After (Optional)
+                                    <ExplanationTooltip title="Occurrence Limit" content="The task will stop repeating after this many occurrences. Skipped occurrences still count."/>
+                                </label>
+                                <input type="number" min="1" value={occurrenceCount} onChange={(e) => setOccurrenceCount(e.target.value)} placeholder="No limit" className="w-full bg-slate-800/80 border-2 border-slate-600 rounded-lg p-3 text-white placeholder:text-slate-500 text-center" />
+                            </div>
                         </div>
 
                          <div className="flex flex-wrap justify-between items-center gap-4 pt-1">
@@ -327,7 +521,7 @@ const AutomationsManager: React.FC<AutomationsManagerProps> = ({ recurringTasks,
 
                 <ul className="space-y-2">
                     {recurringTasks.map(task => (
-                        <RecurringTaskItem key={task.id} task={task} projects={projects} onUpdate={onUpdateRecurringTask} onDelete={onDeleteRecurringTask} onSetTaskActive={onSetRecurringTaskActive} />
+                        <RecurringTaskItem key={task.id} task={task} instances={instancesByTemplate.get(task.id) || []} projects={projects} onUpdate={onUpdateRecurringTask} onDelete={onDeleteRecurringTask} onSetTaskActive={onSetRecurringTaskActive} onSetException={onSetRecurrenceException} />
                     ))}
                     {recurringTasks.length === 0 && <p className="text-center text-slate-400 p-4">You have no recurring tasks. Create one to automate your daily planning!</p>}
                 </ul>
@@ -344,7 +538,14 @@ ADD COLUMN IF NOT EXISTS recurring_days INT[],
 ADD COLUMN IF NOT EXISTS recurring_end_date DATE,
 ADD COLUMN IF NOT EXISTS template_task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
 ADD COLUMN IF NOT EXISTS stop_on_project_completion BOOLEAN DEFAULT TRUE,
-ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE;
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS recurrence_rule JSONB,
+ADD COLUMN IF NOT EXISTS recurring_start_date DATE,
+ADD COLUMN IF NOT EXISTS recurring_count INT,
+ADD COLUMN IF NOT EXISTS recurrence_exceptions JSONB,
+ADD COLUMN IF NOT EXISTS occurrence_date DATE,
+ADD COLUMN IF NOT EXISTS is_missed BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS recurrence_processed_through DATE;
 
 -- Add an index for performance
 CREATE INDEX IF NOT EXISTS idx_tasks_template_task_id ON public.tasks(template_task_id);
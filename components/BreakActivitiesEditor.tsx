@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { TrashIcon } from './common/Icons';
+
+interface BreakActivitiesEditorProps {
+    activities: string[];
+    onSave: (activities: string[]) => void;
+}
+
+const BreakActivitiesEditor: React.FC<BreakActivitiesEditorProps> = ({ activities, onSave }) => {
+    const [localActivities, setLocalActivities] = useState(activities);
+    const [newActivity, setNewActivity] = useState('');
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const activity = newActivity.trim();
+        if (!activity || localActivities.includes(activity)) return;
+        setLocalActivities(prev => [...prev, activity]);
+        setNewActivity('');
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-white/70 text-sm text-center">
+                One of these is suggested on the timer during each break, taking turns.
+            </p>
+            <ul className="space-y-2">
+                {localActivities.map(activity => (
+                    <li key={activity} className="flex items-center justify-between gap-2 bg-white/10 rounded-lg px-3 py-2 text-white text-sm">
+                        <span>{activity}</span>
+                        <button onClick={() => setLocalActivities(prev => prev.filter(a => a !== activity))} className="p-1 text-white/50 hover:text-red-400 transition" title="Remove Activity"><TrashIcon /></button>
+                    </li>
+                ))}
+                {localActivities.length === 0 && <li className="text-center text-white/60 text-sm">No activities. Breaks will show no suggestion.</li>}
+            </ul>
+            <form onSubmit={handleAdd} className="flex gap-2">
+                <input
+                    type="text"
+                    value={newActivity}
+                    onChange={(e) => setNewActivity(e.target.value)}
+                    placeholder="e.g., 🤸 Ten squats"
+                    className="flex-grow bg-white/20 border border-white/30 rounded-lg p-2 text-white text-sm placeholder:text-white/60 focus:outline-none focus:bg-white/30 focus:border-white/50"
+                />
+                <button type="submit" disabled={!newActivity.trim()} className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-semibold rounded-lg transition disabled:opacity-50">Add</button>
+            </form>
+            <button
+                onClick={() => onSave(localActivities)}
+                className="w-full p-3 bg-gradient-to-br from-cyan-400 to-blue-600 text-white font-bold rounded-lg transition hover:scale-105"
+            >
+                💾 Save Activities
+            </button>
+        </div>
+    );
+};
+
+export default BreakActivitiesEditor;
@@ -0,0 +1,16 @@
+import React from 'react';
+
+interface BreakActivityCardProps {
+    activity: string;
+    onNextActivity: () => void;
+}
+
+const BreakActivityCard: React.FC<BreakActivityCardProps> = ({ activity, onNextActivity }) => (
+    <div className="max-w-sm mx-auto mb-4 px-4 py-3 rounded-xl bg-purple-500/10 border border-purple-400/20 text-center animate-fadeIn">
+        <p className="text-xs font-semibold uppercase tracking-wider text-purple-300 mb-1">Break idea</p>
+        <p className="text-lg text-white font-medium">{activity}</p>
+        <button onClick={onNextActivity} className="mt-2 text-xs text-purple-300 hover:text-purple-200 underline">Suggest another</button>
+    </div>
+);
+
+export default BreakActivityCard;
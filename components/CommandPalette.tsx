@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Page, Task, Project, Goal, Target } from '../types';
-import { SearchIcon, TimerIcon, PlanIcon, StatsIcon, AIIcon, TargetIcon as GoalsIcon, SettingsIcon } from './common/Icons';
+import { SearchIcon, TimerIcon, PlanIcon, StatsIcon, AIIcon, TargetIcon as GoalsIcon, SettingsIcon, EditIcon } from './common/Icons';
 
 // Simple fuzzy search utility
 const fuzzySearch = (query: string, text: string) => {
@@ -18,7 +18,7 @@ const fuzzySearch = (query: string, text: string) => {
 interface CommandItem {
     id: string;
     title: string;
-    type: 'page' | 'task' | 'project' | 'goal' | 'target';
+    type: 'page' | 'focus' | 'task' | 'project' | 'goal' | 'target';
     action: () => void;
     icon: React.ReactNode;
 }
@@ -30,9 +30,10 @@ interface CommandPaletteProps {
     projects: Project[];
     goals: Goal[];
     targets: Target[];
+    onFocusTask: (taskId: string | null) => void;
 }
 
-const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose, setPage, tasks, projects, goals, targets }) => {
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose, setPage, tasks, projects, goals, targets, onFocusTask }) => {
     const [search, setSearch] = useState('');
     const [activeIndex, setActiveIndex] = useState(0);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -44,10 +45,22 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose, setPage, tasks
             { id: 'page-plan', title: 'Go to Plan', type: 'page', action: () => setPage('plan'), icon: <PlanIcon /> },
             { id: 'page-goals', title: 'Go to Goals', type: 'page', action: () => setPage('goals'), icon: <GoalsIcon /> },
             { id: 'page-stats', title: 'Go to Stats', type: 'page', action: () => setPage('stats'), icon: <StatsIcon /> },
+            { id: 'page-review', title: 'Go to Weekly Review', type: 'page', action: () => setPage('review'), icon: <EditIcon /> },
             { id: 'page-ai', title: 'Go to AI Coach', type: 'page', action: () => setPage('ai'), icon: <AIIcon /> },
             { id: 'page-settings', title: 'Go to Settings', type: 'page', action: () => setPage('settings'), icon: <SettingsIcon /> },
         ];
 
+        const focusCommands: CommandItem[] = [
+            { id: 'focus-free', title: 'Focus on… a free session (no task)', type: 'focus', action: () => { onFocusTask(null); setPage('timer'); }, icon: <TimerIcon /> },
+            ...tasks.map(t => ({
+                id: `focus-${t.id}`,
+                title: `Focus on… ${t.text}`,
+                type: 'focus' as const,
+                action: () => { onFocusTask(t.id); setPage('timer'); },
+                icon: <TimerIcon />,
+            })),
+        ];
+
         const taskCommands: CommandItem[] = tasks.map(t => ({
             id: t.id,
             title: t.text,
@@ -80,8 +93,8 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose, setPage, tasks
             icon: <GoalsIcon />,
         }));
 
-        return [...pages, ...taskCommands, ...projectCommands, ...goalCommands, ...targetCommands];
-    }, [setPage, tasks, projects, goals, targets]);
+        return [...pages, ...focusCommands, ...taskCommands, ...projectCommands, ...goalCommands, ...targetCommands];
+    }, [setPage, tasks, projects, goals, targets, onFocusTask]);
 
     const filteredResults = useMemo(() => {
         if (!search) {
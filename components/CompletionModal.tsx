@@ -1,14 +1,18 @@
 
-import React, { useState } from 'react';
-import { Mode, FocusLevel } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Mode, FocusLevel, WellbeingCheckIn } from '../types';
+import RatingScale, { ENERGY_LABELS, MOOD_LABELS } from './common/RatingScale';
 
 interface CompletionModalProps {
     title: string;
     message: string;
     nextMode: Mode;
     showCommentBox: boolean;
-    onContinue: (comment: string, focusLevel: FocusLevel | null) => void;
+    onContinue: (comment: string, focusLevel: FocusLevel | null, checkIn: WellbeingCheckIn | null) => void;
     isSyncing: boolean;
+    autoContinueSeconds: number | null; // Auto-start the next phase after this delay; null waits for the user
+    completedSubtasks: string[]; // Checklist items ticked off during the session; appended to the saved comment
+    showCheckIn: boolean; // Offer the optional energy and mood check-in after focus sessions
 }
 
 const FocusLevelButton: React.FC<{ level: FocusLevel; label: string; icon: string; selected: FocusLevel | null; onSelect: (level: FocusLevel) => void; disabled: boolean; }> = ({ level, label, icon, selected, onSelect, disabled }) => {
@@ -44,14 +48,36 @@ const FocusLevelButton: React.FC<{ level: FocusLevel; label: string; icon: strin
 };
 
 
-const CompletionModal: React.FC<CompletionModalProps> = ({ title, message, nextMode, showCommentBox, onContinue, isSyncing }) => {
+const CompletionModal: React.FC<CompletionModalProps> = ({ title, message, nextMode, showCommentBox, onContinue, isSyncing, autoContinueSeconds, completedSubtasks, showCheckIn }) => {
     const [comment, setComment] = useState('');
+    const [energy, setEnergy] = useState<number | null>(null);
+    const [mood, setMood] = useState<number | null>(null);
+    const [autoContinueDeadline, setAutoContinueDeadline] = useState<number | null>(() => autoContinueSeconds ? Date.now() + autoContinueSeconds * 1000 : null);
+    const [secondsUntilContinue, setSecondsUntilContinue] = useState(autoContinueSeconds || 0);
+
+    // Counts against a deadline rather than ticks, so a throttled background tab still continues on time.
+    useEffect(() => {
+        if (autoContinueDeadline === null) return;
+        const interval = window.setInterval(() => {
+            const remaining = Math.max(0, Math.ceil((autoContinueDeadline - Date.now()) / 1000));
+            setSecondsUntilContinue(remaining);
+            if (remaining === 0 && !isSyncing) {
+                clearInterval(interval);
+                setAutoContinueDeadline(null);
+                onContinue(comment, null, null);
+            }
+        }, 250);
+        return () => clearInterval(interval);
+    }, [autoContinueDeadline, onContinue, comment, isSyncing]);
+
+    const cancelAutoContinue = () => setAutoContinueDeadline(null);
+    const checkIn = energy !== null || mood !== null ? { energy, mood } : null;
     
     const isFocusNext = nextMode === 'focus';
     const buttonBg = isFocusNext ? 'bg-teal-500 hover:bg-teal-600' : 'bg-purple-500 hover:bg-purple-600';
 
     const handleSelectFocusAndContinue = (level: FocusLevel) => {
-        onContinue(comment, level);
+        onContinue(comment, level, checkIn);
     };
 
     return (
@@ -63,13 +89,27 @@ const CompletionModal: React.FC<CompletionModalProps> = ({ title, message, nextM
                 
                 {showCommentBox ? (
                     <>
+                        {completedSubtasks.length > 0 && (
+                            <div className="text-left bg-teal-500/10 border border-teal-400/30 rounded-lg p-3 mb-4 text-sm">
+                                <p className="font-semibold text-teal-300 mb-1">✅ {completedSubtasks.length} checklist item{completedSubtasks.length === 1 ? '' : 's'} done</p>
+                                <p className="text-slate-300">{completedSubtasks.join(', ')}</p>
+                                <p className="text-xs text-slate-400 mt-1">Added to your session comment.</p>
+                            </div>
+                        )}
                         <textarea 
                             value={comment}
-                            onChange={(e) => setComment(e.target.value)}
+                            onChange={(e) => { setComment(e.target.value); cancelAutoContinue(); }}
                             placeholder="What did you accomplish? (Optional)"
                             className="w-full bg-slate-700/50 border border-slate-600 rounded-lg p-3 text-slate-200 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-teal-400 focus:border-teal-400 mb-4 min-h-[80px] disabled:opacity-50"
                             disabled={isSyncing}
                         />
+                        {showCheckIn && (
+                            <div className="space-y-2 mb-4">
+                                <h3 className="text-sm font-semibold text-white">How do you feel? <span className="text-slate-400 font-normal">(Optional)</span></h3>
+                                <RatingScale label="Energy" icons={ENERGY_LABELS} value={energy} onChange={value => { setEnergy(value); cancelAutoContinue(); }} compact />
+                                <RatingScale label="Mood" icons={MOOD_LABELS} value={mood} onChange={value => { setMood(value); cancelAutoContinue(); }} compact />
+                            </div>
+                        )}
                          <div className="my-4">
                             <h3 className="text-sm font-semibold text-white mb-2">How was your focus? (Click to continue)</h3>
                             <div className="flex justify-center gap-2">
@@ -81,13 +121,19 @@ const CompletionModal: React.FC<CompletionModalProps> = ({ title, message, nextM
                     </>
                 ) : (
                     <button
-                        onClick={() => onContinue(comment, null)}
+                        onClick={() => onContinue(comment, null, null)}
                         disabled={isSyncing}
                         className={`w-full p-4 ${buttonBg} text-white font-bold rounded-lg transition-transform hover:scale-105 uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed`}
                     >
                         {isSyncing ? 'Processing...' : 'Start Next Phase'}
                     </button>
                 )}
+                {autoContinueDeadline !== null && (
+                    <p className="text-xs text-slate-400 mt-4">
+                        {nextMode === 'focus' ? 'Next focus session' : 'Break'} starts in {secondsUntilContinue}s{showCommentBox && ' without a rating'}.{' '}
+                        <button onClick={cancelAutoContinue} className="text-cyan-400 hover:text-cyan-300 underline">Wait</button>
+                    </p>
+                )}
             </div>
         </div>
     );
@@ -12,9 +12,26 @@ interface ControlsProps {
     timeRemaining: number;
     sessionTotalTime: number;
     mode: Mode;
+    onSkipBreak?: () => void;
+    onExtendBreak?: () => void;
 }
 
-const Controls: React.FC<ControlsProps> = ({ isRunning, startTimer, stopTimer, resetTimer, timeRemaining, sessionTotalTime, mode }) => {
+const BreakAdjustments: React.FC<{ onSkipBreak?: () => void; onExtendBreak?: () => void }> = ({ onSkipBreak, onExtendBreak }) => (
+    <div className="flex justify-center gap-3 -mt-2 mb-4">
+        {onExtendBreak && (
+            <button onClick={onExtendBreak} className="px-4 py-1.5 rounded-full text-xs font-semibold text-purple-200 bg-purple-500/10 hover:bg-purple-500/20 border border-purple-400/30 transition" aria-label="Extend break by 5 minutes">
+                +5 min
+            </button>
+        )}
+        {onSkipBreak && (
+            <button onClick={onSkipBreak} className="px-4 py-1.5 rounded-full text-xs font-semibold text-slate-300 bg-white/5 hover:bg-white/10 border border-white/10 transition" aria-label="Skip the rest of this break">
+                Skip Break ⏭
+            </button>
+        )}
+    </div>
+);
+
+const Controls: React.FC<ControlsProps> = ({ isRunning, startTimer, stopTimer, resetTimer, timeRemaining, sessionTotalTime, mode, onSkipBreak, onExtendBreak }) => {
     const isPaused = !isRunning && timeRemaining < sessionTotalTime;
     const isPristine = !isRunning && !isPaused;
 
@@ -34,17 +51,20 @@ const Controls: React.FC<ControlsProps> = ({ isRunning, startTimer, stopTimer, r
             : "bg-purple-500/30 hover:bg-purple-500/40 border-purple-400/50 focus:ring-purple-400";
         
         return (
-            <div className="text-center my-6 h-16 flex items-center justify-center">
-                <button
-                    onClick={handleMainClick}
-                    className={`text-white font-semibold py-4 px-12 rounded-full shadow-lg transition-all transform hover:scale-105 focus:outline-none focus:ring-4 backdrop-blur-sm border ${buttonClass}`}
-                    aria-label={`Start ${mode} time`}
-                >
-                    <span className="flex items-center gap-2">
-                        <PlayIcon /> {buttonText}
-                    </span>
-                </button>
-            </div>
+            <>
+                <div className="text-center my-6 h-16 flex items-center justify-center">
+                    <button
+                        onClick={handleMainClick}
+                        className={`text-white font-semibold py-4 px-12 rounded-full shadow-lg transition-all transform hover:scale-105 focus:outline-none focus:ring-4 backdrop-blur-sm border ${buttonClass}`}
+                        aria-label={`Start ${mode} time`}
+                    >
+                        <span className="flex items-center gap-2">
+                            <PlayIcon /> {buttonText}
+                        </span>
+                    </button>
+                </div>
+                {mode === 'break' && <BreakAdjustments onSkipBreak={onSkipBreak} />}
+            </>
         );
     }
     
@@ -83,12 +103,15 @@ const Controls: React.FC<ControlsProps> = ({ isRunning, startTimer, stopTimer, r
         );
 
     return (
-        <div className="flex justify-center items-center gap-4 my-6 h-16">
-            <SecondaryButton onClick={resetTimer} label="Reset" className="">
-                <ResetIcon />
-            </SecondaryButton>
-            {MainActionButton}
-        </div>
+        <>
+            <div className="flex justify-center items-center gap-4 my-6 h-16">
+                <SecondaryButton onClick={resetTimer} label="Reset" className="">
+                    <ResetIcon />
+                </SecondaryButton>
+                {MainActionButton}
+            </div>
+            {mode === 'break' && <BreakAdjustments onSkipBreak={onSkipBreak} onExtendBreak={onExtendBreak} />}
+        </>
     );
 };
 
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { WellbeingCheckIn } from '../types';
+import { getTodayDateString } from '../utils/date';
+import RatingScale, { ENERGY_LABELS, MOOD_LABELS } from './common/RatingScale';
+
+interface DailyCheckInCardProps {
+    onSave: (checkIn: WellbeingCheckIn) => Promise<boolean>;
+}
+
+const SKIPPED_KEY = 'focusflow-check-in-skipped';
+
+const DailyCheckInCard: React.FC<DailyCheckInCardProps> = ({ onSave }) => {
+    const [isSkipped, setIsSkipped] = useState(() => localStorage.getItem(SKIPPED_KEY) === getTodayDateString());
+    const [energy, setEnergy] = useState<number | null>(null);
+    const [mood, setMood] = useState<number | null>(null);
+    const [sleepHours, setSleepHours] = useState('');
+    const [caffeine, setCaffeine] = useState(0);
+    const [isSaving, setIsSaving] = useState(false);
+
+    if (isSkipped) return null;
+
+    const handleSkip = () => {
+        localStorage.setItem(SKIPPED_KEY, getTodayDateString());
+        setIsSkipped(true);
+    };
+
+    const handleSave = async () => {
+        const sleep = parseFloat(sleepHours);
+        setIsSaving(true);
+        await onSave({ energy, mood, sleep_hours: isNaN(sleep) ? null : Math.min(24, Math.max(0, sleep)), caffeine });
+        setIsSaving(false);
+    };
+
+    const hasAnswer = energy !== null || mood !== null || sleepHours !== '' || caffeine > 0;
+
+    return (
+        <div className="bg-slate-800/50 backdrop-blur-md rounded-2xl p-4 border border-indigo-400/20 animate-fadeIn">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold uppercase tracking-wider text-indigo-300">🌅 Morning check-in</h3>
+                <button onClick={handleSkip} className="text-xs text-slate-400 hover:text-white transition">Skip today</button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                <RatingScale label="Energy" icons={ENERGY_LABELS} value={energy} onChange={setEnergy} compact />
+                <RatingScale label="Mood" icons={MOOD_LABELS} value={mood} onChange={setMood} compact />
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="w-14 flex-shrink-0">Sleep</span>
+                    <input
+                        type="number"
+                        min="0"
+                        max="24"
+                        step="0.5"
+                        value={sleepHours}
+                        onChange={e => setSleepHours(e.target.value)}
+                        placeholder="–"
+                        className="w-20 bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1 text-white text-sm text-center focus:outline-none focus:ring-2 focus:ring-indigo-400/50"
+                    />
+                    <span>hours last night</span>
+                </label>
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="w-14 flex-shrink-0">Caffeine</span>
+                    <button onClick={() => setCaffeine(c => Math.max(0, c - 1))} className="w-7 h-7 rounded-lg bg-slate-900/50 hover:bg-slate-700/50 text-white">−</button>
+                    <span className="w-6 text-center text-white text-sm">{caffeine}</span>
+                    <button onClick={() => setCaffeine(c => Math.min(10, c + 1))} className="w-7 h-7 rounded-lg bg-slate-900/50 hover:bg-slate-700/50 text-white">+</button>
+                    <span>drinks so far</span>
+                </div>
+            </div>
+            <div className="flex justify-end mt-3">
+                <button
+                    onClick={handleSave}
+                    disabled={!hasAnswer || isSaving}
+                    className="px-4 py-1.5 rounded-lg text-sm font-semibold text-white bg-indigo-500/80 hover:bg-indigo-500 transition disabled:opacity-50"
+                >
+                    {isSaving ? 'Saving...' : 'Check in'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default DailyCheckInCard;
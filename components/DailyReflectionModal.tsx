@@ -1,65 +1,204 @@
 import React, { useState } from 'react';
+import { DailyReview, DbDailyLog, Task } from '../types';
+import RatingScale, { ENERGY_LABELS, MOOD_LABELS } from './common/RatingScale';
 
 interface DailyReflectionModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (challenges: string, improvements: string) => void;
-    initialChallenges?: string;
-    initialImprovements?: string;
+    onSave: (review: DailyReview) => void;
+    dailyLog: DbDailyLog;
+    completedToday: Task[];
+    carriedOverTasks: Task[];
+    tasksForTomorrow: Task[];
+    onPostponeTask: (id: string) => Promise<void>;
 }
 
-const DailyReflectionModal: React.FC<DailyReflectionModalProps> = ({ isOpen, onClose, onSave, initialChallenges = '', initialImprovements = '' }) => {
-    const [challenges, setChallenges] = useState(initialChallenges);
-    const [improvements, setImprovements] = useState(initialImprovements);
+const STEPS = ['Wins', 'Mood', 'Carry over', 'Reflect', 'Tomorrow'];
+
+/** A guided end-of-day review: wins, mood and energy, what carries over, reflections and tomorrow's top three. */
+const DailyReflectionModal: React.FC<DailyReflectionModalProps> = ({ isOpen, onClose, onSave, dailyLog, completedToday, carriedOverTasks, tasksForTomorrow, onPostponeTask }) => {
+    const [step, setStep] = useState(0);
+    const [wins, setWins] = useState(dailyLog.wins || '');
+    const [mood, setMood] = useState<number | null>(dailyLog.mood ?? null);
+    const [energy, setEnergy] = useState<number | null>(dailyLog.energy ?? null);
+    const [challenges, setChallenges] = useState(dailyLog.challenges || '');
+    const [improvements, setImprovements] = useState(dailyLog.improvements || '');
+    const [priorities, setPriorities] = useState<string[]>(() => [0, 1, 2].map(i => dailyLog.tomorrow_priorities?.[i] || ''));
+    const [postponingIds, setPostponingIds] = useState<string[]>([]);
 
     if (!isOpen) return null;
 
+    const postpone = async (ids: string[]) => {
+        setPostponingIds(prev => [...prev, ...ids]);
+        for (const id of ids) await onPostponeTask(id);
+        setPostponingIds(prev => prev.filter(id => !ids.includes(id)));
+    };
+
+    const addPriority = (text: string) => {
+        const emptyIndex = priorities.findIndex(p => !p.trim());
+        if (emptyIndex === -1 || priorities.includes(text)) return;
+        setPriorities(prev => prev.map((p, i) => i === emptyIndex ? text : p));
+    };
+
     const handleSave = () => {
-        onSave(challenges, improvements);
+        const trimmedPriorities = priorities.map(p => p.trim()).filter(Boolean);
+        onSave({
+            wins: wins.trim() || null,
+            mood,
+            energy,
+            challenges: challenges.trim() || null,
+            improvements: improvements.trim() || null,
+            tomorrow_priorities: trimmedPriorities.length > 0 ? trimmedPriorities : null,
+        });
     };
 
+    const textareaClass = "w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 transition-all min-h-[80px]";
+    const isLastStep = step === STEPS.length - 1;
+
     return (
         <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex justify-center items-center z-50 animate-fadeIn p-4">
-            <div className="bg-slate-800 border border-slate-700 rounded-2xl p-6 max-w-lg w-full shadow-2xl animate-slideUp">
-                <h2 className="text-2xl font-bold text-white mb-2 text-center">🌙 Daily Reflection</h2>
-                <p className="text-slate-400 text-sm text-center mb-6">
-                    Great work completing your tasks! Take a moment to reflect on today to improve tomorrow.
+            <div className="bg-slate-800 border border-slate-700 rounded-2xl p-6 max-w-lg w-full shadow-2xl animate-slideUp max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold text-white mb-2 text-center">🌙 Daily Review</h2>
+                <p className="text-slate-400 text-sm text-center mb-4">
+                    {completedToday.length} task{completedToday.length === 1 ? '' : 's'} done and {dailyLog.total_focus_minutes} min of focus today. Close the day so tomorrow starts with a plan.
                 </p>
 
-                <div className="space-y-4">
-                    <div>
-                        <label className="block text-sm font-medium text-red-300 mb-1">Challenges Faced Today</label>
-                        <textarea
-                            value={challenges}
-                            onChange={(e) => setChallenges(e.target.value)}
-                            placeholder="What obstacles did you encounter? (e.g., distraction, fatigue, tough concepts)"
-                            className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-red-400/50 transition-all min-h-[80px]"
-                        />
-                    </div>
-
-                    <div>
-                        <label className="block text-sm font-medium text-green-300 mb-1">Improvements for Tomorrow</label>
-                        <textarea
-                            value={improvements}
-                            onChange={(e) => setImprovements(e.target.value)}
-                            placeholder="How can you overcome these challenges next time?"
-                            className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-green-400/50 transition-all min-h-[80px]"
-                        />
-                    </div>
+                <div className="flex gap-1 mb-6">
+                    {STEPS.map((label, i) => (
+                        <button key={label} onClick={() => setStep(i)} className="flex-1 text-center">
+                            <div className={`h-1 rounded-full mb-1 ${i <= step ? 'bg-indigo-400' : 'bg-slate-700'}`}></div>
+                            <span className={`text-[10px] uppercase tracking-wider ${i === step ? 'text-indigo-300' : 'text-slate-500'}`}>{label}</span>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="space-y-4 min-h-[200px]">
+                    {step === 0 && (
+                        <div>
+                            <label className="block text-sm font-medium text-amber-300 mb-1">What went well today?</label>
+                            <textarea
+                                value={wins}
+                                onChange={(e) => setWins(e.target.value)}
+                                placeholder={completedToday.length > 0 ? `e.g., Finished "${completedToday[0].text}"` : 'Even small progress counts.'}
+                                className={`${textareaClass} focus:ring-amber-400/50`}
+                            />
+                            {completedToday.length > 0 && (
+                                <ul className="mt-2 space-y-1 text-xs text-slate-400 max-h-28 overflow-y-auto">
+                                    {completedToday.map(t => <li key={t.id}>✓ {t.text}</li>)}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+
+                    {step === 1 && (
+                        <>
+                            <RatingScale label="How did you feel today?" icons={MOOD_LABELS} value={mood} onChange={setMood} />
+                            <RatingScale label="How was your energy?" icons={ENERGY_LABELS} value={energy} onChange={setEnergy} />
+                        </>
+                    )}
+
+                    {step === 2 && (
+                        carriedOverTasks.length > 0 ? (
+                            <div>
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-sm font-medium text-slate-300">Still open today</span>
+                                    <button
+                                        onClick={() => postpone(carriedOverTasks.map(t => t.id))}
+                                        disabled={postponingIds.length > 0}
+                                        className="text-xs px-3 py-1 rounded-full bg-indigo-500/20 text-indigo-300 hover:bg-indigo-500/30 transition disabled:opacity-50"
+                                    >
+                                        Postpone all to tomorrow
+                                    </button>
+                                </div>
+                                <ul className="space-y-2 max-h-56 overflow-y-auto">
+                                    {carriedOverTasks.map(t => (
+                                        <li key={t.id} className="flex items-center gap-3 bg-slate-900/50 rounded-lg px-3 py-2 text-sm">
+                                            <span className="flex-grow truncate text-slate-200" title={t.text}>{t.text}</span>
+                                            {t.total_poms > 0 && <span className="text-xs text-slate-500">{t.completed_poms}/{t.total_poms}</span>}
+                                            <button
+                                                onClick={() => postpone([t.id])}
+                                                disabled={postponingIds.includes(t.id)}
+                                                className="text-xs text-indigo-300 hover:text-indigo-200 transition disabled:opacity-50"
+                                            >
+                                                {postponingIds.includes(t.id) ? 'Moving…' : 'Postpone →'}
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ) : (
+                            <p className="text-center text-slate-400 py-10">Nothing left over today. 🎉</p>
+                        )
+                    )}
+
+                    {step === 3 && (
+                        <>
+                            <div>
+                                <label className="block text-sm font-medium text-red-300 mb-1">Challenges Faced Today</label>
+                                <textarea
+                                    value={challenges}
+                                    onChange={(e) => setChallenges(e.target.value)}
+                                    placeholder="What obstacles did you encounter? (e.g., distraction, fatigue, tough concepts)"
+                                    className={`${textareaClass} focus:ring-red-400/50`}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-green-300 mb-1">Improvements for Tomorrow</label>
+                                <textarea
+                                    value={improvements}
+                                    onChange={(e) => setImprovements(e.target.value)}
+                                    placeholder="How can you overcome these challenges next time?"
+                                    className={`${textareaClass} focus:ring-green-400/50`}
+                                />
+                            </div>
+                        </>
+                    )}
+
+                    {step === 4 && (
+                        <div>
+                            <label className="block text-sm font-medium text-cyan-300 mb-2">Tomorrow's top 3</label>
+                            <div className="space-y-2">
+                                {priorities.map((priority, i) => (
+                                    <div key={i} className="flex items-center gap-2">
+                                        <span className="text-slate-500 font-bold w-4">{i + 1}.</span>
+                                        <input
+                                            type="text"
+                                            value={priority}
+                                            onChange={(e) => setPriorities(prev => prev.map((p, j) => j === i ? e.target.value : p))}
+                                            placeholder="What matters most tomorrow?"
+                                            className="flex-grow bg-slate-900/50 border border-slate-700 rounded-lg p-2.5 text-white text-sm placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-400/50"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            {tasksForTomorrow.length > 0 && (
+                                <div className="mt-3">
+                                    <span className="text-xs text-slate-500">Already planned for tomorrow:</span>
+                                    <div className="flex flex-wrap gap-1.5 mt-1">
+                                        {tasksForTomorrow.slice(0, 10).map(t => (
+                                            <button key={t.id} onClick={() => addPriority(t.text)} className="text-xs px-2 py-1 rounded-full bg-slate-700/60 text-slate-300 hover:bg-cyan-500/20 hover:text-cyan-200 transition max-w-full truncate">
+                                                + {t.text}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex gap-3 mt-6">
-                    <button 
-                        onClick={onClose}
+                    <button
+                        onClick={step === 0 ? onClose : () => setStep(step - 1)}
                         className="flex-1 py-3 rounded-lg font-bold text-slate-300 bg-slate-700 hover:bg-slate-600 transition"
                     >
-                        Skip
+                        {step === 0 ? 'Skip' : 'Back'}
                     </button>
-                    <button 
-                        onClick={handleSave}
+                    <button
+                        onClick={isLastStep ? handleSave : () => setStep(step + 1)}
                         className="flex-1 py-3 rounded-lg font-bold text-white bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-400 hover:to-purple-500 shadow-lg transition"
                     >
-                        Save Reflection
+                        {isLastStep ? 'Save Review' : 'Next'}
                     </button>
                 </div>
             </div>
@@ -67,4 +206,4 @@ const DailyReflectionModal: React.FC<DailyReflectionModalProps> = ({ isOpen, onC
     );
 };
 
-export default DailyReflectionModal;
\ No newline at end of file
+export default DailyReflectionModal;
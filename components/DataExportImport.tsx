@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import * as dbService from '../services/dbService';
+import { ArchiveTable } from '../types';
+import { getTodayDateString } from '../utils/date';
+import { toCsv, downloadFile } from '../utils/csv';
+
+interface DataExportImportProps {
+    onDataImported: () => void;
+}
+
+const TABLE_LABELS: Record<ArchiveTable, string> = {
+    settings: 'Settings',
+    goals: 'Goals',
+    projects: 'Projects',
+    targets: 'Targets',
+    commitments: 'Commitments',
+    tasks: 'Tasks',
+    project_updates: 'Project Updates',
+    pomodoro_history: 'Focus History',
+    break_history: 'Break History',
+    daily_logs: 'Daily Logs',
+    weekly_reviews: 'Weekly Reviews',
+    ai_memories: 'AI Memories',
+    notifications: 'Notifications',
+};
+
+const DataExportImport: React.FC<DataExportImportProps> = ({ onDataImported }) => {
+    const [isWorking, setIsWorking] = useState(false);
+    const [csvTable, setCsvTable] = useState<ArchiveTable>('pomodoro_history');
+    const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleExportJson = async () => {
+        setIsWorking(true);
+        setStatus(null);
+        const archive = await dbService.exportUserData();
+        setIsWorking(false);
+        if (!archive) {
+            setStatus({ type: 'error', message: 'Export failed. Please try again.' });
+            return;
+        }
+        downloadFile(`focusflow-export-${getTodayDateString()}.json`, JSON.stringify(archive, null, 2), 'application/json');
+        const rowCount = Object.values(archive.tables).reduce((sum, rows) => sum + rows.length, 0);
+        setStatus({ type: 'success', message: `Exported ${rowCount} records.` });
+    };
+
+    const handleExportCsv = async () => {
+        setIsWorking(true);
+        setStatus(null);
+        const archive = await dbService.exportUserData();
+        setIsWorking(false);
+        if (!archive) {
+            setStatus({ type: 'error', message: 'Export failed. Please try again.' });
+            return;
+        }
+        const rows = archive.tables[csvTable];
+        if (rows.length === 0) {
+            setStatus({ type: 'error', message: `There is no ${TABLE_LABELS[csvTable].toLowerCase()} data to export.` });
+            return;
+        }
+        downloadFile(`focusflow-${csvTable}-${getTodayDateString()}.csv`, toCsv(rows), 'text/csv');
+        setStatus({ type: 'success', message: `Exported ${rows.length} ${TABLE_LABELS[csvTable].toLowerCase()} rows.` });
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const { archive, error } = dbService.parseDataArchive(await file.text());
+        if (!archive) {
+            setStatus({ type: 'error', message: error || 'Could not read the file.' });
+            return;
+        }
+        const rowCount = Object.values(archive.tables).reduce((sum, rows) => sum + rows.length, 0);
+        if (!window.confirm(`Import ${rowCount} records exported on ${new Date(archive.exported_at).toLocaleDateString()}? They will be added alongside your existing data, and your settings will be replaced.`)) return;
+
+        setIsWorking(true);
+        setStatus(null);
+        const result = await dbService.importUserData(archive);
+        setIsWorking(false);
+        const imported = Object.values(result.counts).reduce((sum, n) => sum + (n || 0), 0);
+        if (result.success) {
+            setStatus({ type: 'success', message: `Imported ${imported} records.` });
+        } else {
+            setStatus({ type: 'error', message: `${result.error} (${imported} records were imported before the error.)` });
+        }
+        if (imported > 0) onDataImported();
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-white/70 text-sm text-center">
+                Download everything as a JSON archive to back it up or move it to another account. CSV exports are handy for spreadsheets.
+            </p>
+
+            <button
+                onClick={handleExportJson}
+                disabled={isWorking}
+                className="w-full p-3 bg-gradient-to-br from-cyan-400 to-blue-600 text-white font-bold rounded-lg transition hover:scale-105 disabled:opacity-50 disabled:hover:scale-100"
+            >
+                📦 Export All Data (JSON)
+            </button>
+
+            <div className="flex gap-2">
+                <select
+                    value={csvTable}
+                    onChange={(e) => setCsvTable(e.target.value as ArchiveTable)}
+                    className="flex-grow bg-white/10 border border-white/20 rounded-lg p-2 text-white text-sm focus:outline-none focus:bg-white/20"
+                >
+                    {dbService.ARCHIVE_TABLES.map(table => <option key={table} value={table} className="bg-slate-800">{TABLE_LABELS[table]}</option>)}
+                </select>
+                <button
+                    onClick={handleExportCsv}
+                    disabled={isWorking}
+                    className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-semibold rounded-lg transition disabled:opacity-50"
+                >
+                    Export CSV
+                </button>
+            </div>
+
+            <div className="pt-4 border-t border-white/20">
+                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isWorking}
+                    className="w-full p-3 bg-white/10 hover:bg-white/20 text-white font-bold rounded-lg transition disabled:opacity-50"
+                >
+                    📥 Import from JSON Archive
+                </button>
+            </div>
+
+            {isWorking && <p className="text-center text-sm text-cyan-300 animate-pulse">Working...</p>}
+            {status && (
+                <p className={`text-center text-sm ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.message}</p>
+            )}
+        </div>
+    );
+};
+
+export default DataExportImport;
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { BreakHistory, PomodoroHistory, PomodoroHistoryFields, Project, Task } from '../types';
+import * as dbService from '../services/dbService';
+import { getTodayDateString } from '../utils/date';
+import { addDaysToDateString } from '../utils/recurrence';
+import PomodoroHistoryEditModal from './PomodoroHistoryEditModal';
+import Spinner from './common/Spinner';
+
+interface DayTimelineModalProps {
+    date: string | null;
+    onClose: () => void;
+    tasks: Task[];
+    onUpdateSession: (id: string, updates: PomodoroHistoryFields) => Promise<boolean>;
+    onDeleteSession: (id: string) => Promise<boolean>;
+}
+
+type ColorBy = 'tag' | 'project';
+
+interface TimelineBlock {
+    id: string;
+    start: number;
+    end: number;
+    row: string;
+    session?: PomodoroHistory;
+    breakItem?: BreakHistory;
+}
+
+const TIMELINE_COLORS = ['#22d3ee', '#a78bfa', '#F59E0B', '#10B981', '#EC4899', '#F43F5E', '#6366F1', '#84CC16'];
+const BREAK_ROW = 'Breaks';
+// Shorter pauses between blocks are just switching tasks, not gaps worth pointing out.
+const GAP_MIN_MINUTES = 10;
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const formatDuration = (minutes: number) => minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+const isOnDay = (iso: string, date: string) => getTodayDateString(new Date(iso)) === date;
+
+const capitalize = (tag: string) => tag.trim().charAt(0).toUpperCase() + tag.trim().slice(1).toLowerCase();
+
+/** A Gantt-style view of one day: focus sessions by tag or project, breaks, and the gaps between them. */
+const DayTimelineModal: React.FC<DayTimelineModalProps> = ({ date, onClose, tasks, onUpdateSession, onDeleteSession }) => {
+    const [viewDate, setViewDate] = useState(date);
+    const [history, setHistory] = useState<PomodoroHistory[]>([]);
+    const [breaks, setBreaks] = useState<BreakHistory[]>([]);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [extraTasks, setExtraTasks] = useState<Task[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [colorBy, setColorBy] = useState<ColorBy>('tag');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [editingSession, setEditingSession] = useState<PomodoroHistory | null>(null);
+
+    useEffect(() => { setViewDate(date); setSelectedId(null); }, [date]);
+
+    const loadDay = useCallback(async (day: string) => {
+        setIsLoading(true);
+        try {
+            // History is stored by UTC day, so widen the range and keep what falls on the local day.
+            const from = addDaysToDateString(day, -1);
+            const to = addDaysToDateString(day, 1);
+            const [historyData, breakData, projectData] = await Promise.all([
+                dbService.getPomodoroHistory(from, to),
+                dbService.getBreakHistory(from, to),
+                dbService.getProjects(),
+            ]);
+            const dayHistory = historyData.filter(h => isOnDay(h.ended_at, day));
+            setHistory(dayHistory);
+            setBreaks(breakData.filter(b => isOnDay(b.ended_at, day)));
+            setProjects(projectData || []);
+
+            const known = new Set(tasks.map(t => t.id));
+            const missing = [...new Set(dayHistory.map(h => h.task_id).filter((id): id is string => !!id && !known.has(id)))];
+            setExtraTasks(await dbService.getTasksByIds(missing));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [tasks]);
+
+    useEffect(() => {
+        if (viewDate) loadDay(viewDate);
+    }, [viewDate, loadDay]);
+
+    const tasksById = useMemo(() => new Map([...extraTasks, ...tasks].map(t => [t.id, t])), [tasks, extraTasks]);
+    const knownTasks = useMemo(() => [...tasksById.values()], [tasksById]);
+    const projectNames = useMemo(() => new Map(projects.map(p => [p.id, p.name])), [projects]);
+
+    const timeline = useMemo(() => {
+        if (!viewDate) return null;
+        const dayStart = new Date(`${viewDate}T00:00:00`).getTime();
+
+        const rowFor = (session: PomodoroHistory) => {
+            const task = session.task_id ? tasksById.get(session.task_id) : undefined;
+            if (colorBy === 'project') return task?.project_id ? projectNames.get(task.project_id) || 'Other project' : 'No project';
+            return task?.tags && task.tags.length > 0 ? capitalize(task.tags[0]) : 'Untagged';
+        };
+
+        const blocks: TimelineBlock[] = [
+            ...history.map(h => {
+                const end = new Date(h.ended_at).getTime();
+                const start = h.started_at ? new Date(h.started_at).getTime() : end - (h.wall_clock_minutes || h.duration_minutes) * 60000;
+                return { id: h.id, start: Math.max(start, dayStart), end, row: rowFor(h), session: h };
+            }),
+            ...breaks.map(b => ({ id: b.id, start: Math.max(new Date(b.started_at).getTime(), dayStart), end: new Date(b.ended_at).getTime(), row: BREAK_ROW, breakItem: b })),
+        ].sort((a, b) => a.start - b.start);
+
+        const gaps: { start: number; end: number }[] = [];
+        let lastEnd: number | null = null;
+        blocks.forEach(block => {
+            if (lastEnd !== null && block.start - lastEnd >= GAP_MIN_MINUTES * 60000) gaps.push({ start: lastEnd, end: block.start });
+            lastEnd = Math.max(lastEnd ?? block.end, block.end);
+        });
+
+        const focusRows = [...new Set(blocks.filter(b => b.session).map(b => b.row))]
+            .sort((a, b) => blocks.filter(x => x.row === b).length - blocks.filter(x => x.row === a).length);
+        const colors = new Map(focusRows.map((row, i) => [row, TIMELINE_COLORS[i % TIMELINE_COLORS.length]]));
+        const rows = breaks.length > 0 ? [...focusRows, BREAK_ROW] : focusRows;
+
+        // Show whole hours around the activity, or a normal working day when there is none.
+        const hourOf = (ms: number) => (ms - dayStart) / 3600000;
+        const firstHour = blocks.length > 0 ? Math.floor(Math.min(...blocks.map(b => hourOf(b.start)))) : 8;
+        const lastHour = blocks.length > 0 ? Math.min(24, Math.ceil(Math.max(...blocks.map(b => hourOf(b.end))))) : 18;
+        const axisStart = dayStart + firstHour * 3600000;
+        const axisEnd = dayStart + Math.max(lastHour, firstHour + 1) * 3600000;
+
+        return {
+            blocks, gaps, rows, colors, axisStart, axisEnd,
+            hours: Array.from({ length: Math.max(lastHour, firstHour + 1) - firstHour + 1 }, (_, i) => firstHour + i),
+            focusMinutes: history.reduce((sum, h) => sum + (Number(h.duration_minutes) || 0), 0),
+            breakMinutes: breaks.reduce((sum, b) => sum + (Number(b.duration_minutes) || 0), 0),
+            gapMinutes: gaps.reduce((sum, g) => sum + Math.round((g.end - g.start) / 60000), 0),
+        };
+    }, [viewDate, history, breaks, tasksById, projectNames, colorBy]);
+
+    if (!viewDate || !timeline) return null;
+
+    const span = timeline.axisEnd - timeline.axisStart;
+    const offset = (ms: number) => `${((ms - timeline.axisStart) / span) * 100}%`;
+    const position = (start: number, end: number) => ({ left: offset(start), width: `${Math.max(((end - start) / span) * 100, 0.4)}%` });
+    const hourOffset = (hour: number) => offset(timeline.axisStart + (hour - timeline.hours[0]) * 3600000);
+
+    const selected = timeline.blocks.find(b => b.id === selectedId) || null;
+    const selectedTask = selected?.session?.task_id ? tasksById.get(selected.session.task_id) : undefined;
+
+    const handleSave = async (id: string, updates: PomodoroHistoryFields) => {
+        const success = await onUpdateSession(id, updates);
+        if (success) {
+            setSelectedId(null);
+            await loadDay(viewDate);
+        }
+        return success;
+    };
+
+    const handleDelete = async (session: PomodoroHistory) => {
+        if (!window.confirm(`Delete this ${session.duration_minutes} min session ending at ${formatTime(new Date(session.ended_at).getTime())}? This can't be undone.`)) return;
+        if (await onDeleteSession(session.id)) {
+            setSelectedId(null);
+            await loadDay(viewDate);
+        }
+    };
+
+    const goToDay = (offset: number) => { setSelectedId(null); setViewDate(addDaysToDateString(viewDate, offset)); };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex justify-center items-center z-50 animate-fadeIn p-4" onClick={onClose}>
+            <div className="bg-slate-800 border border-slate-700 rounded-2xl p-6 max-w-4xl w-full shadow-2xl animate-slideUp max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between gap-2 mb-4">
+                    <button onClick={() => goToDay(-1)} className="text-slate-400 hover:text-white px-2 text-xl" title="Previous day">‹</button>
+                    <div className="text-center">
+                        <h2 className="text-xl font-bold text-white">{new Date(`${viewDate}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}</h2>
+                        <p className="text-xs text-slate-400">
+                            {formatDuration(timeline.focusMinutes)} focus · {formatDuration(timeline.breakMinutes)} breaks · {formatDuration(timeline.gapMinutes)} in gaps
+                        </p>
+                    </div>
+                    <div className="flex items-center">
+                        <button onClick={() => goToDay(1)} disabled={viewDate >= getTodayDateString()} className="text-slate-400 hover:text-white px-2 text-xl disabled:opacity-30" title="Next day">›</button>
+                        <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl ml-2">&times;</button>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-1 mb-3 text-xs">
+                    <span className="text-slate-400 self-center mr-1">Color by</span>
+                    {(['tag', 'project'] as ColorBy[]).map(option => (
+                        <button key={option} onClick={() => setColorBy(option)} className={`px-3 py-1 rounded-full capitalize transition ${colorBy === option ? 'bg-cyan-500/20 text-cyan-300' : 'text-slate-400 hover:text-white'}`}>{option}</button>
+                    ))}
+                </div>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-12"><Spinner /></div>
+                ) : timeline.blocks.length === 0 ? (
+                    <p className="text-center text-slate-400 py-12">No sessions were logged on this day.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <div className="min-w-[600px]">
+                            <div className="flex">
+                                <div className="w-28 flex-shrink-0"></div>
+                                <div className="relative flex-1 h-5 text-[10px] text-slate-500">
+                                    {timeline.hours.map(hour => (
+                                        <span key={hour} className="absolute -translate-x-1/2" style={{ left: hourOffset(hour) }}>
+                                            {String(hour % 24).padStart(2, '0')}:00
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="flex">
+                                <div className="w-28 flex-shrink-0 space-y-1.5">
+                                    {timeline.rows.map(row => (
+                                        <div key={row} className="h-7 flex items-center gap-1.5 text-xs text-slate-300 truncate pr-2" title={row}>
+                                            <span className="w-2 h-2 rounded-sm flex-shrink-0" style={{ backgroundColor: timeline.colors.get(row) || '#64748b' }}></span>
+                                            <span className="truncate">{row}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="relative flex-1 space-y-1.5">
+                                    {timeline.hours.map(hour => (
+                                        <div key={hour} className="absolute top-0 bottom-0 border-l border-white/5" style={{ left: hourOffset(hour) }}></div>
+                                    ))}
+                                    {timeline.gaps.map(gap => (
+                                        <div
+                                            key={gap.start}
+                                            className="absolute top-0 bottom-0 bg-white/[0.03] border-x border-dashed border-white/15 flex items-end justify-center"
+                                            style={position(gap.start, gap.end)}
+                                            title={`Gap: ${formatTime(gap.start)}–${formatTime(gap.end)}`}
+                                        >
+                                            <span className="text-[9px] text-slate-500 truncate">{formatDuration(Math.round((gap.end - gap.start) / 60000))}</span>
+                                        </div>
+                                    ))}
+                                    {timeline.rows.map(row => (
+                                        <div key={row} className="relative h-7">
+                                            {timeline.blocks.filter(b => b.row === row).map(block => {
+                                                const isBreak = !!block.breakItem;
+                                                return (
+                                                    <button
+                                                        key={block.id}
+                                                        onClick={() => setSelectedId(block.id === selectedId ? null : block.id)}
+                                                        className={`absolute top-0.5 bottom-0.5 rounded transition hover:brightness-125 ${isBreak ? 'bg-slate-500/50 border border-slate-400/40' : ''} ${block.session?.source === 'manual' ? 'border border-dashed border-white/60' : ''} ${block.id === selectedId ? 'ring-2 ring-white' : ''}`}
+                                                        style={{ ...position(block.start, block.end), ...(isBreak ? {} : { backgroundColor: timeline.colors.get(row) }) }}
+                                                        title={`${formatTime(block.start)}–${formatTime(block.end)}`}
+                                                    />
+                                                );
+                                            })}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {selected?.session && (
+                    <div className="mt-4 bg-slate-900/50 border border-slate-700 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+                        <div className="min-w-0">
+                            <p className="text-white font-semibold truncate">{selectedTask?.text || (selected.session.task_id ? 'Deleted task' : 'No task')}</p>
+                            <p className="text-xs text-slate-400">
+                                {formatTime(selected.start)}–{formatTime(selected.end)} · {formatDuration(selected.session.duration_minutes)} of focus
+                                {selected.session.source === 'manual' && ' · logged manually'}
+                                {selected.session.edit_history && selected.session.edit_history.length > 0 && ' · edited'}
+                            </p>
+                            {selected.session.note && <p className="text-xs text-slate-300 italic mt-0.5">"{selected.session.note}"</p>}
+                        </div>
+                        <div className="flex gap-2 flex-shrink-0">
+                            <button onClick={() => setEditingSession(selected.session!)} className="px-3 py-1.5 rounded-lg text-cyan-300 bg-cyan-500/10 hover:bg-cyan-500/20 transition">✎ Edit</button>
+                            <button onClick={() => handleDelete(selected.session!)} className="px-3 py-1.5 rounded-lg text-red-300 bg-red-500/10 hover:bg-red-500/20 transition">Delete</button>
+                        </div>
+                    </div>
+                )}
+                {selected?.breakItem && (
+                    <div className="mt-4 bg-slate-900/50 border border-slate-700 rounded-xl p-4 text-sm">
+                        <p className="text-white font-semibold">{selected.breakItem.is_long_break ? 'Long break' : 'Short break'} · {formatDuration(selected.breakItem.duration_minutes)}</p>
+                        <p className="text-xs text-slate-400">
+                            {formatTime(selected.start)}–{formatTime(selected.end)} · {selected.breakItem.outcome}
+                            {selected.breakItem.activity && ` · ${selected.breakItem.activity}`}
+                        </p>
+                    </div>
+                )}
+            </div>
+            <div onClick={e => e.stopPropagation()}>
+                <PomodoroHistoryEditModal
+                    session={editingSession}
+                    onClose={() => setEditingSession(null)}
+                    tasks={knownTasks}
+                    onSave={handleSave}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default DayTimelineModal;
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { PomodoroHistory, Project, Task } from '../types';
+import { buildFocusHeatmap, findBestFocusWindow, formatFocusWindow, formatHour, FocusHeatmapCell, WEEKDAY_LABELS } from '../utils/focusWindows';
+
+interface FocusHeatmapProps {
+    history: PomodoroHistory[];
+    allTasks: Task[];
+    allProjects: Project[];
+}
+
+type HeatmapMetric = 'minutes' | 'sessions' | 'completeFocus';
+
+const METRICS: { key: HeatmapMetric; label: string }[] = [
+    { key: 'minutes', label: 'Minutes' },
+    { key: 'sessions', label: 'Sessions' },
+    { key: 'completeFocus', label: 'Full focus %' },
+];
+
+const completeFocusShare = (cell: FocusHeatmapCell) => cell.ratedSessions > 0 ? cell.completeFocusSessions / cell.ratedSessions : null;
+
+/** A weekday by hour-of-day grid of focus, with the best two-hour window for the current filter. */
+const FocusHeatmap: React.FC<FocusHeatmapProps> = ({ history, allTasks, allProjects }) => {
+    const [metric, setMetric] = useState<HeatmapMetric>('minutes');
+    const [filter, setFilter] = useState('all'); // 'all', 'tag:<name>' or 'project:<id>'
+
+    const tasksById = useMemo(() => new Map(allTasks.map(t => [t.id, t])), [allTasks]);
+    const tagOptions = useMemo(() => [...new Set(allTasks.flatMap(t => t.tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean))].sort(), [allTasks]);
+    const projectOptions = useMemo(() => {
+        const projectIds = new Set(history.map(h => h.task_id && tasksById.get(h.task_id)?.project_id).filter(Boolean));
+        return allProjects.filter(p => projectIds.has(p.id));
+    }, [history, tasksById, allProjects]);
+
+    const filteredHistory = useMemo(() => {
+        if (filter === 'all') return history;
+        const [kind, value] = [filter.slice(0, filter.indexOf(':')), filter.slice(filter.indexOf(':') + 1)];
+        return history.filter(h => {
+            const task = h.task_id ? tasksById.get(h.task_id) : undefined;
+            if (!task) return false;
+            return kind === 'tag' ? (task.tags || []).some(tag => tag.trim().toLowerCase() === value) : task.project_id === value;
+        });
+    }, [history, filter, tasksById]);
+
+    const cells = useMemo(() => buildFocusHeatmap(filteredHistory), [filteredHistory]);
+    const bestWindow = useMemo(() => findBestFocusWindow(filteredHistory), [filteredHistory]);
+
+    const cellValue = (cell: FocusHeatmapCell): number | null => {
+        if (metric === 'minutes') return cell.minutes;
+        if (metric === 'sessions') return cell.sessions;
+        return completeFocusShare(cell);
+    };
+    const maxValue = Math.max(0, ...cells.map(c => cellValue(c) ?? 0));
+
+    const describeCell = (cell: FocusHeatmapCell) => {
+        const share = completeFocusShare(cell);
+        return `${WEEKDAY_LABELS[cell.weekday]} ${formatHour(cell.hour)}–${formatHour(cell.hour + 1)}: ${Math.round(cell.minutes)} min, ${cell.sessions} session${cell.sessions === 1 ? '' : 's'}${share !== null ? `, ${Math.round(share * 100)}% full focus` : ''}`;
+    };
+
+    const isInBestWindow = (cell: FocusHeatmapCell) => !!bestWindow && cell.hour >= bestWindow.startHour && cell.hour < bestWindow.endHour;
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-white">When You Focus</h3>
+                <div className="flex items-center gap-2">
+                    <div className="flex justify-center gap-1 bg-black/20 p-1 rounded-full text-xs">
+                        {METRICS.map(m => (
+                            <button key={m.key} onClick={() => setMetric(m.key)} className={`px-3 py-1 rounded-full font-bold transition-colors ${metric === m.key ? 'bg-white/20 text-white' : 'text-white/60 hover:bg-white/10'}`}>{m.label}</button>
+                        ))}
+                    </div>
+                    <select value={filter} onChange={e => setFilter(e.target.value)} className="bg-white/10 border border-white/20 rounded-lg px-2 py-1.5 text-white text-xs focus:outline-none">
+                        <option value="all" className="bg-slate-800">All focus</option>
+                        {tagOptions.length > 0 && (
+                            <optgroup label="Tags" className="bg-slate-800">
+                                {tagOptions.map(tag => <option key={tag} value={`tag:${tag}`} className="bg-slate-800">#{tag}</option>)}
+                            </optgroup>
+                        )}
+                        {projectOptions.length > 0 && (
+                            <optgroup label="Projects" className="bg-slate-800">
+                                {projectOptions.map(p => <option key={p.id} value={`project:${p.id}`} className="bg-slate-800">{p.name}</option>)}
+                            </optgroup>
+                        )}
+                    </select>
+                </div>
+            </div>
+
+            {filteredHistory.length > 0 ? (
+                <div className="overflow-x-auto">
+                    <div className="min-w-[640px]">
+                        <div className="grid gap-0.5" style={{ gridTemplateColumns: '2.5rem repeat(24, minmax(0, 1fr))' }}>
+                            <div></div>
+                            {Array.from({ length: 24 }, (_, hour) => (
+                                <div key={hour} className="text-[10px] text-white/50 text-center">{hour % 3 === 0 ? formatHour(hour).replace(' ', '') : ''}</div>
+                            ))}
+                            {WEEKDAY_LABELS.map((label, weekday) => (
+                                <React.Fragment key={label}>
+                                    <div className="text-xs text-white/60 flex items-center">{label}</div>
+                                    {cells.filter(c => c.weekday === weekday).map(cell => {
+                                        const value = cellValue(cell);
+                                        const intensity = value && maxValue > 0 ? value / maxValue : 0;
+                                        return (
+                                            <div
+                                                key={cell.hour}
+                                                title={describeCell(cell)}
+                                                className={`h-6 rounded-sm ${isInBestWindow(cell) ? 'ring-1 ring-amber-300/60' : ''}`}
+                                                style={{ backgroundColor: intensity > 0 ? `rgba(34, 211, 238, ${0.15 + intensity * 0.85})` : 'rgba(255, 255, 255, 0.05)' }}
+                                            />
+                                        );
+                                    })}
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            ) : <p className="h-32 flex items-center justify-center text-white/60">No focus sessions for this filter in the selected period.</p>}
+
+            <p className="text-sm text-center mt-4 text-white/80">
+                {bestWindow ? (
+                    <>⭐ Best focus window: <span className="font-semibold text-amber-300">{formatFocusWindow(bestWindow)}</span> — about {bestWindow.avgMinutesPerDay} min of focus there on days you study{bestWindow.completeFocusPct !== null && `, with ${bestWindow.completeFocusPct}% of sessions rated full focus`}.</>
+                ) : filteredHistory.length > 0 ? 'Log a few more sessions to find your best focus window.' : null}
+            </p>
+        </div>
+    );
+};
+
+export default FocusHeatmap;
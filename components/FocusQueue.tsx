@@ -1,27 +1,41 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Task } from '../types';
 import Panel from './common/Panel';
+import { getBlockingTasks, indexTasks } from '../utils/dependencies';
 
 interface FocusQueueProps {
     nextTasks: Task[];
+    allTasks: Task[];
+    onFocusTask: (taskId: string | null) => void;
+    isFreeSession: boolean;
+    isMidSession: boolean; // Picking a task now switches the running session instead of starting a new one
 }
 
-const FocusQueue: React.FC<FocusQueueProps> = ({ nextTasks }) => {
+const FocusQueue: React.FC<FocusQueueProps> = ({ nextTasks, allTasks, onFocusTask, isFreeSession, isMidSession }) => {
+    const tasksById = useMemo(() => indexTasks(allTasks), [allTasks]);
+
     return (
         <Panel title="Up Next" className="h-full flex flex-col">
             <div className="flex-grow flex flex-col justify-center">
                 {nextTasks.length > 0 ? (
                     <ul className="space-y-2">
-                        {nextTasks.slice(0, 3).map((task, index) => (
-                            <li 
-                                key={task.id} 
-                                className="bg-black/20 text-slate-300 p-3 rounded-lg text-sm truncate shadow-inner flex items-center gap-3"
-                                style={{ animation: `fadeIn 0.5s ease-out ${index * 0.1}s forwards`, opacity: 0 }}
-                            >
-                                <span className="font-bold text-slate-500">{index + 1}.</span>
-                                <span className="flex-grow">{task.text}</span>
-                            </li>
-                        ))}
+                        {nextTasks.slice(0, 3).map((task, index) => {
+                            const blockingTasks = getBlockingTasks(task, tasksById);
+                            return (
+                                <li 
+                                    key={task.id} 
+                                    className="bg-black/20 text-slate-300 p-3 rounded-lg text-sm truncate shadow-inner flex items-center gap-3"
+                                    style={{ animation: `fadeIn 0.5s ease-out ${index * 0.1}s forwards`, opacity: 0 }}
+                                >
+                                    <span className="font-bold text-slate-500">{index + 1}.</span>
+                                    <span className="flex-grow truncate">{task.text}</span>
+                                    {blockingTasks.length > 0 && (
+                                        <span className="flex-shrink-0 text-xs bg-rose-900/50 text-rose-300 px-2 py-0.5 rounded-full" title={`Waiting on: ${blockingTasks.map(t => t.text).join(', ')}`}>🔒 Blocked</span>
+                                    )}
+                                    <button onClick={() => onFocusTask(task.id)} className="flex-shrink-0 text-xs text-teal-300 hover:text-teal-200 hover:bg-white/10 px-2 py-0.5 rounded-full transition" title={isMidSession ? 'Switch the running session to this task' : 'Focus on this task'}>{isMidSession ? '⇄ Switch' : '▶ Focus'}</button>
+                                </li>
+                            );
+                        })}
                     </ul>
                 ) : (
                     <p className="text-slate-500 text-sm text-center italic p-4">
@@ -29,6 +43,11 @@ const FocusQueue: React.FC<FocusQueueProps> = ({ nextTasks }) => {
                     </p>
                 )}
             </div>
+            {!isFreeSession && (
+                <button onClick={() => onFocusTask(null)} className="mt-3 w-full text-xs text-slate-400 hover:text-white hover:bg-white/5 py-1.5 rounded-lg transition">
+                    {isMidSession ? 'Switch to a free session (no task)' : 'Start a free session (no task)'}
+                </button>
+            )}
         </Panel>
     );
 };
@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { Task } from '../types';
+import { getTodayDateString } from '../utils/date';
+import { addDaysToDateString } from '../utils/recurrence';
+import { getHabitDayStatuses, HabitDayStatus } from '../utils/habits';
+
+interface HabitHeatmapProps {
+    template: Task;
+    instances: Task[];
+    weeks?: number;
+}
+
+const STATUS_STYLES: Record<HabitDayStatus, string> = {
+    done: 'bg-green-500',
+    missed: 'bg-red-500/70',
+    skipped: 'bg-slate-500/60',
+    pending: 'bg-transparent ring-1 ring-inset ring-cyan-400',
+    none: 'bg-white/5',
+};
+
+const STATUS_LABELS: Record<HabitDayStatus, string> = {
+    done: 'Done',
+    missed: 'Missed',
+    skipped: 'Skipped',
+    pending: 'To do',
+    none: 'Not scheduled',
+};
+
+/** A compact week-by-column grid of one automation's recent days, like the focus streak calendar. */
+const HabitHeatmap: React.FC<HabitHeatmapProps> = ({ template, instances, weeks = 13 }) => {
+    const todayString = getTodayDateString();
+
+    const columns = useMemo(() => {
+        // Start on a Sunday so each column is one calendar week.
+        const end = todayString;
+        const start = addDaysToDateString(end, -((weeks - 1) * 7 + new Date(`${end}T12:00:00`).getDay()));
+        const statuses = getHabitDayStatuses(template, instances, start, end, todayString);
+
+        const result: { date: string; status: HabitDayStatus }[][] = [];
+        for (let date = start; date <= end; date = addDaysToDateString(date, 1)) {
+            if (new Date(`${date}T12:00:00`).getDay() === 0) result.push([]);
+            result[result.length - 1].push({ date, status: statuses.get(date)! });
+        }
+        return result;
+    }, [template, instances, weeks, todayString]);
+
+    return (
+        <div>
+            <div className="flex gap-[3px] overflow-x-auto pb-1">
+                {columns.map(week => (
+                    <div key={week[0].date} className="flex flex-col gap-[3px]">
+                        {week.map(day => (
+                            <div
+                                key={day.date}
+                                className={`w-2.5 h-2.5 rounded-sm ${STATUS_STYLES[day.status]} ${day.date === todayString ? 'outline outline-1 outline-white/60' : ''}`}
+                                title={`${new Date(day.date + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}: ${STATUS_LABELS[day.status]}`}
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-3 mt-1 text-[10px] text-slate-400">
+                {(['done', 'missed', 'skipped'] as HabitDayStatus[]).map(status => (
+                    <span key={status} className="flex items-center gap-1">
+                        <span className={`w-2 h-2 rounded-sm ${STATUS_STYLES[status]}`}></span>{STATUS_LABELS[status]}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default HabitHeatmap;
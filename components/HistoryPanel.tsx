@@ -1,14 +1,20 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import Panel from './common/Panel';
-import { DbDailyLog, Task, Project, Target, Settings, PomodoroHistory } from '../types';
+import { DbDailyLog, Task, Project, Target, Settings, PomodoroHistory, BreakHistory, ManualFocusEntry, PomodoroHistoryFields } from '../types';
 import { ResponsiveContainer, PieChart, Pie, Cell, Tooltip, LineChart, Line, XAxis, YAxis, CartesianGrid, Legend, BarChart, Bar } from 'recharts';
 import { getTodayDateString } from '../utils/date';
+import { CHECK_IN_FACTORS, SESSION_CHECK_IN_FACTORS, CheckInFactor, correlateDailyCheckIns, correlateSessionCheckIns, describeCorrelation } from '../utils/wellbeing';
 import AIInsightModal from './common/AIInsightModal';
 import { SparklesIcon, FilledStarIcon } from './common/Icons';
 import AISummaryModal from './common/AISummaryModal';
+import ManualTimeEntryModal from './ManualTimeEntryModal';
+import PomodoroHistoryEditModal from './PomodoroHistoryEditModal';
+import DayTimelineModal from './DayTimelineModal';
+import FocusHeatmap from './FocusHeatmap';
+import { buildFocusHeatmap } from '../utils/focusWindows';
 import { getTabSummary } from '../services/geminiService';
 
-type ActiveTab = 'dashboard' | 'tasks' | 'categories' | 'priorities' | 'focus';
+type ActiveTab = 'dashboard' | 'tasks' | 'categories' | 'priorities' | 'focus' | 'checkins';
 
 interface HistoryPanelProps {
     logs: DbDailyLog[];
@@ -22,12 +28,16 @@ interface HistoryPanelProps {
     setHistoryRange: React.Dispatch<React.SetStateAction<{ start: string; end: string }>>;
     settings: Settings | null;
     pomodoroHistory: PomodoroHistory[];
+    breakHistory: BreakHistory[];
     consistencyLogs: DbDailyLog[];
     timelinePomodoroHistory: PomodoroHistory[];
     consistencyPomodoroHistory: PomodoroHistory[];
     activeTab: ActiveTab;
     selectedYear: number;
     onYearChange: (year: number) => void;
+    onLogManualSession: (entry: ManualFocusEntry) => Promise<boolean>;
+    onUpdatePomodoroHistory: (id: string, updates: PomodoroHistoryFields) => Promise<boolean>;
+    onDeletePomodoroHistory: (id: string) => Promise<boolean>;
 }
 
 const formatMinutesToHours = (minutes: number) => {
@@ -66,9 +76,11 @@ interface DayDetailTooltipProps {
     pomodoroHistory: PomodoroHistory[];
     position: { top: number; left: number };
     onClose: () => void;
+    onEditSession?: (session: PomodoroHistory) => void;
+    onOpenTimeline?: (date: string) => void;
 }
 
-const DayDetailTooltip: React.FC<DayDetailTooltipProps> = ({ date, value, category, allTasks, allProjects, pomodoroHistory, position, onClose }) => {
+const DayDetailTooltip: React.FC<DayDetailTooltipProps> = ({ date, value, category, allTasks, allProjects, pomodoroHistory, position, onClose, onEditSession, onOpenTimeline }) => {
     const tooltipRef = useRef<HTMLDivElement>(null);
 
     const details = useMemo(() => {
@@ -83,8 +95,13 @@ const DayDetailTooltip: React.FC<DayDetailTooltipProps> = ({ date, value, catego
             .reduce((sum, h) => sum + (Number(h.duration_minutes) || 0), 0);
         
         const completedProjects = allProjects.filter(p => p.completed_at && p.completed_at.startsWith(date));
+
+        const sessionsForDay = pomodoroHistory
+            .filter(h => getTodayDateString(new Date(h.ended_at)) === date)
+            .sort((a, b) => a.ended_at.localeCompare(b.ended_at));
         
         return {
+            sessionsForDay,
             tasksForDay,
             completedTasksCount,
             totalTasks,
@@ -154,6 +171,28 @@ const DayDetailTooltip: React.FC<DayDetailTooltipProps> = ({ date, value, catego
                  {details.tasksForDay.length === 0 && (
                      <p className="text-xs text-white/60 mt-2">No tasks were due on this day.</p>
                  )}
+
+                {onEditSession && details.sessionsForDay.length > 0 && (
+                    <div>
+                        <h5 className="font-semibold mt-2 text-white">Sessions:</h5>
+                        <ul className="max-h-28 overflow-y-auto text-xs space-y-1">
+                            {details.sessionsForDay.map(h => (
+                                <li key={h.id} className="flex items-center justify-between gap-2">
+                                    <span className="truncate">
+                                        {new Date(h.ended_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · {h.duration_minutes}m · {h.task_id ? allTasks.find(t => t.id === h.task_id)?.text || 'Deleted task' : 'No task'}
+                                    </span>
+                                    <button onClick={() => onEditSession(h)} title="Edit session" className="text-slate-400 hover:text-cyan-300 flex-shrink-0">✎</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {onOpenTimeline && (
+                    <button onClick={() => onOpenTimeline(date)} className="w-full mt-3 text-xs font-semibold text-cyan-300 hover:text-cyan-200 bg-cyan-500/10 hover:bg-cyan-500/20 rounded-md py-1.5 transition">
+                        View day timeline
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -191,9 +230,11 @@ interface ConsistencyTrackerProps {
     isForModal?: boolean;
     selectedYear: number;
     onYearChange: (year: number) => void;
+    onEditSession?: (session: PomodoroHistory) => void;
+    onOpenTimeline?: (date: string) => void;
 }
 
-const ConsistencyTracker: React.FC<ConsistencyTrackerProps> = ({ logs, allTasks, allProjects, pomodoroHistory, openInsightModal, showCompletions, onToggleCompletions, isForModal = false, selectedYear, onYearChange }) => {
+const ConsistencyTracker: React.FC<ConsistencyTrackerProps> = ({ logs, allTasks, allProjects, pomodoroHistory, openInsightModal, showCompletions, onToggleCompletions, isForModal = false, selectedYear, onYearChange, onEditSession, onOpenTimeline }) => {
     const [selectedDay, setSelectedDay] = useState<string | null>(null);
     const [tooltipPosition, setTooltipPosition] = useState<{ top: number; left: number } | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -468,6 +509,8 @@ const ConsistencyTracker: React.FC<ConsistencyTrackerProps> = ({ logs, allTasks,
                     pomodoroHistory={pomodoroHistory}
                     position={tooltipPosition}
                     onClose={() => setSelectedDay(null)}
+                    onEditSession={onEditSession && (session => { setSelectedDay(null); onEditSession(session); })}
+                    onOpenTimeline={onOpenTimeline && (day => { setSelectedDay(null); onOpenTimeline(day); })}
                 />
             )}
         </div>
@@ -866,8 +909,70 @@ const CategoryTimelineChart = React.memo(({ tasks, history, historyRange, openIn
 });
 
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, projects, allProjects, targets, allTargets, historyRange, setHistoryRange, settings, pomodoroHistory, consistencyLogs, timelinePomodoroHistory, consistencyPomodoroHistory, activeTab, selectedYear, onYearChange }) => {
+const FOCUS_LEVEL_ICONS: Record<string, string> = { complete_focus: '😊', half_focus: '🤔', none_focus: '😩' };
+
+const SessionLog: React.FC<{ history: PomodoroHistory[]; allTasks: Task[]; onAddManual: () => void; onEdit: (session: PomodoroHistory) => void }> = ({ history, allTasks, onAddManual, onEdit }) => {
+    const [showAll, setShowAll] = useState(false);
+    const taskNames = useMemo(() => new Map(allTasks.map(t => [t.id, t.text])), [allTasks]);
+    const sessions = useMemo(() => [...history].sort((a, b) => b.ended_at.localeCompare(a.ended_at)), [history]);
+    const manualMinutes = sessions.filter(h => h.source === 'manual').reduce((sum, h) => sum + (Number(h.duration_minutes) || 0), 0);
+    const visible = showAll ? sessions : sessions.slice(0, 10);
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-2 mb-2">
+                <div>
+                    <h3 className="text-lg font-semibold text-white">Session Log</h3>
+                    {manualMinutes > 0 && <p className="text-xs text-amber-300/80">Includes {formatMinutesToHours(manualMinutes)} logged manually</p>}
+                </div>
+                <button onClick={onAddManual} className="text-sm font-semibold text-amber-300 hover:text-amber-200 px-3 py-1.5 rounded-full hover:bg-white/10 transition">✍️ Log time manually</button>
+            </div>
+            {sessions.length === 0 ? (
+                <p className="text-center text-slate-400 text-sm p-4">No focus sessions in this range.</p>
+            ) : (
+                <ul className="space-y-1.5">
+                    {visible.map(h => {
+                        const isManual = h.source === 'manual';
+                        const ended = new Date(h.ended_at);
+                        return (
+                            <li key={h.id} className={`flex items-start justify-between gap-3 rounded-lg px-3 py-2 text-sm border ${isManual ? 'border-dashed border-amber-400/50 bg-amber-500/5' : 'border-slate-700/60 bg-slate-800/40'}`}>
+                                <div className="min-w-0">
+                                    <p className="text-white truncate">
+                                        {h.task_id ? taskNames.get(h.task_id) || 'Deleted task' : <span className="italic text-slate-400">No task</span>}
+                                        {isManual && <span className="ml-2 text-[10px] font-bold uppercase tracking-wide text-amber-300 bg-amber-500/20 px-1.5 py-0.5 rounded">✍ Manual</span>}
+                                        {h.edit_history && h.edit_history.length > 0 && <span className="ml-2 text-[10px] text-slate-400 italic" title={`Edited ${h.edit_history.length} time${h.edit_history.length === 1 ? '' : 's'}`}>edited</span>}
+                                    </p>
+                                    <p className="text-xs text-slate-400">
+                                        {ended.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                                        {' · '}
+                                        {h.started_at && `${new Date(h.started_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}–`}{ended.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                    </p>
+                                    {h.note && <p className="text-xs text-slate-300 mt-0.5 italic break-words">"{h.note}"</p>}
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    {h.difficulty && <span title={h.difficulty.replace('_', ' ')}>{FOCUS_LEVEL_ICONS[h.difficulty]}</span>}
+                                    <span className="font-semibold text-white">{formatMinutesToHours(Number(h.duration_minutes) || 0)}</span>
+                                    <button onClick={() => onEdit(h)} title="Edit session" className="text-slate-400 hover:text-cyan-300 transition">✎</button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            {sessions.length > 10 && (
+                <button onClick={() => setShowAll(v => !v)} className="w-full mt-2 text-xs text-slate-400 hover:text-white transition">
+                    {showAll ? 'Show less' : `Show all ${sessions.length} sessions`}
+                </button>
+            )}
+        </div>
+    );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, projects, allProjects, targets, allTargets, historyRange, setHistoryRange, settings, pomodoroHistory, breakHistory, consistencyLogs, timelinePomodoroHistory, consistencyPomodoroHistory, activeTab, selectedYear, onYearChange, onLogManualSession, onUpdatePomodoroHistory, onDeletePomodoroHistory }) => {
     const [selectedDay, setSelectedDay] = useState<string>(getTodayDateString());
+    const [isManualEntryOpen, setIsManualEntryOpen] = useState(false);
+    const [editingSession, setEditingSession] = useState<PomodoroHistory | null>(null);
+    const [timelineDate, setTimelineDate] = useState<string | null>(null);
     const [detailViewType, setDetailViewType] = useState<'day' | 'week' | 'month' | 'all'>('day');
     
     const [visiblePomLines, setVisiblePomLines] = useState({
@@ -1617,6 +1722,12 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, proj
                 title = `AI Summary for Focus Quality Analysis (${historyRange.start} to ${historyRange.end})`;
                 dataForTab.focusHistory = pomodoroHistory.filter(h => h.difficulty);
                 dataForTab.tasksWithTags = allTasks.filter(t => t.tags && t.tags.length > 0);
+                dataForTab.focusByWeekdayAndHour = buildFocusHeatmap(pomodoroHistory).filter(c => c.sessions > 0 || c.minutes > 0);
+                break;
+            case 'checkins':
+                title = `AI Summary for Check-ins (${historyRange.start} to ${historyRange.end})`;
+                dataForTab.morningCheckIns = logs.filter(l => l.check_in).map(l => ({ date: l.date, ...l.check_in, focusMinutes: l.total_focus_minutes }));
+                dataForTab.sessionCheckIns = pomodoroHistory.filter(h => h.check_in).map(h => ({ ended_at: h.ended_at, duration_minutes: h.duration_minutes, difficulty: h.difficulty, ...h.check_in }));
                 break;
             default:
                 return;
@@ -1625,7 +1736,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, proj
         const fetcher = () => getTabSummary(activeTab, dataForTab);
         setSummaryModalState({ isOpen: true, title, fetcher });
 
-    }, [activeTab, historyRange, aggregatedData, consistencyLogs, categoryPriorityDistributionData, categoryCompletionStatusData, pieChartData, priorityFocusData, dailyPomCountByPriorityData, totalPomsByPriorityData, avgDailyFocusByCategory, pomodoroHistory, allTasks]);
+    }, [activeTab, historyRange, aggregatedData, consistencyLogs, categoryPriorityDistributionData, categoryCompletionStatusData, pieChartData, priorityFocusData, dailyPomCountByPriorityData, totalPomsByPriorityData, avgDailyFocusByCategory, pomodoroHistory, allTasks, logs]);
 
     const handleCloseSummaryModal = () => {
         setSummaryModalState({ isOpen: false, title: '', fetcher: null });
@@ -1968,6 +2079,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, proj
         categories: '📚 Category Analysis',
         priorities: '🚦 Priority Analysis',
         focus: '✨ Focus Quality Analysis',
+        checkins: '🌡️ Check-ins & Focus',
     };
 
     return (
@@ -2035,6 +2147,8 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, proj
                         onToggleCompletions={() => setShowCompletions(v => !v)}
                         selectedYear={selectedYear}
                         onYearChange={onYearChange}
+                        onEditSession={setEditingSession}
+                        onOpenTimeline={setTimelineDate}
                     />
                     
                     {/* Daily Focus Chart */}
@@ -2085,6 +2199,9 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, proj
                         </div>
                         <div className="h-64">{taskBreakdownPieChartElement}</div>
                     </div>
+
+                    {/* Individual sessions, with manually logged time marked */}
+                    <SessionLog history={pomodoroHistory} allTasks={allTasks} onAddManual={() => setIsManualEntryOpen(true)} onEdit={setEditingSession} />
                 </div>
             )}
             
@@ -2304,8 +2421,10 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, proj
 
             {activeTab === 'focus' && (
                 <div key="focus" className="animate-fadeIn space-y-8">
+                    <FocusHeatmap history={pomodoroHistory} allTasks={allTasks} allProjects={allProjects} />
                      <FocusQualityTab
                         pomodoroHistory={pomodoroHistory}
+                        breakHistory={breakHistory}
                         allTasks={allTasks}
                         historyRange={historyRange}
                         openInsightModal={openInsightModal}
@@ -2314,6 +2433,16 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, proj
             )}
 
 
+            {activeTab === 'checkins' && (
+                <div key="checkins" className="animate-fadeIn space-y-8">
+                    <CheckInsTab
+                        logs={logs}
+                        pomodoroHistory={pomodoroHistory}
+                        openInsightModal={openInsightModal}
+                    />
+                </div>
+            )}
+
             {modalState && (
                 <AIInsightModal
                     isOpen={modalState.isOpen}
@@ -2331,16 +2460,36 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ logs, tasks, allTasks, proj
                     fetcher={summaryModalState.fetcher}
                 />
             )}
+            <ManualTimeEntryModal
+                isOpen={isManualEntryOpen}
+                onClose={() => setIsManualEntryOpen(false)}
+                tasks={allTasks}
+                onSubmit={onLogManualSession}
+            />
+            <PomodoroHistoryEditModal
+                session={editingSession}
+                onClose={() => setEditingSession(null)}
+                tasks={allTasks}
+                onSave={onUpdatePomodoroHistory}
+            />
+            <DayTimelineModal
+                date={timelineDate}
+                onClose={() => setTimelineDate(null)}
+                tasks={allTasks}
+                onUpdateSession={onUpdatePomodoroHistory}
+                onDeleteSession={onDeletePomodoroHistory}
+            />
         </Panel>
     );
 };
 
 const FocusQualityTab: React.FC<{
     pomodoroHistory: PomodoroHistory[],
+    breakHistory: BreakHistory[],
     allTasks: Task[],
     historyRange: { start: string, end: string },
     openInsightModal: (chartTitle: string, chartData: any, chartElement: React.ReactNode) => void,
-}> = ({ pomodoroHistory, allTasks, historyRange, openInsightModal }) => {
+}> = ({ pomodoroHistory, breakHistory, allTasks, historyRange, openInsightModal }) => {
     // Colors
     const FOCUS_COLORS = {
         complete_focus: '#34D399', // green-400
@@ -2581,6 +2730,132 @@ const FocusQualityTab: React.FC<{
         </>
     );
 
+    // --- Chart 4: Interruptions ---
+    const interruptionStats = useMemo(() => {
+        const trackedSessions = pomodoroHistory.filter(h => h.started_at && Array.isArray(h.interruptions));
+        const reasonCounts = new Map<string, number>();
+        const byFocusLevel: { [key: string]: { sessions: number; interruptions: number } } = {
+            complete_focus: { sessions: 0, interruptions: 0 }, half_focus: { sessions: 0, interruptions: 0 }, none_focus: { sessions: 0, interruptions: 0 },
+        };
+        let totalInterruptions = 0;
+        let pausedMinutes = 0;
+        let netMinutes = 0;
+        let wallClockMinutes = 0;
+
+        trackedSessions.forEach(h => {
+            const interruptions = h.interruptions!;
+            totalInterruptions += interruptions.length;
+            interruptions.forEach(i => {
+                const reason = i.reason || 'No reason given';
+                reasonCounts.set(reason, (reasonCounts.get(reason) || 0) + 1);
+                if (i.resumed_at) pausedMinutes += (new Date(i.resumed_at).getTime() - new Date(i.paused_at).getTime()) / 60000;
+            });
+            netMinutes += Number(h.duration_minutes) || 0;
+            wallClockMinutes += Number(h.wall_clock_minutes) || Number(h.duration_minutes) || 0;
+            if (h.difficulty) {
+                byFocusLevel[h.difficulty].sessions++;
+                byFocusLevel[h.difficulty].interruptions += interruptions.length;
+            }
+        });
+
+        const reasonData = Array.from(reasonCounts.entries()).map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+        const focusLevelData = Object.entries(byFocusLevel).filter(([, v]) => v.sessions > 0).map(([key, v]) => ({
+            name: FOCUS_NAMES[key as keyof typeof FOCUS_NAMES],
+            avg: parseFloat((v.interruptions / v.sessions).toFixed(2)),
+            fill: FOCUS_COLORS[key as keyof typeof FOCUS_COLORS],
+        }));
+
+        return {
+            trackedCount: trackedSessions.length,
+            totalInterruptions,
+            avgPerSession: trackedSessions.length > 0 ? (totalInterruptions / trackedSessions.length).toFixed(1) : '0',
+            cleanPct: trackedSessions.length > 0 ? Math.round(trackedSessions.filter(h => h.interruptions!.length === 0).length / trackedSessions.length * 100) : 0,
+            pausedMinutes: Math.round(pausedMinutes),
+            efficiencyPct: wallClockMinutes > 0 ? Math.round(Math.min(netMinutes / wallClockMinutes, 1) * 100) : 100,
+            reasonData,
+            focusLevelData,
+        };
+    }, [pomodoroHistory]);
+
+    const interruptionReasonsElement = (
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={interruptionStats.reasonData} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.2)" />
+                <XAxis type="number" stroke="rgba(255,255,255,0.7)" allowDecimals={false} />
+                <YAxis dataKey="name" type="category" stroke="rgba(255,255,255,0.7)" tick={{ fontSize: 10 }} width={110} interval={0} />
+                <Tooltip contentStyle={{ background: 'rgba(30,41,59,0.8)', border: '1px solid rgba(255,255,255,0.2)', borderRadius: '0.5rem' }} itemStyle={{ color: 'white' }} labelStyle={{ color: 'white', fontWeight: 'bold' }} cursor={{ fill: 'rgba(255,255,255,0.1)' }} />
+                <Bar dataKey="count" name="Interruptions" fill="#F59E0B" />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+
+    const interruptionsByFocusLevelElement = (
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={interruptionStats.focusLevelData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.2)" />
+                <XAxis dataKey="name" stroke="rgba(255,255,255,0.7)" tick={{ fontSize: 10 }} />
+                <YAxis stroke="rgba(255,255,255,0.7)" />
+                <Tooltip contentStyle={{ background: 'rgba(30,41,59,0.8)', border: '1px solid rgba(255,255,255,0.2)', borderRadius: '0.5rem' }} itemStyle={{ color: 'white' }} labelStyle={{ color: 'white', fontWeight: 'bold' }} cursor={{ fill: 'rgba(255,255,255,0.1)' }} />
+                <Bar dataKey="avg" name="Avg. interruptions per session">
+                    {interruptionStats.focusLevelData.map((entry, index) => <Cell key={`cell-${index}`} fill={entry.fill} />)}
+                </Bar>
+            </BarChart>
+        </ResponsiveContainer>
+    );
+
+    // --- Chart 5: Break Discipline ---
+    const breakStats = useMemo(() => {
+        const outcomeCounts = { completed: 0, skipped: 0, extended: 0 };
+        let breakMinutes = 0;
+        let plannedMinutes = 0;
+        const minutesByDay = new Map<string, { focus: number; break: number }>();
+        const dayEntry = (endedAt: string) => {
+            const day = getTodayDateString(new Date(endedAt));
+            if (!minutesByDay.has(day)) minutesByDay.set(day, { focus: 0, break: 0 });
+            return minutesByDay.get(day)!;
+        };
+
+        breakHistory.forEach(b => {
+            outcomeCounts[b.outcome]++;
+            breakMinutes += Number(b.duration_minutes) || 0;
+            plannedMinutes += Number(b.planned_minutes) || 0;
+            dayEntry(b.ended_at).break += Number(b.duration_minutes) || 0;
+        });
+        const focusMinutes = pomodoroHistory.reduce((sum, h) => {
+            const minutes = Number(h.duration_minutes) || 0;
+            if (breakHistory.length > 0) dayEntry(h.ended_at).focus += minutes;
+            return sum + minutes;
+        }, 0);
+
+        return {
+            breaksTaken: breakHistory.length,
+            onPlanPct: breakHistory.length > 0 ? Math.round(outcomeCounts.completed / breakHistory.length * 100) : 0,
+            outcomeCounts,
+            avgBreakMinutes: breakHistory.length > 0 ? Math.round(breakMinutes / breakHistory.length) : 0,
+            avgPlannedMinutes: breakHistory.length > 0 ? Math.round(plannedMinutes / breakHistory.length) : 0,
+            focusToBreakRatio: breakMinutes > 0 ? (focusMinutes / breakMinutes).toFixed(1) : null,
+            dailyData: Array.from(minutesByDay.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([date, minutes]) => ({
+                name: new Date(date + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+                Focus: minutes.focus,
+                Break: minutes.break,
+            })),
+        };
+    }, [breakHistory, pomodoroHistory]);
+
+    const focusVsBreakElement = (
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={breakStats.dailyData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.2)" />
+                <XAxis dataKey="name" stroke="rgba(255,255,255,0.7)" tick={{ fontSize: 10 }} />
+                <YAxis stroke="rgba(255,255,255,0.7)" unit="m" />
+                <Tooltip contentStyle={{ background: 'rgba(30,41,59,0.8)', border: '1px solid rgba(255,255,255,0.2)', borderRadius: '0.5rem' }} itemStyle={{ color: 'white' }} labelStyle={{ color: 'white', fontWeight: 'bold' }} cursor={{ fill: 'rgba(255,255,255,0.1)' }} />
+                <Legend wrapperStyle={{ color: 'white' }} />
+                <Bar dataKey="Focus" fill="#22D3EE" />
+                <Bar dataKey="Break" fill="#A78BFA" />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+
     return (
         <>
             <div>
@@ -2643,6 +2918,163 @@ const FocusQualityTab: React.FC<{
                     <div className="h-96">{focusByCategoryElement}</div>
                 ) : <p className="h-72 flex items-center justify-center text-white/60">No focus quality data for tagged tasks in this period.</p>}
             </div>
+            <div>
+                <div className="flex justify-center items-center gap-2 mb-4">
+                    <h3 className="text-lg font-semibold text-white text-center">Interruptions</h3>
+                    <button onClick={() => openInsightModal('Interruptions', interruptionStats, <div className="h-64">{interruptionReasonsElement}</div>)} className="p-1 text-purple-400 hover:text-purple-300 transition" title="Get AI Insights"><SparklesIcon /></button>
+                </div>
+                {interruptionStats.trackedCount > 0 ? (
+                    <div className="space-y-6">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <StatCard title="Per Session"><StatItem label="Avg. interruptions" value={interruptionStats.avgPerSession} /></StatCard>
+                            <StatCard title="Clean Sessions"><StatItem label="No pauses" value={`${interruptionStats.cleanPct}%`} /></StatCard>
+                            <StatCard title="Time Paused"><StatItem label={`${interruptionStats.totalInterruptions} pauses`} value={formatMinutesToHours(interruptionStats.pausedMinutes)} /></StatCard>
+                            <StatCard title="Net vs. Wall Clock"><StatItem label="Time spent focusing" value={`${interruptionStats.efficiencyPct}%`} /></StatCard>
+                        </div>
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div>
+                                <h4 className="text-sm font-semibold text-white/80 text-center mb-2">Top Reasons</h4>
+                                {interruptionStats.reasonData.length > 0 ? (
+                                    <div className="h-64">{interruptionReasonsElement}</div>
+                                ) : <p className="h-64 flex items-center justify-center text-white/60">No interruptions — nice!</p>}
+                            </div>
+                            <div>
+                                <h4 className="text-sm font-semibold text-white/80 text-center mb-2">Interruptions by Focus Level</h4>
+                                {interruptionStats.focusLevelData.length > 0 ? (
+                                    <div className="h-64">{interruptionsByFocusLevelElement}</div>
+                                ) : <p className="h-64 flex items-center justify-center text-white/60">No rated sessions with pause tracking yet.</p>}
+                            </div>
+                        </div>
+                    </div>
+                ) : <p className="h-32 flex items-center justify-center text-white/60 text-center">Pauses are tracked for sessions started from now on. Pause a focus session to log what interrupted you.</p>}
+            </div>
+            <div>
+                <div className="flex justify-center items-center gap-2 mb-4">
+                    <h3 className="text-lg font-semibold text-white text-center">Break Discipline</h3>
+                    <button onClick={() => openInsightModal('Break Discipline', breakStats, <div className="h-64">{focusVsBreakElement}</div>)} className="p-1 text-purple-400 hover:text-purple-300 transition" title="Get AI Insights"><SparklesIcon /></button>
+                </div>
+                {breakStats.breaksTaken > 0 ? (
+                    <div className="space-y-6">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <StatCard title="Breaks Taken"><StatItem label="As planned" value={`${breakStats.onPlanPct}%`} /></StatCard>
+                            <StatCard title="Skipped / Extended"><StatItem label={`of ${breakStats.breaksTaken} breaks`} value={`${breakStats.outcomeCounts.skipped} / ${breakStats.outcomeCounts.extended}`} /></StatCard>
+                            <StatCard title="Avg. Break"><StatItem label={`Planned ${breakStats.avgPlannedMinutes}m`} value={`${breakStats.avgBreakMinutes}m`} /></StatCard>
+                            <StatCard title="Focus : Break"><StatItem label="Minutes of focus per break minute" value={breakStats.focusToBreakRatio ? `${breakStats.focusToBreakRatio} : 1` : '—'} /></StatCard>
+                        </div>
+                        <div className="h-72">{focusVsBreakElement}</div>
+                    </div>
+                ) : <p className="h-32 flex items-center justify-center text-white/60 text-center">No breaks logged in this period. Breaks are recorded when you move on from them.</p>}
+            </div>
+        </>
+    );
+};
+
+const CheckInsTab: React.FC<{
+    logs: DbDailyLog[],
+    pomodoroHistory: PomodoroHistory[],
+    openInsightModal: (chartTitle: string, chartData: any, chartElement: React.ReactNode) => void,
+}> = ({ logs, pomodoroHistory, openInsightModal }) => {
+    const [selectedFactor, setSelectedFactor] = useState<CheckInFactor>('energy');
+    const [source, setSource] = useState<'daily' | 'session'>('daily');
+
+    const dailyCorrelations = useMemo(() => CHECK_IN_FACTORS.map(f => correlateDailyCheckIns(logs, pomodoroHistory, f.key)), [logs, pomodoroHistory]);
+    const sessionCorrelations = useMemo(() => SESSION_CHECK_IN_FACTORS.map(factor => correlateSessionCheckIns(pomodoroHistory, factor)), [pomodoroHistory]);
+
+    const daysCheckedIn = logs.filter(l => l.check_in).length;
+    const sessionsCheckedIn = pomodoroHistory.filter(h => h.check_in).length;
+    const factorLabel = (factor: CheckInFactor) => CHECK_IN_FACTORS.find(f => f.key === factor)!.label;
+
+    const correlationRows = [
+        ...dailyCorrelations.map(c => ({ ...c, label: `${factorLabel(c.factor)} (morning)`, unit: 'days' })),
+        ...sessionCorrelations.map(c => ({ ...c, label: `${factorLabel(c.factor)} (after session)`, unit: 'sessions' })),
+    ];
+    const strongest = correlationRows
+        .filter(row => row.focusMinutesR !== null)
+        .sort((a, b) => Math.abs(b.focusMinutesR!) - Math.abs(a.focusMinutesR!))[0];
+
+    const factorOptions = source === 'daily' ? CHECK_IN_FACTORS.map(f => f.key) : SESSION_CHECK_IN_FACTORS;
+    const activeFactor = factorOptions.includes(selectedFactor) ? selectedFactor : factorOptions[0];
+    const selectedCorrelation = (source === 'daily' ? dailyCorrelations : sessionCorrelations).find(c => c.factor === activeFactor)!;
+    const bucketData = selectedCorrelation.buckets.map(b => ({ ...b, name: b.bucket }));
+    const focusAxisLabel = source === 'daily' ? 'Avg. focus per day (min)' : 'Avg. session length (min)';
+
+    const formatR = (r: number | null) => r === null ? '—' : r.toFixed(2);
+    const rColor = (r: number | null) => r === null || Math.abs(r) < 0.1 ? 'text-white/60' : r > 0 ? 'text-green-300' : 'text-red-300';
+
+    const factorBucketsElement = (
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={bucketData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.2)" />
+                <XAxis dataKey="name" stroke="rgba(255,255,255,0.7)" tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="minutes" stroke="#22D3EE" allowDecimals={false} />
+                <YAxis yAxisId="percent" orientation="right" stroke="#34D399" domain={[0, 100]} unit="%" />
+                <Tooltip contentStyle={{ background: 'rgba(30,41,59,0.8)', border: '1px solid rgba(255,255,255,0.2)', borderRadius: '0.5rem' }} itemStyle={{ color: 'white' }} labelStyle={{ color: 'white', fontWeight: 'bold' }} cursor={{ fill: 'rgba(255,255,255,0.1)' }} />
+                <Legend wrapperStyle={{fontSize: "12px"}} />
+                <Bar yAxisId="minutes" dataKey="avgFocusMinutes" name={focusAxisLabel} fill="#22D3EE" />
+                <Bar yAxisId="percent" dataKey="completeFocusPct" name="Full focus (%)" fill="#34D399" />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+
+    if (daysCheckedIn === 0 && sessionsCheckedIn === 0) {
+        return <p className="h-32 flex items-center justify-center text-white/60 text-center">No check-ins in this period. Check in from the Timer page in the morning, or rate your energy and mood when a focus session ends.</p>;
+    }
+
+    return (
+        <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <StatCard title="Morning Check-ins"><StatItem label="Days" value={daysCheckedIn} /></StatCard>
+                <StatCard title="Session Check-ins"><StatItem label="Sessions" value={sessionsCheckedIn} /></StatCard>
+                <StatCard title="Strongest Link"><StatItem label={strongest ? `${describeCorrelation(strongest.focusMinutesR)} with focus time` : 'Keep checking in'} value={strongest ? strongest.label : '—'} /></StatCard>
+            </div>
+            <div>
+                <h3 className="text-lg font-semibold text-white text-center mb-1">How Check-ins Track Your Focus</h3>
+                <p className="text-xs text-white/60 text-center mb-4">Correlation (r) from −1 to 1. Links are shown once there are at least a few check-ins, and don't prove cause.</p>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-white">
+                        <thead>
+                            <tr className="text-white/60 text-xs uppercase tracking-wider">
+                                <th className="text-left py-2 px-2">Check-in</th>
+                                <th className="text-right py-2 px-2">Samples</th>
+                                <th className="text-right py-2 px-2">r with focus minutes</th>
+                                <th className="text-right py-2 px-2">r with full-focus ratio</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {correlationRows.map(row => (
+                                <tr key={row.label} className="border-t border-white/10">
+                                    <td className="py-2 px-2">{row.label}</td>
+                                    <td className="py-2 px-2 text-right text-white/70">{row.samples} {row.unit}</td>
+                                    <td className={`py-2 px-2 text-right ${rColor(row.focusMinutesR)}`} title={describeCorrelation(row.focusMinutesR)}>{formatR(row.focusMinutesR)}</td>
+                                    <td className={`py-2 px-2 text-right ${rColor(row.completeFocusR)}`} title={describeCorrelation(row.completeFocusR)}>{formatR(row.completeFocusR)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+            <div>
+                <div className="flex flex-col sm:flex-row justify-between items-center gap-2 mb-4">
+                    <div className="flex items-center gap-2">
+                        <h3 className="text-lg font-semibold text-white">Focus by {factorLabel(activeFactor)}</h3>
+                        <button onClick={() => openInsightModal(`Focus by ${factorLabel(activeFactor)}`, selectedCorrelation, <div className="h-72">{factorBucketsElement}</div>)} className="p-1 text-purple-400 hover:text-purple-300 transition" title="Get AI Insights"><SparklesIcon /></button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="flex justify-center gap-1 bg-black/20 p-1 rounded-full text-xs">
+                            <button onClick={() => setSource('daily')} className={`px-3 py-1 rounded-full font-bold transition-colors ${source === 'daily' ? 'bg-white/20 text-white' : 'text-white/60 hover:bg-white/10'}`}>Morning</button>
+                            <button onClick={() => setSource('session')} className={`px-3 py-1 rounded-full font-bold transition-colors ${source === 'session' ? 'bg-white/20 text-white' : 'text-white/60 hover:bg-white/10'}`}>After session</button>
+                        </div>
+                        <div className="flex justify-center gap-1 bg-black/20 p-1 rounded-full text-xs">
+                            {factorOptions.map(factor => (
+                                <button key={factor} onClick={() => setSelectedFactor(factor)} className={`px-3 py-1 rounded-full font-bold transition-colors ${activeFactor === factor ? 'bg-white/20 text-white' : 'text-white/60 hover:bg-white/10'}`}>{factorLabel(factor)}</button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                {selectedCorrelation.samples > 0 ? (
+                    <div className="h-72">{factorBucketsElement}</div>
+                ) : <p className="h-72 flex items-center justify-center text-white/60">No {factorLabel(activeFactor).toLowerCase()} check-ins in this period.</p>}
+            </div>
         </>
     );
 };
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+
+export const INTERRUPTION_REASONS = ['📱 Phone', '🗣️ Colleague', '🍎 Hunger', '🚻 Bathroom', '💭 Distracted'];
+
+interface InterruptionReasonPickerProps {
+    reason: string | null;
+    onSelectReason: (reason: string | null) => void;
+}
+
+const InterruptionReasonPicker: React.FC<InterruptionReasonPickerProps> = ({ reason, onSelectReason }) => {
+    const [customReason, setCustomReason] = useState('');
+    const isCustom = !!reason && !INTERRUPTION_REASONS.includes(reason);
+
+    const handleCustomSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (customReason.trim()) onSelectReason(customReason.trim());
+    };
+
+    return (
+        <div className="text-center -mt-2 mb-4 animate-fadeIn">
+            <p className="text-xs font-semibold uppercase tracking-wider text-slate-400 mb-2">What interrupted you? <span className="normal-case font-normal">(optional)</span></p>
+            <div className="flex flex-wrap justify-center gap-2">
+                {INTERRUPTION_REASONS.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => onSelectReason(reason === option ? null : option)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${reason === option ? 'bg-amber-500/30 border-amber-400/60 text-white' : 'bg-white/5 border-white/10 text-slate-300 hover:bg-white/10'}`}
+                    >
+                        {option}
+                    </button>
+                ))}
+                <form onSubmit={handleCustomSubmit}>
+                    <input
+                        type="text"
+                        value={isCustom ? reason! : customReason}
+                        onChange={(e) => { setCustomReason(e.target.value); if (isCustom) onSelectReason(null); }}
+                        placeholder="Other..."
+                        className={`w-28 px-3 py-1 rounded-full text-xs bg-white/5 border text-white placeholder:text-slate-500 focus:outline-none focus:bg-white/10 ${isCustom ? 'border-amber-400/60' : 'border-white/10'}`}
+                    />
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default InterruptionReasonPicker;
@@ -0,0 +1,155 @@
+import React, { useState, useMemo } from 'react';
+import { FocusLevel, ManualFocusEntry, Task } from '../types';
+import { getTodayDateString } from '../utils/date';
+import FocusLevelSelect from './common/FocusLevelSelect';
+
+interface ManualTimeEntryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    tasks: Task[];
+    onSubmit: (entry: ManualFocusEntry) => Promise<boolean>;
+}
+
+const currentTimeString = () => new Date().toTimeString().slice(0, 5);
+
+const ManualTimeEntryModal: React.FC<ManualTimeEntryModalProps> = ({ isOpen, onClose, tasks, onSubmit }) => {
+    const [taskId, setTaskId] = useState('none');
+    const [date, setDate] = useState(getTodayDateString());
+    const [startTime, setStartTime] = useState('');
+    const [endTime, setEndTime] = useState(currentTimeString());
+    const [useDuration, setUseDuration] = useState(true);
+    const [duration, setDuration] = useState('25');
+    const [focusLevel, setFocusLevel] = useState<FocusLevel | null>(null);
+    const [note, setNote] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Open tasks first, then recently finished ones; templates are never worked on directly.
+    const selectableTasks = useMemo(() => tasks
+        .filter(t => !t.is_recurring)
+        .sort((a, b) => (a.completed_at ? 1 : 0) - (b.completed_at ? 1 : 0) || b.due_date.localeCompare(a.due_date))
+        .slice(0, 200), [tasks]);
+
+    if (!isOpen) return null;
+
+    const reset = () => {
+        setTaskId('none'); setDate(getTodayDateString()); setStartTime(''); setEndTime(currentTimeString());
+        setUseDuration(true); setDuration('25'); setFocusLevel(null); setNote(''); setError(null);
+    };
+
+    const handleClose = () => { reset(); onClose(); };
+
+    const handleSubmit = async () => {
+        const end = new Date(`${date}T${endTime || '00:00'}`);
+        let start: Date;
+        let minutes: number;
+
+        if (useDuration) {
+            minutes = parseInt(duration, 10);
+            start = new Date(end.getTime() - minutes * 60000);
+        } else {
+            start = new Date(`${date}T${startTime || '00:00'}`);
+            // An end time before the start time means the session ran past midnight.
+            if (start >= end) start.setDate(start.getDate() - 1);
+            minutes = Math.round((end.getTime() - start.getTime()) / 60000);
+        }
+
+        if (!endTime || (!useDuration && !startTime) || isNaN(end.getTime()) || isNaN(minutes) || minutes <= 0) {
+            setError('Enter a valid time range or a duration of at least one minute.');
+            return;
+        }
+        if (minutes > 12 * 60) {
+            setError('A single entry can be at most 12 hours. Split longer stretches into several entries.');
+            return;
+        }
+        if (end.getTime() > Date.now()) {
+            setError("Entries can't end in the future.");
+            return;
+        }
+
+        setIsSaving(true);
+        const success = await onSubmit({
+            task_id: taskId === 'none' ? null : taskId,
+            started_at: start.toISOString(),
+            ended_at: end.toISOString(),
+            duration_minutes: minutes,
+            difficulty: focusLevel,
+            note: note.trim() || null,
+        });
+        setIsSaving(false);
+        if (success) handleClose();
+        else setError('Could not save the entry. Please try again.');
+    };
+
+    const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-lg p-2.5 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-400/50";
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex justify-center items-center z-50 animate-fadeIn p-4">
+            <div className="bg-slate-800 border border-slate-700 rounded-2xl p-6 max-w-lg w-full shadow-2xl animate-slideUp max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold text-white mb-2 text-center">✍️ Log Time Manually</h2>
+                <p className="text-slate-400 text-sm text-center mb-6">
+                    Studied away from the app? Add the session here and it will count toward your stats, projects and targets.
+                </p>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Task</label>
+                        <select value={taskId} onChange={e => setTaskId(e.target.value)} className={inputClass}>
+                            <option value="none" className="bg-slate-900">No task</option>
+                            {selectableTasks.map(t => (
+                                <option key={t.id} value={t.id} className="bg-slate-900">{t.completed_at ? '✓ ' : ''}{t.text} ({t.due_date})</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Date</label>
+                            <input type="date" value={date} max={getTodayDateString()} onChange={e => setDate(e.target.value)} className={inputClass} style={{colorScheme: 'dark'}} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Ended at</label>
+                            <input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} className={inputClass} style={{colorScheme: 'dark'}} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="flex gap-2 mb-2 text-sm">
+                            <button onClick={() => setUseDuration(true)} className={`px-3 py-1 rounded-full transition ${useDuration ? 'bg-amber-500/20 text-amber-300' : 'text-slate-400 hover:text-white'}`}>Duration</button>
+                            <button onClick={() => setUseDuration(false)} className={`px-3 py-1 rounded-full transition ${!useDuration ? 'bg-amber-500/20 text-amber-300' : 'text-slate-400 hover:text-white'}`}>Start time</button>
+                        </div>
+                        {useDuration ? (
+                            <div className="flex items-center gap-2">
+                                <input type="number" min="1" max="720" value={duration} onChange={e => setDuration(e.target.value)} className={`${inputClass} w-28 text-center`} />
+                                <span className="text-slate-400 text-sm">minutes of focus</span>
+                            </div>
+                        ) : (
+                            <input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} className={inputClass} style={{colorScheme: 'dark'}} />
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Focus level (optional)</label>
+                        <FocusLevelSelect value={focusLevel} onChange={setFocusLevel} className={inputClass} />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Note (optional)</label>
+                        <textarea value={note} onChange={e => setNote(e.target.value)} placeholder="e.g., Library session, reviewed chapter 4 by hand" className={`${inputClass} min-h-[70px]`} />
+                    </div>
+
+                    {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+                </div>
+
+                <div className="flex gap-3 mt-6">
+                    <button onClick={handleClose} className="flex-1 py-3 rounded-lg font-bold text-slate-300 bg-slate-700 hover:bg-slate-600 transition">Cancel</button>
+                    <button onClick={handleSubmit} disabled={isSaving} className="flex-1 py-3 rounded-lg font-bold text-white bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 shadow-lg transition disabled:opacity-50">
+                        {isSaving ? 'Saving...' : 'Log Time'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ManualTimeEntryModal;
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FocusLevel, PomodoroHistory, PomodoroHistoryFields, Task } from '../types';
+import { getTodayDateString } from '../utils/date';
+import FocusLevelSelect, { FOCUS_LEVEL_OPTIONS } from './common/FocusLevelSelect';
+
+interface PomodoroHistoryEditModalProps {
+    session: PomodoroHistory | null;
+    onClose: () => void;
+    tasks: Task[];
+    onSave: (id: string, updates: PomodoroHistoryFields) => Promise<boolean>;
+}
+
+const toTimeString = (date: Date) => date.toTimeString().slice(0, 5);
+
+const PomodoroHistoryEditModal: React.FC<PomodoroHistoryEditModalProps> = ({ session, onClose, tasks, onSave }) => {
+    const [taskId, setTaskId] = useState('none');
+    const [date, setDate] = useState(getTodayDateString());
+    const [endTime, setEndTime] = useState('');
+    const [duration, setDuration] = useState('');
+    const [focusLevel, setFocusLevel] = useState<FocusLevel | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!session) return;
+        const ended = new Date(session.ended_at);
+        setTaskId(session.task_id || 'none');
+        setDate(getTodayDateString(ended));
+        setEndTime(toTimeString(ended));
+        setDuration(String(session.duration_minutes));
+        setFocusLevel(session.difficulty || null);
+        setError(null);
+    }, [session]);
+
+    const taskNames = useMemo(() => new Map(tasks.map(t => [t.id, t.text])), [tasks]);
+
+    // Same ordering as manual entry, but keep the session's own task selectable even if it's old.
+    const selectableTasks = useMemo(() => {
+        const sorted = tasks
+            .filter(t => !t.is_recurring)
+            .sort((a, b) => (a.completed_at ? 1 : 0) - (b.completed_at ? 1 : 0) || b.due_date.localeCompare(a.due_date))
+            .slice(0, 200);
+        const current = session?.task_id ? tasks.find(t => t.id === session.task_id) : undefined;
+        return current && !sorted.includes(current) ? [current, ...sorted] : sorted;
+    }, [tasks, session]);
+
+    if (!session) return null;
+
+    const describeFields = (fields: PomodoroHistoryFields) => {
+        const ended = new Date(fields.ended_at);
+        const task = fields.task_id ? taskNames.get(fields.task_id) || 'Deleted task' : 'No task';
+        const level = FOCUS_LEVEL_OPTIONS.find(o => o.value === fields.difficulty)?.label || 'Not rated';
+        return `${task} · ${fields.duration_minutes} min · ended ${ended.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} ${toTimeString(ended)} · ${level}`;
+    };
+
+    const handleSubmit = async () => {
+        const end = new Date(`${date}T${endTime || '00:00'}`);
+        const minutes = parseInt(duration, 10);
+
+        if (!endTime || isNaN(end.getTime()) || isNaN(minutes) || minutes <= 0) {
+            setError('Enter a valid end time and a duration of at least one minute.');
+            return;
+        }
+        if (minutes > 12 * 60) {
+            setError('A single session can be at most 12 hours.');
+            return;
+        }
+        if (end.getTime() > Date.now()) {
+            setError("Sessions can't end in the future.");
+            return;
+        }
+
+        // Keep the original seconds when the time wasn't touched, so an unchanged field isn't recorded as an edit.
+        const original = new Date(session.ended_at);
+        const endedAt = getTodayDateString(original) === date && toTimeString(original) === endTime ? session.ended_at : end.toISOString();
+
+        setIsSaving(true);
+        const success = await onSave(session.id, {
+            task_id: taskId === 'none' ? null : taskId,
+            duration_minutes: minutes,
+            ended_at: endedAt,
+            difficulty: focusLevel,
+        });
+        setIsSaving(false);
+        if (success) onClose();
+        else setError('Could not save the changes. Please try again.');
+    };
+
+    const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-lg p-2.5 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-400/50";
+    const edits = [...(session.edit_history || [])].reverse();
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex justify-center items-center z-50 animate-fadeIn p-4">
+            <div className="bg-slate-800 border border-slate-700 rounded-2xl p-6 max-w-lg w-full shadow-2xl animate-slideUp max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold text-white mb-2 text-center">✎ Edit Session</h2>
+                <p className="text-slate-400 text-sm text-center mb-6">
+                    Task pomodoro counts, project progress and targets are recalculated when you save.
+                </p>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Task</label>
+                        <select value={taskId} onChange={e => setTaskId(e.target.value)} className={inputClass}>
+                            <option value="none" className="bg-slate-900">No task</option>
+                            {selectableTasks.map(t => (
+                                <option key={t.id} value={t.id} className="bg-slate-900">{t.completed_at ? '✓ ' : ''}{t.text} ({t.due_date})</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Date</label>
+                            <input type="date" value={date} max={getTodayDateString()} onChange={e => setDate(e.target.value)} className={inputClass} style={{colorScheme: 'dark'}} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Ended at</label>
+                            <input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} className={inputClass} style={{colorScheme: 'dark'}} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Minutes</label>
+                            <input type="number" min="1" max="720" value={duration} onChange={e => setDuration(e.target.value)} className={`${inputClass} text-center`} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Focus level</label>
+                        <FocusLevelSelect value={focusLevel} onChange={setFocusLevel} className={inputClass} />
+                    </div>
+
+                    {edits.length > 0 && (
+                        <div>
+                            <h3 className="text-sm font-medium text-slate-300 mb-1">Edit history</h3>
+                            <ul className="space-y-1 max-h-32 overflow-y-auto text-xs">
+                                {edits.map(edit => (
+                                    <li key={edit.edited_at} className="bg-slate-900/50 rounded-lg px-3 py-1.5">
+                                        <span className="text-slate-500">{new Date(edit.edited_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} — was </span>
+                                        <span className="text-slate-300">{describeFields(edit.previous)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+                </div>
+
+                <div className="flex gap-3 mt-6">
+                    <button onClick={onClose} className="flex-1 py-3 rounded-lg font-bold text-slate-300 bg-slate-700 hover:bg-slate-600 transition">Cancel</button>
+                    <button onClick={handleSubmit} disabled={isSaving} className="flex-1 py-3 rounded-lg font-bold text-white bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500 shadow-lg transition disabled:opacity-50">
+                        {isSaving ? 'Saving...' : 'Save Changes'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PomodoroHistoryEditModal;
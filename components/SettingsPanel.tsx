@@ -1,7 +1,8 @@
-
 import React, { useState } from 'react';
 import Panel from './common/Panel';
-import { Settings } from '../types';
+import { Settings, SplitSessionCredit, TimerPreset } from '../types';
+import { BUILT_IN_TIMER_PRESETS, formatTimerPreset } from '../utils/timer';
+import { TrashIcon } from './common/Icons';
 
 interface SettingsPanelProps {
     settings: Settings;
@@ -24,15 +25,59 @@ const SettingInput: React.FC<{ label: string; value: number; onChange: (val: num
     </div>
 );
 
+const isPresetActive = (preset: TimerPreset, settings: Settings) =>
+    preset.focusDuration === settings.focusDuration && preset.breakDuration === settings.breakDuration &&
+    preset.longBreakDuration === settings.longBreakDuration && preset.sessionsPerCycle === settings.sessionsPerCycle;
+
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave }) => {
     const [localSettings, setLocalSettings] = useState(settings);
+    const [newPresetName, setNewPresetName] = useState('');
 
     const handleSave = () => {
         onSave(localSettings);
     };
 
+    const applyPreset = (preset: TimerPreset) => {
+        setLocalSettings(s => ({ ...s, focusDuration: preset.focusDuration, breakDuration: preset.breakDuration, longBreakDuration: preset.longBreakDuration, sessionsPerCycle: preset.sessionsPerCycle }));
+    };
+
+    const handleAddPreset = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newPresetName.trim();
+        if (!name) return;
+        const preset: TimerPreset = {
+            id: `custom-${Date.now()}`,
+            name,
+            focusDuration: localSettings.focusDuration,
+            breakDuration: localSettings.breakDuration,
+            longBreakDuration: localSettings.longBreakDuration,
+            sessionsPerCycle: localSettings.sessionsPerCycle,
+        };
+        setLocalSettings(s => ({ ...s, customTimerPresets: [...s.customTimerPresets, preset] }));
+        setNewPresetName('');
+    };
+
+    const handleDeletePreset = (id: string) => {
+        setLocalSettings(s => ({ ...s, customTimerPresets: s.customTimerPresets.filter(p => p.id !== id) }));
+    };
+
     return (
         <Panel title="⚙️ Timer Settings">
+            <div className="mb-6">
+                <label className="block text-white text-sm mb-2">Presets</label>
+                <div className="flex flex-wrap gap-2">
+                    {[...BUILT_IN_TIMER_PRESETS, ...localSettings.customTimerPresets].map(preset => (
+                        <div key={preset.id} className={`flex items-center rounded-full border text-sm transition ${isPresetActive(preset, localSettings) ? 'bg-cyan-500/30 border-cyan-400/60 text-white' : 'bg-white/10 border-white/20 text-white/80 hover:bg-white/20'}`}>
+                            <button onClick={() => applyPreset(preset)} className="px-3 py-1.5" title={`Focus ${preset.focusDuration}m, break ${preset.breakDuration}m, long break ${preset.longBreakDuration}m every ${preset.sessionsPerCycle} sessions`}>
+                                {preset.name} <span className="text-white/60">{formatTimerPreset(preset)}</span>
+                            </button>
+                            {preset.id.startsWith('custom-') && (
+                                <button onClick={() => handleDeletePreset(preset.id)} className="pr-2 text-white/50 hover:text-red-400" title="Delete Preset"><TrashIcon /></button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
             <SettingInput
                 label="Focus Duration"
                 value={localSettings.focusDuration}
@@ -45,12 +90,57 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave }) => {
                 onChange={(val) => setLocalSettings(s => ({ ...s, breakDuration: val }))}
                 unit="minutes"
             />
+            <SettingInput
+                label="Long Break Duration"
+                value={localSettings.longBreakDuration}
+                onChange={(val) => setLocalSettings(s => ({ ...s, longBreakDuration: val }))}
+                unit="minutes"
+            />
             <SettingInput
                 label="Sessions per Cycle"
                 value={localSettings.sessionsPerCycle}
                 onChange={(val) => setLocalSettings(s => ({ ...s, sessionsPerCycle: val }))}
                 unit="sessions"
             />
+            <label className="flex items-center justify-between gap-4 mb-4 text-white text-sm cursor-pointer">
+                <span>Auto-start the next phase</span>
+                <input
+                    type="checkbox"
+                    checked={localSettings.autoStartNextPhase}
+                    onChange={(e) => setLocalSettings(s => ({ ...s, autoStartNextPhase: e.target.checked }))}
+                    className="w-5 h-5 accent-cyan-500"
+                />
+            </label>
+            <label className="flex items-center justify-between gap-4 mb-4 text-white text-sm">
+                <span title="When you switch tasks during a focus session, each task gets its own history entry for the time spent on it.">Pomodoro credit after switching tasks</span>
+                <select
+                    value={localSettings.splitSessionCredit}
+                    onChange={(e) => setLocalSettings(s => ({ ...s, splitSessionCredit: e.target.value as SplitSessionCredit }))}
+                    className="bg-white/20 border border-white/30 rounded-lg p-2 text-white text-sm focus:outline-none focus:bg-white/30 focus:border-white/50"
+                >
+                    <option value="proportional" className="bg-slate-800">Shared by time spent</option>
+                    <option value="longest" className="bg-slate-800">All to the longest task</option>
+                </select>
+            </label>
+            <label className="flex items-center justify-between gap-4 mb-4 text-white text-sm cursor-pointer">
+                <span title="A quick energy and mood check at the start of the day and after each focus session, compared with your focus in Stats.">Ask for energy &amp; mood check-ins</span>
+                <input
+                    type="checkbox"
+                    checked={localSettings.wellbeingCheckIns}
+                    onChange={(e) => setLocalSettings(s => ({ ...s, wellbeingCheckIns: e.target.checked }))}
+                    className="w-5 h-5 accent-cyan-500"
+                />
+            </label>
+            <form onSubmit={handleAddPreset} className="flex gap-2 pt-4 border-t border-white/20">
+                <input
+                    type="text"
+                    value={newPresetName}
+                    onChange={(e) => setNewPresetName(e.target.value)}
+                    placeholder="Save these durations as a preset..."
+                    className="flex-grow bg-white/20 border border-white/30 rounded-lg p-2 text-white text-sm placeholder:text-white/60 focus:outline-none focus:bg-white/30 focus:border-white/50"
+                />
+                <button type="submit" disabled={!newPresetName.trim()} className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-semibold rounded-lg transition disabled:opacity-50">Add</button>
+            </form>
             <button
                 onClick={handleSave}
                 className="w-full mt-4 p-3 bg-gradient-to-br from-cyan-400 to-blue-600 text-white font-bold rounded-lg transition hover:scale-105"
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { CustomSound, SoundEvent, SoundSettings } from '../types';
+import { BUILT_IN_TONES, DEFAULT_SOUND_SETTINGS, NO_SOUND, SOUND_EVENTS, loadCustomSounds, previewSound } from '../utils/audio';
+import { addCustomSound, deleteCustomSound, getCustomSounds } from '../services/soundLibrary';
+import { getSystemNotificationPermission, requestSystemNotificationPermission } from '../utils/systemNotifications';
+import { TrashIcon } from './common/Icons';
+
+interface SoundSettingsPanelProps {
+    soundSettings: SoundSettings;
+    onSave: (soundSettings: SoundSettings) => void;
+}
+
+const SoundSettingsPanel: React.FC<SoundSettingsPanelProps> = ({ soundSettings, onSave }) => {
+    const [localSettings, setLocalSettings] = useState(soundSettings);
+    const [customSounds, setCustomSounds] = useState<CustomSound[]>([]);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const [permission, setPermission] = useState(getSystemNotificationPermission());
+
+    useEffect(() => {
+        getCustomSounds().then(setCustomSounds);
+    }, []);
+
+    const refreshCustomSounds = async () => {
+        const sounds = await getCustomSounds();
+        setCustomSounds(sounds);
+        await loadCustomSounds(sounds);
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const result = await addCustomSound(file);
+        if ('error' in result) {
+            setUploadError(result.error);
+            return;
+        }
+        setUploadError(null);
+        await refreshCustomSounds();
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!(await deleteCustomSound(id))) return;
+        // Events using the deleted sound go back to their default tone.
+        setLocalSettings(s => ({
+            ...s,
+            eventSounds: Object.fromEntries(Object.entries(s.eventSounds).map(([event, soundId]) => [event, soundId === id ? DEFAULT_SOUND_SETTINGS.eventSounds[event as SoundEvent] : soundId])) as Record<SoundEvent, string>,
+        }));
+        await refreshCustomSounds();
+    };
+
+    const handleSilentModeChange = async (silentMode: boolean) => {
+        setLocalSettings(s => ({ ...s, silentMode }));
+        if (silentMode) setPermission(await requestSystemNotificationPermission());
+    };
+
+    const handleEnableNotifications = async () => {
+        setPermission(await requestSystemNotificationPermission());
+    };
+
+    const handleEventSoundChange = (event: SoundEvent, soundId: string) => {
+        setLocalSettings(s => ({ ...s, eventSounds: { ...s.eventSounds, [event]: soundId } }));
+        previewSound(soundId, localSettings.volume);
+    };
+
+    const isSilent = localSettings.silentMode;
+
+    return (
+        <div className="space-y-5">
+            <div className="flex items-center justify-between gap-4 text-white text-sm">
+                <span>
+                    System notifications
+                    <span className="block text-white/60 text-xs">Shown with quick actions when a phase ends or a deadline comes up while FocusFlow is in the background.</span>
+                </span>
+                {permission === 'granted' ? (
+                    <span className="text-green-400 text-xs font-semibold flex-shrink-0">✅ Enabled</span>
+                ) : permission === 'default' ? (
+                    <button onClick={handleEnableNotifications} className="flex-shrink-0 px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-xs font-semibold rounded-lg transition">Enable</button>
+                ) : (
+                    <span className="text-white/50 text-xs flex-shrink-0">{permission === 'denied' ? 'Blocked in browser' : 'Not supported'}</span>
+                )}
+            </div>
+
+            <label className="flex items-center justify-between gap-4 text-white text-sm cursor-pointer">
+                <span>
+                    Silent mode
+                    <span className="block text-white/60 text-xs">No sounds; phase ends show the on-screen prompt and a system notification.</span>
+                </span>
+                <input type="checkbox" checked={isSilent} onChange={(e) => handleSilentModeChange(e.target.checked)} className="w-5 h-5 accent-cyan-500" />
+            </label>
+            {isSilent && permission !== 'granted' && (
+                <p className="text-amber-300 text-xs bg-amber-500/10 border border-amber-400/30 rounded-lg p-2">
+                    {permission === 'unsupported'
+                        ? 'This browser does not support system notifications, so silent mode will only show the on-screen prompt.'
+                        : 'System notifications are blocked for this site. Allow them in your browser settings to be notified when a phase ends.'}
+                </p>
+            )}
+
+            <div className={isSilent ? 'opacity-50 pointer-events-none space-y-5' : 'space-y-5'}>
+                <div>
+                    <label className="block text-white text-sm mb-2">Volume: {Math.round(localSettings.volume * 100)}%</label>
+                    <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={localSettings.volume}
+                        onChange={(e) => setLocalSettings(s => ({ ...s, volume: parseFloat(e.target.value) }))}
+                        onMouseUp={() => previewSound(localSettings.eventSounds.notification, localSettings.volume)}
+                        className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+                        aria-label="Sound volume"
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    {SOUND_EVENTS.map(event => (
+                        <div key={event.id} className="flex items-center gap-2">
+                            <span className="w-40 flex-shrink-0 text-white/80 text-sm">{event.label}</span>
+                            <select
+                                value={localSettings.eventSounds[event.id]}
+                                onChange={(e) => handleEventSoundChange(event.id, e.target.value)}
+                                className="flex-grow bg-white/20 border border-white/30 rounded-lg p-2 text-white text-sm focus:outline-none focus:bg-white/30 focus:border-white/50"
+                            >
+                                <optgroup label="Built-in">
+                                    {BUILT_IN_TONES.map(tone => <option key={tone.id} value={tone.id} className="bg-slate-800">{tone.name}</option>)}
+                                </optgroup>
+                                {customSounds.length > 0 && (
+                                    <optgroup label="Uploaded">
+                                        {customSounds.map(sound => <option key={sound.id} value={sound.id} className="bg-slate-800">{sound.name}</option>)}
+                                    </optgroup>
+                                )}
+                                {!customSounds.some(s => s.id === localSettings.eventSounds[event.id]) && localSettings.eventSounds[event.id].startsWith('upload-') && (
+                                    <option value={localSettings.eventSounds[event.id]} className="bg-slate-800">Uploaded on another device (default here)</option>
+                                )}
+                                <option value={NO_SOUND} className="bg-slate-800">No sound</option>
+                            </select>
+                            <button onClick={() => previewSound(localSettings.eventSounds[event.id], localSettings.volume)} className="px-3 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg transition" title="Preview">▶</button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                    <label className="block text-white text-sm">
+                        Repeat alert
+                        <input
+                            type="number"
+                            min="0"
+                            value={localSettings.alertRepeatCount}
+                            onChange={(e) => setLocalSettings(s => ({ ...s, alertRepeatCount: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                            className="w-full mt-2 text-center bg-white/20 border border-white/30 rounded-lg p-2 text-white focus:outline-none focus:bg-white/30 focus:border-white/50"
+                        />
+                        <span className="block text-white/60 text-xs mt-1">times (0 = until dismissed)</span>
+                    </label>
+                    <label className="block text-white text-sm">
+                        Every
+                        <input
+                            type="number"
+                            min="1"
+                            value={localSettings.alertIntervalSeconds}
+                            onChange={(e) => setLocalSettings(s => ({ ...s, alertIntervalSeconds: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
+                            className="w-full mt-2 text-center bg-white/20 border border-white/30 rounded-lg p-2 text-white focus:outline-none focus:bg-white/30 focus:border-white/50"
+                        />
+                        <span className="block text-white/60 text-xs mt-1">seconds</span>
+                    </label>
+                </div>
+
+                <div className="pt-4 border-t border-white/20">
+                    <h4 className="text-md font-semibold text-white mb-1">Your Sounds</h4>
+                    <p className="text-white/60 text-xs mb-3">Uploaded files (up to 2 MB) are kept in this browser only.</p>
+                    <ul className="space-y-2 mb-3">
+                        {customSounds.map(sound => (
+                            <li key={sound.id} className="flex items-center justify-between gap-2 bg-white/10 rounded-lg px-3 py-2 text-white text-sm">
+                                <span className="truncate">{sound.name}</span>
+                                <div className="flex items-center gap-1 flex-shrink-0">
+                                    <button onClick={() => previewSound(sound.id, localSettings.volume)} className="p-1 text-white/60 hover:text-white transition" title="Preview">▶</button>
+                                    <button onClick={() => handleDelete(sound.id)} className="p-1 text-white/50 hover:text-red-400 transition" title="Delete Sound"><TrashIcon /></button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                    <label className="block w-full text-center p-2 bg-white/10 hover:bg-white/20 text-white text-sm font-semibold rounded-lg transition cursor-pointer">
+                        ⬆️ Upload a sound
+                        <input type="file" accept="audio/*" onChange={handleUpload} className="hidden" />
+                    </label>
+                    {uploadError && <p className="text-red-400 text-xs mt-2 text-center">{uploadError}</p>}
+                </div>
+            </div>
+
+            <button
+                onClick={() => onSave(localSettings)}
+                className="w-full p-3 bg-gradient-to-br from-cyan-400 to-blue-600 text-white font-bold rounded-lg transition hover:scale-105"
+            >
+                💾 Save Sound Settings
+            </button>
+        </div>
+    );
+};
+
+export default SoundSettingsPanel;
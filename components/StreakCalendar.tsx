@@ -4,9 +4,10 @@ import { getTodayDateString } from '../utils/date';
 
 interface StreakCalendarProps {
     historicalLogs: DbDailyLog[];
+    onSelectDay?: (date: string) => void;
 }
 
-const StreakCalendar: React.FC<StreakCalendarProps> = ({ historicalLogs }) => {
+const StreakCalendar: React.FC<StreakCalendarProps> = ({ historicalLogs, onSelectDay }) => {
     const [hoveredDay, setHoveredDay] = useState<string | null>(null);
 
     // Create a map of date -> focus minutes for quick lookup
@@ -236,6 +237,7 @@ const StreakCalendar: React.FC<StreakCalendarProps> = ({ historicalLogs }) => {
                                     className={getDayStyle(day)}
                                     onMouseEnter={() => day && setHoveredDay(day.date)}
                                     onMouseLeave={() => setHoveredDay(null)}
+                                    onClick={() => day && !day.isFuture && onSelectDay?.(day.date)}
                                 >
                                     {day && (
                                         <>
@@ -260,6 +262,9 @@ const StreakCalendar: React.FC<StreakCalendarProps> = ({ historicalLogs }) => {
                                                                 <span>Streak Day</span>
                                                             </div>
                                                         )}
+                                                        {onSelectDay && !day.isFuture && (
+                                                            <div className="mt-1 text-[10px] text-slate-500 whitespace-nowrap">Click for timeline</div>
+                                                        )}
                                                     </div>
                                                     {/* Tooltip Arrow */}
                                                     <div className="absolute top-full left-1/2 transform -translate-x-1/2 -mt-px">
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Subtask } from '../types';
+import { createSubtask } from '../utils/subtasks';
+import { TrashIcon } from './common/Icons';
+
+interface SubtaskChecklistProps {
+    subtasks: Subtask[];
+    onChange: (subtasks: Subtask[]) => void;
+    canEdit?: boolean; // Adding and removing items; ticking is always allowed
+}
+
+const SubtaskChecklist: React.FC<SubtaskChecklistProps> = ({ subtasks, onChange, canEdit = true }) => {
+    const [newText, setNewText] = useState('');
+
+    const toggle = (id: string) => onChange(subtasks.map(s => s.id === id ? { ...s, completed_at: s.completed_at ? null : new Date().toISOString() } : s));
+    const remove = (id: string) => onChange(subtasks.filter(s => s.id !== id));
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newText.trim()) return;
+        onChange([...subtasks, createSubtask(newText)]);
+        setNewText('');
+    };
+
+    return (
+        <div className="space-y-1 text-left">
+            {subtasks.map(subtask => (
+                <div key={subtask.id} className="group/subtask flex items-center gap-2 text-sm">
+                    <label className="flex items-center gap-2 flex-grow min-w-0 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={!!subtask.completed_at}
+                            onChange={() => toggle(subtask.id)}
+                            className="h-4 w-4 flex-shrink-0 rounded bg-slate-600 border-slate-500 text-teal-400 focus:ring-teal-400/50"
+                        />
+                        <span className={`break-words ${subtask.completed_at ? 'line-through text-slate-500' : 'text-slate-200'}`}>{subtask.text}</span>
+                    </label>
+                    {canEdit && (
+                        <button onClick={() => remove(subtask.id)} className="p-1 text-slate-500 hover:text-red-400 transition sm:opacity-0 sm:group-hover/subtask:opacity-100" title="Remove item"><TrashIcon /></button>
+                    )}
+                </div>
+            ))}
+            {canEdit && (
+                <form onSubmit={handleAdd} className="flex gap-2 pt-1">
+                    <input
+                        type="text"
+                        value={newText}
+                        onChange={e => setNewText(e.target.value)}
+                        placeholder="Add a checklist item..."
+                        className="flex-grow bg-slate-800 border border-slate-600 rounded-md p-1.5 text-white text-sm placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                    />
+                    <button type="submit" className="px-3 rounded-md text-sm font-bold text-white bg-cyan-600 hover:bg-cyan-700 transition">Add</button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default SubtaskChecklist;
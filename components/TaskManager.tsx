@@ -1,9 +1,15 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Task, Project, Settings } from '../types';
-import { PostponeIcon, DuplicateIcon, MoreVerticalIcon, UndoIcon, EditIcon, BringForwardIcon, CalendarIcon, TrashIcon, RescheduleIcon } from './common/Icons';
+import { Task, Project, Settings, Subtask } from '../types';
+import { PostponeIcon, DuplicateIcon, MoreVerticalIcon, LockIcon, UndoIcon, EditIcon, BringForwardIcon, CalendarIcon, TrashIcon, RescheduleIcon, PlayIcon } from './common/Icons';
 import { getTodayDateString } from '../utils/date';
+import { getTimerPresets, findTimerPreset, formatTimerPreset, getTimerDurations } from '../utils/timer';
+import { getBlockingTasks, indexTasks, wouldCreateCycle } from '../utils/dependencies';
+import { countCompletedSubtasks } from '../utils/subtasks';
+import { findProjectByName, formatQuickAddProjectName, hasQuickAddFields, parseQuickAdd } from '../utils/quickAdd';
+import { RECURRENCE_DAY_LABELS } from '../utils/recurrence';
 import PrioritySelector from './common/PrioritySelector';
 import ExplanationTooltip from './common/ExplanationTooltip';
+import SubtaskChecklist from './SubtaskChecklist';
 
 const priorityBorderColors: { [key: number]: string } = {
     1: 'border-l-red-500',
@@ -15,19 +21,24 @@ const priorityBorderColors: { [key: number]: string } = {
 interface TaskSettingsDropdownProps {
     task: Task;
     settings: Settings;
-    onSave: (id: string, newTimers: { focus: number | null, break: number | null }) => void;
+    onSave: (id: string, newTimers: { focus: number | null, break: number | null, preset: string | null, soundMix: string | null }) => void;
     onClose: () => void;
 }
 
 const TaskSettingsDropdown: React.FC<TaskSettingsDropdownProps> = ({ task, settings, onSave, onClose }) => {
     const [focus, setFocus] = useState(task.custom_focus_duration || '');
     const [breakTime, setBreakTime] = useState(task.custom_break_duration || '');
+    const [presetId, setPresetId] = useState(task.timer_preset_id || '');
+    const [soundMixId, setSoundMixId] = useState(task.sound_mix_id || '');
     const dropdownRef = useRef<HTMLDivElement>(null);
+    const defaults = findTimerPreset(settings, presetId) || settings;
 
     useEffect(() => {
         setFocus(task.custom_focus_duration || '');
         setBreakTime(task.custom_break_duration || '');
-    }, [task.custom_focus_duration, task.custom_break_duration]);
+        setPresetId(task.timer_preset_id || '');
+        setSoundMixId(task.sound_mix_id || '');
+    }, [task.custom_focus_duration, task.custom_break_duration, task.timer_preset_id, task.sound_mix_id]);
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -45,6 +56,8 @@ const TaskSettingsDropdown: React.FC<TaskSettingsDropdownProps> = ({ task, setti
         onSave(task.id, {
             focus: focus ? parseInt(String(focus), 10) : null,
             break: breakTime ? parseInt(String(breakTime), 10) : null,
+            preset: presetId || null,
+            soundMix: soundMixId || null,
         });
         onClose();
     };
@@ -52,17 +65,31 @@ const TaskSettingsDropdown: React.FC<TaskSettingsDropdownProps> = ({ task, setti
     const handleReset = () => {
         setFocus('');
         setBreakTime('');
-        onSave(task.id, { focus: null, break: null });
+        setPresetId('');
+        setSoundMixId('');
+        onSave(task.id, { focus: null, break: null, preset: null, soundMix: null });
         onClose();
     };
 
     return (
         <div ref={dropdownRef} className="absolute top-full right-0 mt-2 w-56 bg-slate-900/80 backdrop-blur-md border border-slate-700 rounded-lg shadow-xl p-3 z-20 animate-scaleIn">
+            <label className="block text-xs text-slate-300 mb-1">Timer Preset</label>
+            <select value={presetId} onChange={e => setPresetId(e.target.value)} className="w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-400 mb-2">
+                <option value="">Default ({formatTimerPreset(settings)})</option>
+                {getTimerPresets(settings).map(preset => <option key={preset.id} value={preset.id}>{preset.name} ({formatTimerPreset(preset)})</option>)}
+            </select>
+
             <label className="block text-xs text-slate-300 mb-1">Custom Focus (mins)</label>
-            <input type="number" value={focus} onChange={e => setFocus(e.target.value)} placeholder={`Default: ${settings.focusDuration}`} className="w-full text-center bg-slate-800 border border-slate-600 rounded-md p-2 text-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400 mb-2" />
+            <input type="number" value={focus} onChange={e => setFocus(e.target.value)} placeholder={`Default: ${defaults.focusDuration}`} className="w-full text-center bg-slate-800 border border-slate-600 rounded-md p-2 text-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400 mb-2" />
             
             <label className="block text-xs text-slate-300 mb-1">Custom Break (mins)</label>
-            <input type="number" value={breakTime} onChange={e => setBreakTime(e.target.value)} placeholder={`Default: ${settings.breakDuration}`} className="w-full text-center bg-slate-800 border border-slate-600 rounded-md p-2 text-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400 mb-3" />
+            <input type="number" value={breakTime} onChange={e => setBreakTime(e.target.value)} placeholder={`Default: ${defaults.breakDuration}`} className="w-full text-center bg-slate-800 border border-slate-600 rounded-md p-2 text-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400 mb-2" />
+
+            <label className="block text-xs text-slate-300 mb-1">Soundscape</label>
+            <select value={soundMixId} onChange={e => setSoundMixId(e.target.value)} className="w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-400 mb-3">
+                <option value="">{(settings.soundMixes || []).length > 0 ? 'By tag / last used' : 'Save a mix on the timer first'}</option>
+                {(settings.soundMixes || []).map(mix => <option key={mix.id} value={mix.id}>{mix.name}</option>)}
+            </select>
             
             <div className="flex gap-2 text-sm">
                 <button onClick={handleSave} className="flex-1 p-2 rounded-md font-bold text-white transition-transform hover:scale-105 bg-cyan-600 hover:bg-cyan-700">Save</button>
@@ -73,17 +100,118 @@ const TaskSettingsDropdown: React.FC<TaskSettingsDropdownProps> = ({ task, setti
 };
 
 
+interface ChecklistDropdownProps {
+    task: Task;
+    onSave: (id: string, subtasks: Subtask[]) => void;
+    onClose: () => void;
+}
+
+// Each change is saved right away, so items can be ticked off without a separate save step.
+const ChecklistDropdown: React.FC<ChecklistDropdownProps> = ({ task, onSave, onClose }) => {
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [onClose]);
+
+    return (
+        <div ref={dropdownRef} className="absolute top-full right-0 mt-2 w-72 bg-slate-900/80 backdrop-blur-md border border-slate-700 rounded-lg shadow-xl p-3 z-20 animate-scaleIn">
+            <label className="block text-xs text-slate-300 mb-2">Checklist</label>
+            <SubtaskChecklist subtasks={task.subtasks || []} onChange={subtasks => onSave(task.id, subtasks)} />
+        </div>
+    );
+};
+
+interface PrerequisitesDropdownProps {
+    task: Task;
+    tasksById: Map<string, Task>;
+    onSave: (id: string, prerequisiteIds: string[]) => void;
+    onClose: () => void;
+}
+
+const PrerequisitesDropdown: React.FC<PrerequisitesDropdownProps> = ({ task, tasksById, onSave, onClose }) => {
+    const [selectedIds, setSelectedIds] = useState<string[]>(task.prerequisite_ids || []);
+    const [search, setSearch] = useState('');
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [onClose]);
+
+    // Completed tasks stay listed only while they are still selected, so they can be removed.
+    const candidates = useMemo(() => Array.from<Task>(tasksById.values())
+        .filter(t => t.id !== task.id && !t.is_recurring && (!t.completed_at || selectedIds.includes(t.id)))
+        .filter(t => t.text.toLowerCase().includes(search.trim().toLowerCase()))
+        .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.text.localeCompare(b.text)),
+    [tasksById, task.id, selectedIds, search]);
+
+    const toggle = (id: string) => setSelectedIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+    const handleSave = () => {
+        onSave(task.id, selectedIds);
+        onClose();
+    };
+
+    return (
+        <div ref={dropdownRef} className="absolute top-full right-0 mt-2 w-72 bg-slate-900/80 backdrop-blur-md border border-slate-700 rounded-lg shadow-xl p-3 z-20 animate-scaleIn">
+            <label className="block text-xs text-slate-300 mb-1">Must be done first</label>
+            <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search tasks..." className="w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-white text-sm placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400 mb-2" />
+            <ul className="max-h-48 overflow-y-auto custom-scrollbar space-y-1 mb-3">
+                {candidates.map(candidate => {
+                    const createsCycle = !selectedIds.includes(candidate.id) && wouldCreateCycle(task.id, candidate.id, tasksById);
+                    return (
+                        <li key={candidate.id}>
+                            <label className={`flex items-center gap-2 text-sm p-1 rounded ${createsCycle ? 'text-slate-500 cursor-not-allowed' : 'text-slate-200 cursor-pointer hover:bg-slate-800'}`} title={createsCycle ? 'This task already depends on it' : undefined}>
+                                <input type="checkbox" checked={selectedIds.includes(candidate.id)} disabled={createsCycle} onChange={() => toggle(candidate.id)} className="h-4 w-4 rounded bg-slate-600 border-slate-500 text-cyan-400 focus:ring-cyan-400/50" />
+                                <span className={`truncate flex-grow ${candidate.completed_at ? 'line-through' : ''}`}>{candidate.text}</span>
+                                <span className="text-xs text-slate-500 flex-shrink-0">{new Date(candidate.due_date + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                            </label>
+                        </li>
+                    );
+                })}
+                {candidates.length === 0 && <li className="text-xs text-slate-500 text-center p-2">No other tasks to choose from.</li>}
+            </ul>
+            <div className="flex gap-2 text-sm">
+                <button onClick={handleSave} className="flex-1 p-2 rounded-md font-bold text-white transition-transform hover:scale-105 bg-cyan-600 hover:bg-cyan-700">Save</button>
+                <button onClick={() => setSelectedIds([])} className="flex-1 p-2 rounded-md font-bold text-white transition-transform hover:scale-105 bg-slate-600 hover:bg-slate-700">Clear</button>
+            </div>
+        </div>
+    );
+};
+
+
 interface TaskItemProps {
     task: Task;
     isCompleted: boolean;
     settings: Settings;
     projects: Project[];
+    tasksById: Map<string, Task>;
     onDelete: (id: string) => void;
     onMove?: (id: string, action: 'postpone' | 'duplicate') => void;
-    onUpdateTaskTimers: (id: string, newTimers: { focus: number | null, break: number | null }) => void;
+    onUpdateTaskTimers: (id: string, newTimers: { focus: number | null, break: number | null, preset: string | null, soundMix: string | null }) => void;
     onUpdateTask: (id: string, newText: string, newTags: string[], newPoms: number, projectId: string | null, priority: number | null) => void;
+    onUpdatePrerequisites: (id: string, prerequisiteIds: string[]) => void;
+    onUpdateSubtasks: (id: string, subtasks: Subtask[]) => void;
     onMarkTaskIncomplete?: (id: string) => void;
     onSetTaskToAutomate: (task: Task) => void;
+    isActive?: boolean;
+    onFocus?: (id: string) => void;
     isTomorrowTask?: boolean;
     displayDate?: string;
     onBringTaskForward?: (id: string) => void;
@@ -93,8 +221,10 @@ interface TaskItemProps {
     isJustAdded?: boolean;
 }
 
-const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ task, isCompleted, settings, projects, onDelete, onMove, onUpdateTaskTimers, onUpdateTask, onMarkTaskIncomplete, onSetTaskToAutomate, dragProps, isTomorrowTask, onBringTaskForward, displayDate, onDuplicateForTomorrowWithEdit, isJustAdded }, ref) => {
+const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ task, isCompleted, settings, projects, tasksById, onDelete, onMove, onUpdateTaskTimers, onUpdateTask, onUpdatePrerequisites, onUpdateSubtasks, onMarkTaskIncomplete, onSetTaskToAutomate, isActive, onFocus, dragProps, isTomorrowTask, onBringTaskForward, displayDate, onDuplicateForTomorrowWithEdit, isJustAdded }, ref) => {
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isPrerequisitesOpen, setIsPrerequisitesOpen] = useState(false);
+    const [isChecklistOpen, setIsChecklistOpen] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
     const [editText, setEditText] = useState(task.text);
     const [editTags, setEditTags] = useState(task.tags?.join(', ') || '');
@@ -104,6 +234,8 @@ const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ ta
     const [editPriority, setEditPriority] = useState<number>(task.priority ?? 3);
     const [isDeleting, setIsDeleting] = useState(false);
     const isDraggable = !isCompleted && dragProps;
+    const timerPreset = findTimerPreset(settings, task.timer_preset_id);
+    const blockingTasks = isCompleted ? [] : getBlockingTasks(task, tasksById);
 
     useEffect(() => {
         setEditText(task.text);
@@ -221,7 +353,7 @@ const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ ta
     return (
     <li
         ref={ref}
-        className={`group relative flex flex-col sm:flex-row items-start sm:items-center justify-between gap-x-4 gap-y-2 p-4 rounded-xl mb-2 transition-all duration-200 border-l-4 ${priorityClass} ${isSettingsOpen ? 'z-10' : ''} ${
+        className={`group relative flex flex-col sm:flex-row items-start sm:items-center justify-between gap-x-4 gap-y-2 p-4 rounded-xl mb-2 transition-all duration-200 border-l-4 ${priorityClass} ${isSettingsOpen || isPrerequisitesOpen || isChecklistOpen ? 'z-10' : ''} ${
             isCompleted
                 ? 'bg-slate-800/20 text-slate-500 border border-slate-800/30'
                 : 'bg-slate-800/40 backdrop-blur-sm border border-slate-700/60 hover:border-slate-600'
@@ -232,7 +364,18 @@ const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ ta
             {isDraggable && <div className="text-slate-500 cursor-grab pt-1 select-none">⠿</div>}
             <div className="flex-grow min-w-0">
                 <span className={`break-words ${isCompleted ? 'line-through' : 'text-slate-100'}`}>{task.text}</span>
+                {isActive && <span className="ml-2 text-[10px] font-bold uppercase tracking-wide text-teal-300 bg-teal-500/20 px-1.5 py-0.5 rounded align-middle">▶ Focusing</span>}
                 <div className="flex items-center flex-wrap gap-x-2 gap-y-1 mt-1 text-xs">
+                    {(task.subtasks?.length ?? 0) > 0 && (
+                        <button onClick={() => !isCompleted && setIsChecklistOpen(o => !o)} className="bg-teal-900/50 text-teal-300 px-2 py-0.5 rounded-full" title="Checklist">
+                            ☑ {countCompletedSubtasks(task)}/{task.subtasks!.length}
+                        </button>
+                    )}
+                    {blockingTasks.length > 0 && (
+                        <span className="bg-rose-900/50 text-rose-300 px-2 py-0.5 rounded-full inline-flex items-center gap-1" title={`Waiting on: ${blockingTasks.map(t => t.text).join(', ')}`}>
+                            🔒 Blocked by {blockingTasks.length === 1 ? blockingTasks[0].text : `${blockingTasks.length} tasks`}
+                        </span>
+                    )}
                     {displayDate && <span className="bg-slate-700/50 text-slate-300 px-2 py-0.5 rounded-full inline-flex items-center gap-1"><CalendarIcon/> {new Date(displayDate + 'T00:00:00').toLocaleDateString()}</span>}
                     {task.projects && <span className="bg-blue-900/50 text-blue-300 px-2 py-0.5 rounded-full">{task.projects.name}</span>}
                     {task.tags?.map(tag => <span key={tag} className="bg-purple-900/50 text-purple-300 px-2 py-0.5 rounded-full">{tag}</span>)}
@@ -241,6 +384,11 @@ const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ ta
                             Custom Time
                         </span>
                     }
+                    {timerPreset &&
+                        <span className="bg-cyan-900/50 text-cyan-300 px-2 py-0.5 rounded-full" title={`${timerPreset.name} preset: ${formatTimerPreset(timerPreset)}`}>
+                            {timerPreset.name}
+                        </span>
+                    }
                 </div>
             </div>
         </div>
@@ -253,6 +401,9 @@ const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ ta
                 )}
             </span>
             <div className={`transition-opacity duration-200 ${isDraggable ? 'sm:opacity-0 sm:group-hover:opacity-100' : ''}`}>
+                {!isCompleted && !isActive && onFocus && (
+                    <button onClick={() => onFocus(task.id)} className="p-2 rounded-full text-teal-400 hover:text-teal-300 hover:bg-slate-700/50 transition" title="Focus on this task"><PlayIcon /></button>
+                )}
                 {isTomorrowTask && onBringTaskForward && (
                     <button onClick={() => { if (window.confirm('Are you sure you want to move this task to today?')) onBringTaskForward(task.id); }} className="p-2 rounded-full text-green-400 hover:text-green-300 hover:bg-slate-700/50 transition" title="Move to Today">
                         <BringForwardIcon />
@@ -268,6 +419,8 @@ const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ ta
                     <>
                         <button onClick={() => onSetTaskToAutomate(task)} className="p-2 rounded-full text-teal-400 hover:text-teal-300 hover:bg-slate-700/50 transition" title="Automate / Make Recurring"><RescheduleIcon /></button>
                         <button onClick={() => setIsEditing(true)} className="p-2 rounded-full text-sky-400 hover:text-sky-300 hover:bg-slate-700/50 transition" title="Edit Task"><EditIcon /></button>
+                        <button onClick={() => setIsChecklistOpen(o => !o)} className="p-2 rounded-full text-teal-400 hover:text-teal-300 hover:bg-slate-700/50 transition font-bold leading-none" title="Checklist">☑</button>
+                        <button onClick={() => setIsPrerequisitesOpen(o => !o)} className={`p-2 rounded-full hover:bg-slate-700/50 transition ${task.prerequisite_ids?.length ? 'text-rose-400 hover:text-rose-300' : 'text-slate-400 hover:text-slate-300'}`} title="Prerequisites"><LockIcon /></button>
                         <button onClick={() => setIsSettingsOpen(o => !o)} className="p-2 rounded-full text-cyan-400 hover:text-cyan-300 hover:bg-slate-700/50 transition" title="Custom Timers"><MoreVerticalIcon /></button>
                     </>
                 )}
@@ -287,6 +440,12 @@ const TaskItem = React.memo(React.forwardRef<HTMLLIElement, TaskItemProps>(({ ta
             {isSettingsOpen && (
                 <TaskSettingsDropdown task={task} settings={settings} onSave={onUpdateTaskTimers} onClose={() => setIsSettingsOpen(false)} />
             )}
+            {isChecklistOpen && (
+                <ChecklistDropdown task={task} onSave={onUpdateSubtasks} onClose={() => setIsChecklistOpen(false)} />
+            )}
+            {isPrerequisitesOpen && (
+                <PrerequisitesDropdown task={task} tasksById={tasksById} onSave={onUpdatePrerequisites} onClose={() => setIsPrerequisitesOpen(false)} />
+            )}
         </div>
     </li>
 )}));
@@ -299,10 +458,13 @@ interface TaskInputGroupProps {
     buttonClass: string;
     projects: Project[];
     onAddProject: (name: string) => Promise<string | null>;
+    onAddRecurringTask: (taskData: Partial<Task>) => void;
     isPlanning?: boolean;
 }
 
-const TaskInputGroup: React.FC<TaskInputGroupProps> = ({ onAddTask, placeholder, buttonText, buttonClass, projects, onAddProject, isPlanning }) => {
+const QUICK_ADD_HINT = 'Quick add: #tag @Project p1 3poms tomorrow / friday / in 3 days / YYYY-MM-DD, every Mon,Wed / every day';
+
+const TaskInputGroup: React.FC<TaskInputGroupProps> = ({ onAddTask, placeholder, buttonText, buttonClass, projects, onAddProject, onAddRecurringTask, isPlanning }) => {
     const [text, setText] = useState('');
     const [poms, setPoms] = useState('1');
     const [selectedProject, setSelectedProject] = useState<string>('none');
@@ -322,13 +484,41 @@ const TaskInputGroup: React.FC<TaskInputGroupProps> = ({ onAddTask, placeholder,
     const todayString = getTodayDateString(today);
     const activeProjects = projects.filter(p => p.status === 'active' && (!p.start_date || p.start_date <= todayString) && (!p.active_days || p.active_days.length === 0 || p.active_days.includes(dayOfWeek)));
 
-    const handleAdd = () => {
-        const pomsInt = isStopwatch ? -1 : parseInt(poms, 10);
-        if (text.trim() && !isNaN(pomsInt)) {
-            const projectId = selectedProject === 'none' ? null : selectedProject;
-            const tagList = tags.split(',').map(t => t.trim()).filter(Boolean);
-            const dateToAdd = isPlanning ? dueDate : getTodayDateString();
-            onAddTask(text.trim(), pomsInt, dateToAdd, projectId, tagList, priority);
+    // Fields typed into the title win over the separate controls.
+    const parsed = useMemo(() => parseQuickAdd(text), [text]);
+    const parsedProject = parsed.projectName ? findProjectByName(projects.filter(p => p.status !== 'completed'), parsed.projectName) : undefined;
+
+    const handleAdd = async () => {
+        const pomsInt = isStopwatch ? -1 : (parsed.poms ?? parseInt(poms, 10));
+        if (parsed.text && !isNaN(pomsInt)) {
+            let projectId = selectedProject === 'none' ? null : selectedProject;
+            if (parsed.projectName) {
+                projectId = parsedProject?.id ?? await onAddProject(formatQuickAddProjectName(parsed.projectName));
+                if (!projectId) {
+                    alert("Failed to create the project.");
+                    return;
+                }
+            }
+            const tagList = [...new Set([...tags.split(',').map(t => t.trim()).filter(Boolean), ...parsed.tags])];
+            const taskPriority = parsed.priority ?? priority;
+            if (parsed.recurringDays) {
+                onAddRecurringTask({
+                    text: parsed.text,
+                    total_poms: pomsInt,
+                    project_id: projectId,
+                    tags: tagList,
+                    priority: taskPriority,
+                    recurring_days: parsed.recurringDays.length < 7 ? parsed.recurringDays : null,
+                    recurring_start_date: parsed.dueDate, // "tomorrow every Mon" starts the routine tomorrow
+                    recurring_end_date: null,
+                    stop_on_project_completion: !!projectId,
+                    completed_poms: 0,
+                    comments: [],
+                });
+            } else {
+                const dateToAdd = parsed.dueDate ?? (isPlanning ? dueDate : getTodayDateString());
+                onAddTask(parsed.text, pomsInt, dateToAdd, projectId, tagList, taskPriority);
+            }
             setText('');
             setPoms('1');
             setTags('');
@@ -365,8 +555,33 @@ const TaskInputGroup: React.FC<TaskInputGroupProps> = ({ onAddTask, placeholder,
                 onChange={(e) => setText(e.target.value)}
                 onKeyPress={(e) => e.key === 'Enter' && handleAdd()}
                 placeholder={placeholder}
+                title={QUICK_ADD_HINT}
                 className="w-full bg-slate-900/50 border-2 border-slate-700 rounded-lg p-3 text-white placeholder:text-slate-400 focus:outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-400"
             />
+            {hasQuickAddFields(parsed) && (
+                <div className="flex flex-wrap items-center gap-1.5 text-xs" aria-live="polite">
+                    <span className="text-slate-400">Adds</span>
+                    <span className={parsed.text ? 'text-slate-100 font-semibold' : 'text-red-400 italic'}>{parsed.text || 'a title is still needed'}</span>
+                    {parsed.projectName && (
+                        <span className="bg-blue-900/50 text-blue-300 px-2 py-0.5 rounded-full">
+                            {parsedProject ? parsedProject.name : `${formatQuickAddProjectName(parsed.projectName)} (new project)`}
+                        </span>
+                    )}
+                    {parsed.tags.map(tag => <span key={tag} className="bg-purple-900/50 text-purple-300 px-2 py-0.5 rounded-full">{tag}</span>)}
+                    {parsed.priority !== null && <span className="bg-slate-700/60 text-slate-200 px-2 py-0.5 rounded-full">P{parsed.priority}</span>}
+                    {parsed.poms !== null && !isStopwatch && <span className="bg-slate-700/60 text-slate-200 px-2 py-0.5 rounded-full">🍅 {parsed.poms}</span>}
+                    {parsed.recurringDays ? (
+                        <span className="bg-teal-900/50 text-teal-300 px-2 py-0.5 rounded-full">
+                            🔁 {parsed.recurringDays.length === 7 ? 'Every day' : parsed.recurringDays.map(d => RECURRENCE_DAY_LABELS[d]).join(', ')}
+                            {parsed.dueDate && ` from ${new Date(parsed.dueDate + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}`}
+                        </span>
+                    ) : parsed.dueDate && (
+                        <span className="bg-slate-700/50 text-slate-300 px-2 py-0.5 rounded-full inline-flex items-center gap-1">
+                            <CalendarIcon /> {new Date(parsed.dueDate + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                        </span>
+                    )}
+                </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 <select value={selectedProject} onChange={handleProjectChange} className="w-full bg-slate-900/50 border-2 border-slate-700 rounded-lg p-3 text-white focus:outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-400">
                     <option value="none" className="bg-slate-900">No Project</option>
@@ -441,7 +656,7 @@ const CategoryFocusDropdown: React.FC<CategoryFocusDropdownProps> = ({ tasks, se
             if (task.total_poms < 0) return; // Exclude stopwatch
             const remainingPoms = task.total_poms - task.completed_poms;
             if (remainingPoms > 0) {
-                const focusDuration = task.custom_focus_duration || settings.focusDuration;
+                const focusDuration = getTimerDurations(task, settings).focusDuration;
                 const remainingMinutes = Math.round(remainingPoms * focusDuration);
                 totalMinutes += remainingMinutes;
                 
@@ -603,23 +818,29 @@ interface TaskManagerProps {
     tasksForTomorrow: Task[];
     tasksFuture: Task[];
     completedToday: Task[];
+    allTasks: Task[]; // Every task, so prerequisites outside the planner's lists still resolve
     projects: Project[];
     settings: Settings;
     onAddTask: (text: string, poms: number, dueDate: string, projectId: string | null, tags: string[], priority: number | null) => void;
     onAddProject: (name: string) => Promise<string | null>;
+    onAddRecurringTask: (taskData: Partial<Task>) => void;
     onDeleteTask: (id: string) => void;
     onMoveTask: (id: string, action: 'postpone' | 'duplicate') => void;
     onBringTaskForward: (id: string) => void;
     onReorderTasks: (reorderedTasks: Task[]) => void;
-    onUpdateTaskTimers: (id: string, newTimers: { focus: number | null, break: number | null }) => void;
+    onUpdateTaskTimers: (id: string, newTimers: { focus: number | null, break: number | null, preset: string | null, soundMix: string | null }) => void;
     onUpdateTask: (id: string, newText: string, newTags: string[], newPoms: number, projectId: string | null, priority: number | null) => void;
+    onUpdateTaskPrerequisites: (id: string, prerequisiteIds: string[]) => void;
+    onUpdateTaskSubtasks: (id: string, subtasks: Subtask[]) => void;
     onMarkTaskIncomplete: (id: string) => void;
     todaySortBy: 'default' | 'priority';
     onSortTodayByChange: (sortBy: 'default' | 'priority') => void;
     onSetTaskToAutomate: (task: Task) => void;
+    activeTaskId: string | null;
+    onFocusTask: (id: string) => void;
 }
 
-const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow, tasksFuture, completedToday, projects, settings, onAddTask, onAddProject, onDeleteTask, onMoveTask, onBringTaskForward, onReorderTasks, onUpdateTaskTimers, onUpdateTask, onMarkTaskIncomplete, onSetTaskToAutomate, todaySortBy, onSortTodayByChange }) => {
+const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow, tasksFuture, completedToday, allTasks, projects, settings, onAddTask, onAddProject, onAddRecurringTask, onDeleteTask, onMoveTask, onBringTaskForward, onReorderTasks, onUpdateTaskTimers, onUpdateTask, onUpdateTaskPrerequisites, onUpdateTaskSubtasks, onMarkTaskIncomplete, onSetTaskToAutomate, todaySortBy, onSortTodayByChange, activeTaskId, onFocusTask }) => {
     
     const dragItemToday = React.useRef<number | null>(null);
     const dragOverItemToday = React.useRef<number | null>(null);
@@ -629,9 +850,10 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
     const [isTomorrowExpanded, setIsTomorrowExpanded] = useState(false);
     const [isFutureExpanded, setIsFutureExpanded] = useState(false);
 
-    const allTasks = useMemo(() => [...tasksToday, ...tasksForTomorrow, ...tasksFuture, ...completedToday], [tasksToday, tasksForTomorrow, tasksFuture, completedToday]);
+    const plannerTasks = useMemo(() => [...tasksToday, ...tasksForTomorrow, ...tasksFuture, ...completedToday], [tasksToday, tasksForTomorrow, tasksFuture, completedToday]);
+    const tasksById = useMemo(() => indexTasks(allTasks), [allTasks]);
     const [justAddedTaskId, setJustAddedTaskId] = useState<string | null>(null);
-    const prevTasksCount = useRef(allTasks.length);
+    const prevTasksCount = useRef(plannerTasks.length);
 
     const today = new Date();
     const dayOfWeekToday = today.getDay(); // 0=Sun, 6=Sat
@@ -672,8 +894,8 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
 
 
     useEffect(() => {
-        if (allTasks.length > prevTasksCount.current) {
-            const sortedTasks = [...allTasks].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+        if (plannerTasks.length > prevTasksCount.current) {
+            const sortedTasks = [...plannerTasks].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
             if (sortedTasks.length > 0) {
                 const latestTask = sortedTasks[0];
                 if (latestTask) {
@@ -683,8 +905,8 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
                 }
             }
         }
-        prevTasksCount.current = allTasks.length;
-    }, [allTasks]);
+        prevTasksCount.current = plannerTasks.length;
+    }, [plannerTasks]);
 
     const handleDragStartToday = (_: React.DragEvent<HTMLLIElement>, position: number) => { dragItemToday.current = position; };
     const handleDragEnterToday = (_: React.DragEvent<HTMLLIElement>, position: number) => { dragOverItemToday.current = position; };
@@ -719,6 +941,7 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
                     buttonClass="bg-gradient-to-br from-green-500 to-emerald-600"
                     projects={projects}
                     onAddProject={onAddProject}
+                    onAddRecurringTask={onAddRecurringTask}
                     isPlanning={false}
                 />
             </div>
@@ -755,11 +978,16 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
                             isCompleted={false} 
                             settings={settings}
                             projects={projects}
+                            tasksById={tasksById}
                             onDelete={onDeleteTask} 
                             onMove={onMoveTask}
                             onUpdateTaskTimers={onUpdateTaskTimers}
                             onUpdateTask={onUpdateTask}
+                            onUpdatePrerequisites={onUpdateTaskPrerequisites}
+                            onUpdateSubtasks={onUpdateTaskSubtasks}
                             onSetTaskToAutomate={onSetTaskToAutomate}
+                            isActive={task.id === activeTaskId}
+                            onFocus={onFocusTask}
                             isJustAdded={task.id === justAddedTaskId}
                             dragProps={todaySortBy === 'default' ? { 
                                 draggable: true, 
@@ -784,7 +1012,7 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
                         </summary>
                         <ul className="mt-2 space-y-2">
                             {completedToday.map(task => (
-                                <TaskItem key={task.id} task={task} isCompleted={true} settings={settings} projects={projects} onDelete={onDeleteTask} onUpdateTaskTimers={onUpdateTaskTimers} onUpdateTask={onUpdateTask} onMarkTaskIncomplete={onMarkTaskIncomplete} onSetTaskToAutomate={onSetTaskToAutomate} onDuplicateForTomorrowWithEdit={handleDuplicateForTomorrowWithEdit} />
+                                <TaskItem key={task.id} task={task} isCompleted={true} settings={settings} projects={projects} tasksById={tasksById} onDelete={onDeleteTask} onUpdateTaskTimers={onUpdateTaskTimers} onUpdateTask={onUpdateTask} onUpdatePrerequisites={onUpdateTaskPrerequisites} onUpdateSubtasks={onUpdateTaskSubtasks} onMarkTaskIncomplete={onMarkTaskIncomplete} onSetTaskToAutomate={onSetTaskToAutomate} onDuplicateForTomorrowWithEdit={handleDuplicateForTomorrowWithEdit} />
                             ))}
                         </ul>
                     </details>
@@ -801,6 +1029,7 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
                     buttonClass="bg-gradient-to-br from-amber-500 to-orange-600"
                     projects={projects}
                     onAddProject={onAddProject}
+                    onAddRecurringTask={onAddRecurringTask}
                     isPlanning={true}
                 />
             </div>
@@ -828,10 +1057,15 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
                            isCompleted={false} 
                            settings={settings} 
                            projects={projects}
+                           tasksById={tasksById}
                            onDelete={onDeleteTask} 
                            onUpdateTaskTimers={onUpdateTaskTimers}
                            onUpdateTask={onUpdateTask}
+                           onUpdatePrerequisites={onUpdateTaskPrerequisites}
+                           onUpdateSubtasks={onUpdateTaskSubtasks}
                            onSetTaskToAutomate={onSetTaskToAutomate}
+                           isActive={task.id === activeTaskId}
+                           onFocus={onFocusTask}
                            isTomorrowTask={true}
                            isJustAdded={task.id === justAddedTaskId}
                            onBringTaskForward={onBringTaskForward}
@@ -868,10 +1102,15 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasksToday, tasksForTomorrow,
                            isCompleted={false} 
                            settings={settings} 
                            projects={projects}
+                           tasksById={tasksById}
                            onDelete={onDeleteTask} 
                            onUpdateTaskTimers={onUpdateTaskTimers}
                            onUpdateTask={onUpdateTask}
+                           onUpdatePrerequisites={onUpdateTaskPrerequisites}
+                           onUpdateSubtasks={onUpdateTaskSubtasks}
                            onSetTaskToAutomate={onSetTaskToAutomate}
+                           isActive={task.id === activeTaskId}
+                           onFocus={onFocusTask}
                            isTomorrowTask={true}
                            displayDate={task.due_date}
                            isJustAdded={task.id === justAddedTaskId}
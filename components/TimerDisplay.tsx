@@ -9,9 +9,10 @@ interface TimerDisplayProps {
     mode: Mode;
     isStopwatchMode: boolean;
     timeForProgress: number;
+    isLongBreak?: boolean;
 }
 
-const TimerDisplay: React.FC<TimerDisplayProps> = ({ timeRemaining, totalTime, isRunning, mode, isStopwatchMode, timeForProgress }) => {
+const TimerDisplay: React.FC<TimerDisplayProps> = ({ timeRemaining, totalTime, isRunning, mode, isStopwatchMode, timeForProgress, isLongBreak }) => {
     const minutes = Math.floor(timeRemaining / 60).toString().padStart(2, '0');
     const seconds = (timeRemaining % 60).toString().padStart(2, '0');
 
@@ -78,7 +79,7 @@ const TimerDisplay: React.FC<TimerDisplayProps> = ({ timeRemaining, totalTime, i
 
             <div className="absolute inset-0 flex flex-col items-center justify-center z-10">
                 <div className={`mb-2 px-4 py-1 rounded-full text-xs font-bold uppercase tracking-widest bg-black/30 backdrop-blur-sm border border-white/10 ${isFocus ? 'text-cyan-300' : 'text-purple-300'}`}>
-                    {isStopwatchMode && isFocus ? 'Stopwatch' : isFocus ? 'Focus Session' : 'Break Time'}
+                    {isStopwatchMode && isFocus ? 'Stopwatch' : isFocus ? 'Focus Session' : isLongBreak ? 'Long Break' : 'Break Time'}
                 </div>
                 <div className={`text-7xl sm:text-9xl font-bold tabular-nums tracking-tighter transition-all duration-300 ${isRunning ? (isFocus ? 'timer-glow-focus text-white' : 'timer-glow-break text-white') : 'text-slate-300'}`}>
                     {minutes}:{seconds}
@@ -0,0 +1,23 @@
+import React from 'react';
+import { FocusLevel } from '../../types';
+
+export const FOCUS_LEVEL_OPTIONS: { value: FocusLevel; label: string }[] = [
+    { value: 'complete_focus', label: '😊 Full Focus' },
+    { value: 'half_focus', label: '🤔 Half Focus' },
+    { value: 'none_focus', label: '😩 No Focus' },
+];
+
+interface FocusLevelSelectProps {
+    value: FocusLevel | null;
+    onChange: (level: FocusLevel | null) => void;
+    className?: string;
+}
+
+const FocusLevelSelect: React.FC<FocusLevelSelectProps> = ({ value, onChange, className }) => (
+    <select value={value || ''} onChange={e => onChange((e.target.value || null) as FocusLevel | null)} className={className}>
+        <option value="" className="bg-slate-900">Not rated</option>
+        {FOCUS_LEVEL_OPTIONS.map(o => <option key={o.value} value={o.value} className="bg-slate-900">{o.label}</option>)}
+    </select>
+);
+
+export default FocusLevelSelect;
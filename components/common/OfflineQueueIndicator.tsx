@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { QueuedMutation, describeMutation } from '../../services/offlineQueue';
+
+interface OfflineQueueIndicatorProps {
+    items: QueuedMutation[];
+    onRetry: (id: number) => void;
+    onDiscard: (id: number) => void;
+}
+
+const OfflineQueueIndicator: React.FC<OfflineQueueIndicatorProps> = ({ items, onRetry, onDiscard }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    if (items.length === 0) return null;
+
+    const pendingCount = items.filter(m => m.status === 'pending').length;
+    const failedCount = items.length - pendingCount;
+
+    return (
+        <div className="fixed bottom-28 md:bottom-6 right-6 z-50 flex flex-col items-end gap-2">
+            {isExpanded && (
+                <div className="w-80 max-h-80 overflow-y-auto bg-slate-900/90 backdrop-blur-md rounded-2xl border border-white/10 shadow-2xl p-3 space-y-2 animate-fadeIn">
+                    <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 px-1">Unsynced changes</h4>
+                    {items.map(item => (
+                        <div key={item.id} className={`p-2 rounded-lg bg-white/5 border-l-4 ${item.status === 'failed' ? 'border-l-rose-500' : 'border-l-amber-400'}`}>
+                            <p className="text-sm text-white truncate" title={describeMutation(item)}>{describeMutation(item)}</p>
+                            <p className="text-[11px] text-slate-400">
+                                {new Date(item.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {' · '}
+                                {item.status === 'failed' ? <span className="text-rose-400">{item.error || 'Failed'}</span> : 'Waiting for connection'}
+                            </p>
+                            {item.status === 'failed' && (
+                                <div className="flex gap-2 mt-2">
+                                    <button onClick={() => onRetry(item.id)} className="text-xs px-2 py-1 rounded-md bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/30 transition">Retry</button>
+                                    <button onClick={() => onDiscard(item.id)} className="text-xs px-2 py-1 rounded-md bg-rose-500/20 text-rose-300 hover:bg-rose-500/30 transition">Discard</button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+            <button
+                onClick={() => setIsExpanded(prev => !prev)}
+                className="flex items-center gap-2 bg-black/40 backdrop-blur-md text-white px-4 py-2 rounded-full shadow-lg border border-white/10"
+                aria-label="Show unsynced changes"
+            >
+                {pendingCount > 0 && <span className="text-xs font-bold text-amber-300">{pendingCount} pending</span>}
+                {failedCount > 0 && <span className="text-xs font-bold text-rose-400">{failedCount} failed</span>}
+            </button>
+        </div>
+    );
+};
+
+export default OfflineQueueIndicator;
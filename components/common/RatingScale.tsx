@@ -0,0 +1,34 @@
+import React from 'react';
+
+export const MOOD_LABELS = ['😞', '🙁', '😐', '🙂', '😄'];
+export const ENERGY_LABELS = ['🪫', '😴', '🙂', '⚡', '🚀'];
+
+interface RatingScaleProps {
+    label: string;
+    icons: string[];
+    value: number | null;
+    onChange: (value: number | null) => void;
+    compact?: boolean;
+}
+
+/** A 1-5 rating shown as a row of emoji buttons; clicking the selected one clears it. */
+const RatingScale: React.FC<RatingScaleProps> = ({ label, icons, value, onChange, compact = false }) => (
+    <div className={compact ? 'flex items-center gap-2' : ''}>
+        <label className={compact ? 'text-xs text-slate-400 w-14 text-left flex-shrink-0' : 'block text-sm font-medium text-slate-300 mb-2'}>{label}</label>
+        <div className={`flex justify-between flex-grow ${compact ? 'gap-1' : 'gap-2'}`}>
+            {icons.map((icon, i) => (
+                <button
+                    key={i}
+                    type="button"
+                    onClick={() => onChange(value === i + 1 ? null : i + 1)}
+                    className={`flex-1 rounded-lg transition ${compact ? 'py-1 text-lg' : 'py-3 text-2xl'} ${value === i + 1 ? 'bg-indigo-500/30 ring-2 ring-indigo-400' : 'bg-slate-900/50 hover:bg-slate-700/50'}`}
+                    title={`${i + 1} of 5`}
+                >
+                    {icon}
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+export default RatingScale;
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Page } from '../../types';
-import { TimerIcon, PlanIcon, StatsIcon, AIIcon, SettingsIcon, LogoutIcon, TargetIcon, CircleIcon, PlanIconFilled, StatsIconFilled, AIIconFilled, BellIcon } from '../common/Icons';
+import { TimerIcon, PlanIcon, StatsIcon, AIIcon, SettingsIcon, LogoutIcon, TargetIcon, CircleIcon, PlanIconFilled, StatsIconFilled, AIIconFilled, BellIcon, EditIcon } from '../common/Icons';
 
 interface NavItemProps {
     label: string;
@@ -51,6 +51,7 @@ const Navbar: React.FC<NavbarProps> = ({ currentPage, setPage, onLogout, unreadN
         { page: 'plan' as Page, icon: <PlanIcon />, label: 'Plan' },
         { page: 'goals' as Page, icon: <TargetIcon />, label: 'Goals' },
         { page: 'stats' as Page, icon: <StatsIcon />, label: 'Stats' },
+        { page: 'review' as Page, icon: <EditIcon />, label: 'Review' },
         { page: 'ai' as Page, icon: <AIIcon />, label: 'AI Coach' },
     ];
 
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Goal, Target, Project, PomodoroHistory, Commitment, Task, ChatMessage, AiMemory, AiMemoryType } from '../types';
+import { Goal, Target, Project, PomodoroHistory, Commitment, Task, ChatMessage, AiMemory, AiMemoryType, DbDailyLog, WeeklyReview } from '../types';
 import { getTodayDateString } from '../utils/date';
+import { computeGoalRollups } from '../utils/goals';
+import { findBestFocusWindow, formatFocusWindow, FocusWindow, WEEKDAY_LABELS } from '../utils/focusWindows';
 import { runAgent, AgentContext, generateContent } from '../services/geminiService';
 import * as dbService from '../services/dbService';
 import Spinner from '../components/common/Spinner';
@@ -34,6 +36,7 @@ interface AICoachPageProps {
     aiMemories: AiMemory[];
     onMemoryChange: () => Promise<void>;
     onHistoryChange: () => Promise<void>;
+    weeklyReviews: WeeklyReview[];
 }
 
 // --- AI Function Declarations ---
@@ -224,7 +227,7 @@ const AiMemoryManager: React.FC<{ memories: AiMemory[], onDelete: (id: string) =
 type FilterMode = 'all' | 'week' | 'month' | 'range';
 
 const AICoachPage: React.FC<AICoachPageProps> = (props) => {
-    const { goals, targets, projects, allCommitments, onAddTask, onAddProject, onAddTarget, onAddCommitment, onRescheduleItem, chatMessages, setChatMessages, aiMemories, onMemoryChange, onHistoryChange } = props;
+    const { goals, targets, projects, allCommitments, onAddTask, onAddProject, onAddTarget, onAddCommitment, onRescheduleItem, chatMessages, setChatMessages, aiMemories, onMemoryChange, onHistoryChange, weeklyReviews } = props;
     
     // Agent State
     const [userInput, setUserInput] = useState('');
@@ -238,6 +241,7 @@ const AICoachPage: React.FC<AICoachPageProps> = (props) => {
     const [dateRange, setDateRange] = useState({ start: '', end: '' });
     const [contextTasks, setContextTasks] = useState<Task[]>([]);
     const [contextHistory, setContextHistory] = useState<PomodoroHistory[]>([]);
+    const [contextReflections, setContextReflections] = useState<DbDailyLog[]>([]);
     const [isDataLoading, setIsDataLoading] = useState(true);
 
     useEffect(() => {
@@ -272,11 +276,14 @@ const AICoachPage: React.FC<AICoachPageProps> = (props) => {
             if (filterMode === 'range' && (!startDate || !endDate || startDate > endDate)) {
                 setContextTasks([]);
                 setContextHistory([]);
+                setContextReflections([]);
                 setIsDataLoading(false);
                 return;
             }
 
             try {
+                // Stored daily logs only hold the end-of-day review; focus totals are rebuilt from history below.
+                const reflectionsPromise = dbService.getHistoricalLogs(startDate || '1970-01-01', endDate || today);
                 if (filterMode === 'all') {
                     const [fetchedTasks, fetchedHistory] = await Promise.all([
                         dbService.getAllTasksForStats(),
@@ -292,6 +299,7 @@ const AICoachPage: React.FC<AICoachPageProps> = (props) => {
                     setContextTasks(fetchedTasks || []);
                     setContextHistory(fetchedHistory || []);
                 }
+                setContextReflections(await reflectionsPromise);
             } catch (error) {
                 console.error("Error fetching data for AI context:", error);
             } finally {
@@ -406,7 +414,7 @@ const AICoachPage: React.FC<AICoachPageProps> = (props) => {
             historyToSend.shift();
         }
 
-        const dailyLogsMap = new Map<string, { date: string, total_focus_minutes: number, completed_sessions: number }>();
+        const dailyLogsMap = new Map<string, DbDailyLog>();
         contextHistory.forEach(p => {
             const date = getTodayDateString(new Date(p.ended_at)); // Use local date string
             if (!dailyLogsMap.has(date)) {
@@ -422,6 +430,13 @@ const AICoachPage: React.FC<AICoachPageProps> = (props) => {
                 dailyLogsMap.set(date, { date, total_focus_minutes: 0, completed_sessions: 0 });
             }
         });
+        contextReflections.forEach(r => {
+            const log = dailyLogsMap.get(r.date) || { date: r.date, total_focus_minutes: 0, completed_sessions: 0 };
+            dailyLogsMap.set(r.date, {
+                ...log, challenges: r.challenges, improvements: r.improvements, wins: r.wins,
+                mood: r.mood, energy: r.energy, tomorrow_priorities: r.tomorrow_priorities,
+            });
+        });
         const dailyLogs = Array.from(dailyLogsMap.values()).sort((a, b) => a.date.localeCompare(b.date));
 
         let dateRangeDescription = 'all of the user\'s history';
@@ -439,9 +454,23 @@ const AICoachPage: React.FC<AICoachPageProps> = (props) => {
                 break;
         }
 
+        const goalRollups = computeGoalRollups(goals, projects, targets, contextTasks, contextHistory);
+        const describeWindow = (window: FocusWindow | null) => window && `${formatFocusWindow(window)} (avg ${window.avgMinutesPerDay} min/day there${window.completeFocusPct !== null ? `, ${window.completeFocusPct}% of sessions full focus` : ''})`;
         const agentContext: AgentContext = {
-            goals: goals.map(g => ({ id: g.id, text: g.text })),
-            targets: targets.map(t => ({ id: t.id, text: t.text, deadline: t.deadline, completed_at: t.completed_at, priority: t.priority })),
+            goals: goals.map(g => {
+                const rollup = goalRollups.get(g.id)!;
+                return {
+                    id: g.id,
+                    text: g.text,
+                    completed_at: g.completed_at,
+                    focus_minutes: rollup.focusMinutes,
+                    completed_tasks: rollup.completedTasks,
+                    total_tasks: rollup.totalTasks,
+                    risk: rollup.risk,
+                    next_deadline: rollup.nextDeadline,
+                };
+            }),
+            targets: targets.map(t => ({ id: t.id, text: t.text, deadline: t.deadline, completed_at: t.completed_at, priority: t.priority, goal_id: t.goal_id ?? null })),
             projects: projects.map(p => ({
                 id: p.id,
                 name: p.name,
@@ -453,7 +482,8 @@ const AICoachPage: React.FC<AICoachPageProps> = (props) => {
                 completion_criteria_value: p.completion_criteria_value,
                 progress_value: p.progress_value,
                 priority: p.priority,
-                active_days: p.active_days
+                active_days: p.active_days,
+                goal_id: p.goal_id ?? null,
             })),
             commitments: allCommitments.map(c => ({ id: c.id, text: c.text, due_date: c.due_date })),
             tasks: contextTasks.map(t => ({
@@ -469,6 +499,11 @@ const AICoachPage: React.FC<AICoachPageProps> = (props) => {
                 tags: t.tags,
             })),
             dailyLogs,
+            focusWindows: {
+                overall: describeWindow(findBestFocusWindow(contextHistory)),
+                byWeekday: WEEKDAY_LABELS.map((_, weekday) => describeWindow(findBestFocusWindow(contextHistory, 2, weekday))).filter((w): w is string => !!w),
+            },
+            weeklyReviews: weeklyReviews.map(r => ({ week_start: r.week_start, wins: r.wins, challenges: r.challenges, lessons: r.lessons, next_week_focus: r.next_week_focus })),
             pomodoroHistory: contextHistory.map(p => ({ id: p.id, task_id: p.task_id, ended_at: p.ended_at, duration_minutes: p.duration_minutes })),
             aiMemories: aiMemories.map(m => ({ id: m.id, type: m.type, content: m.content, tags: m.tags, created_at: m.created_at })),
             dateRangeDescription,
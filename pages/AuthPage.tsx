@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
 import { supabase } from '../services/supabaseClient';
 
-const AuthPage: React.FC = () => {
+interface AuthPageProps {
+    onUseLocalMode: () => void;
+}
+
+const AuthPage: React.FC<AuthPageProps> = ({ onUseLocalMode }) => {
     const [isLogin, setIsLogin] = useState(true);
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
@@ -140,6 +144,18 @@ const AuthPage: React.FC = () => {
                             {isLogin ? 'Sign Up' : 'Login'}
                         </button>
                     </p>
+
+                    <div className="mt-6 pt-4 border-t border-slate-700 text-center">
+                        <button
+                            type="button"
+                            onClick={onUseLocalMode}
+                            disabled={loading}
+                            className="text-sm text-slate-300 hover:text-white hover:underline disabled:opacity-50"
+                        >
+                            Continue without an account
+                        </button>
+                        <p className="text-xs text-slate-500 mt-1">Your data stays in this browser only.</p>
+                    </div>
                 </div>
             </div>
         </div>
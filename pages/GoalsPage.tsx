@@ -1,11 +1,13 @@
 
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { Goal, Target, Project, Task, PomodoroHistory, ProjectUpdate, Commitment } from '../types';
+import { Goal, Target, Project, Task, PomodoroHistory, ProjectUpdate, Commitment, Settings } from '../types';
 import Panel from '../components/common/Panel';
 import { TrashIcon, EditIcon, StarIcon, LockIcon, CheckIcon, TargetIcon, RescheduleIcon, CalendarIcon, FilledStarIcon, LayoutIcon } from '../components/common/Icons';
 import * as dbService from '../services/dbService';
 import Spinner from '../components/common/Spinner';
 import { getTodayDateString, getMonthStartDateString } from '../utils/date';
+import { GoalRisk, GoalRollup, GOAL_RISK_LABELS, computeGoalRollups, getProjectRisk, getTargetRisk } from '../utils/goals';
+import { buildDependencyGraph, getBlockingTasks, indexTasks } from '../utils/dependencies';
 import PrioritySelector from '../components/common/PrioritySelector';
 import ExplanationTooltip from '../components/common/ExplanationTooltip';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, PieChart, Pie, Cell, Legend, LineChart, Line } from 'recharts';
@@ -327,7 +329,17 @@ const ProjectBurndownChart: React.FC<{
         const projectTasks = allTasks.filter(t => t.project_id === project.id);
         
         const workCompletedByDate = new Map<string, number>();
-        if (project.completion_criteria_type === 'task_count') {
+        if (project.completion_criteria_type === 'task_count' && project.count_subtasks) {
+            projectTasks.forEach(t => {
+                const completedDates = t.subtasks && t.subtasks.length > 0
+                    ? t.subtasks.filter(s => s.completed_at).map(s => s.completed_at!)
+                    : t.completed_at ? [t.completed_at] : [];
+                completedDates.forEach(completedAt => {
+                    const dateStr = completedAt.split('T')[0];
+                    workCompletedByDate.set(dateStr, (workCompletedByDate.get(dateStr) || 0) + 1);
+                });
+            });
+        } else if (project.completion_criteria_type === 'task_count') {
             projectTasks.forEach(t => {
                 if (t.completed_at) {
                     const dateStr = t.completed_at.split('T')[0];
@@ -419,6 +431,76 @@ const ProjectBurndownChart: React.FC<{
     );
 };
 
+const ProjectDependencyGraph: React.FC<{
+    project: Project | undefined;
+    allTasks: Task[];
+    settings: Settings;
+}> = ({ project, allTasks, settings }) => {
+    const tasksById = useMemo(() => indexTasks(allTasks), [allTasks]);
+    const projectTasks = useMemo(() => project ? allTasks.filter(t => t.project_id === project.id && !t.is_recurring) : [], [project, allTasks]);
+    const graph = useMemo(() => buildDependencyGraph(projectTasks, settings), [projectTasks, settings]);
+
+    if (!project || projectTasks.length === 0) return null;
+
+    const hasDependencies = graph.levels.length > 1;
+    const criticalIds = new Set(graph.criticalPath.map(t => t.id));
+    const today = getTodayDateString();
+    const openPathTasks = graph.criticalPath.filter(t => !t.completed_at);
+    const scheduledFinish = openPathTasks.reduce<string | null>((latest, t) => !latest || t.due_date > latest ? t.due_date : latest, null);
+    const daysLeft = project.deadline ? Math.round((new Date(project.deadline + 'T00:00:00').getTime() - new Date(today + 'T00:00:00').getTime()) / 86400000) + 1 : null;
+
+    let deadlineNote: { text: string; className: string } | null = null;
+    if (project.deadline && daysLeft !== null && openPathTasks.length > 0) {
+        if (daysLeft <= 0) {
+            deadlineNote = { text: 'The deadline has passed with work left on the critical path.', className: 'text-red-300 bg-red-500/10 border-red-400/30' };
+        } else if (scheduledFinish && scheduledFinish > project.deadline) {
+            deadlineNote = { text: `The critical path is scheduled to finish on ${new Date(scheduledFinish + 'T00:00:00').toLocaleDateString()}, after the deadline.`, className: 'text-red-300 bg-red-500/10 border-red-400/30' };
+        } else {
+            deadlineNote = { text: `About ${Math.ceil(graph.criticalMinutes / daysLeft)} min of focus a day on this chain finishes it by the deadline (${daysLeft} day${daysLeft === 1 ? '' : 's'} left).`, className: 'text-cyan-200 bg-cyan-500/10 border-cyan-400/30' };
+        }
+    }
+
+    return (
+        <div className="mt-8 pt-6 border-t border-slate-700 animate-fadeIn">
+            <h3 className="text-lg font-bold text-white text-center mb-4">Task Dependencies</h3>
+            {!hasDependencies ? (
+                <div className="p-4 text-center text-sm text-white/60 bg-black/20 rounded-lg">
+                    <p>None of this project's tasks depend on each other yet. Use the 🔒 button on a task in the planner to add prerequisites.</p>
+                </div>
+            ) : (
+                <>
+                    <div className="flex gap-3 overflow-x-auto pb-2 custom-scrollbar">
+                        {graph.levels.map((level, index) => (
+                            <div key={index} className="flex-shrink-0 w-48 space-y-2">
+                                <p className="text-xs font-semibold text-white/50 uppercase tracking-wider text-center">Step {index + 1}</p>
+                                {level.map(task => {
+                                    const prerequisites = (task.prerequisite_ids || []).map(id => tasksById.get(id)).filter((t): t is Task => !!t);
+                                    const isBlocked = !task.completed_at && getBlockingTasks(task, tasksById).length > 0;
+                                    const isScheduledTooEarly = !task.completed_at && prerequisites.some(p => !p.completed_at && p.due_date > task.due_date);
+                                    return (
+                                        <div key={task.id} className={`p-2 rounded-lg text-xs border ${criticalIds.has(task.id) ? 'border-amber-400/70 bg-amber-500/10' : 'border-slate-700 bg-black/20'} ${task.completed_at ? 'opacity-50' : ''}`}>
+                                            <p className={`font-semibold text-white break-words ${task.completed_at ? 'line-through' : ''}`}>{task.text}</p>
+                                            <p className="text-white/50 mt-0.5">{new Date(task.due_date + 'T00:00:00').toLocaleDateString()}</p>
+                                            {prerequisites.length > 0 && <p className="text-white/60 mt-1 truncate" title={prerequisites.map(p => p.text).join(', ')}>After: {prerequisites.map(p => p.text).join(', ')}</p>}
+                                            {isBlocked && <span className="inline-block mt-1 bg-rose-900/50 text-rose-300 px-2 py-0.5 rounded-full">🔒 Blocked</span>}
+                                            {isScheduledTooEarly && <p className="text-amber-300 mt-1">⚠️ Scheduled before a prerequisite</p>}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="mt-4 p-3 bg-black/20 rounded-lg text-sm text-white/80">
+                        <p className="font-semibold text-amber-300 mb-1">Critical path · {openPathTasks.length > 0 ? `${formatFocusMinutes(graph.criticalMinutes)} of focus left` : 'done'}</p>
+                        <p className="text-white/70">{graph.criticalPath.map(t => t.text).join(' → ')}</p>
+                        {deadlineNote && <p className={`mt-2 text-xs border rounded-lg p-2 ${deadlineNote.className}`}>{deadlineNote.text}</p>}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
 const TargetBurndownChart: React.FC<{
     target: Target | undefined;
     allTasks: Task[];
@@ -724,6 +806,7 @@ const ProjectItem: React.FC<ProjectItemProps> = ({ project, tasks, onUpdateProje
     const [editCriteriaValue, setEditCriteriaValue] = useState(project.completion_criteria_value?.toString() || '');
     const [editPriority, setEditPriority] = useState<number>(project.priority ?? 3);
     const [editActiveDays, setEditActiveDays] = useState<number[]>(project.active_days || []);
+    const [editCountSubtasks, setEditCountSubtasks] = useState(!!project.count_subtasks);
     const [isLogVisible, setIsLogVisible] = useState(false);
 
     const { progress, progressText, isComplete, isDue, isManual, isEditable } = useMemo(() => {
@@ -741,7 +824,7 @@ const ProjectItem: React.FC<ProjectItemProps> = ({ project, tasks, onUpdateProje
 
         let progressText = '';
         if (project.completion_criteria_type === 'task_count') {
-            progressText = `${value}/${target} tasks`;
+            progressText = `${value}/${target} ${project.count_subtasks ? 'items' : 'tasks'}`;
         } else if (project.completion_criteria_type === 'duration_minutes') {
             progressText = `${value}/${target} min`;
         }
@@ -777,6 +860,7 @@ const ProjectItem: React.FC<ProjectItemProps> = ({ project, tasks, onUpdateProje
             completion_criteria_value: value,
             priority: editPriority,
             active_days: editActiveDays.length > 0 ? editActiveDays : null,
+            count_subtasks: editCriteriaType === 'task_count' && editCountSubtasks,
         };
         onUpdateProject(project.id, updates);
         setIsEditing(false);
@@ -791,6 +875,7 @@ const ProjectItem: React.FC<ProjectItemProps> = ({ project, tasks, onUpdateProje
         setEditCriteriaValue(project.completion_criteria_value?.toString() || '');
         setEditPriority(project.priority ?? 3);
         setEditActiveDays(project.active_days || []);
+        setEditCountSubtasks(!!project.count_subtasks);
         setIsEditing(false);
     };
 
@@ -829,6 +914,12 @@ const ProjectItem: React.FC<ProjectItemProps> = ({ project, tasks, onUpdateProje
                 {editCriteriaType !== 'manual' && (
                     <input type="number" value={editCriteriaValue} onChange={e => setEditCriteriaValue(e.target.value)} placeholder={editCriteriaType === 'task_count' ? '# of tasks' : 'Minutes of focus'} className="w-full bg-slate-800/80 border border-slate-600 rounded-lg p-2 text-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-cyan-400" />
                 )}
+                {editCriteriaType === 'task_count' && (
+                    <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer">
+                        <input type="checkbox" checked={editCountSubtasks} onChange={e => setEditCountSubtasks(e.target.checked)} className="h-4 w-4 rounded bg-slate-700/50 border-slate-600 text-cyan-400 focus:ring-cyan-400" />
+                        Count checklist items as tasks
+                    </label>
+                )}
                 <div className="flex justify-between items-center mt-2">
                     <PrioritySelector priority={editPriority} setPriority={setEditPriority} />
                     <div className="flex justify-end gap-2 text-sm">
@@ -1104,12 +1195,107 @@ const TargetItem: React.FC<TargetItemProps> = ({ target, onUpdateTarget, onDelet
     );
 };
 
+const goalRiskStyles: Record<GoalRisk, string> = {
+    overdue: 'bg-red-500/20 text-red-300',
+    at_risk: 'bg-amber-500/20 text-amber-300',
+    on_track: 'bg-green-500/20 text-green-300',
+    no_deadline: 'bg-slate-700/60 text-slate-300',
+    done: 'bg-cyan-500/20 text-cyan-300',
+};
+
+const formatFocusMinutes = (minutes: number): string => {
+    const rounded = Math.round(minutes);
+    return rounded >= 60 ? `${Math.floor(rounded / 60)}h ${rounded % 60}m` : `${rounded}m`;
+};
+
+// The projects and targets under a goal, with the numbers they roll up into it.
+const GoalTree: React.FC<{
+    goal: Goal;
+    rollup: GoalRollup;
+    projects: Project[];
+    targets: Target[];
+    onUpdateProject: (id: string, updates: Partial<Project>) => void;
+    onUpdateTarget: (id: string, updates: Partial<Target>) => void;
+}> = ({ goal, rollup, projects, targets, onUpdateProject, onUpdateTarget }) => {
+    const linkableProjects = projects.filter(p => !p.goal_id && p.status !== 'completed');
+    const linkableTargets = targets.filter(t => !t.goal_id && !t.completed_at);
+
+    const handleLink = (value: string) => {
+        const [itemType, id] = value.split(':');
+        if (itemType === 'project') onUpdateProject(id, { goal_id: goal.id });
+        if (itemType === 'target') onUpdateTarget(id, { goal_id: goal.id });
+    };
+
+    return (
+        <div className="mt-3 ml-9 space-y-3">
+            <div className="flex flex-wrap gap-2 text-xs">
+                <span className={`px-2 py-0.5 rounded-full font-semibold ${goalRiskStyles[rollup.risk]}`}>{GOAL_RISK_LABELS[rollup.risk]}</span>
+                <span className="bg-slate-700/60 text-slate-300 px-2 py-0.5 rounded-full">⏱️ {formatFocusMinutes(rollup.focusMinutes)} focused</span>
+                <span className="bg-slate-700/60 text-slate-300 px-2 py-0.5 rounded-full">✅ {rollup.completedTasks}/{rollup.totalTasks} tasks</span>
+                {rollup.nextDeadline && <span className="bg-slate-700/60 text-slate-300 px-2 py-0.5 rounded-full">📅 Next deadline {rollup.nextDeadline}</span>}
+            </div>
+
+            {(rollup.projects.length > 0 || rollup.targets.length > 0) && (
+                <ul className="border-l-2 border-slate-700 pl-3 space-y-1.5">
+                    {rollup.projects.map(project => {
+                        const risk = getProjectRisk(project);
+                        const progress = project.completion_criteria_type === 'task_count' ? `${project.progress_value}/${project.completion_criteria_value} tasks`
+                            : project.completion_criteria_type === 'duration_minutes' ? `${project.progress_value}/${project.completion_criteria_value} min` : null;
+                        return (
+                            <li key={project.id} className="flex items-center justify-between gap-2 text-sm">
+                                <span className="min-w-0 truncate text-slate-200">📁 {project.name}{progress && <span className="text-slate-400 text-xs ml-2">{progress}</span>}</span>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    <span className={`text-[10px] px-2 py-0.5 rounded-full font-semibold ${goalRiskStyles[risk]}`}>{GOAL_RISK_LABELS[risk]}</span>
+                                    <button onClick={() => onUpdateProject(project.id, { goal_id: null })} className="text-slate-500 hover:text-red-400 text-xs" title="Unlink project">✕</button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                    {rollup.targets.map(target => {
+                        const risk = getTargetRisk(target);
+                        return (
+                            <li key={target.id} className="flex items-center justify-between gap-2 text-sm">
+                                <span className="min-w-0 truncate text-slate-200">🎯 {target.text}{target.completion_mode === 'focus_minutes' && <span className="text-slate-400 text-xs ml-2">{target.progress_minutes}/{target.target_minutes} min</span>}</span>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    <span className={`text-[10px] px-2 py-0.5 rounded-full font-semibold ${goalRiskStyles[risk]}`}>{GOAL_RISK_LABELS[risk]}</span>
+                                    <button onClick={() => onUpdateTarget(target.id, { goal_id: null })} className="text-slate-500 hover:text-red-400 text-xs" title="Unlink target">✕</button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {!goal.completed_at && (linkableProjects.length > 0 || linkableTargets.length > 0) && (
+                <select value="" onChange={e => e.target.value && handleLink(e.target.value)} className="w-full sm:w-auto bg-slate-800 border border-slate-600 rounded-md p-1.5 text-slate-300 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-400">
+                    <option value="">+ Link a project or target...</option>
+                    {linkableProjects.length > 0 && (
+                        <optgroup label="Projects">
+                            {linkableProjects.map(p => <option key={p.id} value={`project:${p.id}`}>{p.name}</option>)}
+                        </optgroup>
+                    )}
+                    {linkableTargets.length > 0 && (
+                        <optgroup label="Targets">
+                            {linkableTargets.map(t => <option key={t.id} value={`target:${t.id}`}>{t.text}</option>)}
+                        </optgroup>
+                    )}
+                </select>
+            )}
+        </div>
+    );
+};
+
 const GoalItem: React.FC<{
     goal: Goal;
     onUpdateGoal: (id: string, text: string) => void;
     onDeleteGoal: (id: string) => void;
     onSetCompletion: (id: string, isComplete: boolean) => void;
-}> = ({ goal, onUpdateGoal, onDeleteGoal, onSetCompletion }) => {
+    rollup?: GoalRollup;
+    projects: Project[];
+    targets: Target[];
+    onUpdateProject: (id: string, updates: Partial<Project>) => void;
+    onUpdateTarget: (id: string, updates: Partial<Target>) => void;
+}> = ({ goal, onUpdateGoal, onDeleteGoal, onSetCompletion, rollup, projects, targets, onUpdateProject, onUpdateTarget }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [editText, setEditText] = useState(goal.text);
     const isOld = isOlderThanOrEqualToTwoDays(goal.created_at);
@@ -1172,6 +1358,7 @@ const GoalItem: React.FC<{
                      <button onClick={() => onDeleteGoal(goal.id)} className="p-2 rounded-full text-red-400 hover:bg-red-500/20 transition" title="Delete Goal"><TrashIcon /></button>
                 </div>
             </div>
+            {rollup && <GoalTree goal={goal} rollup={rollup} projects={projects} targets={targets} onUpdateProject={onUpdateProject} onUpdateTarget={onUpdateTarget} />}
         </li>
     );
 };
@@ -1543,6 +1730,7 @@ interface GoalsPageProps {
     targets: Target[];
     projects: Project[];
     commitments: Commitment[];
+    settings: Settings;
     onAddGoal: (text: string) => void;
     onUpdateGoal: (id: string, text: string) => void;
     onDeleteGoal: (id: string) => void;
@@ -1571,7 +1759,7 @@ interface GoalsPageProps {
 }
 
 const GoalsPage: React.FC<GoalsPageProps> = (props) => {
-    const { goals, targets, projects, commitments, onAddGoal, onUpdateGoal, onDeleteGoal, onSetGoalCompletion, onAddTarget, onUpdateTarget, onDeleteTarget, onAddProject, onUpdateProject, onDeleteProject, onAddCommitment, onUpdateCommitment, onDeleteCommitment, onSetCommitmentCompletion, onMarkCommitmentBroken, onSetPinnedItem, onClearPins } = props;
+    const { goals, targets, projects, commitments, settings, onAddGoal, onUpdateGoal, onDeleteGoal, onSetGoalCompletion, onAddTarget, onUpdateTarget, onDeleteTarget, onAddProject, onUpdateProject, onDeleteProject, onAddCommitment, onUpdateCommitment, onDeleteCommitment, onSetCommitmentCompletion, onMarkCommitmentBroken, onSetPinnedItem, onClearPins } = props;
 
     const [activeTab, setActiveTab] = useState<'projects' | 'targets' | 'overview' | 'deadline'>('projects');
     const [deadlineView, setDeadlineView] = useState<'project' | 'target'>('project');
@@ -1734,6 +1922,8 @@ const GoalsPage: React.FC<GoalsPageProps> = (props) => {
         return { visibleGoals: visible, hiddenGoalsCount: goals.length - visible.length };
     }, [goals, showArchivedGoals, fiveDaysAgo]);
 
+    const goalRollups = useMemo(() => computeGoalRollups(goals, projects, targets, allTasks, allHistory), [goals, projects, targets, allTasks, allHistory]);
+
     const deadlineItems = useMemo(() => {
         const relevantProjects = projects
             .filter(p => {
@@ -2211,6 +2401,11 @@ const GoalsPage: React.FC<GoalsPageProps> = (props) => {
                                      onUpdateGoal={onUpdateGoal} 
                                      onDeleteGoal={onDeleteGoal} 
                                      onSetCompletion={onSetGoalCompletion} 
+                                     rollup={goalRollups.get(spotlightGoal.id)}
+                                     projects={projects}
+                                     targets={targets}
+                                     onUpdateProject={onUpdateProject}
+                                     onUpdateTarget={onUpdateTarget}
                                  />
                              </div>
                         )}
@@ -2246,7 +2441,7 @@ const GoalsPage: React.FC<GoalsPageProps> = (props) => {
 
                             <ul className="space-y-2">
                                 {visibleGoals.map(goal => (
-                                    <GoalItem key={goal.id} goal={goal} onUpdateGoal={onUpdateGoal} onDeleteGoal={onDeleteGoal} onSetCompletion={onSetGoalCompletion} />
+                                    <GoalItem key={goal.id} goal={goal} onUpdateGoal={onUpdateGoal} onDeleteGoal={onDeleteGoal} onSetCompletion={onSetGoalCompletion} rollup={goalRollups.get(goal.id)} projects={projects} targets={targets} onUpdateProject={onUpdateProject} onUpdateTarget={onUpdateTarget} />
                                 ))}
                             </ul>
                             {hiddenGoalsCount > 0 && (
@@ -2354,6 +2549,7 @@ const GoalsPage: React.FC<GoalsPageProps> = (props) => {
                                 <>
                                     <ProjectDailyFocusChart projectId={selectedProjectId} projectName={projects.find(p=>p.id===selectedProjectId)?.name || null} allTasks={allTasks} allHistory={allHistory} />
                                     <ProjectBurndownChart project={projects.find(p=>p.id===selectedProjectId)} allTasks={allTasks} allHistory={allHistory} />
+                                    <ProjectDependencyGraph project={projects.find(p=>p.id===selectedProjectId)} allTasks={allTasks} settings={settings} />
                                 </>
                             )}
                         </Panel>
@@ -1,14 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Task, Project, Settings } from '../types';
+import { Task, Project, Settings, Subtask } from '../types';
 import TaskManager from '../components/TaskManager';
 import ExpertiseTracker from '../components/ExpertiseTracker';
 import AutomationsManager from '../components/AutomationsManager';
+import { FocusWindow, formatFocusWindow } from '../utils/focusWindows';
 
 interface PlanPageProps {
     tasksToday: Task[];
     tasksForTomorrow: Task[];
     tasksFuture: Task[];
     completedToday: Task[];
+    allTasks: Task[];
     projects: Project[];
     settings: Settings;
     onAddTask: (text: string, poms: number, dueDate: string, projectId: string | null, tags: string[], priority: number | null) => void;
@@ -17,8 +19,10 @@ interface PlanPageProps {
     onMoveTask: (id: string, action: 'postpone' | 'duplicate') => void;
     onBringTaskForward: (id: string) => void;
     onReorderTasks: (reorderedTasks: Task[]) => void;
-    onUpdateTaskTimers: (id: string, newTimers: { focus: number | null, break: number | null }) => void;
+    onUpdateTaskTimers: (id: string, newTimers: { focus: number | null, break: number | null, preset: string | null, soundMix: string | null }) => void;
     onUpdateTask: (id: string, newText: string, newTags: string[], newPoms: number, projectId: string | null, priority: number | null) => void;
+    onUpdateTaskPrerequisites: (id: string, prerequisiteIds: string[]) => void;
+    onUpdateTaskSubtasks: (id: string, subtasks: Subtask[]) => void;
     onMarkTaskIncomplete: (id: string) => void;
     todaySortBy: 'default' | 'priority';
     onSortTodayByChange: (sortBy: 'default' | 'priority') => void;
@@ -27,9 +31,13 @@ interface PlanPageProps {
     onUpdateRecurringTask: (id: string, updates: Partial<Task>) => void;
     onDeleteRecurringTask: (id: string) => void;
     onSetRecurringTaskActive: (id: string, isActive: boolean) => void;
+    onSetRecurrenceException: (templateId: string, occurrenceDate: string, dueDate: string | null | undefined) => void;
     taskToAutomate: Task | null;
     onClearTaskToAutomate: () => void;
     onSetTaskToAutomate: (task: Task) => void;
+    activeTaskId: string | null;
+    onFocusTask: (id: string) => void;
+    bestFocusWindow: FocusWindow | null;
 }
 
 const PlanPage: React.FC<PlanPageProps> = (props) => {
@@ -80,26 +88,37 @@ const PlanPage: React.FC<PlanPageProps> = (props) => {
             
             {/* Conditional Content */}
             <div key={activeTab} className="animate-fadeIn">
+                {activeTab === 'planner' && props.bestFocusWindow && (
+                    <p className="mb-4 text-sm text-center text-slate-300 bg-slate-800/50 border border-amber-400/20 rounded-xl px-4 py-2">
+                        ⭐ Your best focus window{props.bestFocusWindow.weekday !== null && ' on this weekday'} is <span className="font-semibold text-amber-300">{formatFocusWindow({ ...props.bestFocusWindow, weekday: null })}</span>. Plan your most demanding task for then.
+                    </p>
+                )}
                 {activeTab === 'planner' && (
                     <TaskManager
                         tasksToday={props.tasksToday}
                         tasksForTomorrow={props.tasksForTomorrow}
                         tasksFuture={props.tasksFuture}
                         completedToday={props.completedToday}
+                        allTasks={props.allTasks}
                         projects={props.projects}
                         settings={props.settings}
                         onAddTask={props.onAddTask}
                         onAddProject={props.onAddProject}
+                        onAddRecurringTask={props.onAddRecurringTask}
                         onDeleteTask={props.onDeleteTask}
                         onMoveTask={props.onMoveTask}
                         onBringTaskForward={props.onBringTaskForward}
                         onReorderTasks={props.onReorderTasks}
                         onUpdateTaskTimers={props.onUpdateTaskTimers}
                         onUpdateTask={props.onUpdateTask}
+                        onUpdateTaskPrerequisites={props.onUpdateTaskPrerequisites}
+                        onUpdateTaskSubtasks={props.onUpdateTaskSubtasks}
                         onMarkTaskIncomplete={props.onMarkTaskIncomplete}
                         todaySortBy={props.todaySortBy}
                         onSortTodayByChange={props.onSortTodayByChange}
                         onSetTaskToAutomate={props.onSetTaskToAutomate}
+                        activeTaskId={props.activeTaskId}
+                        onFocusTask={props.onFocusTask}
                     />
                 )}
                 {activeTab === 'mastery' && (
@@ -108,12 +127,14 @@ const PlanPage: React.FC<PlanPageProps> = (props) => {
                 {activeTab === 'automations' && (
                      <AutomationsManager
                         recurringTasks={props.recurringTasks}
+                        allTasks={props.allTasks}
                         projects={props.projects}
                         onAddProject={props.onAddProject}
                         onAddRecurringTask={props.onAddRecurringTask}
                         onUpdateRecurringTask={props.onUpdateRecurringTask}
                         onDeleteRecurringTask={props.onDeleteRecurringTask}
                         onSetRecurringTaskActive={props.onSetRecurringTaskActive}
+                        onSetRecurrenceException={props.onSetRecurrenceException}
                         taskToAutomate={props.taskToAutomate}
                         onClearTaskToAutomate={props.onClearTaskToAutomate}
                     />
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Commitment, DbDailyLog, Target, WeeklyReview, WeeklyReviewAnswers } from '../types';
+import Panel from '../components/common/Panel';
+import Spinner from '../components/common/Spinner';
+import * as dbService from '../services/dbService';
+import { getTodayDateString, getWeekStartDateString } from '../utils/date';
+import { addDaysToDateString } from '../utils/recurrence';
+import { GOAL_RISK_LABELS, getTargetRisk } from '../utils/goals';
+import { ENERGY_LABELS, MOOD_LABELS } from '../components/common/RatingScale';
+
+interface ReviewPageProps {
+    weeklyReviews: WeeklyReview[];
+    commitments: Commitment[];
+    targets: Target[];
+    onSaveWeeklyReview: (weekStart: string, answers: WeeklyReviewAnswers) => Promise<boolean>;
+    onOpenDailyReview: () => void;
+}
+
+const EMPTY_ANSWERS: WeeklyReviewAnswers = { wins: null, challenges: null, lessons: null, next_week_focus: null };
+
+const QUESTIONS: { key: keyof WeeklyReviewAnswers; label: string; placeholder: string; color: string }[] = [
+    { key: 'wins', label: 'Wins of the week', placeholder: 'What are you proud of this week?', color: 'text-amber-300' },
+    { key: 'challenges', label: 'What got in the way', placeholder: 'Distractions, blockers, things that took longer than planned...', color: 'text-red-300' },
+    { key: 'lessons', label: 'Lessons learned', placeholder: 'What would you do differently?', color: 'text-green-300' },
+    { key: 'next_week_focus', label: 'Focus for next week', placeholder: 'The one or two things that matter most next week', color: 'text-cyan-300' },
+];
+
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) => new Date(`${date}T00:00:00`).toLocaleDateString('en-US', options);
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const isInWeek = (timestamp: string | null, weekStart: string, weekEnd: string) => {
+    if (!timestamp) return false;
+    const date = getTodayDateString(new Date(timestamp));
+    return date >= weekStart && date <= weekEnd;
+};
+
+const ReviewPage: React.FC<ReviewPageProps> = ({ weeklyReviews, commitments, targets, onSaveWeeklyReview, onOpenDailyReview }) => {
+    const currentWeekStart = getWeekStartDateString();
+    const [weekStart, setWeekStart] = useState(currentWeekStart);
+    const [logs, setLogs] = useState<DbDailyLog[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [answers, setAnswers] = useState<WeeklyReviewAnswers>(EMPTY_ANSWERS);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const weekEnd = addDaysToDateString(weekStart, 6);
+    const savedReview = weeklyReviews.find(r => r.week_start === weekStart);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        dbService.getHistoricalLogs(weekStart, weekEnd).then(fetched => {
+            if (cancelled) return;
+            setLogs(fetched);
+            setIsLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [weekStart, weekEnd]);
+
+    useEffect(() => {
+        setAnswers(savedReview ? { wins: savedReview.wins, challenges: savedReview.challenges, lessons: savedReview.lessons, next_week_focus: savedReview.next_week_focus } : EMPTY_ANSWERS);
+    }, [savedReview?.id, savedReview?.updated_at, weekStart]);
+
+    const days = useMemo(() => Array.from({ length: 7 }, (_, i) => {
+        const date = addDaysToDateString(weekStart, i);
+        return { date, log: logs.find(l => l.date === date) };
+    }), [weekStart, logs]);
+
+    const summary = useMemo(() => {
+        const totalMinutes = logs.reduce((sum, l) => sum + (l.total_focus_minutes || 0), 0);
+        return {
+            totalMinutes,
+            sessions: logs.reduce((sum, l) => sum + (l.completed_sessions || 0), 0),
+            activeDays: logs.filter(l => l.total_focus_minutes > 0).length,
+            reviewedDays: logs.filter(l => l.reviewed_at).length,
+            mood: average(logs.map(l => l.mood).filter((v): v is number => !!v)),
+            energy: average(logs.map(l => l.energy).filter((v): v is number => !!v)),
+            maxMinutes: Math.max(1, ...logs.map(l => l.total_focus_minutes || 0)),
+        };
+    }, [logs]);
+
+    const keptCommitments = useMemo(() => commitments.filter(c => c.status === 'completed' && isInWeek(c.completed_at, weekStart, weekEnd)), [commitments, weekStart, weekEnd]);
+    const brokenCommitments = useMemo(() => commitments.filter(c => c.status === 'broken' && isInWeek(c.broken_at, weekStart, weekEnd)), [commitments, weekStart, weekEnd]);
+    // Risk is judged as of today: these are the targets that need attention going into next week.
+    const targetsAtRisk = useMemo(() => targets
+        .map(t => ({ target: t, risk: getTargetRisk(t) }))
+        .filter(({ risk }) => risk === 'at_risk' || risk === 'overdue')
+        .sort((a, b) => a.target.deadline.localeCompare(b.target.deadline)), [targets]);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const trimmed = Object.fromEntries(Object.entries(answers).map(([key, value]) => [key, (value as string | null)?.trim() || null])) as WeeklyReviewAnswers;
+        await onSaveWeeklyReview(weekStart, trimmed);
+        setIsSaving(false);
+    };
+
+    const pastReviews = weeklyReviews.filter(r => r.week_start !== weekStart).slice(0, 8);
+    const textareaClass = "w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-white text-sm placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-400/50 min-h-[80px]";
+
+    return (
+        <div className="flex flex-col gap-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-white">Weekly Review</h1>
+                    <p className="text-slate-400 text-sm">{formatDay(weekStart, { month: 'short', day: 'numeric' })} – {formatDay(weekEnd, { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={onOpenDailyReview} className="px-3 py-1.5 rounded-lg text-sm text-indigo-300 bg-indigo-500/10 hover:bg-indigo-500/20 transition">🌙 Review today</button>
+                    <button onClick={() => setWeekStart(addDaysToDateString(weekStart, -7))} className="px-3 py-1.5 rounded-lg text-sm text-slate-300 bg-slate-800 hover:bg-slate-700 transition">← Previous</button>
+                    <button onClick={() => setWeekStart(addDaysToDateString(weekStart, 7))} disabled={weekStart >= currentWeekStart} className="px-3 py-1.5 rounded-lg text-sm text-slate-300 bg-slate-800 hover:bg-slate-700 transition disabled:opacity-40">Next →</button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center items-center h-40"><Spinner /></div>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <Panel title="📊 The Week in Numbers">
+                        <div className="grid grid-cols-3 gap-3 mb-5 text-center">
+                            <div className="bg-black/20 rounded-xl p-3">
+                                <div className="text-xl font-bold text-white">{(summary.totalMinutes / 60).toFixed(1)}h</div>
+                                <div className="text-xs text-slate-400">{summary.sessions} sessions</div>
+                            </div>
+                            <div className="bg-black/20 rounded-xl p-3">
+                                <div className="text-xl font-bold text-white">{summary.activeDays}/7</div>
+                                <div className="text-xs text-slate-400">days focused</div>
+                            </div>
+                            <div className="bg-black/20 rounded-xl p-3">
+                                <div className="text-xl font-bold text-white">
+                                    {summary.mood ? MOOD_LABELS[Math.round(summary.mood) - 1] : '–'} {summary.energy ? ENERGY_LABELS[Math.round(summary.energy) - 1] : ''}
+                                </div>
+                                <div className="text-xs text-slate-400">{summary.reviewedDays} day{summary.reviewedDays === 1 ? '' : 's'} reviewed</div>
+                            </div>
+                        </div>
+                        <ul className="space-y-2">
+                            {days.map(({ date, log }) => (
+                                <li key={date} className="text-sm">
+                                    <div className="flex items-center gap-3">
+                                        <span className="w-10 text-slate-400">{formatDay(date, { weekday: 'short' })}</span>
+                                        <div className="flex-grow h-2 bg-white/5 rounded-full overflow-hidden">
+                                            <div className="h-full bg-gradient-to-r from-cyan-400 to-blue-500" style={{ width: `${((log?.total_focus_minutes || 0) / summary.maxMinutes) * 100}%` }}></div>
+                                        </div>
+                                        <span className="w-14 text-right text-slate-300">{log?.total_focus_minutes || 0}m</span>
+                                        <span className="w-12 text-right" title="Mood and energy">{log?.mood ? MOOD_LABELS[log.mood - 1] : ''}{log?.energy ? ENERGY_LABELS[log.energy - 1] : ''}</span>
+                                    </div>
+                                    {log?.wins && <p className="ml-[3.25rem] text-xs text-amber-200/80 truncate" title={log.wins}>★ {log.wins}</p>}
+                                </li>
+                            ))}
+                        </ul>
+                    </Panel>
+
+                    <div className="flex flex-col gap-6">
+                        <Panel title="🤝 Commitments">
+                            {keptCommitments.length + brokenCommitments.length === 0 ? (
+                                <p className="text-sm text-slate-500 italic">No commitments were kept or broken this week.</p>
+                            ) : (
+                                <ul className="space-y-1.5 text-sm">
+                                    {keptCommitments.map(c => <li key={c.id} className="text-green-300">✓ {c.text}</li>)}
+                                    {brokenCommitments.map(c => <li key={c.id} className="text-red-300">✗ {c.text}</li>)}
+                                </ul>
+                            )}
+                        </Panel>
+                        <Panel title="⚠️ Targets at Risk">
+                            {targetsAtRisk.length === 0 ? (
+                                <p className="text-sm text-slate-500 italic">All open targets are on track.</p>
+                            ) : (
+                                <ul className="space-y-1.5 text-sm">
+                                    {targetsAtRisk.map(({ target, risk }) => (
+                                        <li key={target.id} className="flex items-center justify-between gap-3">
+                                            <span className="truncate text-slate-200" title={target.text}>{target.text}</span>
+                                            <span className={`flex-shrink-0 text-xs px-2 py-0.5 rounded-full ${risk === 'overdue' ? 'bg-red-500/20 text-red-300' : 'bg-amber-500/20 text-amber-300'}`}>
+                                                {GOAL_RISK_LABELS[risk]} · {formatDay(target.deadline, { month: 'short', day: 'numeric' })}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </Panel>
+                    </div>
+                </div>
+            )}
+
+            <Panel title="📝 Your Review" headerAction={savedReview && <span className="text-xs text-slate-500">Saved {new Date(savedReview.updated_at).toLocaleDateString()}</span>}>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {QUESTIONS.map(q => (
+                        <div key={q.key}>
+                            <label className={`block text-sm font-medium mb-1 ${q.color}`}>{q.label}</label>
+                            <textarea
+                                value={answers[q.key] || ''}
+                                onChange={(e) => setAnswers(prev => ({ ...prev, [q.key]: e.target.value }))}
+                                placeholder={q.placeholder}
+                                className={textareaClass}
+                            />
+                        </div>
+                    ))}
+                </div>
+                <button onClick={handleSave} disabled={isSaving} className="w-full mt-4 py-3 rounded-lg font-bold text-white bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-400 hover:to-purple-500 shadow-lg transition disabled:opacity-50">
+                    {isSaving ? 'Saving...' : savedReview ? 'Update Review' : 'Save Review'}
+                </button>
+            </Panel>
+
+            {pastReviews.length > 0 && (
+                <Panel title="🗂️ Past Reviews">
+                    <ul className="space-y-2">
+                        {pastReviews.map(r => (
+                            <li key={r.id}>
+                                <button onClick={() => setWeekStart(r.week_start)} className="w-full text-left bg-black/20 hover:bg-black/30 rounded-lg px-4 py-2 transition">
+                                    <span className="text-sm font-semibold text-slate-200">Week of {formatDay(r.week_start, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                                    {r.next_week_focus && <p className="text-xs text-slate-400 truncate">Focus: {r.next_week_focus}</p>}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </Panel>
+            )}
+        </div>
+    );
+};
+
+export default ReviewPage;
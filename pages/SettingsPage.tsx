@@ -3,6 +3,9 @@ import { Settings } from '../types';
 import SettingsPanel from '../components/SettingsPanel';
 import Panel from '../components/common/Panel';
 import ExplanationTooltip from '../components/common/ExplanationTooltip';
+import DataExportImport from '../components/DataExportImport';
+import BreakActivitiesEditor from '../components/BreakActivitiesEditor';
+import SoundSettingsPanel from '../components/SoundSettingsPanel';
 
 
 interface SettingsPageProps {
@@ -11,9 +14,10 @@ interface SettingsPageProps {
     canInstall: boolean;
     onInstall: () => void;
     isStandalone: boolean;
+    onDataImported: () => void;
 }
 
-const SettingsPage: React.FC<SettingsPageProps> = ({ settings, onSave, canInstall, onInstall, isStandalone }) => {
+const SettingsPage: React.FC<SettingsPageProps> = ({ settings, onSave, canInstall, onInstall, isStandalone, onDataImported }) => {
     const [localDailyTarget, setLocalDailyTarget] = useState(settings.dailyFocusTarget);
     const [localDayTargets, setLocalDayTargets] = useState(settings.dailyFocusTargetsByDay || {});
 
@@ -88,7 +92,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ settings, onSave, canInstal
                  <details className="mt-6 bg-black/20 p-3 rounded-lg text-xs">
                     <summary className="cursor-pointer font-semibold text-slate-400">Database Schema (for developers)</summary>
                     <div className="mt-2 p-3 bg-slate-900 rounded-md">
-                        <p className="text-slate-300 mb-2">The following SQL commands for PostgreSQL are needed to enable this feature. Supabase uses PostgreSQL, not MySQL.</p>
+                        <p className="text-slate-300 mb-2">The following SQL commands for PostgreSQL are needed to enable these settings and the features that depend on them. Supabase uses PostgreSQL, not MySQL.</p>
                         <pre className="text-cyan-300 whitespace-pre-wrap text-[11px] leading-relaxed"><code>
                             {`-- Add columns to settings table for daily focus limits
 ALTER TABLE public.settings
@@ -98,12 +102,180 @@ ADD COLUMN IF NOT EXISTS daily_focus_targets_by_day JSONB;
 -- Example of what the JSONB could look like for a user:
 -- {"0": 240, "1": 180, "6": 120}
 -- (Sunday: 240 mins, Monday: 180 mins, Saturday: 120 mins)
+
+-- Long breaks, auto-start and named timer presets
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS long_break_duration INT DEFAULT 15,
+ADD COLUMN IF NOT EXISTS auto_start_next_phase BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS timer_presets JSONB;
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS timer_preset_id TEXT; -- A built-in or custom preset id
+
+-- Break activity suggestions
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS break_activities JSONB;
+
+-- Saved soundscape mixes
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS sound_mixes JSONB,
+ADD COLUMN IF NOT EXISTS auto_play_soundscape BOOLEAN DEFAULT FALSE;
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS sound_mix_id TEXT; -- A saved mix from settings.sound_mixes
+
+-- Per-event tones, volume and silent mode
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS sound_settings JSONB;
+
+-- How a session that switched tasks is credited
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS split_session_credit TEXT DEFAULT 'proportional';
+
+-- Energy & mood check-ins
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS wellbeing_check_ins BOOLEAN DEFAULT TRUE;
+
+-- Running timer shared across devices (one row per user)
+CREATE TABLE IF NOT EXISTS public.active_sessions (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    mode TEXT NOT NULL,
+    task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+    phase_end_time BIGINT, -- epoch ms while a countdown is running
+    current_session INT NOT NULL DEFAULT 1,
+    time_remaining INT NOT NULL DEFAULT 0,
+    session_total_time INT NOT NULL DEFAULT 0,
+    is_running BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_by TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+ALTER TABLE public.active_sessions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own active session"
+ON public.active_sessions FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+-- Other devices pick up changes through Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.active_sessions;
+
+-- Pauses and interruptions within focus sessions
+ALTER TABLE public.pomodoro_history
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS interruptions JSONB,
+ADD COLUMN IF NOT EXISTS wall_clock_minutes INT;
+
+-- Manually entered focus sessions
+ALTER TABLE public.pomodoro_history
+ADD COLUMN IF NOT EXISTS source TEXT CHECK (source IN ('timer', 'manual')),
+ADD COLUMN IF NOT EXISTS note TEXT;
+
+-- Corrections to logged sessions
+ALTER TABLE public.pomodoro_history
+ADD COLUMN IF NOT EXISTS edit_history JSONB;
+
+-- Sessions split between tasks: proportional credit gives tasks fractions of a pomodoro
+ALTER TABLE public.tasks
+ALTER COLUMN completed_poms TYPE NUMERIC(6,1);
+ALTER TABLE public.pomodoro_history
+ADD COLUMN IF NOT EXISTS pom_credit NUMERIC(4,1); -- NULL means a whole pomodoro
+
+-- Logged breaks
+CREATE TABLE IF NOT EXISTS public.break_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ NOT NULL,
+    planned_minutes INT NOT NULL,
+    duration_minutes INT NOT NULL,
+    extended_minutes INT NOT NULL DEFAULT 0,
+    is_long_break BOOLEAN NOT NULL DEFAULT FALSE,
+    outcome TEXT NOT NULL CHECK (outcome IN ('completed', 'skipped', 'extended')),
+    activity TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_break_history_user_ended ON public.break_history(user_id, ended_at);
+ALTER TABLE public.break_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own breaks"
+ON public.break_history FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Projects and targets linked to goals
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS goal_id UUID REFERENCES public.goals(id) ON DELETE SET NULL;
+ALTER TABLE public.targets
+ADD COLUMN IF NOT EXISTS goal_id UUID REFERENCES public.goals(id) ON DELETE SET NULL;
+
+-- Task prerequisites
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS prerequisite_ids UUID[];
+
+-- Task checklists, optionally counted toward task-count projects
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS subtasks JSONB;
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS count_subtasks BOOLEAN DEFAULT FALSE;
+
+-- Recurrence rules, look-ahead instances and per-occurrence skips and moves
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS recurrence_rule JSONB,
+ADD COLUMN IF NOT EXISTS recurring_start_date DATE,
+ADD COLUMN IF NOT EXISTS recurring_count INT,
+ADD COLUMN IF NOT EXISTS recurrence_exceptions JSONB,
+ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+-- Missed recurring occurrences and how far each template has been processed
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS is_missed BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS recurrence_processed_through DATE;
+
+-- Guided daily review
+ALTER TABLE public.daily_logs
+ADD COLUMN IF NOT EXISTS wins TEXT,
+ADD COLUMN IF NOT EXISTS mood SMALLINT CHECK (mood BETWEEN 1 AND 5),
+ADD COLUMN IF NOT EXISTS energy SMALLINT CHECK (energy BETWEEN 1 AND 5),
+ADD COLUMN IF NOT EXISTS tomorrow_priorities TEXT[],
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+-- Weekly reviews (one per user and week, starting Monday)
+CREATE TABLE IF NOT EXISTS public.weekly_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL,
+    wins TEXT,
+    challenges TEXT,
+    lessons TEXT,
+    next_week_focus TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, week_start)
+);
+ALTER TABLE public.weekly_reviews ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own weekly reviews"
+ON public.weekly_reviews FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Check-ins at the start of the day and after focus sessions
+ALTER TABLE public.daily_logs
+ADD COLUMN IF NOT EXISTS check_in JSONB;
+ALTER TABLE public.pomodoro_history
+ADD COLUMN IF NOT EXISTS check_in JSONB;
 `}
                         </code></pre>
                     </div>
                 </details>
             </Panel>
 
+            <Panel title="☕ Break Activities">
+                <BreakActivitiesEditor activities={settings.breakActivities} onSave={(breakActivities) => onSave({ ...settings, breakActivities })} />
+            </Panel>
+
+            <Panel title="🔔 Sounds & Alerts">
+                <SoundSettingsPanel soundSettings={settings.soundSettings} onSave={(soundSettings) => onSave({ ...settings, soundSettings })} />
+            </Panel>
+
+            <Panel title="💾 Export & Import">
+                <DataExportImport onDataImported={onDataImported} />
+            </Panel>
+
             <Panel title="📲 App Installation">
                 {isStandalone ? (
                      <p className="text-green-400 text-center text-sm font-semibold">
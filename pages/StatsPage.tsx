@@ -2,11 +2,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import HistoryPanel from '../components/HistoryPanel';
 import Spinner from '../components/common/Spinner';
 import * as dbService from '../services/dbService';
-import { DbDailyLog, Task, Project, Target, Settings, PomodoroHistory } from '../types';
+import { DbDailyLog, Task, Project, Target, Settings, PomodoroHistory, BreakHistory, ManualFocusEntry, PomodoroHistoryFields } from '../types';
 import { getTodayDateString, getMonthStartDateString, getSevenDaysAgoDateString } from '../utils/date';
 import AISummaryModal from '../components/common/AISummaryModal';
 import { getTabSummary } from '../services/geminiService';
-import { SparklesIcon, LayoutIcon, ListIcon, TagIcon, SignalIcon } from '../components/common/Icons';
+import { SparklesIcon, LayoutIcon, ListIcon, TagIcon, SignalIcon, BrainIcon } from '../components/common/Icons';
 
 const augmentTargetsWithStatus = (targets: Target[]): Target[] => {
     const today = getTodayDateString();
@@ -25,7 +25,13 @@ const augmentTargetsWithStatus = (targets: Target[]): Target[] => {
     });
 };
 
-const StatsPage: React.FC = () => {
+interface StatsPageProps {
+    onLogManualSession: (entry: ManualFocusEntry) => Promise<boolean>;
+    onUpdatePomodoroHistory: (id: string, updates: PomodoroHistoryFields) => Promise<boolean>;
+    onDeletePomodoroHistory: (id: string) => Promise<boolean>;
+}
+
+const StatsPage: React.FC<StatsPageProps> = ({ onLogManualSession, onUpdatePomodoroHistory, onDeletePomodoroHistory }) => {
     const [historyRange, setHistoryRange] = useState(() => ({
         start: getSevenDaysAgoDateString(),
         end: getTodayDateString(),
@@ -40,12 +46,13 @@ const StatsPage: React.FC = () => {
     const [allTasks, setAllTasks] = useState<Task[]>([]);
     const [settings, setSettings] = useState<Settings | null>(null);
     const [pomodoroHistory, setPomodoroHistory] = useState<PomodoroHistory[]>([]);
+    const [breakHistory, setBreakHistory] = useState<BreakHistory[]>([]);
     const [consistencyLogs, setConsistencyLogs] = useState<DbDailyLog[]>([]);
     const [timelinePomodoroHistory, setTimelinePomodoroHistory] = useState<PomodoroHistory[]>([]);
     const [consistencyPomodoroHistory, setConsistencyPomodoroHistory] = useState<PomodoroHistory[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<'dashboard' | 'tasks' | 'categories' | 'priorities' | 'focus'>('dashboard');
+    const [activeTab, setActiveTab] = useState<'dashboard' | 'tasks' | 'categories' | 'priorities' | 'focus' | 'checkins'>('dashboard');
 
     const [summaryModalState, setSummaryModalState] = useState<{ isOpen: boolean; title: string; fetcher: (() => Promise<string>) | null }>({
         isOpen: false,
@@ -71,7 +78,7 @@ const StatsPage: React.FC = () => {
                 fetchedAllProjects, fetchedAllTasks, fetchedSettings,
                 fetchedPomodoroHistory, fetchedConsistencyLogs,
                 fetchedTimelineHistory, fetchedAllTargets,
-                fetchedConsistencyPomodoroHistory
+                fetchedConsistencyPomodoroHistory, fetchedBreakHistory
             ] = await Promise.all([
                 dbService.getHistoricalLogs(start, end),
                 dbService.getHistoricalTasks(start, end),
@@ -84,7 +91,8 @@ const StatsPage: React.FC = () => {
                 dbService.getConsistencyLogs(undefined, year),
                 dbService.getPomodoroHistory(timelineStartDate, timelineEndDate),
                 dbService.getTargets(),
-                dbService.getPomodoroHistory(consistencyStartDate, consistencyEndDate)
+                dbService.getPomodoroHistory(consistencyStartDate, consistencyEndDate),
+                dbService.getBreakHistory(start, end)
             ]);
             setLogs(fetchedLogs || []);
             setTasks(fetchedTasks || []);
@@ -98,6 +106,7 @@ const StatsPage: React.FC = () => {
             setConsistencyLogs(fetchedConsistencyLogs || []);
             setTimelinePomodoroHistory(fetchedTimelineHistory || []);
             setConsistencyPomodoroHistory(fetchedConsistencyPomodoroHistory || []);
+            setBreakHistory(fetchedBreakHistory || []);
         } catch (err) {
             setError("Failed to load historical data. Please try again later.");
         } finally {
@@ -109,6 +118,24 @@ const StatsPage: React.FC = () => {
         fetchData(historyRange.start, historyRange.end, selectedYear);
     }, [historyRange, selectedYear, fetchData]);
 
+    const handleLogManualSession = async (entry: ManualFocusEntry): Promise<boolean> => {
+        const success = await onLogManualSession(entry);
+        if (success) await fetchData(historyRange.start, historyRange.end, selectedYear);
+        return success;
+    };
+
+    const handleUpdatePomodoroHistory = async (id: string, updates: PomodoroHistoryFields): Promise<boolean> => {
+        const success = await onUpdatePomodoroHistory(id, updates);
+        if (success) await fetchData(historyRange.start, historyRange.end, selectedYear);
+        return success;
+    };
+
+    const handleDeletePomodoroHistory = async (id: string): Promise<boolean> => {
+        const success = await onDeletePomodoroHistory(id);
+        if (success) await fetchData(historyRange.start, historyRange.end, selectedYear);
+        return success;
+    };
+
     const handleOpenOverallSummary = useCallback(() => {
         if (isLoading) return;
 
@@ -141,6 +168,7 @@ const StatsPage: React.FC = () => {
         { key: 'categories', label: 'Categories', icon: <TagIcon /> },
         { key: 'priorities', label: 'Priorities', icon: <SignalIcon /> },
         { key: 'focus', label: 'Focus Quality', icon: <SparklesIcon /> },
+        { key: 'checkins', label: 'Check-ins', icon: <BrainIcon /> },
     ];
     
     if (isLoading) {
@@ -195,12 +223,16 @@ const StatsPage: React.FC = () => {
                 setHistoryRange={setHistoryRange}
                 settings={settings}
                 pomodoroHistory={pomodoroHistory}
+                breakHistory={breakHistory}
                 consistencyLogs={consistencyLogs}
                 timelinePomodoroHistory={timelinePomodoroHistory}
                 consistencyPomodoroHistory={consistencyPomodoroHistory}
                 activeTab={activeTab}
                 selectedYear={selectedYear}
                 onYearChange={setSelectedYear}
+                onLogManualSession={handleLogManualSession}
+                onUpdatePomodoroHistory={handleUpdatePomodoroHistory}
+                onDeletePomodoroHistory={handleDeletePomodoroHistory}
             />
              {summaryModalState.isOpen && summaryModalState.fetcher && (
                 <AISummaryModal
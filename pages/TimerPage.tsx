@@ -1,6 +1,6 @@
 
-import React, { useMemo } from 'react';
-import { AppState, Settings, Task, DbDailyLog, PomodoroHistory } from '../types';
+import React, { useMemo, useState } from 'react';
+import { AppState, Settings, Task, DbDailyLog, FocusSegment, PomodoroHistory, PomodoroHistoryFields, SessionInterruption, Subtask, WellbeingCheckIn } from '../types';
 import SessionInfo from '../components/SessionInfo';
 import TimerDisplay from '../components/TimerDisplay';
 import Controls from '../components/Controls';
@@ -10,7 +10,14 @@ import FocusQueue from '../components/FocusQueue';
 import StatsPanel from '../components/StatsPanel';
 import CategoryFocusPieChart from '../components/CategoryFocusPieChart';
 import StreakCalendar from '../components/StreakCalendar';
+import DayTimelineModal from '../components/DayTimelineModal';
+import InterruptionReasonPicker from '../components/InterruptionReasonPicker';
+import BreakActivityCard from '../components/BreakActivityCard';
+import SubtaskChecklist from '../components/SubtaskChecklist';
+import DailyCheckInCard from '../components/DailyCheckInCard';
 import { EditIcon } from '../components/common/Icons';
+import { getTimerDurations, isLongBreakDue } from '../utils/timer';
+import { getTodayDateString } from '../utils/date';
 
 interface TimerPageProps {
     appState: AppState;
@@ -23,12 +30,26 @@ interface TimerPageProps {
     resetTimer: () => void;
     navigateToSettings: () => void;
     currentTask?: Task;
+    isFreeSession: boolean;
+    onSetActiveTask: (taskId: string | null | undefined) => void;
+    sessionSegments: FocusSegment[];
     todaysHistory: PomodoroHistory[];
     historicalLogs: DbDailyLog[];
     isStopwatchMode: boolean;
     completeStopwatchTask: () => void;
     onOpenReflection: () => void;
     allTasks: Task[];
+    openInterruption: SessionInterruption | null;
+    onSetInterruptionReason: (reason: string | null) => void;
+    breakActivity: string | null;
+    onNextBreakActivity: () => void;
+    onSkipBreak: () => void;
+    onExtendBreak: () => void;
+    onSaveSettings: (newSettings: Settings) => void;
+    onUpdateSubtasks: (taskId: string, subtasks: Subtask[]) => void;
+    onUpdatePomodoroHistory: (id: string, updates: PomodoroHistoryFields) => Promise<boolean>;
+    onDeletePomodoroHistory: (id: string) => Promise<boolean>;
+    onSaveDailyCheckIn: (checkIn: WellbeingCheckIn) => Promise<boolean>;
 }
 
 const formatMinutes = (minutes: number): string => {
@@ -46,22 +67,35 @@ const formatMinutes = (minutes: number): string => {
 };
 
 const TimerPage: React.FC<TimerPageProps> = (props) => {
-    const { appState, settings, tasksToday, completedToday, dailyLog, startTimer, stopTimer, resetTimer, navigateToSettings, currentTask, todaysHistory, historicalLogs, isStopwatchMode, completeStopwatchTask, onOpenReflection, allTasks } = props;
+    const { appState, settings, tasksToday, completedToday, dailyLog, startTimer, stopTimer, resetTimer, navigateToSettings, currentTask, isFreeSession, onSetActiveTask, sessionSegments, todaysHistory, historicalLogs, isStopwatchMode, completeStopwatchTask, onOpenReflection, allTasks, openInterruption, onSetInterruptionReason, breakActivity, onNextBreakActivity, onSkipBreak, onExtendBreak, onSaveSettings, onUpdateSubtasks, onUpdatePomodoroHistory, onDeletePomodoroHistory, onSaveDailyCheckIn } = props;
+    const [timelineDate, setTimelineDate] = useState<string | null>(null);
 
     const allTodaysTasks = useMemo(() => [...tasksToday, ...completedToday], [tasksToday, completedToday]);
-    const nextTasks = useMemo(() => tasksToday.slice(1), [tasksToday]);
+    const nextTasks = useMemo(() => tasksToday.filter(t => t.id !== currentTask?.id), [tasksToday, currentTask]);
 
     const focusTimeRemainingMinutes = useMemo(() => {
         return tasksToday.reduce((total, task) => {
             if (task.total_poms < 0) return total;
             const remainingPoms = task.total_poms - task.completed_poms;
             if (remainingPoms <= 0) return total;
-            const focusDuration = task.custom_focus_duration || settings.focusDuration;
+            const focusDuration = getTimerDurations(task, settings).focusDuration;
             return total + (remainingPoms * focusDuration);
         }, 0);
-    }, [tasksToday, settings.focusDuration]);
+    }, [tasksToday, settings]);
 
     const isFocus = appState.mode === 'focus';
+    // Stopwatch tasks count up on their own, so only countdown sessions can change task part-way.
+    const isMidSession = isFocus && !isStopwatchMode && (appState.isRunning || appState.timeRemaining !== appState.sessionTotalTime);
+    const switchableTasks = useMemo(() => tasksToday.filter(t => t.id !== currentTask?.id && t.total_poms >= 0), [tasksToday, currentTask]);
+
+    const segmentSummary = useMemo(() => {
+        const elapsedSeconds = appState.sessionTotalTime - appState.timeRemaining;
+        return sessionSegments.map((segment, i) => {
+            const endSeconds = sessionSegments[i + 1]?.start_elapsed_seconds ?? elapsedSeconds;
+            const name = segment.task_id ? allTasks.find(t => t.id === segment.task_id)?.text || 'Deleted task' : 'Free session';
+            return `${name} ${Math.round((endSeconds - segment.start_elapsed_seconds) / 60)}m`;
+        }).join(' · ');
+    }, [sessionSegments, allTasks, appState.sessionTotalTime, appState.timeRemaining]);
 
     const stopwatchBaseTime = useMemo(() => {
         if (isStopwatchMode && currentTask && appState.mode === 'focus') {
@@ -93,19 +127,54 @@ const TimerPage: React.FC<TimerPageProps> = (props) => {
                 focusLeft={formatMinutes(focusTimeRemainingMinutes)}
             />
 
+            {settings.wellbeingCheckIns && !dailyLog.check_in && <DailyCheckInCard onSave={onSaveDailyCheckIn} />}
+
             {/* Main Timer Block */}
             <div className="bg-slate-800/50 backdrop-blur-md rounded-2xl p-4 sm:p-6 border border-slate-700/80 animate-slideUp">
                 <div className="text-center pb-4 mb-4 border-b border-slate-700/80">
                     <h3 className="text-sm font-semibold uppercase text-teal-400 tracking-wider mb-2">
                         Focusing On
                     </h3>
-                    {currentTask ? (
-                        <p className="font-semibold text-xl text-slate-100 truncate max-w-full" title={currentTask.text}>
-                            {currentTask.text}
-                        </p>
+                    {isFreeSession ? (
+                        <>
+                            <p className="font-semibold text-xl text-slate-100">Free Session</p>
+                            <p className="text-xs text-slate-400 mt-1">Focus time is logged without a task.</p>
+                            {tasksToday.length > 0 && (
+                                <button onClick={() => onSetActiveTask(undefined)} className="mt-2 text-xs text-teal-300 hover:text-teal-200 transition">Back to today's tasks</button>
+                            )}
+                        </>
+                    ) : currentTask ? (
+                        <>
+                            <p className="font-semibold text-xl text-slate-100 truncate max-w-full" title={currentTask.text}>
+                                {currentTask.text}
+                            </p>
+                            {currentTask.due_date !== getTodayDateString() && (
+                                <p className="text-xs text-amber-300 mt-1">Due {new Date(`${currentTask.due_date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}</p>
+                            )}
+                            {(currentTask.subtasks?.length ?? 0) > 0 && (
+                                <div className="max-w-sm mx-auto mt-3">
+                                    <SubtaskChecklist subtasks={currentTask.subtasks!} onChange={subtasks => onUpdateSubtasks(currentTask.id, subtasks)} canEdit={false} />
+                                </div>
+                            )}
+                        </>
                     ) : (
                         <p className="text-slate-400 italic">{noTaskMessage}</p>
                     )}
+                    {isMidSession && (switchableTasks.length > 0 || !isFreeSession) && (
+                        <select
+                            value=""
+                            onChange={e => { if (e.target.value) onSetActiveTask(e.target.value === 'free' ? null : e.target.value); }}
+                            className="mt-3 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-300 focus:outline-none focus:ring-2 focus:ring-teal-400/50"
+                            title="Keep the countdown going on another task; the time so far stays with this one"
+                        >
+                            <option value="" className="bg-slate-900">⇄ Switch task…</option>
+                            {switchableTasks.map(t => <option key={t.id} value={t.id} className="bg-slate-900">{t.text}</option>)}
+                            {!isFreeSession && <option value="free" className="bg-slate-900">Free session (no task)</option>}
+                        </select>
+                    )}
+                    {isFocus && sessionSegments.length > 1 && (
+                        <p className="text-xs text-slate-400 mt-2">This session so far: {segmentSummary}</p>
+                    )}
                 </div>
 
                 <TimerDisplay
@@ -115,6 +184,7 @@ const TimerPage: React.FC<TimerPageProps> = (props) => {
                     mode={appState.mode}
                     isStopwatchMode={isStopwatchMode}
                     timeForProgress={appState.timeRemaining}
+                    isLongBreak={!isFocus && isLongBreakDue(appState.currentSession, getTimerDurations(currentTask, settings))}
                 />
 
                 <Controls
@@ -125,7 +195,15 @@ const TimerPage: React.FC<TimerPageProps> = (props) => {
                     timeRemaining={appState.timeRemaining}
                     sessionTotalTime={appState.sessionTotalTime}
                     mode={appState.mode}
+                    onSkipBreak={onSkipBreak}
+                    onExtendBreak={onExtendBreak}
                 />
+                {!isFocus && breakActivity && (
+                    <BreakActivityCard activity={breakActivity} onNextActivity={onNextBreakActivity} />
+                )}
+                {openInterruption && !appState.isRunning && isFocus && (
+                    <InterruptionReasonPicker reason={openInterruption.reason} onSelectReason={onSetInterruptionReason} />
+                )}
                 {isStopwatchMode && currentTask && (
                     <div className="text-center -mt-4 pb-2">
                         <button
@@ -141,7 +219,7 @@ const TimerPage: React.FC<TimerPageProps> = (props) => {
 
             {/* Widgets Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 animate-slideUp" style={{ animationDelay: '100ms' }}>
-                <FocusQueue nextTasks={nextTasks} />
+                <FocusQueue nextTasks={nextTasks} allTasks={allTasks} onFocusTask={onSetActiveTask} isFreeSession={isFreeSession} isMidSession={isMidSession} />
                 <div className="h-full flex flex-col">
                     <TodayLog todaysHistory={todaysHistory} tasks={allTodaysTasks} />
                     <button
@@ -169,13 +247,21 @@ const TimerPage: React.FC<TimerPageProps> = (props) => {
 
             {/* Ambient Sounds */}
             <div className="animate-slideUp" style={{ animationDelay: '300ms' }}>
-                <AmbientSounds />
+                <AmbientSounds settings={settings} currentTask={currentTask} onSaveSettings={onSaveSettings} />
             </div>
 
             {/* Streak Calendar */}
             <div className="animate-slideUp" style={{ animationDelay: '400ms' }}>
-                <StreakCalendar historicalLogs={historicalLogs} />
+                <StreakCalendar historicalLogs={historicalLogs} onSelectDay={setTimelineDate} />
             </div>
+
+            <DayTimelineModal
+                date={timelineDate}
+                onClose={() => setTimelineDate(null)}
+                tasks={allTasks}
+                onUpdateSession={onUpdatePomodoroHistory}
+                onDeleteSession={onDeletePomodoroHistory}
+            />
         </div>
     );
 };
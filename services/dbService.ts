@@ -1,6 +1,10 @@
-import { supabase } from './supabaseClient';
-import { Settings, Task, DbDailyLog, Project, Goal, Target, PomodoroHistory, Commitment, ProjectUpdate, AiMemory, AppNotification, FocusLevel } from '../types';
+import { storage } from './storageAdapter';
+import { Settings, Task, DbDailyLog, Project, Goal, Target, PomodoroHistory, Commitment, ProjectUpdate, AiMemory, AppNotification, FocusLevel, ArchiveTable, DataArchive, ActiveSession, FocusSessionDetails, BreakHistory, ManualFocusEntry, PomodoroHistoryFields, FocusSegmentLog, DailyReview, WeeklyReview, WeeklyReviewAnswers, WellbeingCheckIn } from '../types';
 import { getTodayDateString } from '../utils/date';
+import { DEFAULT_SOUND_SETTINGS } from '../utils/audio';
+import { getTaskCountUnits, resetSubtasks } from '../utils/subtasks';
+import { addDaysToDateString, getMissedOccurrences, getOccurrenceDate, getPendingOccurrences, RECURRENCE_LOOKAHEAD_DAYS } from '../utils/recurrence';
+import { generateUUID } from '../utils/id';
 
 // --- Recalculation Logic ---
 
@@ -9,9 +13,9 @@ import { getTodayDateString } from '../utils/date';
  * This is the authoritative method for updating project progress.
  */
 export const recalculateProjectProgress = async (projectId: string): Promise<void> => {
-    const { data: project, error: projectError } = await supabase
+    const { data: project, error: projectError } = await storage
         .from('projects')
-        .select('completion_criteria_type, completion_criteria_value, status, deadline') // Fetch status and deadline
+        .select('completion_criteria_type, completion_criteria_value, status, deadline, count_subtasks') // Fetch status and deadline
         .eq('id', projectId)
         .single();
 
@@ -23,8 +27,21 @@ export const recalculateProjectProgress = async (projectId: string): Promise<voi
     let newProgressValue = 0;
     const updates: Partial<Project> = {};
 
-    if (project.completion_criteria_type === 'task_count') {
-        const { count, error: countError } = await supabase
+    if (project.completion_criteria_type === 'task_count' && project.count_subtasks) {
+        const { data: projectTasks, error: tasksError } = await storage
+            .from('tasks')
+            .select('completed_at, subtasks')
+            .eq('project_id', projectId)
+            .eq('is_recurring', false);
+
+        if (tasksError) {
+            console.error("Error fetching tasks for project subtask count:", tasksError);
+            return;
+        }
+        newProgressValue = projectTasks.reduce((sum, t) => sum + getTaskCountUnits(t), 0);
+
+    } else if (project.completion_criteria_type === 'task_count') {
+        const { count, error: countError } = await storage
             .from('tasks')
             .select('*', { count: 'exact', head: true })
             .eq('project_id', projectId)
@@ -37,7 +54,7 @@ export const recalculateProjectProgress = async (projectId: string): Promise<voi
         newProgressValue = count || 0;
 
     } else if (project.completion_criteria_type === 'duration_minutes') {
-        const { data: projectTasks, error: tasksError } = await supabase
+        const { data: projectTasks, error: tasksError } = await storage
             .from('tasks')
             .select('id')
             .eq('project_id', projectId)
@@ -50,7 +67,7 @@ export const recalculateProjectProgress = async (projectId: string): Promise<voi
 
         const taskIds = projectTasks.map(t => t.id);
         if (taskIds.length > 0) {
-            const { data: histories, error: historyError } = await supabase
+            const { data: histories, error: historyError } = await storage
                 .from('pomodoro_history')
                 .select('duration_minutes')
                 .in('task_id', taskIds);
@@ -95,7 +112,7 @@ export const recalculateProjectProgress = async (projectId: string): Promise<voi
         updates.status = newStatus;
     }
 
-    const { error: updateError } = await supabase.from('projects').update(updates).eq('id', projectId);
+    const { error: updateError } = await storage.from('projects').update(updates).eq('id', projectId);
     if (updateError) {
         console.error("Error updating project after recalculation:", updateError);
     }
@@ -110,7 +127,7 @@ export const recalculateProgressForAffectedTargets = async (tags: string[], user
     const lowerCaseTags = tags.map(t => t.toLowerCase());
 
     // 1. Find all potentially affected targets
-    const { data: targets, error: targetsError } = await supabase
+    const { data: targets, error: targetsError } = await storage
         .from('targets')
         .select('id, tags')
         .eq('user_id', userId)
@@ -134,7 +151,7 @@ export const recalculateProgressForAffectedTargets = async (tags: string[], user
  * Recalculates a single time-based target's progress from scratch.
  */
 export const recalculateTargetProgress = async (targetId: string): Promise<void> => {
-    const { data: target, error: targetError } = await supabase
+    const { data: target, error: targetError } = await storage
         .from('targets')
         .select('tags, user_id, target_minutes, created_at, start_date')
         .eq('id', targetId)
@@ -151,7 +168,7 @@ export const recalculateTargetProgress = async (targetId: string): Promise<void>
     const lowerCaseTargetTags = target.tags.map(t => t.toLowerCase());
 
     // 1. Find all COMPLETED tasks that could contribute to this target.
-    const { data: tasks, error: tasksError } = await supabase
+    const { data: tasks, error: tasksError } = await storage
         .from('tasks')
         .select('id, tags')
         .eq('user_id', target.user_id)
@@ -168,12 +185,12 @@ export const recalculateTargetProgress = async (targetId: string): Promise<void>
         .map(t => t.id);
 
     if (contributingTaskIds.length === 0) {
-        await supabase.from('targets').update({ progress_minutes: 0, completed_at: null }).eq('id', targetId);
+        await storage.from('targets').update({ progress_minutes: 0, completed_at: null }).eq('id', targetId);
         return;
     }
 
     // 2. Sum up history for those tasks, ensuring the history entry was created AFTER the target.
-    const { data: histories, error: historyError } = await supabase
+    const { data: histories, error: historyError } = await storage
         .from('pomodoro_history')
         .select('duration_minutes')
         .in('task_id', contributingTaskIds)
@@ -194,7 +211,7 @@ export const recalculateTargetProgress = async (targetId: string): Promise<void>
         updates.completed_at = null;
     }
 
-    const { error: updateError } = await supabase.from('targets').update(updates).eq('id', targetId);
+    const { error: updateError } = await storage.from('targets').update(updates).eq('id', targetId);
     if (updateError) {
         console.error("Error updating target progress:", updateError);
     }
@@ -203,13 +220,15 @@ export const recalculateTargetProgress = async (targetId: string): Promise<void>
 
 // --- Settings ---
 
+export const DEFAULT_BREAK_ACTIVITIES = ['🧘 Stretch your back and shoulders', '💧 Drink a glass of water', '🚶 Take a short walk', '👀 Look at something 20 feet away', '🌬️ Take five deep breaths'];
+
 export const getSettings = async (): Promise<Settings | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('settings')
-        .select('focus_duration, break_duration, session_per_cycle, today_sort_by, daily_focus_target, daily_focus_targets_by_day')
+        .select('focus_duration, break_duration, long_break_duration, session_per_cycle, auto_start_next_phase, timer_presets, break_activities, sound_mixes, auto_play_soundscape, sound_settings, today_sort_by, split_session_credit, wellbeing_check_ins, daily_focus_target, daily_focus_targets_by_day')
         .eq('user_id', user.id)
         .single();
 
@@ -223,38 +242,61 @@ export const getSettings = async (): Promise<Settings | null> => {
     return {
         focusDuration: data.focus_duration,
         breakDuration: data.break_duration,
+        longBreakDuration: data.long_break_duration ?? 15,
         sessionsPerCycle: data.session_per_cycle,
+        autoStartNextPhase: data.auto_start_next_phase ?? false,
+        customTimerPresets: data.timer_presets || [],
+        breakActivities: data.break_activities || DEFAULT_BREAK_ACTIVITIES,
+        soundMixes: data.sound_mixes || [],
+        autoPlaySoundscape: data.auto_play_soundscape ?? false,
+        soundSettings: { ...DEFAULT_SOUND_SETTINGS, ...data.sound_settings, eventSounds: { ...DEFAULT_SOUND_SETTINGS.eventSounds, ...data.sound_settings?.eventSounds } },
         todaySortBy: data.today_sort_by || 'default',
+        splitSessionCredit: data.split_session_credit || 'proportional',
+        wellbeingCheckIns: data.wellbeing_check_ins ?? true,
         dailyFocusTarget: data.daily_focus_target,
         dailyFocusTargetsByDay: data.daily_focus_targets_by_day,
     };
 };
 
-export const updateSettings = async (settings: Settings): Promise<void> => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
+export const updateSettings = async (settings: Settings): Promise<boolean> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return false;
 
-    await supabase.from('settings').upsert({
+    const { error } = await storage.from('settings').upsert({
         user_id: user.id,
         focus_duration: settings.focusDuration,
         break_duration: settings.breakDuration,
+        long_break_duration: settings.longBreakDuration,
         session_per_cycle: settings.sessionsPerCycle,
+        auto_start_next_phase: settings.autoStartNextPhase,
+        timer_presets: settings.customTimerPresets,
+        break_activities: settings.breakActivities,
+        sound_mixes: settings.soundMixes,
+        auto_play_soundscape: settings.autoPlaySoundscape,
+        sound_settings: settings.soundSettings,
         today_sort_by: settings.todaySortBy,
+        split_session_credit: settings.splitSessionCredit,
+        wellbeing_check_ins: settings.wellbeingCheckIns,
         daily_focus_target: settings.dailyFocusTarget,
         daily_focus_targets_by_day: settings.dailyFocusTargetsByDay,
         updated_at: new Date().toISOString(),
     });
 
+    if (error) {
+        console.error("Error updating settings:", JSON.stringify(error, null, 2));
+        return false;
+    }
+    return true;
 };
 
 
 // --- Tasks ---
 
 export const getTasks = async (): Promise<Task[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('tasks')
         .select('*, projects(name)')
         .eq('user_id', user.id)
@@ -271,11 +313,11 @@ export const getTasks = async (): Promise<Task[] | null> => {
     return data;
 };
 
-export const addTask = async (text: string, poms: number, dueDate: string, projectId: string | null, tags: string[], priority: number | null): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+export const addTask = async (text: string, poms: number, dueDate: string, projectId: string | null, tags: string[], priority: number | null, id?: string): Promise<boolean> => {
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
 
-    const { data: maxOrderData, error: maxOrderError } = await supabase
+    const { data: maxOrderData, error: maxOrderError } = await storage
         .from('tasks')
         .select('task_order')
         .eq('user_id', user.id)
@@ -291,8 +333,9 @@ export const addTask = async (text: string, poms: number, dueDate: string, proje
         
     const newOrder = (maxOrderData?.task_order ?? -1) + 1;
 
-    const { error } = await supabase.from('tasks').insert({
-        user_id: user.id, text, total_poms: poms, due_date: dueDate, project_id: projectId, tags, priority, task_order: newOrder,
+    // A client-generated id lets optimistic and queued offline edits refer to the same row.
+    const { error } = await storage.from('tasks').insert({
+        ...(id && { id }), user_id: user.id, text, total_poms: poms, due_date: dueDate, project_id: projectId, tags, priority, task_order: newOrder,
     });
     
     if (error) {
@@ -309,11 +352,11 @@ export const addTask = async (text: string, poms: number, dueDate: string, proje
 };
 
 export const updateTask = async (id: string, updates: Partial<Task>, options = { shouldRecalculate: true }): Promise<Task | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
 
     // 1. Get original task state for comparison
-    const { data: originalTask, error: fetchError } = await supabase
+    const { data: originalTask, error: fetchError } = await storage
         .from('tasks')
         .select('*')
         .eq('id', id)
@@ -347,7 +390,7 @@ export const updateTask = async (id: string, updates: Partial<Task>, options = {
     }
 
     // 2. Perform the update
-    const { data: updatedTask, error: updateError } = await supabase
+    const { data: updatedTask, error: updateError } = await storage
         .from('tasks')
         .update(updates)
         .eq('id', id)
@@ -373,11 +416,13 @@ export const updateTask = async (id: string, updates: Partial<Task>, options = {
     
     const completionStatusChanged = (!!updatedTask.completed_at !== !!originalTask.completed_at);
     const projectChanged = originalProject !== newProject;
+    // Ticking checklist items moves projects that count subtasks.
+    const subtasksChanged = updates.subtasks !== undefined;
 
     if (projectChanged) {
         if(originalProject) projectsToRecalc.add(originalProject);
         if(newProject) projectsToRecalc.add(newProject);
-    } else if (completionStatusChanged && newProject) {
+    } else if ((completionStatusChanged || subtasksChanged) && newProject) {
         // If project didn't change but completion did, recalc the current project
         projectsToRecalc.add(newProject);
     }
@@ -398,7 +443,7 @@ export const updateTask = async (id: string, updates: Partial<Task>, options = {
 
 export const updateTaskOrder = async (tasksToUpdate: { id: string, task_order: number }[]): Promise<Task[] | null> => {
     const updatePromises = tasksToUpdate.map(task =>
-        supabase
+        storage
             .from('tasks')
             .update({ task_order: task.task_order })
             .eq('id', task.id)
@@ -416,9 +461,9 @@ export const updateTaskOrder = async (tasksToUpdate: { id: string, task_order: n
 
 
 export const deleteTask = async (id: string): Promise<boolean> => {
-    const { data: taskToDelete, error: fetchError } = await supabase
+    const { data: taskToDelete, error: fetchError } = await storage
         .from('tasks')
-        .select('project_id, tags, user_id, is_recurring')
+        .select('project_id, tags, user_id, is_recurring, template_task_id, due_date, occurrence_date, completed_at')
         .eq('id', id)
         .single();
 
@@ -433,8 +478,13 @@ export const deleteTask = async (id: string): Promise<boolean> => {
         return false;
     }
 
+    // Deleting an upcoming instance skips that occurrence, otherwise the next run would generate it again.
+    if (taskToDelete.template_task_id && !taskToDelete.completed_at && getOccurrenceDate(taskToDelete) >= getTodayDateString()) {
+        await updateRecurrenceException(taskToDelete.template_task_id, getOccurrenceDate(taskToDelete), null);
+    }
+
     // Delete associated history first
-    const { error: historyDeleteError } = await supabase
+    const { error: historyDeleteError } = await storage
         .from('pomodoro_history')
         .delete()
         .eq('user_id', taskToDelete.user_id)
@@ -446,7 +496,7 @@ export const deleteTask = async (id: string): Promise<boolean> => {
     }
 
     // Then delete the task
-    const { error: deleteError } = await supabase.from('tasks').delete().eq('id', id);
+    const { error: deleteError } = await storage.from('tasks').delete().eq('id', id);
     if (deleteError) {
         console.error("Error deleting task:", deleteError);
         return false;
@@ -465,12 +515,12 @@ export const deleteTask = async (id: string): Promise<boolean> => {
 
 
 export const moveTask = async (id: string, action: 'postpone' | 'duplicate'): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
 
     const tomorrow = getTodayDateString(new Date(Date.now() + 24 * 60 * 60 * 1000));
     
-    const { data: maxOrderData } = await supabase
+    const { data: maxOrderData } = await storage
         .from('tasks')
         .select('task_order')
         .eq('user_id', user.id)
@@ -483,7 +533,7 @@ export const moveTask = async (id: string, action: 'postpone' | 'duplicate'): Pr
     const newOrderForTomorrow = (maxOrderData?.task_order ?? -1) + 1;
 
     if (action === 'postpone') {
-        const { error } = await supabase
+        const { error } = await storage
             .from('tasks')
             .update({ due_date: tomorrow, task_order: newOrderForTomorrow })
             .eq('id', id);
@@ -492,13 +542,13 @@ export const moveTask = async (id: string, action: 'postpone' | 'duplicate'): Pr
             return false;
         }
     } else { // duplicate
-        const { data: original, error: fetchError } = await supabase.from('tasks').select('*').eq('id', id).single();
+        const { data: original, error: fetchError } = await storage.from('tasks').select('*').eq('id', id).single();
         if (fetchError || !original) {
             console.error("Error fetching original task to duplicate:", fetchError);
             return false;
         }
         
-        const { error: insertError } = await supabase.from('tasks').insert({
+        const { error: insertError } = await storage.from('tasks').insert({
             ...original,
             id: undefined, // Let Supabase generate a new ID
             created_at: undefined,
@@ -506,6 +556,7 @@ export const moveTask = async (id: string, action: 'postpone' | 'duplicate'): Pr
             completed_at: null,
             completed_poms: 0,
             comments: [],
+            subtasks: resetSubtasks(original.subtasks),
             task_order: newOrderForTomorrow,
         });
         if (insertError) {
@@ -518,12 +569,12 @@ export const moveTask = async (id: string, action: 'postpone' | 'duplicate'): Pr
 };
 
 export const bringTaskForward = async (id: string): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
 
     const today = getTodayDateString();
 
-    const { data: maxOrderData } = await supabase
+    const { data: maxOrderData } = await storage
         .from('tasks')
         .select('task_order')
         .eq('user_id', user.id)
@@ -535,7 +586,7 @@ export const bringTaskForward = async (id: string): Promise<boolean> => {
     
     const newOrderForToday = (maxOrderData?.task_order ?? -1) + 1;
 
-    const { error } = await supabase
+    const { error } = await storage
         .from('tasks')
         .update({ due_date: today, task_order: newOrderForToday })
         .eq('id', id);
@@ -550,13 +601,13 @@ export const bringTaskForward = async (id: string): Promise<boolean> => {
 
 
 export const markTaskIncomplete = async (id: string): Promise<boolean> => {
-    const { data: task, error: findError } = await supabase.from('tasks').select('due_date, user_id, project_id, tags').eq('id', id).single();
+    const { data: task, error: findError } = await storage.from('tasks').select('due_date, user_id, project_id, tags').eq('id', id).single();
     if (findError || !task) {
         console.error("Error finding task to mark incomplete:", findError);
         return false;
     }
 
-    const { error: updateError } = await supabase
+    const { error: updateError } = await storage
         .from('tasks')
         .update({ completed_at: null })
         .eq('id', id);
@@ -580,10 +631,10 @@ export const markTaskIncomplete = async (id: string): Promise<boolean> => {
 // --- Recurring Tasks ---
 
 export const getRecurringTasks = async (): Promise<Task[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('tasks')
         .select('*, projects(name)')
         .eq('user_id', user.id)
@@ -598,13 +649,13 @@ export const getRecurringTasks = async (): Promise<Task[] | null> => {
 };
 
 export const processRecurringTasks = async (): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
 
     const today = getTodayDateString();
-    const dayOfWeek = new Date(`${today}T12:00:00`).getDay();
+    const horizon = addDaysToDateString(today, RECURRENCE_LOOKAHEAD_DAYS);
 
-    const { data: templates, error: templateError } = await supabase
+    const { data: templates, error: templateError } = await storage
         .from('tasks')
         .select('*, projects(status)')
         .eq('user_id', user.id)
@@ -620,69 +671,173 @@ export const processRecurringTasks = async (): Promise<boolean> => {
     }
     
     const templateIds = templates.map(t => t.id);
-    const { data: existingTodayTasks, error: existingTasksError } = await supabase
+    const { data: existingInstances, error: existingTasksError } = await storage
         .from('tasks')
-        .select('template_task_id')
-        .in('template_task_id', templateIds)
-        .eq('due_date', today);
+        .select('template_task_id, due_date, occurrence_date, completed_at')
+        .in('template_task_id', templateIds);
     
     if (existingTasksError) {
-        console.error("Error checking for existing recurring tasks for today:", existingTasksError);
+        console.error("Error checking for existing recurring task instances:", existingTasksError);
         return false;
     }
     
-    const existingTemplateIdsToday = new Set(existingTodayTasks?.map(t => t.template_task_id));
+    const instancesByTemplate = new Map<string, any[]>();
+    (existingInstances || []).forEach(instance => {
+        instancesByTemplate.set(instance.template_task_id, [...(instancesByTemplate.get(instance.template_task_id) || []), instance]);
+    });
     const newTasksToCreate = [];
 
     for (const template of templates) {
-        if (existingTemplateIdsToday.has(template.id)) continue;
-        if (template.recurring_end_date && template.recurring_end_date < today) continue;
-
-        const recurringDays = template.recurring_days;
-        if (recurringDays && recurringDays.length > 0 && !recurringDays.includes(dayOfWeek)) {
-            continue;
-        }
-
         if (template.stop_on_project_completion && template.project_id && (template.projects?.status === 'completed' || template.projects?.status === 'due')) {
             continue;
         }
 
-        const { id, created_at, is_recurring, recurring_days, recurring_end_date, stop_on_project_completion, is_active, projects, ...rest } = template;
-        
-        newTasksToCreate.push({
+        const instances = instancesByTemplate.get(template.id) || [];
+        const missed = getMissedOccurrences(template, instances, today);
+        const pending = getPendingOccurrences(template, instances, today, horizon);
+        if (missed.length === 0 && pending.length === 0) continue;
+
+        const { id, created_at, is_recurring, recurring_days, recurring_end_date, stop_on_project_completion, is_active, projects,
+            recurrence_rule, recurring_start_date, recurring_count, recurrence_exceptions, recurrence_processed_through, ...rest } = template;
+        const instanceFields = {
             ...rest,
-            due_date: today,
             is_recurring: false,
             template_task_id: template.id,
             completed_at: null,
             completed_poms: 0,
             comments: [],
+            subtasks: resetSubtasks(rest.subtasks),
             task_order: null,
-        });
+        };
+        
+        // Missed days are kept as overdue records so they count against the automation's adherence.
+        missed.forEach(date => newTasksToCreate.push({ ...instanceFields, due_date: date, occurrence_date: date, is_missed: true }));
+        pending.forEach(({ occurrenceDate, dueDate }) => newTasksToCreate.push({ ...instanceFields, due_date: dueDate, occurrence_date: occurrenceDate }));
     }
 
     if (newTasksToCreate.length > 0) {
-        const { error: insertError } = await supabase.from('tasks').insert(newTasksToCreate);
+        const { error: insertError } = await storage.from('tasks').insert(newTasksToCreate);
         if (insertError) {
-            console.error("Error creating daily recurring tasks:", insertError);
+            console.error("Error creating recurring task instances:", insertError);
             return false;
         }
-        return true;
+    }
+
+    // Remember how far each template has been handled, so the next run can tell which days were missed.
+    const staleTemplateIds = templates.filter(t => !t.recurrence_processed_through || t.recurrence_processed_through < horizon).map(t => t.id);
+    if (staleTemplateIds.length > 0) {
+        const { error: processedError } = await storage
+            .from('tasks')
+            .update({ recurrence_processed_through: horizon })
+            .in('id', staleTemplateIds);
+        if (processedError) console.error("Error recording processed recurring tasks:", processedError);
     }
     
-    return false;
+    return newTasksToCreate.length > 0;
+};
+
+/** Records that one occurrence of a template was moved to `dueDate`, skipped (null) or restored (undefined). */
+const updateRecurrenceException = async (templateId: string, occurrenceDate: string, dueDate: string | null | undefined): Promise<boolean> => {
+    const { data: template, error: fetchError } = await storage
+        .from('tasks')
+        .select('recurrence_exceptions')
+        .eq('id', templateId)
+        .single();
+
+    if (fetchError || !template) {
+        console.error("Error fetching recurring task for exception:", fetchError);
+        return false;
+    }
+
+    const exceptions: Record<string, string | null> = { ...(template.recurrence_exceptions || {}) };
+    if (dueDate === undefined || dueDate === occurrenceDate) delete exceptions[occurrenceDate];
+    else exceptions[occurrenceDate] = dueDate;
+
+    const { error } = await storage
+        .from('tasks')
+        .update({ recurrence_exceptions: Object.keys(exceptions).length > 0 ? exceptions : null })
+        .eq('id', templateId);
+
+    if (error) {
+        console.error("Error updating recurrence exceptions:", error);
+        return false;
+    }
+    return true;
+};
+
+/**
+ * Skips (null), moves or restores (undefined) a single occurrence without touching the template's rule.
+ * An instance that was already generated for the occurrence is deleted or moved to match.
+ */
+export const setRecurrenceException = async (templateId: string, occurrenceDate: string, dueDate: string | null | undefined): Promise<boolean> => {
+    if (!await updateRecurrenceException(templateId, occurrenceDate, dueDate)) return false;
+
+    const { data: instances, error } = await storage
+        .from('tasks')
+        .select('id, due_date, occurrence_date, completed_at')
+        .eq('template_task_id', templateId);
+
+    if (error) {
+        console.error("Error fetching recurring task instances:", error);
+        return false;
+    }
+
+    const instance = (instances || []).find(i => !i.completed_at && getOccurrenceDate(i) === occurrenceDate);
+    if (instance) {
+        if (dueDate === null) {
+            if (!await deleteTask(instance.id)) return false;
+        } else {
+            const { error: moveError } = await storage
+                .from('tasks')
+                .update({ due_date: dueDate ?? occurrenceDate, occurrence_date: occurrenceDate })
+                .eq('id', instance.id);
+            if (moveError) {
+                console.error("Error moving recurring task instance:", moveError);
+                return false;
+            }
+        }
+    }
+
+    // Restoring a skipped occurrence inside the look-ahead window needs its instance back.
+    await processRecurringTasks();
+    return true;
+};
+
+/** Removes unstarted instances generated ahead of today, e.g. when their template is paused or deleted. */
+const removeUpcomingRecurringInstances = async (templateId: string): Promise<boolean> => {
+    const { data: instances, error } = await storage
+        .from('tasks')
+        .select('id, completed_at, completed_poms')
+        .eq('template_task_id', templateId)
+        .gt('due_date', getTodayDateString());
+
+    if (error) {
+        console.error("Error fetching upcoming recurring task instances:", error);
+        return false;
+    }
+
+    const ids = (instances || []).filter(i => !i.completed_at && !i.completed_poms).map(i => i.id);
+    if (ids.length === 0) return true;
+
+    const { error: deleteError } = await storage.from('tasks').delete().in('id', ids);
+    if (deleteError) {
+        console.error("Error removing upcoming recurring task instances:", deleteError);
+        return false;
+    }
+    return true;
 };
 
 export const addRecurringTask = async (taskData: Partial<Task>): Promise<Task | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('tasks')
         .insert({
             ...taskData,
             is_recurring: true,
             is_active: true, // New automations are active by default
+            recurrence_processed_through: addDaysToDateString(getTodayDateString(), -1), // Nothing before today counts as missed
             user_id: user.id,
         })
         .select()
@@ -695,8 +850,14 @@ export const addRecurringTask = async (taskData: Partial<Task>): Promise<Task |
     return data;
 };
 
+// Template fields that are copied into, or decide the dates of, generated instances.
+const RECURRENCE_INSTANCE_FIELDS: (keyof Task)[] = ['text', 'total_poms', 'project_id', 'tags', 'priority', 'subtasks', 'recurring_days', 'recurrence_rule', 'recurring_start_date', 'recurring_end_date', 'recurring_count'];
+
 export const updateRecurringTask = async (id: string, updates: Partial<Task>): Promise<Task | null> => {
-    const { error } = await supabase
+    // Days spent paused are not missed, so a resumed automation picks up from today.
+    if (updates.is_active === true) updates = { ...updates, recurrence_processed_through: addDaysToDateString(getTodayDateString(), -1) };
+
+    const { error } = await storage
         .from('tasks')
         .update(updates)
         .eq('id', id);
@@ -705,11 +866,20 @@ export const updateRecurringTask = async (id: string, updates: Partial<Task>): P
         console.error("Error updating recurring task:", error);
         return null;
     }
+    if (updates.is_active === false) {
+        await removeUpcomingRecurringInstances(id);
+    } else if (RECURRENCE_INSTANCE_FIELDS.some(field => field in updates)) {
+        // Instances already generated ahead of today follow the old schedule and wording; rebuild them.
+        await removeUpcomingRecurringInstances(id);
+        await processRecurringTasks();
+    }
     return { id, ...updates } as Task;
 };
 
 export const deleteRecurringTask = async (id: string): Promise<boolean> => {
-    const { error } = await supabase
+    await removeUpcomingRecurringInstances(id);
+
+    const { error } = await storage
         .from('tasks')
         .delete()
         .eq('id', id)
@@ -725,9 +895,9 @@ export const deleteRecurringTask = async (id: string): Promise<boolean> => {
 // --- Projects ---
 
 export const getProjects = async (): Promise<Project[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('projects')
         .select('*')
         .eq('user_id', user.id)
@@ -746,9 +916,9 @@ export const addProject = async (
     priority: number | null,
     activeDays: number[] | null
 ): Promise<Project | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { data: newProject, error } = await supabase
+    const { data: newProject, error } = await storage
         .from('projects')
         .insert({ 
             name, 
@@ -773,9 +943,9 @@ export const addProject = async (
 }
 
 export const updateProject = async (id: string, updates: Partial<Project>): Promise<boolean> => {
-    const { data: originalProject, error: fetchError } = await supabase
+    const { data: originalProject, error: fetchError } = await storage
         .from('projects')
-        .select('completion_criteria_type, completion_criteria_value')
+        .select('completion_criteria_type, completion_criteria_value, count_subtasks')
         .eq('id', id)
         .single();
     
@@ -784,7 +954,7 @@ export const updateProject = async (id: string, updates: Partial<Project>): Prom
         return false;
     }
 
-    const { error } = await supabase
+    const { error } = await storage
         .from('projects')
         .update(updates)
         .eq('id', id);
@@ -795,7 +965,8 @@ export const updateProject = async (id: string, updates: Partial<Project>): Prom
     }
     
     const criteriaChanged = (updates.completion_criteria_type && updates.completion_criteria_type !== originalProject.completion_criteria_type) ||
-                            (updates.completion_criteria_value !== undefined && updates.completion_criteria_value !== originalProject.completion_criteria_value);
+                            (updates.completion_criteria_value !== undefined && updates.completion_criteria_value !== originalProject.completion_criteria_value) ||
+                            (updates.count_subtasks !== undefined && updates.count_subtasks !== !!originalProject.count_subtasks);
 
     if (criteriaChanged) {
         await recalculateProjectProgress(id);
@@ -806,7 +977,7 @@ export const updateProject = async (id: string, updates: Partial<Project>): Prom
 
 export const deleteProject = async (id: string): Promise<{ success: boolean; error: string | null }> => {
     // Unlink non-recurring tasks
-    const { error: unlinkError } = await supabase
+    const { error: unlinkError } = await storage
         .from('tasks')
         .update({ project_id: null })
         .eq('project_id', id)
@@ -818,7 +989,7 @@ export const deleteProject = async (id: string): Promise<{ success: boolean; err
     }
 
     // Unlink recurring task templates
-    const { error: unlinkRecurringError } = await supabase
+    const { error: unlinkRecurringError } = await storage
         .from('tasks')
         .update({ project_id: null })
         .eq('project_id', id)
@@ -830,7 +1001,7 @@ export const deleteProject = async (id: string): Promise<{ success: boolean; err
     }
 
     // Then delete the project
-    const { error: deleteError } = await supabase
+    const { error: deleteError } = await storage
         .from('projects')
         .delete()
         .eq('id', id);
@@ -844,7 +1015,7 @@ export const deleteProject = async (id: string): Promise<{ success: boolean; err
 }
 
 export const rescheduleProject = async (projectId: string, newDeadline: string | null): Promise<Project[] | null> => {
-    const { data: originalProject, error: fetchError } = await supabase
+    const { data: originalProject, error: fetchError } = await storage
         .from('projects')
         .select('*')
         .eq('id', projectId)
@@ -868,7 +1039,7 @@ export const rescheduleProject = async (projectId: string, newDeadline: string |
         priority: originalProject.priority,
     };
 
-    const { error: insertError } = await supabase.from('projects').insert(newProjectData);
+    const { error: insertError } = await storage.from('projects').insert(newProjectData);
 
     if (insertError) {
         console.error('Error inserting rescheduled project:', insertError);
@@ -880,11 +1051,11 @@ export const rescheduleProject = async (projectId: string, newDeadline: string |
 
 
 export const checkAndUpdateDueProjects = async (): Promise<Project[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
     const today = getTodayDateString();
 
-    const { data: dueProjects, error } = await supabase
+    const { data: dueProjects, error } = await storage
         .from('projects')
         .select('id')
         .eq('user_id', user.id)
@@ -903,7 +1074,7 @@ export const checkAndUpdateDueProjects = async (): Promise<Project[] | null> =>
     
     const dueProjectIds = dueProjects.map(p => p.id);
 
-    const { error: updateError } = await supabase
+    const { error: updateError } = await storage
       .from('projects')
       .update({ status: 'due' })
       .in('id', dueProjectIds);
@@ -919,9 +1090,9 @@ export const checkAndUpdateDueProjects = async (): Promise<Project[] | null> =>
 // --- Project Updates ---
 
 export const getProjectUpdates = async (projectId: string): Promise<ProjectUpdate[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('project_updates')
         .select('*, tasks(text)')
         .eq('project_id', projectId)
@@ -934,9 +1105,9 @@ export const getProjectUpdates = async (projectId: string): Promise<ProjectUpdat
 }
 
 export const addProjectUpdate = async (projectId: string, updateDate: string, description: string, taskId: string | null): Promise<ProjectUpdate[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { error } = await supabase
+    const { error } = await storage
         .from('project_updates')
         .insert({
             project_id: projectId,
@@ -953,7 +1124,7 @@ export const addProjectUpdate = async (projectId: string, updateDate: string, de
 }
 
 export const deleteProjectUpdate = async (updateId: string, projectId: string): Promise<ProjectUpdate[] | null> => {
-    const { error } = await supabase
+    const { error } = await storage
         .from('project_updates')
         .delete()
         .eq('id', updateId);
@@ -968,27 +1139,27 @@ export const deleteProjectUpdate = async (updateId: string, projectId: string):
 // --- Goals & Targets ---
 
 export const getGoals = async (): Promise<Goal[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { data, error } = await supabase.from('goals').select('*').eq('user_id', user.id);
+    const { data, error } = await storage.from('goals').select('*').eq('user_id', user.id);
     return error ? null : data;
 }
 
 export const addGoal = async (text: string): Promise<Goal[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { error } = await supabase.from('goals').insert({ text, user_id: user.id });
+    const { error } = await storage.from('goals').insert({ text, user_id: user.id });
     return error ? null : await getGoals();
 }
 
 export const updateGoal = async (id: string, updates: Partial<Goal>): Promise<Goal[] | null> => {
-    const { error } = await supabase.from('goals').update(updates).eq('id', id);
+    const { error } = await storage.from('goals').update(updates).eq('id', id);
     if (error) console.error("Error updating goal:", JSON.stringify(error, null, 2));
     return error ? null : await getGoals();
 }
 
 export const setGoalCompletion = async (id: string, completed_at: string | null): Promise<Goal[] | null> => {
-    const { error } = await supabase.from('goals').update({ completed_at }).eq('id', id);
+    const { error } = await storage.from('goals').update({ completed_at }).eq('id', id);
     if (error) {
         console.error("Error setting goal completion:", JSON.stringify(error, null, 2));
         return null;
@@ -997,14 +1168,19 @@ export const setGoalCompletion = async (id: string, completed_at: string | null)
 }
 
 export const deleteGoal = async (id: string): Promise<Goal[] | null> => {
-    const { error } = await supabase.from('goals').delete().eq('id', id);
+    // Linked projects and targets outlive the goal; they just become unlinked.
+    await Promise.all([
+        storage.from('projects').update({ goal_id: null }).eq('goal_id', id),
+        storage.from('targets').update({ goal_id: null }).eq('goal_id', id),
+    ]);
+    const { error } = await storage.from('goals').delete().eq('id', id);
     return error ? null : await getGoals();
 }
 
 export const getTargets = async (): Promise<Target[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { data, error } = await supabase.from('targets').select('*').eq('user_id', user.id).order('created_at', { ascending: true });
+    const { data, error } = await storage.from('targets').select('*').eq('user_id', user.id).order('created_at', { ascending: true });
     return error ? null : data;
 }
 
@@ -1017,9 +1193,9 @@ export const addTarget = async (
     tags: string[] | null, 
     targetMinutes: number | null
 ): Promise<Target[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { error } = await supabase.from('targets').insert({ 
+    const { error } = await storage.from('targets').insert({ 
         text, 
         deadline, 
         user_id: user.id, 
@@ -1038,10 +1214,10 @@ export const addTarget = async (
 }
 
 export const updateTarget = async (id: string, updates: Partial<Target>): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
 
-    const { data: originalTarget, error: fetchError } = await supabase
+    const { data: originalTarget, error: fetchError } = await storage
         .from('targets')
         .select('tags')
         .eq('id', id)
@@ -1049,7 +1225,7 @@ export const updateTarget = async (id: string, updates: Partial<Target>): Promis
     
     if (fetchError) return false;
     
-    const { error } = await supabase.from('targets').update(updates).eq('id', id);
+    const { error } = await storage.from('targets').update(updates).eq('id', id);
     if (error) {
         console.error("Error updating target:", error);
         return false;
@@ -1067,12 +1243,12 @@ export const updateTarget = async (id: string, updates: Partial<Target>): Promis
 }
 
 export const deleteTarget = async (id: string): Promise<Target[] | null> => {
-    const { error } = await supabase.from('targets').delete().eq('id', id);
+    const { error } = await storage.from('targets').delete().eq('id', id);
     return error ? null : await getTargets();
 }
 
 export const rescheduleTarget = async (targetId: string, newDeadline: string): Promise<Target[] | null> => {
-    const { data: originalTarget, error: fetchError } = await supabase
+    const { data: originalTarget, error: fetchError } = await storage
         .from('targets')
         .select('*')
         .eq('id', targetId)
@@ -1093,7 +1269,7 @@ export const rescheduleTarget = async (targetId: string, newDeadline: string): P
         priority: originalTarget.priority,
     };
 
-    const { error: insertError } = await supabase.from('targets').insert(newTargetData);
+    const { error: insertError } = await storage.from('targets').insert(newTargetData);
 
     if (insertError) {
         console.error('Error inserting rescheduled target:', insertError);
@@ -1106,9 +1282,9 @@ export const rescheduleTarget = async (targetId: string, newDeadline: string): P
 // --- Commitments ---
 
 export const getCommitments = async (): Promise<Commitment[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('commitments')
         .select('*')
         .eq('user_id', user.id)
@@ -1121,9 +1297,9 @@ export const getCommitments = async (): Promise<Commitment[] | null> => {
 }
 
 export const addCommitment = async (text: string, dueDate: string | null): Promise<Commitment[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
-    const { error } = await supabase.from('commitments').insert({ text, user_id: user.id, due_date: dueDate });
+    const { error } = await storage.from('commitments').insert({ text, user_id: user.id, due_date: dueDate });
     if (error) {
         console.error("Error adding commitment:", JSON.stringify(error, null, 2));
         return null;
@@ -1132,7 +1308,7 @@ export const addCommitment = async (text: string, dueDate: string | null): Promi
 }
 
 export const updateCommitment = async (id: string, updates: { text: string; dueDate: string | null; }): Promise<Commitment[] | null> => {
-    const { error } = await supabase.from('commitments').update({ text: updates.text, due_date: updates.dueDate }).eq('id', id);
+    const { error } = await storage.from('commitments').update({ text: updates.text, due_date: updates.dueDate }).eq('id', id);
     if (error) {
         console.error("Error updating commitment:", JSON.stringify(error, null, 2));
         return null;
@@ -1145,7 +1321,7 @@ export const setCommitmentCompletion = async (id: string, isComplete: boolean):
         ? { completed_at: new Date().toISOString(), status: 'completed' as const, broken_at: null }
         : { completed_at: null, status: 'active' as const, broken_at: null };
 
-    const { error } = await supabase.from('commitments').update(updates).eq('id', id);
+    const { error } = await storage.from('commitments').update(updates).eq('id', id);
     if (error) {
         console.error("Error setting commitment completion:", JSON.stringify(error, null, 2));
         return null;
@@ -1159,7 +1335,7 @@ export const markCommitmentBroken = async (id: string): Promise<Commitment[] | n
         broken_at: new Date().toISOString(),
         completed_at: null,
     };
-    const { error } = await supabase.from('commitments').update(updates).eq('id', id);
+    const { error } = await storage.from('commitments').update(updates).eq('id', id);
     if (error) {
         console.error("Error marking commitment as broken:", JSON.stringify(error, null, 2));
         return null;
@@ -1169,7 +1345,7 @@ export const markCommitmentBroken = async (id: string): Promise<Commitment[] | n
 
 
 export const deleteCommitment = async (id: string): Promise<Commitment[] | null> => {
-    const { error } = await supabase.from('commitments').delete().eq('id', id);
+    const { error } = await storage.from('commitments').delete().eq('id', id);
     if (error) {
         console.error("Error deleting commitment:", JSON.stringify(error, null, 2));
         return null;
@@ -1178,7 +1354,7 @@ export const deleteCommitment = async (id: string): Promise<Commitment[] | null>
 }
 
 export const rescheduleCommitment = async (commitmentId: string, newDueDate: string | null): Promise<Commitment[] | null> => {
-    const { data: originalCommitment, error: fetchError } = await supabase
+    const { data: originalCommitment, error: fetchError } = await storage
         .from('commitments')
         .select('*')
         .eq('id', commitmentId)
@@ -1200,7 +1376,7 @@ export const rescheduleCommitment = async (commitmentId: string, newDueDate: str
         broken_at: null,
     };
 
-    const { error: insertError } = await supabase.from('commitments').insert(newCommitmentData);
+    const { error: insertError } = await storage.from('commitments').insert(newCommitmentData);
 
     if (insertError) {
         console.error('Error inserting rescheduled commitment:', insertError);
@@ -1211,11 +1387,11 @@ export const rescheduleCommitment = async (commitmentId: string, newDueDate: str
 };
 
 export const checkAndUpdatePastDueCommitments = async (): Promise<Commitment[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
     const today = getTodayDateString();
 
-    const { data: pastDueCommitments, error: findError } = await supabase
+    const { data: pastDueCommitments, error: findError } = await storage
         .from('commitments')
         .select('id')
         .eq('user_id', user.id)
@@ -1234,7 +1410,7 @@ export const checkAndUpdatePastDueCommitments = async (): Promise<Commitment[] |
 
     const idsToUpdate = pastDueCommitments.map(c => c.id);
 
-    const { error: updateError } = await supabase
+    const { error: updateError } = await storage
         .from('commitments')
         .update({
             status: 'broken',
@@ -1255,7 +1431,7 @@ export const checkAndUpdatePastDueCommitments = async (): Promise<Commitment[] |
 // --- Daily Logs ---
 
 export const upsertDailyLog = async (log: DbDailyLog): Promise<{ error: any }> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return { error: new Error("User not found") };
 
     const logData = {
@@ -1268,7 +1444,7 @@ export const upsertDailyLog = async (log: DbDailyLog): Promise<{ error: any }> =
         ...(log.improvements !== undefined && { improvements: log.improvements }),
     };
 
-    const { data: existingLog, error: selectError } = await supabase
+    const { data: existingLog, error: selectError } = await storage
         .from('daily_logs')
         .select('id')
         .eq('user_id', user.id)
@@ -1281,7 +1457,7 @@ export const upsertDailyLog = async (log: DbDailyLog): Promise<{ error: any }> =
     }
     
     if (existingLog) {
-        const { error: updateError } = await supabase
+        const { error: updateError } = await storage
             .from('daily_logs')
             .update(logData)
             .eq('id', existingLog.id);
@@ -1289,7 +1465,7 @@ export const upsertDailyLog = async (log: DbDailyLog): Promise<{ error: any }> =
         if (updateError) console.error("Error updating daily log:", updateError);
         return { error: updateError };
     } else {
-        const { error: insertError } = await supabase
+        const { error: insertError } = await storage
             .from('daily_logs')
             .insert(logData);
             
@@ -1298,11 +1474,12 @@ export const upsertDailyLog = async (log: DbDailyLog): Promise<{ error: any }> =
     }
 };
 
-export const saveDailyReflection = async (date: string, challenges: string, improvements: string): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+/** Writes fields onto one day's daily_logs row, creating an empty row for the day if needed. */
+const saveDailyLogFields = async (date: string, fields: Partial<DbDailyLog>): Promise<boolean> => {
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
 
-    const { data: existingLog } = await supabase
+    const { data: existingLog } = await storage
         .from('daily_logs')
         .select('id')
         .eq('user_id', user.id)
@@ -1310,19 +1487,18 @@ export const saveDailyReflection = async (date: string, challenges: string, impr
         .maybeSingle();
 
     if (existingLog) {
-        const { error } = await supabase
+        const { error } = await storage
             .from('daily_logs')
-            .update({ challenges, improvements })
+            .update(fields)
             .eq('id', existingLog.id);
         return !error;
     } else {
-        const { error } = await supabase
+        const { error } = await storage
             .from('daily_logs')
             .insert({ 
                 user_id: user.id, 
                 date, 
-                challenges, 
-                improvements, 
+                ...fields,
                 total_focus_minutes: 0, 
                 completed_sessions: 0 
             });
@@ -1330,12 +1506,18 @@ export const saveDailyReflection = async (date: string, challenges: string, impr
     }
 };
 
+export const saveDailyReview = async (date: string, review: DailyReview): Promise<boolean> =>
+    saveDailyLogFields(date, { ...review, reviewed_at: new Date().toISOString() });
+
+export const saveDailyCheckIn = async (date: string, checkIn: WellbeingCheckIn): Promise<boolean> =>
+    saveDailyLogFields(date, { check_in: checkIn });
+
 
 export const getHistoricalLogs = async (startDate: string, endDate: string): Promise<DbDailyLog[]> => {
-     const { data: { user } } = await supabase.auth.getUser();
+     const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('daily_logs')
         .select('*')
         .eq('user_id', user.id)
@@ -1349,11 +1531,59 @@ export const getHistoricalLogs = async (startDate: string, endDate: string): Pro
     return data || [];
 };
 
+// --- Weekly Reviews ---
+
+export const getWeeklyReviews = async (): Promise<WeeklyReview[] | null> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return null;
+
+    const { data, error } = await storage
+        .from('weekly_reviews')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('week_start', { ascending: false });
+
+    if (error) {
+        console.error("Error fetching weekly reviews:", JSON.stringify(error, null, 2));
+        return null;
+    }
+    return data || [];
+};
+
+/** Stores the answers for a week, replacing any earlier answers for the same week. */
+export const saveWeeklyReview = async (weekStart: string, answers: WeeklyReviewAnswers): Promise<WeeklyReview | null> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return null;
+
+    const { data: existingReview, error: selectError } = await storage
+        .from('weekly_reviews')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('week_start', weekStart)
+        .maybeSingle();
+
+    if (selectError) {
+        console.error("Error checking for existing weekly review:", selectError);
+        return null;
+    }
+
+    const reviewData = { ...answers, updated_at: new Date().toISOString() };
+    const { data, error } = existingReview
+        ? await storage.from('weekly_reviews').update(reviewData).eq('id', existingReview.id).select('*').single()
+        : await storage.from('weekly_reviews').insert({ ...reviewData, user_id: user.id, week_start: weekStart }).select('*').single();
+
+    if (error) {
+        console.error("Error saving weekly review:", JSON.stringify(error, null, 2));
+        return null;
+    }
+    return data;
+};
+
 export const getHistoricalTasks = async (startDate: string, endDate: string): Promise<Task[]> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('tasks')
         .select('*, projects(name)')
         .eq('user_id', user.id)
@@ -1368,10 +1598,10 @@ export const getHistoricalTasks = async (startDate: string, endDate: string): Pr
 };
 
 export const getAllTasksForStats = async (): Promise<Task[]> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('tasks')
         .select('*')
         .eq('user_id', user.id);
@@ -1383,11 +1613,29 @@ export const getAllTasksForStats = async (): Promise<Task[]> => {
     return data || [];
 };
 
+export const getTasksByIds = async (taskIds: string[]): Promise<Task[]> => {
+    if (!taskIds || taskIds.length === 0) return [];
+    const { data: { user } } = await storage.getUser();
+    if (!user) return [];
+
+    const { data, error } = await storage
+        .from('tasks')
+        .select('*')
+        .eq('user_id', user.id)
+        .in('id', taskIds);
+
+    if (error) {
+        console.error("Error fetching tasks by id:", JSON.stringify(error, null, 2));
+        return [];
+    }
+    return data || [];
+};
+
 export const getHistoricalProjects = async (startDate: string, endDate: string): Promise<Project[]> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('projects')
         .select('*')
         .eq('user_id', user.id)
@@ -1403,10 +1651,10 @@ export const getHistoricalProjects = async (startDate: string, endDate: string):
 };
 
 export const getHistoricalTargets = async (startDate: string, endDate:string): Promise<Target[]> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('targets')
         .select('*')
         .eq('user_id', user.id)
@@ -1422,12 +1670,12 @@ export const getHistoricalTargets = async (startDate: string, endDate:string): P
 
 // --- Spotlight Pinning ---
 export const setPinnedItem = async (itemId: string, itemType: 'project' | 'target'): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
 
     // Unpin all other items first.
-    const { error: unpinProjectsError } = await supabase.from('projects').update({ is_pinned: false }).eq('user_id', user.id).eq('is_pinned', true);
-    const { error: unpinTargetsError } = await supabase.from('targets').update({ is_pinned: false }).eq('user_id', user.id).eq('is_pinned', true);
+    const { error: unpinProjectsError } = await storage.from('projects').update({ is_pinned: false }).eq('user_id', user.id).eq('is_pinned', true);
+    const { error: unpinTargetsError } = await storage.from('targets').update({ is_pinned: false }).eq('user_id', user.id).eq('is_pinned', true);
 
     if (unpinProjectsError || unpinTargetsError) {
         console.error("Error clearing existing pins:", JSON.stringify(unpinProjectsError || unpinTargetsError, null, 2));
@@ -1436,7 +1684,7 @@ export const setPinnedItem = async (itemId: string, itemType: 'project' | 'targe
 
     // Pin the new item
     const tableName = itemType === 'project' ? 'projects' : 'targets';
-    const { error: pinError } = await supabase.from(tableName).update({ is_pinned: true }).eq('id', itemId);
+    const { error: pinError } = await storage.from(tableName).update({ is_pinned: true }).eq('id', itemId);
 
     if (pinError) {
         console.error(`Error pinning ${itemType}:`, JSON.stringify(pinError, null, 2));
@@ -1447,11 +1695,11 @@ export const setPinnedItem = async (itemId: string, itemType: 'project' | 'targe
 };
 
 export const clearAllPins = async (): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
     
-    const { error: unpinProjectsError } = await supabase.from('projects').update({ is_pinned: false }).eq('user_id', user.id).eq('is_pinned', true);
-    const { error: unpinTargetsError } = await supabase.from('targets').update({ is_pinned: false }).eq('user_id', user.id).eq('is_pinned', true);
+    const { error: unpinProjectsError } = await storage.from('projects').update({ is_pinned: false }).eq('user_id', user.id).eq('is_pinned', true);
+    const { error: unpinTargetsError } = await storage.from('targets').update({ is_pinned: false }).eq('user_id', user.id).eq('is_pinned', true);
 
     if (unpinProjectsError || unpinTargetsError) {
         console.error("Error clearing all pins:", JSON.stringify(unpinProjectsError || unpinTargetsError, null, 2));
@@ -1468,7 +1716,9 @@ export const logPomodoroCompletion = async (
   taskToComplete: Task,
   comment: string,
   durationMinutes: number,
-  focusLevel: FocusLevel | null
+  focusLevel: FocusLevel | null,
+  endedAt?: string,
+  sessionDetails?: FocusSessionDetails
 ): Promise<Task | null> => {
   // This function should only be called for countdown-style pomodoros.
   if (taskToComplete.total_poms < 0) {
@@ -1487,12 +1737,12 @@ export const logPomodoroCompletion = async (
 
   let taskIsNowComplete = false;
   if (updatedFields.completed_poms >= taskToComplete.total_poms) {
-    updatedFields.completed_at = new Date().toISOString();
+    updatedFields.completed_at = endedAt || new Date().toISOString();
     taskIsNowComplete = true;
   }
 
   // 1. Attempt to update the task first.
-  const { data: updatedTask, error: taskUpdateError } = await supabase
+  const { data: updatedTask, error: taskUpdateError } = await storage
     .from('tasks')
     .update(updatedFields)
     .eq('id', taskToComplete.id)
@@ -1505,12 +1755,12 @@ export const logPomodoroCompletion = async (
   }
 
   // 2. Attempt to add the history record.
-  const { error: historyError } = await addPomodoroHistory(updatedTask.id, durationMinutes, focusLevel);
+  const { error: historyError } = await addPomodoroHistory(updatedTask.id, durationMinutes, focusLevel, endedAt, sessionDetails);
 
   if (historyError) {
     console.error("Pomodoro history insertion failed. Attempting to roll back task update.", historyError);
     // 3. ROLLBACK! History insertion failed, so revert the task update.
-    const { error: rollbackError } = await supabase
+    const { error: rollbackError } = await storage
       .from('tasks')
       .update({ 
         completed_poms: originalPoms, 
@@ -1529,7 +1779,7 @@ export const logPomodoroCompletion = async (
   if (taskIsNowComplete && updatedTask.project_id) {
       await addProjectUpdate(
           updatedTask.project_id,
-          getTodayDateString(),
+          getTodayDateString(endedAt ? new Date(endedAt) : new Date()),
           `Completed task: "${updatedTask.text}"`,
           updatedTask.id
       );
@@ -1539,35 +1789,128 @@ export const logPomodoroCompletion = async (
   return updatedTask;
 };
 
-export const addPomodoroHistory = async (taskId: string | null, duration: number, difficulty: FocusLevel | null): Promise<{ error: any }> => {
-    const { data: { user } } = await supabase.auth.getUser();
+/**
+ * Logs a focus session that switched tasks part-way: each task's completed_poms moves by its share of the
+ * pomodoro, then one history row per segment is written. The comment goes on the task worked on last.
+ * If the history can't be written the task updates are undone, so a retry doesn't credit them twice.
+ * Returns the tasks that received time, as they are after the update.
+ */
+export const logSplitPomodoroCompletion = async (segments: FocusSegmentLog[], comment: string, focusLevel: FocusLevel | null): Promise<Task[] | null> => {
+    if (segments.length === 0) return [];
+    const { data: { user } } = await storage.getUser();
+    if (!user) return null;
+
+    const taskIds = [...new Set(segments.map(s => s.task_id).filter((id): id is string => !!id))];
+    const tasks = await getTasksByIds(taskIds);
+    const lastSegment = segments[segments.length - 1];
+
+    const rollBackTasks = async (originals: Task[]) => {
+        for (const original of originals) {
+            const { error } = await storage
+                .from('tasks')
+                .update({ completed_poms: original.completed_poms, completed_at: original.completed_at, comments: original.comments })
+                .eq('id', original.id);
+            if (error) console.error("CRITICAL: FAILED TO ROLL BACK SPLIT SESSION CREDIT. Database is now in an inconsistent state.", error);
+        }
+    };
+
+    // 1. Credit the tasks first.
+    const updatedTasks: Task[] = [];
+    const changedTasks: Task[] = [];
+    const completedTaskIds = new Set<string>();
+    for (const task of tasks) {
+        const credit = segments.filter(s => s.task_id === task.id).reduce((sum, s) => sum + s.pom_credit, 0);
+        const updates: Partial<Task> = {};
+        if (credit > 0 && task.total_poms >= 0) updates.completed_poms = Math.round((task.completed_poms + credit) * 10) / 10;
+        if (comment && task.id === lastSegment.task_id) updates.comments = [...(task.comments || []), comment];
+        const isNowComplete = !task.completed_at && task.total_poms > 0 && updates.completed_poms !== undefined && updates.completed_poms >= task.total_poms;
+        if (isNowComplete) updates.completed_at = lastSegment.ended_at;
+
+        if (Object.keys(updates).length === 0) {
+            updatedTasks.push(task);
+            continue;
+        }
+        const { data: updatedTask, error } = await storage.from('tasks').update(updates).eq('id', task.id).select('*').single();
+        if (error || !updatedTask) {
+            console.error("Error crediting a split pomodoro to its task:", error);
+            await rollBackTasks(changedTasks);
+            return null;
+        }
+        changedTasks.push(task);
+        if (isNowComplete) completedTaskIds.add(task.id);
+        updatedTasks.push(updatedTask);
+    }
+
+    // 2. Write every segment in one insert, so a failure leaves no partial history behind.
+    const rows = segments.map(segment => {
+        // Time for a task deleted mid-session is still focus time, just without a task.
+        const taskId = segment.task_id && tasks.some(t => t.id === segment.task_id) ? segment.task_id : null;
+        return toPomodoroHistoryRow(user.id, taskId, segment.duration_minutes, focusLevel, new Date(segment.ended_at), segment.details, { pom_credit: taskId ? segment.pom_credit : 0 });
+    });
+    const { error: historyError } = await storage.from('pomodoro_history').insert(rows);
+    if (historyError) {
+        console.error("Split session history insertion failed. Rolling back task credit.", JSON.stringify(historyError, null, 2));
+        await rollBackTasks(changedTasks);
+        return null;
+    }
+    const dates = new Set(segments.map(segment => getTodayDateString(new Date(segment.ended_at))));
+    for (const date of dates) await recalculateDailyLog(user.id, date);
+
+    // 3. Both succeeded, so update the projects.
+    for (const updatedTask of updatedTasks) {
+        if (!updatedTask.project_id) continue;
+        if (completedTaskIds.has(updatedTask.id)) {
+            await addProjectUpdate(updatedTask.project_id, getTodayDateString(new Date(lastSegment.ended_at)), `Completed task: "${updatedTask.text}"`, updatedTask.id);
+        }
+        await recalculateProjectProgress(updatedTask.project_id);
+    }
+    return updatedTasks;
+};
+
+type PomodoroHistoryExtra = Pick<PomodoroHistory, 'source' | 'note' | 'pom_credit'>;
+
+const toPomodoroHistoryRow = (userId: string, taskId: string | null, duration: number, difficulty: FocusLevel | null, endedAtDate: Date, sessionDetails?: FocusSessionDetails, extra?: PomodoroHistoryExtra) => ({
+    user_id: userId,
+    task_id: taskId,
+    duration_minutes: duration,
+    difficulty: difficulty,
+    ended_at: endedAtDate.toISOString(),
+    ...(sessionDetails && {
+        started_at: sessionDetails.started_at,
+        interruptions: sessionDetails.interruptions,
+        wall_clock_minutes: Math.round((endedAtDate.getTime() - new Date(sessionDetails.started_at).getTime()) / 60000),
+        check_in: sessionDetails.check_in ?? null,
+    }),
+    ...extra,
+});
+
+export const addPomodoroHistory = async (taskId: string | null, duration: number, difficulty: FocusLevel | null, endedAt?: string, sessionDetails?: FocusSessionDetails, extra?: PomodoroHistoryExtra): Promise<{ error: any }> => {
+    const { data: { user } } = await storage.getUser();
     if (!user) return { error: new Error("User not found") };
 
-    const endedAtDate = new Date();
-    const ended_at = endedAtDate.toISOString();
+    // Sessions replayed from the offline queue keep the time they actually ended.
+    const endedAtDate = endedAt ? new Date(endedAt) : new Date();
     const date = getTodayDateString(endedAtDate); // Use local date
 
-    const { error } = await supabase.from('pomodoro_history').insert([{
-        user_id: user.id,
-        task_id: taskId,
-        duration_minutes: duration,
-        difficulty: difficulty,
-        ended_at: ended_at,
-    }]);
+    const { error } = await storage.from('pomodoro_history').insert([toPomodoroHistoryRow(user.id, taskId, duration, difficulty, endedAtDate, sessionDetails, extra)]);
 
     if (error) {
         console.error("Error adding pomodoro history:", JSON.stringify(error, null, 2));
         return { error };
     }
     
-    // Authoritatively update daily_logs based on user's local day
+    return recalculateDailyLog(user.id, date);
+};
+
+/** Authoritatively rebuilds one local day's daily_logs totals from its pomodoro_history. */
+const recalculateDailyLog = async (userId: string, date: string): Promise<{ error: any }> => {
     const startOfDayLocal = new Date(`${date}T00:00:00`);
     const endOfDayLocal = new Date(`${date}T23:59:59.999`);
 
-    const { data: todaysHistory, error: historyError } = await supabase
+    const { data: todaysHistory, error: historyError } = await storage
         .from('pomodoro_history')
         .select('duration_minutes')
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .gte('ended_at', startOfDayLocal.toISOString())
         .lte('ended_at', endOfDayLocal.toISOString());
 
@@ -1588,11 +1931,42 @@ export const addPomodoroHistory = async (taskId: string | null, duration: number
     return { error: upsertError };
 };
 
+/**
+ * Records focus time entered by hand. It counts toward daily logs, projects and targets like a timed session,
+ * but doesn't tick off pomodoros on the task.
+ */
+export const logManualFocusSession = async (entry: ManualFocusEntry): Promise<boolean> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return false;
+
+    const { error } = await addPomodoroHistory(
+        entry.task_id,
+        entry.duration_minutes,
+        entry.difficulty,
+        entry.ended_at,
+        { started_at: entry.started_at, interruptions: [] },
+        { source: 'manual', note: entry.note?.trim() || null }
+    );
+    if (error) return false;
+
+    if (entry.task_id) {
+        const { data: task } = await storage
+            .from('tasks')
+            .select('project_id, tags')
+            .eq('id', entry.task_id)
+            .single();
+
+        if (task?.project_id) await recalculateProjectProgress(task.project_id);
+        if (task?.tags && task.tags.length > 0) await recalculateProgressForAffectedTargets(task.tags, user.id);
+    }
+    return true;
+};
+
 export const getPomodoroHistory = async (startDate: string, endDate: string): Promise<PomodoroHistory[]> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('pomodoro_history')
         .select('*')
         .eq('user_id', user.id)
@@ -1608,10 +1982,10 @@ export const getPomodoroHistory = async (startDate: string, endDate: string): Pr
 
 export const getPomodoroHistoryForTasks = async (taskIds: string[]): Promise<PomodoroHistory[]> => {
     if (!taskIds || taskIds.length === 0) return [];
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('pomodoro_history')
         .select('*')
         .in('task_id', taskIds);
@@ -1624,10 +1998,10 @@ export const getPomodoroHistoryForTasks = async (taskIds: string[]): Promise<Pom
 };
 
 export const getAllPomodoroHistory = async (): Promise<PomodoroHistory[]> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('pomodoro_history')
         .select('*')
         .eq('user_id', user.id)
@@ -1641,13 +2015,13 @@ export const getAllPomodoroHistory = async (): Promise<PomodoroHistory[]> => {
 };
 
 export const deletePomodoroHistoryById = async (historyId: string): Promise<boolean> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return false;
 
     // Get task_id before deleting to trigger recalculation later.
-    const { data: historyItem, error: fetchError } = await supabase
+    const { data: historyItem, error: fetchError } = await storage
         .from('pomodoro_history')
-        .select('task_id')
+        .select('task_id, ended_at, source, pom_credit')
         .eq('id', historyId)
         .eq('user_id', user.id)
         .single();
@@ -1663,7 +2037,7 @@ export const deletePomodoroHistoryById = async (historyId: string): Promise<bool
         return true;
     }
 
-    const { error: deleteError } = await supabase
+    const { error: deleteError } = await storage
         .from('pomodoro_history')
         .delete()
         .eq('id', historyId);
@@ -1672,10 +2046,15 @@ export const deletePomodoroHistoryById = async (historyId: string): Promise<bool
         console.error("Error deleting pomodoro history:", deleteError);
         return false;
     }
+
+    await recalculateDailyLog(user.id, getTodayDateString(new Date(historyItem.ended_at)));
     
     // If the deleted history was associated with a task, we need to recalculate progress.
     if (historyItem.task_id) {
-        const { data: task, error: taskError } = await supabase
+        const credit = getHistoryPomCredit(historyItem);
+        if (credit > 0) await adjustCompletedPoms(historyItem.task_id, -credit);
+
+        const { data: task, error: taskError } = await storage
             .from('tasks')
             .select('project_id, tags')
             .eq('id', historyItem.task_id)
@@ -1694,9 +2073,107 @@ export const deletePomodoroHistoryById = async (historyId: string): Promise<bool
     return true;
 };
 
+// Manual entries never counted toward a task's pomodoros; split segments store their share.
+const getHistoryPomCredit = (item: Pick<PomodoroHistory, 'source' | 'pom_credit'>): number =>
+    item.source === 'manual' ? 0 : item.pom_credit ?? 1;
+
+/** Moves `delta` pomodoros (possibly a fraction) on or off a countdown task, completing or reopening it when it crosses its estimate. */
+const adjustCompletedPoms = async (taskId: string, delta: number): Promise<void> => {
+    const { data: task, error } = await storage
+        .from('tasks')
+        .select('total_poms, completed_poms, completed_at')
+        .eq('id', taskId)
+        .single();
+
+    // Stopwatch tasks track time, not pomodoros.
+    if (error || !task || task.total_poms < 0) return;
+
+    const completed_poms = Math.max(0, Math.round((task.completed_poms + delta) * 10) / 10);
+    const updates: Partial<Task> = { completed_poms };
+    if (completed_poms >= task.total_poms && !task.completed_at) updates.completed_at = new Date().toISOString();
+    // Only reopen tasks that were completed by reaching their estimate, not ones marked done early.
+    if (completed_poms < task.total_poms && task.completed_poms >= task.total_poms && task.completed_at) updates.completed_at = null;
+
+    const { error: updateError } = await storage.from('tasks').update(updates).eq('id', taskId);
+    if (updateError) console.error("Error adjusting task pomodoros:", updateError);
+};
+
+/**
+ * Corrects a logged session. The replaced values are appended to its edit_history, and everything derived from it
+ * (daily logs, task pomodoro counts, project progress and tag-based targets) is recalculated on both sides of the change.
+ */
+export const updatePomodoroHistory = async (historyId: string, updates: PomodoroHistoryFields): Promise<PomodoroHistory | null> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return null;
+
+    const { data: original, error: fetchError } = await storage
+        .from('pomodoro_history')
+        .select('*')
+        .eq('id', historyId)
+        .eq('user_id', user.id)
+        .single();
+
+    if (fetchError || !original) {
+        console.error("Error finding pomodoro history item to edit:", fetchError);
+        return null;
+    }
+
+    const previous: PomodoroHistoryFields = {
+        task_id: original.task_id,
+        duration_minutes: original.duration_minutes,
+        ended_at: original.ended_at,
+        difficulty: original.difficulty,
+    };
+    const row: Record<string, any> = {
+        ...updates,
+        edit_history: [...(original.edit_history || []), { edited_at: new Date().toISOString(), previous }],
+    };
+    // A session moved in time keeps its length.
+    if (original.started_at && updates.ended_at !== original.ended_at) {
+        const shift = new Date(updates.ended_at).getTime() - new Date(original.ended_at).getTime();
+        row.started_at = new Date(new Date(original.started_at).getTime() + shift).toISOString();
+    }
+
+    const { data: updated, error } = await storage
+        .from('pomodoro_history')
+        .update(row)
+        .eq('id', historyId)
+        .select('*')
+        .single();
+
+    if (error || !updated) {
+        console.error("Error updating pomodoro history:", error);
+        return null;
+    }
+
+    const dates = new Set([getTodayDateString(new Date(original.ended_at)), getTodayDateString(new Date(updates.ended_at))]);
+    for (const date of dates) await recalculateDailyLog(user.id, date);
+
+    // Each timed session earned its task a pomodoro (or a share of one), so reassigning it moves that credit too.
+    const credit = getHistoryPomCredit(original);
+    if (updates.task_id !== original.task_id && credit > 0) {
+        if (original.task_id) await adjustCompletedPoms(original.task_id, -credit);
+        if (updates.task_id) await adjustCompletedPoms(updates.task_id, credit);
+    }
+
+    const taskIds = [...new Set([original.task_id, updates.task_id].filter(Boolean))];
+    if (taskIds.length > 0) {
+        const { data: affectedTasks } = await storage
+            .from('tasks')
+            .select('project_id, tags')
+            .in('id', taskIds);
+
+        const projectIds = [...new Set((affectedTasks || []).map(t => t.project_id as string | null).filter(Boolean))] as string[];
+        for (const projectId of projectIds) await recalculateProjectProgress(projectId);
+        const tags = [...new Set((affectedTasks || []).flatMap(t => (t.tags || []) as string[]))] as string[];
+        if (tags.length > 0) await recalculateProgressForAffectedTargets(tags, user.id);
+    }
+
+    return updated;
+};
 
 export const getConsistencyLogs = async (days?: number, year?: number): Promise<DbDailyLog[]> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
     let startDateString: string;
@@ -1713,7 +2190,7 @@ export const getConsistencyLogs = async (days?: number, year?: number): Promise<
         endDateString = getTodayDateString();
     }
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('daily_logs')
         .select('date, completed_sessions, total_focus_minutes')
         .eq('user_id', user.id)
@@ -1728,13 +2205,45 @@ export const getConsistencyLogs = async (days?: number, year?: number): Promise<
     return data || [];
 };
 
+// --- Break History ---
+
+export const addBreakHistory = async (entry: Omit<BreakHistory, 'id' | 'user_id'>): Promise<{ error: any }> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return { error: new Error("User not found") };
+
+    const { error } = await storage.from('break_history').insert([{ user_id: user.id, ...entry }]);
+
+    if (error) {
+        console.error("Error adding break history:", JSON.stringify(error, null, 2));
+    }
+    return { error };
+};
+
+export const getBreakHistory = async (startDate: string, endDate: string): Promise<BreakHistory[]> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return [];
+
+    const { data, error } = await storage
+        .from('break_history')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('ended_at', `${startDate}T00:00:00Z`)
+        .lte('ended_at', `${endDate}T23:59:59Z`);
+
+    if (error) {
+        console.error("Error fetching break history:", JSON.stringify(error, null, 2));
+        return [];
+    }
+    return data || [];
+};
+
 // --- AI Memories ---
 
 export const getAiMemories = async (): Promise<AiMemory[]> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return [];
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('ai_memories')
         .select('*')
         .eq('user_id', user.id)
@@ -1753,10 +2262,10 @@ export const addAiMemory = async (
     tags: string[] | null, 
     source_task_id: string | null = null
 ): Promise<AiMemory | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('ai_memories')
         .insert({
             user_id: user.id,
@@ -1776,7 +2285,7 @@ export const addAiMemory = async (
 };
 
 export const updateAiMemory = async (id: string, updates: Partial<AiMemory>): Promise<AiMemory | null> => {
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('ai_memories')
         .update(updates)
         .eq('id', id)
@@ -1791,7 +2300,7 @@ export const updateAiMemory = async (id: string, updates: Partial<AiMemory>): Pr
 };
 
 export const deleteAiMemory = async (id: string): Promise<boolean> => {
-    const { error } = await supabase
+    const { error } = await storage
         .from('ai_memories')
         .delete()
         .eq('id', id);
@@ -1806,10 +2315,10 @@ export const deleteAiMemory = async (id: string): Promise<boolean> => {
 // --- Notifications ---
 
 export const getNotifications = async (): Promise<AppNotification[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
 
-    const { data, error } = await supabase
+    const { data, error } = await storage
         .from('notifications')
         .select('id, created_at, message, type, read, unique_id')
         .eq('user_id', user.id)
@@ -1829,14 +2338,14 @@ export type NewNotification = {
 };
 
 export const addNotifications = async (notifications: NewNotification[]): Promise<void> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user || notifications.length === 0) return;
 
     const notificationsToInsert = notifications.map(n => ({
         ...n,
         user_id: user.id,
     }));
-    const { error } = await supabase
+    const { error } = await storage
         .from('notifications')
         .upsert(notificationsToInsert, { onConflict: 'user_id, unique_id', ignoreDuplicates: true });
 
@@ -1846,7 +2355,7 @@ export const addNotifications = async (notifications: NewNotification[]): Promis
 };
 
 export const markNotificationRead = async (id: string): Promise<AppNotification[] | null> => {
-    const { error } = await supabase
+    const { error } = await storage
         .from('notifications')
         .update({ read: true })
         .eq('id', id);
@@ -1859,10 +2368,10 @@ export const markNotificationRead = async (id: string): Promise<AppNotification[
 };
 
 export const markAllNotificationsRead = async (): Promise<AppNotification[] | null> => {
-     const { data: { user } } = await supabase.auth.getUser();
+     const { data: { user } } = await storage.getUser();
     if (!user) return null;
     
-    const { error } = await supabase
+    const { error } = await storage
         .from('notifications')
         .update({ read: true })
         .eq('user_id', user.id)
@@ -1876,10 +2385,10 @@ export const markAllNotificationsRead = async (): Promise<AppNotification[] | nu
 };
 
 export const clearAllNotifications = async (): Promise<AppNotification[] | null> => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await storage.getUser();
     if (!user) return null;
 
-    const { error } = await supabase
+    const { error } = await storage
         .from('notifications')
         .delete()
         .eq('user_id', user.id);
@@ -1889,4 +2398,209 @@ export const clearAllNotifications = async (): Promise<AppNotification[] | null>
         return null;
     }
     return [];
-};
\ No newline at end of file
+};
+
+// --- Active Session ---
+
+/**
+ * Identifies this browser tab as a writer of `active_sessions`, so realtime echoes of its own writes can be ignored.
+ * The table holds one row per user (primary key `user_id`) and must be added to the `supabase_realtime` publication.
+ */
+export const CLIENT_ID = typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `client-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Set once this tab deletes the row, until a row exists again. A DELETE event carries no row to check
+// `updated_by` against, so while this is set the resulting null must be this tab's own echo (or redundant).
+let isActiveSessionClearedLocally = false;
+
+export const getActiveSession = async (): Promise<ActiveSession | null> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return null;
+
+    const { data, error } = await storage
+        .from('active_sessions')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+    if (error) {
+        console.error("Error fetching active session:", JSON.stringify(error, null, 2));
+        return null;
+    }
+    return data;
+};
+
+export const saveActiveSession = async (session: Omit<ActiveSession, 'user_id' | 'updated_by' | 'updated_at'>): Promise<boolean> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return false;
+
+    isActiveSessionClearedLocally = false;
+    const { error } = await storage
+        .from('active_sessions')
+        .upsert({ ...session, user_id: user.id, updated_by: CLIENT_ID, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+    if (error) {
+        console.error("Error saving active session:", JSON.stringify(error, null, 2));
+        return false;
+    }
+    return true;
+};
+
+export const clearActiveSession = async (): Promise<boolean> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return false;
+
+    isActiveSessionClearedLocally = true;
+    const { error } = await storage
+        .from('active_sessions')
+        .delete()
+        .eq('user_id', user.id);
+
+    if (error) {
+        console.error("Error clearing active session:", JSON.stringify(error, null, 2));
+        return false;
+    }
+    return true;
+};
+
+export const subscribeToActiveSession = (userId: string, onChange: (session: ActiveSession | null) => void): (() => void) => {
+    return storage.subscribe('active_sessions', userId, row => {
+        if (row && row.updated_by === CLIENT_ID) return;
+        if (!row && isActiveSessionClearedLocally) return;
+        if (row) isActiveSessionClearedLocally = false;
+        onChange(row);
+    });
+};
+
+// --- Export / Import ---
+
+export const DATA_ARCHIVE_VERSION = 1;
+
+// Parents come before children so that foreign keys resolve on import.
+export const ARCHIVE_TABLES: ArchiveTable[] = ['settings', 'goals', 'projects', 'targets', 'commitments', 'tasks', 'project_updates', 'pomodoro_history', 'break_history', 'daily_logs', 'weekly_reviews', 'ai_memories', 'notifications'];
+
+// Columns that hold another archived row's id, and the table that id belongs to.
+const ARCHIVE_FOREIGN_KEYS: Partial<Record<ArchiveTable, Record<string, ArchiveTable>>> = {
+    projects: { goal_id: 'goals' },
+    targets: { goal_id: 'goals' },
+    tasks: { project_id: 'projects', template_task_id: 'tasks' },
+    project_updates: { project_id: 'projects', task_id: 'tasks' },
+    pomodoro_history: { task_id: 'tasks' },
+    break_history: { task_id: 'tasks' },
+    ai_memories: { source_task_id: 'tasks' },
+};
+
+const IMPORT_CHUNK_SIZE = 500;
+
+/**
+ * Reads every row the current user owns into a single versioned archive.
+ */
+export const exportUserData = async (): Promise<DataArchive | null> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return null;
+
+    const results = await Promise.all(ARCHIVE_TABLES.map(table => storage.from(table).select('*').eq('user_id', user.id)));
+    const failed = results.find(r => r.error);
+    if (failed) {
+        console.error("Error exporting user data:", JSON.stringify(failed.error, null, 2));
+        return null;
+    }
+
+    const tables = Object.fromEntries(ARCHIVE_TABLES.map((table, i) => [table, results[i].data || []])) as DataArchive['tables'];
+    return { app: 'focusflow', version: DATA_ARCHIVE_VERSION, exported_at: new Date().toISOString(), tables };
+};
+
+export const parseDataArchive = (json: string): { archive: DataArchive | null; error?: string } => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        return { archive: null, error: 'The file is not valid JSON.' };
+    }
+    if (parsed?.app !== 'focusflow' || typeof parsed.version !== 'number' || typeof parsed.tables !== 'object') {
+        return { archive: null, error: 'The file is not a FocusFlow export.' };
+    }
+    if (parsed.version > DATA_ARCHIVE_VERSION) {
+        return { archive: null, error: `This export was made by a newer version of FocusFlow (v${parsed.version}).` };
+    }
+    const tables = Object.fromEntries(ARCHIVE_TABLES.map(table => [table, Array.isArray(parsed.tables[table]) ? parsed.tables[table] : []])) as DataArchive['tables'];
+    return { archive: { ...parsed, tables } };
+};
+
+/**
+ * Copies an archive into the current account. Every row gets a fresh id and foreign keys are
+ * rewritten to match, so the same archive can be imported next to existing data.
+ * References to rows that are not in the archive are cleared rather than left dangling.
+ */
+export const importUserData = async (archive: DataArchive): Promise<{ success: boolean; error?: string; counts: Partial<Record<ArchiveTable, number>> }> => {
+    const { data: { user } } = await storage.getUser();
+    if (!user) return { success: false, error: 'User not found', counts: {} };
+
+    const idMaps = Object.fromEntries(ARCHIVE_TABLES.map(table => [
+        table,
+        new Map<string, string>(archive.tables[table].filter(row => row.id).map(row => [row.id, generateUUID()])),
+    ])) as Record<ArchiveTable, Map<string, string>>;
+
+    const counts: Partial<Record<ArchiveTable, number>> = {};
+
+    for (const table of ARCHIVE_TABLES) {
+        const foreignKeys = ARCHIVE_FOREIGN_KEYS[table] || {};
+        let rows: Record<string, any>[] = archive.tables[table].map(original => {
+            // Drop embedded join data such as `projects(name)`, which is keyed by the joined table's name.
+            const row = Object.fromEntries(Object.entries(original).filter(([key]) => !ARCHIVE_TABLES.includes(key as ArchiveTable)));
+            Object.entries(foreignKeys).forEach(([column, parentTable]) => {
+                if (row[column]) row[column] = idMaps[parentTable].get(row[column]) ?? null;
+            });
+            // Prerequisites are an array of task ids rather than a single foreign key column.
+            if (Array.isArray(row.prerequisite_ids)) row.prerequisite_ids = row.prerequisite_ids.map((id: string) => idMaps.tasks.get(id)).filter(Boolean);
+            if (row.id) row.id = idMaps[table].get(row.id);
+            return { ...row, user_id: user.id };
+        });
+
+        if (rows.length === 0) continue;
+
+        // Recurring templates must exist before the instances that point at them.
+        if (table === 'tasks') rows = [...rows.filter(r => r.is_recurring), ...rows.filter(r => !r.is_recurring)];
+
+        if (table === 'settings') {
+            const { id: _id, ...settingsRow } = rows[0];
+            const { error } = await storage.from('settings').upsert(settingsRow);
+            if (error) {
+                console.error("Error importing settings:", JSON.stringify(error, null, 2));
+                return { success: false, error: `Failed to import settings: ${error.message}`, counts };
+            }
+            counts.settings = 1;
+            continue;
+        }
+
+        if (table === 'daily_logs') {
+            // Logs are one row per date, so merge them with any that already exist.
+            for (const log of rows) {
+                const { error } = await upsertDailyLog(log as DbDailyLog);
+                if (error) return { success: false, error: `Failed to import daily logs: ${error.message}`, counts };
+            }
+            counts.daily_logs = rows.length;
+            continue;
+        }
+
+        // Reviews are one row per week; an imported week replaces the existing one, which keeps its id.
+        if (table === 'weekly_reviews') rows = rows.map(({ id: _id, ...review }) => review);
+
+        for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+            const chunk = rows.slice(i, i + IMPORT_CHUNK_SIZE);
+            const { error } = table === 'notifications'
+                ? await storage.from(table).upsert(chunk, { onConflict: 'user_id, unique_id', ignoreDuplicates: true })
+                : table === 'weekly_reviews'
+                    ? await storage.from(table).upsert(chunk, { onConflict: 'user_id, week_start' })
+                    : await storage.from(table).insert(chunk);
+            if (error) {
+                console.error(`Error importing ${table}:`, JSON.stringify(error, null, 2));
+                return { success: false, error: `Failed to import ${table.replace(/_/g, ' ')}: ${error.message}`, counts };
+            }
+        }
+        counts[table] = rows.length;
+    }
+
+    return { success: true, counts };
+};
@@ -1,6 +1,7 @@
 import { getTodayDateString } from '../utils/date';
+import { GoalRisk } from '../utils/goals';
 import { GoogleGenAI, GenerateContentResponse, FunctionDeclaration, Part, Type } from "@google/genai";
-import { Goal, Target, Project, Commitment, Task, AiMemory, PomodoroHistory, DbDailyLog } from '../types';
+import { Goal, Target, Project, Commitment, Task, AiMemory, PomodoroHistory, DbDailyLog, WeeklyReview } from '../types';
 
 /**
  * Initializes and returns a GoogleGenAI client instance.
@@ -141,12 +142,20 @@ export async function generateContent(prompt: string): Promise<string> {
 }
 
 export interface AgentContext {
-    goals: Pick<Goal, 'id' | 'text'>[];
-    targets: Pick<Target, 'id' | 'text' | 'deadline' | 'completed_at' | 'priority'>[];
-    projects: Pick<Project, 'id' | 'name' | 'description' | 'status' | 'start_date' | 'deadline' | 'completion_criteria_type' | 'completion_criteria_value' | 'progress_value' | 'priority' | 'active_days'>[];
+    goals: (Pick<Goal, 'id' | 'text' | 'completed_at'> & {
+        focus_minutes: number; // Rolled up from the goal's linked projects and targets, within the context range
+        completed_tasks: number;
+        total_tasks: number;
+        risk: GoalRisk;
+        next_deadline: string | null;
+    })[];
+    targets: Pick<Target, 'id' | 'text' | 'deadline' | 'completed_at' | 'priority' | 'goal_id'>[];
+    projects: Pick<Project, 'id' | 'name' | 'description' | 'status' | 'start_date' | 'deadline' | 'completion_criteria_type' | 'completion_criteria_value' | 'progress_value' | 'priority' | 'active_days' | 'goal_id'>[];
     commitments: Pick<Commitment, 'id' | 'text' | 'due_date'>[];
     tasks: Pick<Task, 'id' | 'text' | 'due_date' | 'completed_at' | 'project_id' | 'completed_poms' | 'total_poms' | 'comments' | 'priority' | 'tags'>[];
     dailyLogs: DbDailyLog[];
+    focusWindows: { overall: string | null; byWeekday: string[] }; // Precomputed best two-hour windows, already formatted
+    weeklyReviews: Pick<WeeklyReview, 'week_start' | 'wins' | 'challenges' | 'lessons' | 'next_week_focus'>[];
     pomodoroHistory: Pick<PomodoroHistory, 'id' | 'task_id' | 'ended_at' | 'duration_minutes'>[];
     aiMemories: Pick<AiMemory, 'id' | 'type' | 'content' | 'tags' | 'created_at'>[];
     dateRangeDescription: string;
@@ -182,7 +191,7 @@ When a user asks you to perform an action (e.g., "create a task", "set up a proj
 
 You are fully capable of performing detailed time-of-day analysis. To answer questions like "What time of day am I most productive?", you must analyze the timestamps provided in the context data.
 -   To determine when tasks are **completed**, analyze the \`completed_at\` timestamps in the \`tasks\` data. Extract the hour from each timestamp, group the tasks by hour of the day (e.g., 9 AM, 10 AM, etc.), and identify which hour has the most completed tasks.
--   To determine when the user **focuses most**, analyze the \`ended_at\` timestamps in the \`pomodoro_history\` data. Aggregate the total \`duration_minutes\` for each hour of the day to find the most focused periods.
+-   To determine when the user **focuses most**, start from the precomputed windows under 'FOCUS WINDOWS'. They weight focus minutes by focus rating and spread each session over the hours it spanned. For other questions, analyze the \`ended_at\` timestamps in the \`pomodoro_history\` data.
 Use this powerful analytical capability to provide insightful answers about the user's daily patterns. The timestamps provided in the context are in the user's local time.
 
 You are also capable of deleting specific Pomodoro history sessions if the user asks you to clean up their logs (e.g., remove a duplicate entry). This is a permanent and destructive action. You MUST always ask for confirmation from the user before using the 'deletePomodoroHistory' tool. Do not use this tool without explicit user consent for the specific session.
@@ -198,6 +207,7 @@ You have access to the user's data, structured in the following tables. Use this
     *   \`id\` (string, PK): Unique identifier.
     *   \`text\` (string): The description of the goal.
     *   \`completed_at\` (timestamp | null): Timestamp of completion.
+    *   Goals are the root of a hierarchy: projects and targets link to a goal via \`goal_id\`, and tasks belong to it through their project (or through a linked target's tags). The context lists each goal's rolled-up focus minutes, task completion and deadline risk ('overdue', 'at_risk', 'on_track', 'no_deadline', 'done').
 
 2.  **targets** - Specific, measurable outcomes with a deadline.
     *   \`id\` (string, PK): Unique identifier.
@@ -205,6 +215,7 @@ You have access to the user's data, structured in the following tables. Use this
     *   \`deadline\` (date string, YYYY-MM-DD): The target's due date.
     *   \`completed_at\` (timestamp | null): Timestamp of completion.
     *   \`priority\` (integer | null): Optional priority from 1 (highest) to 4 (lowest).
+    *   \`goal_id\` (string | null, FK -> goals.id): The goal this target serves.
 
 3.  **projects** - Large initiatives that group related tasks.
     *   \`id\` (string, PK): Unique identifier.
@@ -218,6 +229,7 @@ You have access to the user's data, structured in the following tables. Use this
     *   \`progress_value\` (number): Current progress towards the criteria value.
     *   \`priority\` (integer | null): Optional priority from 1 (highest) to 4 (lowest).
     *   \`active_days\` (array of integers | null): Days of week it is active (0=Sun, 6=Sat). Null/empty means active all days.
+    *   \`goal_id\` (string | null, FK -> goals.id): The goal this project serves.
 
 4.  **tasks** - Individual, actionable to-do items. The core unit of work.
     *   \`id\` (string, PK): Unique identifier.
@@ -264,6 +276,13 @@ You have access to the user's data, structured in the following tables. Use this
     *   \`total_focus_minutes\` (number)
     *   \`challenges\` (text): The user's daily reflection on problems faced.
     *   \`improvements\` (text): The user's daily reflection on how to improve.
+    *   \`wins\` (text): What went well that day.
+    *   \`mood\`, \`energy\` (number 1-5 | null): Self-rated at the end of the day.
+    *   \`tomorrow_priorities\` (string[]): Up to three priorities the user set for the next day.
+
+10. **weekly_reviews** (Provided in context as 'Weekly Reviews') - The user's answers to a guided end-of-week review.
+    *   \`week_start\` (date string, YYYY-MM-DD): The Monday the week starts on.
+    *   \`wins\`, \`challenges\`, \`lessons\`, \`next_week_focus\` (text)
 
 --- CONTEXT DATA (${context.dateRangeDescription}) ---
 The following is a snapshot of the user's data for the specified period.
@@ -272,10 +291,10 @@ The following is a snapshot of the user's data for the specified period.
 ${context.aiMemories.map(m => `- [${m.type.toUpperCase()}] (ID: ${m.id}) ${m.content} ${m.tags ? `Tags: [${m.tags.join(', ')}]` : ''}`).join('\n') || "No memories yet."}
 
 == CORE GOALS ==
-${context.goals.map(g => `- ${g.text} (ID: ${g.id})`).join('\n') || "No core goals set."}
+${context.goals.map(g => `- [${g.completed_at ? 'X' : ' '}] ${g.text} (Risk: ${g.risk}, Focus: ${g.focus_minutes} min, Tasks: ${g.completed_tasks}/${g.total_tasks} done, Next Deadline: ${g.next_deadline || 'N/A'}, ID: ${g.id})`).join('\n') || "No core goals set."}
 
 == KEY TARGETS ==
-${context.targets.map(t => `- [${t.completed_at ? 'X' : ' '}] ${t.text} (Due: ${t.deadline}, P:${t.priority || 3}, ID: ${t.id})`).join('\n') || 'No key targets set.'}
+${context.targets.map(t => `- [${t.completed_at ? 'X' : ' '}] ${t.text} (Due: ${t.deadline}, P:${t.priority || 3}, GoalID: ${t.goal_id || 'None'}, ID: ${t.id})`).join('\n') || 'No key targets set.'}
 
 == PROJECTS ==
 ${context.projects.map(p => {
@@ -283,7 +302,7 @@ ${context.projects.map(p => {
         if (p.completion_criteria_type === 'task_count') progress = `(${p.progress_value}/${p.completion_criteria_value} tasks)`;
         if (p.completion_criteria_type === 'duration_minutes') progress = `(${p.progress_value}/${p.completion_criteria_value} min)`;
         const activeDays = p.active_days && p.active_days.length > 0 ? p.active_days.join(',') : 'All';
-        return `- ${p.name} [${p.status}] ${progress} (Starts: ${p.start_date || 'N/A'}, Due: ${p.deadline || 'N/A'}, P:${p.priority || 3}, Active Days: ${activeDays}, ID: ${p.id})`;
+        return `- ${p.name} [${p.status}] ${progress} (Starts: ${p.start_date || 'N/A'}, Due: ${p.deadline || 'N/A'}, P:${p.priority || 3}, Active Days: ${activeDays}, GoalID: ${p.goal_id || 'None'}, ID: ${p.id})`;
     }).join('\n') || 'No projects.'}
 Note: When adding a task to a project, you MUST use the project's ID.
 
@@ -301,7 +320,21 @@ ${context.commitments.map(c => `- ${c.text} (Due: ${c.due_date || 'N/A'}, ID: ${
 This data is a summary derived from the \`pomodoro_history\` table and user reflections.
 ${context.dailyLogs.map(log => `- Date: ${log.date}, Focus Time: ${log.total_focus_minutes} minutes, Pomodoros: ${log.completed_sessions}
    ${log.challenges ? `* Challenges: ${log.challenges}` : ''}
-   ${log.improvements ? `* Improvements: ${log.improvements}` : ''}`).join('\n') || 'No focus sessions recorded in this range.'}
+   ${log.improvements ? `* Improvements: ${log.improvements}` : ''}
+   ${log.wins ? `* Wins: ${log.wins}` : ''}
+   ${log.mood || log.energy ? `* Mood: ${log.mood ?? 'N/A'}/5, Energy: ${log.energy ?? 'N/A'}/5` : ''}
+   ${log.tomorrow_priorities?.length ? `* Priorities for next day: ${log.tomorrow_priorities.join('; ')}` : ''}`).join('\n') || 'No focus sessions recorded in this range.'}
+
+== WEEKLY REVIEWS ==
+${context.weeklyReviews.map(r => `- Week of ${r.week_start}
+   ${r.wins ? `* Wins: ${r.wins}` : ''}
+   ${r.challenges ? `* Challenges: ${r.challenges}` : ''}
+   ${r.lessons ? `* Lessons: ${r.lessons}` : ''}
+   ${r.next_week_focus ? `* Focus for next week: ${r.next_week_focus}` : ''}`).join('\n') || 'No weekly reviews written yet.'}
+
+== FOCUS WINDOWS ==
+Best two-hour window overall: ${context.focusWindows.overall || 'Not enough sessions to tell.'}
+${context.focusWindows.byWeekday.map(w => `- ${w}`).join('\n') || 'No weekday has enough sessions for its own window.'}
 
 == POMODORO HISTORY IN RANGE ==
 This is the raw log of individual focus sessions. Use the \`ended_at\` timestamp for detailed time-of-day analysis. Timestamps are in your local time.
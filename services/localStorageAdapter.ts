@@ -0,0 +1,280 @@
+import { User } from '../types';
+import { generateUUID } from '../utils/id';
+import type { StorageAdapter, StorageQuery, StorageResult, StorageTable, StorageTableQuery } from './storageAdapter';
+
+type Row = Record<string, any>;
+
+export const LOCAL_USER: User = {
+    id: 'local-user',
+    aud: 'local',
+    app_metadata: {},
+    user_metadata: {},
+    created_at: '1970-01-01T00:00:00.000Z',
+};
+
+// Column defaults that the Supabase schema would otherwise fill in on insert.
+const TABLE_DEFAULTS: Partial<Record<StorageTable, Row>> = {
+    tasks: {
+        completed_poms: 0, comments: [], completed_at: null, project_id: null, tags: [], task_order: null,
+        custom_focus_duration: null, custom_break_duration: null, timer_preset_id: null, sound_mix_id: null, prerequisite_ids: null, subtasks: null, priority: null,
+        is_recurring: false, recurring_days: null, recurring_end_date: null, template_task_id: null,
+        stop_on_project_completion: false, is_active: true, recurrence_rule: null, recurring_start_date: null,
+        recurring_count: null, recurrence_exceptions: null, occurrence_date: null, is_missed: false, recurrence_processed_through: null,
+    },
+    projects: {
+        description: null, start_date: null, deadline: null, status: 'active', completed_at: null,
+        completion_criteria_type: 'manual', completion_criteria_value: null, progress_value: 0,
+        priority: null, active_days: null, is_pinned: false, goal_id: null, count_subtasks: false,
+    },
+    project_updates: { task_id: null },
+    goals: { completed_at: null },
+    targets: {
+        completed_at: null, priority: null, start_date: null, completion_mode: 'manual', tags: null,
+        target_minutes: null, progress_minutes: 0, is_pinned: false, goal_id: null,
+    },
+    commitments: { due_date: null, completed_at: null, broken_at: null, status: 'active' },
+    pomodoro_history: { task_id: null, difficulty: null, started_at: null, interruptions: null, wall_clock_minutes: null, source: 'timer', note: null, edit_history: null, check_in: null, pom_credit: null },
+    break_history: { task_id: null, extended_minutes: 0, is_long_break: false, activity: null },
+    daily_logs: {
+        completed_sessions: 0, total_focus_minutes: 0, challenges: null, improvements: null,
+        wins: null, mood: null, energy: null, tomorrow_priorities: null, reviewed_at: null, check_in: null,
+    },
+    weekly_reviews: { wins: null, challenges: null, lessons: null, next_week_focus: null },
+    ai_memories: { tags: null, source_task_id: null },
+    notifications: { read: false },
+};
+
+const PRIMARY_KEYS: Partial<Record<StorageTable, string[]>> = {
+    settings: ['user_id'],
+    active_sessions: ['user_id'],
+};
+
+// --- Persistence ---
+
+const tableKey = (table: StorageTable) => `focusflow-local:${table}`;
+
+const readTable = (table: StorageTable): Row[] => {
+    try {
+        return JSON.parse(localStorage.getItem(tableKey(table)) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const writeTable = (table: StorageTable, rows: Row[]): void => {
+    localStorage.setItem(tableKey(table), JSON.stringify(rows));
+};
+
+// Supabase ignores keys explicitly set to undefined (e.g. `id: undefined` when duplicating a row).
+const withoutUndefined = (row: Row): Row => Object.fromEntries(Object.entries(row).filter(([, v]) => v !== undefined));
+
+const createRow = (table: StorageTable, values: Row): Row => ({
+    ...TABLE_DEFAULTS[table],
+    id: generateUUID(),
+    created_at: new Date().toISOString(),
+    ...withoutUndefined(values),
+});
+
+// --- Select Projection ---
+
+// Splits "a, b, rel(x, y)" on top-level commas only.
+const splitColumns = (columns: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of columns) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+};
+
+// Embedded selects follow the schema's naming: `projects(name)` joins through `project_id`.
+const foreignKeyFor = (relation: string) => `${relation.replace(/s$/, '')}_id`;
+
+const project = (rows: Row[], columns: string): Row[] => {
+    const parts = splitColumns(columns || '*');
+    const embeds = parts
+        .map(part => part.match(/^(\w+)\((.*)\)$/))
+        .filter((m): m is RegExpMatchArray => !!m)
+        .map(([, relation, relationColumns]) => ({ relation, relationColumns, related: readTable(relation as StorageTable) }));
+    const plainColumns = parts.filter(part => !/\(/.test(part));
+
+    return rows.map(row => {
+        const result: Row = plainColumns.includes('*') ? { ...row } : Object.fromEntries(plainColumns.map(c => [c, row[c] ?? null]));
+        embeds.forEach(({ relation, relationColumns, related }) => {
+            const match = related.find(r => r.id === row[foreignKeyFor(relation)]);
+            result[relation] = match ? project([match], relationColumns)[0] : null;
+        });
+        return result;
+    });
+};
+
+// --- Query Builder ---
+
+type Action = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+class LocalQuery implements StorageQuery {
+    private filters: ((row: Row) => boolean)[] = [];
+    private orders: { column: string; ascending: boolean; nullsFirst: boolean }[] = [];
+    private rowLimit: number | null = null;
+    private columns: string | null = null;
+    private countRequested = false;
+    private headOnly = false;
+    private singleMode: 'single' | 'maybeSingle' | null = null;
+
+    constructor(
+        private table: StorageTable,
+        private action: Action,
+        private payload?: Row | Row[],
+        private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {},
+    ) {}
+
+    select(columns = '*', options?: { count?: 'exact'; head?: boolean }) {
+        this.columns = columns;
+        this.countRequested = options?.count === 'exact';
+        this.headOnly = !!options?.head;
+        return this;
+    }
+    eq(column: string, value: any) { this.filters.push(row => (row[column] ?? null) === value); return this; }
+    in(column: string, values: readonly any[]) { this.filters.push(row => values.includes(row[column])); return this; }
+    gt(column: string, value: any) { this.filters.push(row => row[column] != null && row[column] > value); return this; }
+    gte(column: string, value: any) { this.filters.push(row => row[column] != null && row[column] >= value); return this; }
+    lt(column: string, value: any) { this.filters.push(row => row[column] != null && row[column] < value); return this; }
+    lte(column: string, value: any) { this.filters.push(row => row[column] != null && row[column] <= value); return this; }
+    not(column: string, _operator: 'is', _value: null) { this.filters.push(row => row[column] != null); return this; }
+    order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }) {
+        const ascending = options?.ascending ?? true;
+        // Postgres puts nulls last in ascending order and first in descending order unless told otherwise.
+        this.orders.push({ column, ascending, nullsFirst: options?.nullsFirst ?? !ascending });
+        return this;
+    }
+    limit(count: number) { this.rowLimit = count; return this; }
+    single() { this.singleMode = 'single'; return this; }
+    maybeSingle() { this.singleMode = 'maybeSingle'; return this; }
+
+    then<TResult1 = StorageResult, TResult2 = never>(
+        onfulfilled?: ((value: StorageResult) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+    ): PromiseLike<TResult1 | TResult2> {
+        return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+    }
+
+    private matches(row: Row) {
+        return this.filters.every(filter => filter(row));
+    }
+
+    private compare = (a: Row, b: Row): number => {
+        for (const { column, ascending, nullsFirst } of this.orders) {
+            const x = a[column] ?? null;
+            const y = b[column] ?? null;
+            if (x === y) continue;
+            if (x === null) return nullsFirst ? -1 : 1;
+            if (y === null) return nullsFirst ? 1 : -1;
+            return (x < y ? -1 : 1) * (ascending ? 1 : -1);
+        }
+        return 0;
+    };
+
+    private applyMutation(): Row[] {
+        const rows = readTable(this.table);
+        switch (this.action) {
+            case 'select':
+                return rows.filter(row => this.matches(row));
+            case 'insert': {
+                const created = ([] as Row[]).concat(this.payload || []).map(values => createRow(this.table, values));
+                writeTable(this.table, [...rows, ...created]);
+                return created;
+            }
+            case 'update': {
+                const updated: Row[] = [];
+                const next = rows.map(row => {
+                    if (!this.matches(row)) return row;
+                    const merged = { ...row, ...withoutUndefined(this.payload as Row) };
+                    updated.push(merged);
+                    return merged;
+                });
+                writeTable(this.table, next);
+                return updated;
+            }
+            case 'upsert': {
+                const keys = this.upsertOptions.onConflict?.split(',').map(k => k.trim()) || PRIMARY_KEYS[this.table] || ['id'];
+                const affected: Row[] = [];
+                ([] as Row[]).concat(this.payload || []).forEach(values => {
+                    const index = rows.findIndex(row => keys.every(k => row[k] === values[k]));
+                    if (index === -1) {
+                        const created = createRow(this.table, values);
+                        rows.push(created);
+                        affected.push(created);
+                    } else if (!this.upsertOptions.ignoreDuplicates) {
+                        rows[index] = { ...rows[index], ...withoutUndefined(values) };
+                        affected.push(rows[index]);
+                    }
+                });
+                writeTable(this.table, rows);
+                return affected;
+            }
+            case 'delete': {
+                const removed = rows.filter(row => this.matches(row));
+                writeTable(this.table, rows.filter(row => !this.matches(row)));
+                return removed;
+            }
+        }
+    }
+
+    private execute(): StorageResult {
+        try {
+            let rows = this.applyMutation();
+            const count = this.countRequested ? rows.length : null;
+            // Like PostgREST, mutations only return rows when `.select()` is chained.
+            if (this.columns === null || this.headOnly) {
+                return { data: null, error: null, count };
+            }
+            if (this.orders.length > 0) rows = [...rows].sort(this.compare);
+            if (this.rowLimit !== null) rows = rows.slice(0, this.rowLimit);
+            const data = project(rows, this.columns);
+
+            if (this.singleMode === 'single' && data.length !== 1) {
+                return { data: null, error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' }, count };
+            }
+            if (this.singleMode === 'maybeSingle' && data.length > 1) {
+                return { data: null, error: { code: 'PGRST116', message: 'JSON object requested, multiple rows returned' }, count };
+            }
+            return { data: this.singleMode ? data[0] ?? null : data, error: null, count };
+        } catch (error: any) {
+            // Most likely the localStorage quota being exceeded.
+            return { data: null, error: { message: error?.message || String(error) }, count: null };
+        }
+    }
+}
+
+const fromTable = (table: StorageTable): StorageTableQuery => ({
+    select: (columns, options) => new LocalQuery(table, 'select').select(columns, options),
+    insert: (values) => new LocalQuery(table, 'insert', values as Row | Row[]),
+    update: (values) => new LocalQuery(table, 'update', values as Row),
+    upsert: (values, options) => new LocalQuery(table, 'upsert', values as Row | Row[], options),
+    delete: () => new LocalQuery(table, 'delete'),
+});
+
+/** Keeps all data in this browser's localStorage, for using FocusFlow without an account. */
+export const localAdapter: StorageAdapter = {
+    kind: 'local',
+    getUser: async () => ({ data: { user: LOCAL_USER } }),
+    from: fromTable,
+    // The browser only fires `storage` events in other tabs, which is exactly the "other client" case.
+    subscribe: (table, userId, onChange) => {
+        const handleStorage = (e: StorageEvent) => {
+            if (e.key !== tableKey(table)) return;
+            onChange(readTable(table).find(row => row.user_id === userId) ?? null);
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    },
+};
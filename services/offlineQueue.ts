@@ -0,0 +1,282 @@
+import * as dbService from './dbService';
+import { getStorageMode } from './storageAdapter';
+import { Task, FocusLevel, FocusSessionDetails, FocusSegmentLog, ManualFocusEntry } from '../types';
+
+// --- Mutation Registry ---
+
+/**
+ * The dbService writes that may be deferred while the device is offline.
+ * Each entry must be safe to run later with the exact arguments recorded at the time of the action.
+ */
+const mutations = {
+    addTask: dbService.addTask,
+    updateTask: dbService.updateTask,
+    deleteTask: dbService.deleteTask,
+    moveTask: dbService.moveTask,
+    bringTaskForward: dbService.bringTaskForward,
+    markTaskIncomplete: dbService.markTaskIncomplete,
+    updateTaskOrder: dbService.updateTaskOrder,
+    addPomodoroHistory: dbService.addPomodoroHistory,
+    logManualFocusSession: dbService.logManualFocusSession,
+    updatePomodoroHistory: dbService.updatePomodoroHistory,
+    deletePomodoroHistoryById: dbService.deletePomodoroHistoryById,
+    addBreakHistory: dbService.addBreakHistory,
+    addProjectUpdate: dbService.addProjectUpdate,
+    saveDailyReview: dbService.saveDailyReview,
+    saveDailyCheckIn: dbService.saveDailyCheckIn,
+    saveWeeklyReview: dbService.saveWeeklyReview,
+    logPomodoroCompletion: async (task: Task, comment: string, durationMinutes: number, focusLevel: FocusLevel | null, endedAt?: string, sessionDetails?: FocusSessionDetails) => {
+        const updatedTask = await dbService.logPomodoroCompletion(task, comment, durationMinutes, focusLevel, endedAt, sessionDetails);
+        if (updatedTask?.tags && updatedTask.tags.length > 0) {
+            await dbService.recalculateProgressForAffectedTargets(updatedTask.tags, updatedTask.user_id);
+        }
+        return updatedTask;
+    },
+    logSplitPomodoroCompletion: async (segments: FocusSegmentLog[], comment: string, focusLevel: FocusLevel | null) => {
+        const updatedTasks = await dbService.logSplitPomodoroCompletion(segments, comment, focusLevel);
+        const tags = [...new Set((updatedTasks || []).flatMap(t => t.tags || []))];
+        if (updatedTasks && tags.length > 0) {
+            await dbService.recalculateProgressForAffectedTargets(tags, updatedTasks[0].user_id);
+        }
+        return updatedTasks;
+    },
+};
+
+export type MutationName = keyof typeof mutations;
+type MutationArgs<K extends MutationName> = Parameters<(typeof mutations)[K]>;
+type MutationResult<K extends MutationName> = Awaited<ReturnType<(typeof mutations)[K]>>;
+
+interface QueuedMutationOf<K extends MutationName> {
+    id: number;
+    name: K;
+    args: MutationArgs<K>;
+    created_at: string;
+    status: 'pending' | 'failed';
+    attempts: number;
+    error: string | null;
+}
+
+/** A recorded mutation; `args` always match the parameters of the named mutation. */
+export type QueuedMutation = { [K in MutationName]: QueuedMutationOf<K> }[MutationName];
+
+const runMutation = <K extends MutationName>(name: K, args: MutationArgs<K>): Promise<MutationResult<K>> =>
+    (mutations[name] as (...a: MutationArgs<K>) => Promise<MutationResult<K>>)(...args);
+
+// dbService swallows Supabase errors and signals failure through its return value.
+const isSuccessfulResult = (name: MutationName, result: unknown): boolean => {
+    if (name === 'addPomodoroHistory' || name === 'addBreakHistory') return !(result as { error: unknown } | null)?.error;
+    return result !== null && result !== false && result !== undefined;
+};
+
+const isNetworkError = (error: unknown): boolean =>
+    error instanceof TypeError && /fetch|network/i.test(error.message);
+
+export const describeMutation = (mutation: Pick<QueuedMutation, 'name' | 'args'>): string => {
+    const [first] = mutation.args;
+    switch (mutation.name) {
+        case 'addTask': return `Add task "${first}"`;
+        case 'updateTask': return 'Update task';
+        case 'deleteTask': return 'Delete task';
+        case 'moveTask': return `${mutation.args[1] === 'duplicate' ? 'Duplicate' : 'Postpone'} task`;
+        case 'bringTaskForward': return 'Move task to today';
+        case 'markTaskIncomplete': return 'Mark task incomplete';
+        case 'updateTaskOrder': return 'Reorder tasks';
+        case 'addPomodoroHistory': return `Log ${mutation.args[1]} min of focus`;
+        case 'updatePomodoroHistory': return 'Edit focus session';
+        case 'deletePomodoroHistoryById': return 'Delete focus session';
+        case 'logManualFocusSession': return `Log ${(first as ManualFocusEntry)?.duration_minutes ?? 0} min of manual focus`;
+        case 'addBreakHistory': return `Log ${(first as { duration_minutes: number })?.duration_minutes ?? 0} min break`;
+        case 'addProjectUpdate': return 'Add project update';
+        case 'saveDailyReview': return `Save review for ${first}`;
+        case 'saveDailyCheckIn': return `Save check-in for ${first}`;
+        case 'saveWeeklyReview': return `Save weekly review for the week of ${first}`;
+        case 'logPomodoroCompletion': return `Log session for "${(first as Task)?.text ?? 'task'}"`;
+        case 'logSplitPomodoroCompletion': return `Log session split into ${(first as FocusSegmentLog[])?.length ?? 0} parts`;
+        default: return mutation.name;
+    }
+};
+
+// --- IndexedDB Storage ---
+
+const DB_NAME = 'focusflow-offline';
+const STORE_NAME = 'mutations';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// Used when IndexedDB is unavailable (e.g. some private browsing modes); lost on reload.
+let memoryFallback: QueuedMutation[] = [];
+let memoryFallbackId = 1;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.error("Error opening offline queue database:", request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runStoreRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    if (!db) throw new Error("IndexedDB is not available.");
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const readAll = async (): Promise<QueuedMutation[]> => {
+    if (!(await openDb())) return [...memoryFallback];
+    const items = await runStoreRequest<QueuedMutation[]>('readonly', store => store.getAll());
+    return items.sort((a, b) => a.id - b.id);
+};
+
+const putMutation = async <K extends MutationName>(mutation: Omit<QueuedMutationOf<K>, 'id'> & { id?: number }): Promise<void> => {
+    if (!(await openDb())) {
+        const withId = { ...mutation, id: mutation.id ?? memoryFallbackId++ } as QueuedMutation;
+        memoryFallback = [...memoryFallback.filter(m => m.id !== withId.id), withId].sort((a, b) => a.id - b.id);
+        return;
+    }
+    await runStoreRequest('readwrite', store => store.put(mutation));
+};
+
+const deleteMutation = async (id: number): Promise<void> => {
+    if (!(await openDb())) {
+        memoryFallback = memoryFallback.filter(m => m.id !== id);
+        return;
+    }
+    await runStoreRequest('readwrite', store => store.delete(id));
+};
+
+// --- Change Notification ---
+
+type QueueListener = (items: QueuedMutation[]) => void;
+const listeners = new Set<QueueListener>();
+let cachedQueue: QueuedMutation[] = [];
+
+const notifyListeners = async (): Promise<void> => {
+    cachedQueue = await readAll();
+    listeners.forEach(listener => listener(cachedQueue));
+};
+
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+    listeners.add(listener);
+    readAll().then(items => {
+        cachedQueue = items;
+        listener(items);
+    });
+    return () => { listeners.delete(listener); };
+};
+
+export const getQueuedMutations = (): Promise<QueuedMutation[]> => readAll();
+
+// --- Public API ---
+
+const enqueue = async <K extends MutationName>(name: K, args: MutationArgs<K>, status: QueuedMutation['status'] = 'pending', error: string | null = null): Promise<void> => {
+    await putMutation<K>({ name, args, created_at: new Date().toISOString(), status, attempts: status === 'failed' ? 1 : 0, error });
+    await notifyListeners();
+};
+
+/** 'synced' — written to the server now; 'queued' — saved locally until the connection returns; 'failed' — rejected by the server and kept for a manual retry. */
+export type WriteStatus = 'synced' | 'queued' | 'failed';
+
+/**
+ * Runs a dbService mutation now, or records it for later if the device is offline.
+ * While older changes are still waiting to sync, new ones are queued behind them so the server sees them in order.
+ */
+export const runOrQueue = async <K extends MutationName>(name: K, ...args: MutationArgs<K>): Promise<{ status: WriteStatus; result: MutationResult<K> | null }> => {
+    const isLocalMode = getStorageMode() === 'local';
+    const hasPendingChanges = cachedQueue.some(m => m.status === 'pending');
+    if (!isLocalMode && (!navigator.onLine || hasPendingChanges)) {
+        await enqueue(name, args);
+        return { status: 'queued', result: null };
+    }
+
+    try {
+        const result = await runMutation(name, args);
+        if (isSuccessfulResult(name, result)) return { status: 'synced', result };
+        if (!navigator.onLine && !isLocalMode) {
+            await enqueue(name, args);
+            return { status: 'queued', result: null };
+        }
+        await enqueue(name, args, 'failed', 'The server rejected this change.');
+        return { status: 'failed', result: null };
+    } catch (error) {
+        if (!isLocalMode && (!navigator.onLine || isNetworkError(error))) {
+            await enqueue(name, args);
+            return { status: 'queued', result: null };
+        }
+        throw error;
+    }
+};
+
+let replayInProgress: Promise<number> | null = null;
+
+/**
+ * Replays pending mutations in the order they were recorded. Stops early if the connection drops again;
+ * items the server rejects while online are marked 'failed' so the user can retry or discard them.
+ * Resolves with the number of mutations that were synced.
+ */
+export const replayQueue = (): Promise<number> => {
+    if (replayInProgress) return replayInProgress;
+
+    replayInProgress = (async () => {
+        let synced = 0;
+        try {
+            const items = (await readAll()).filter(m => m.status === 'pending');
+            for (const item of items) {
+                if (!navigator.onLine) break;
+                let result: unknown = null;
+                let errorMessage: string | null = null;
+                try {
+                    result = await runMutation(item.name, item.args);
+                } catch (error) {
+                    errorMessage = error instanceof Error ? error.message : String(error);
+                    if (!navigator.onLine || isNetworkError(error)) break;
+                }
+
+                if (!errorMessage && isSuccessfulResult(item.name, result)) {
+                    await deleteMutation(item.id);
+                    synced++;
+                } else if (!navigator.onLine) {
+                    break;
+                } else {
+                    await putMutation({ ...item, status: 'failed', attempts: item.attempts + 1, error: errorMessage || 'The server rejected this change.' });
+                }
+            }
+        } catch (error) {
+            console.error("Error replaying offline queue:", error);
+        } finally {
+            await notifyListeners();
+            replayInProgress = null;
+        }
+        return synced;
+    })();
+
+    return replayInProgress;
+};
+
+export const retryMutation = async (id: number): Promise<number> => {
+    const item = (await readAll()).find(m => m.id === id);
+    if (!item) return 0;
+    await putMutation({ ...item, status: 'pending', error: null });
+    await notifyListeners();
+    return replayQueue();
+};
+
+export const discardMutation = async (id: number): Promise<void> => {
+    await deleteMutation(id);
+    await notifyListeners();
+};
@@ -0,0 +1,78 @@
+import { CustomSound } from '../types';
+
+// Uploaded alarm sounds stay on this device; other devices fall back to the default tone for that event.
+
+// --- IndexedDB Storage ---
+
+const DB_NAME = 'focusflow-sounds';
+const STORE_NAME = 'sounds';
+
+export const MAX_CUSTOM_SOUND_BYTES = 2 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.error("Error opening sound library database:", request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runStoreRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    if (!db) throw new Error("IndexedDB is not available.");
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// --- Public API ---
+
+export const getCustomSounds = async (): Promise<CustomSound[]> => {
+    try {
+        const sounds = await runStoreRequest<CustomSound[]>('readonly', store => store.getAll());
+        return sounds.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+        console.error("Error loading custom sounds:", error);
+        return [];
+    }
+};
+
+export const addCustomSound = async (file: File): Promise<CustomSound | { error: string }> => {
+    if (!file.type.startsWith('audio/')) return { error: 'Please choose an audio file.' };
+    if (file.size > MAX_CUSTOM_SOUND_BYTES) return { error: 'Sound files must be 2 MB or smaller.' };
+    const sound: CustomSound = { id: `upload-${Date.now()}`, name: file.name.replace(/\.[^.]+$/, ''), data: file };
+    try {
+        await runStoreRequest('readwrite', store => store.put(sound));
+        return sound;
+    } catch (error) {
+        console.error("Error saving custom sound:", error);
+        return { error: 'This browser could not store the sound.' };
+    }
+};
+
+export const deleteCustomSound = async (id: string): Promise<boolean> => {
+    try {
+        await runStoreRequest('readwrite', store => store.delete(id));
+        return true;
+    } catch (error) {
+        console.error("Error deleting custom sound:", error);
+        return false;
+    }
+};
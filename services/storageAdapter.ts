@@ -0,0 +1,101 @@
+import { Session, User } from '../types';
+import { supabaseAdapter } from './supabaseAdapter';
+import { localAdapter, LOCAL_USER } from './localStorageAdapter';
+
+// --- Storage Adapter Contract ---
+
+export type StorageTable =
+    | 'tasks'
+    | 'projects'
+    | 'project_updates'
+    | 'goals'
+    | 'targets'
+    | 'commitments'
+    | 'pomodoro_history'
+    | 'break_history'
+    | 'daily_logs'
+    | 'weekly_reviews'
+    | 'ai_memories'
+    | 'notifications'
+    | 'settings'
+    | 'active_sessions';
+
+export interface StorageResult {
+    data: any;
+    error: any;
+    count?: number | null;
+}
+
+/**
+ * The subset of the PostgREST query builder that dbService relies on.
+ * Every adapter must honour these calls with Supabase's semantics, including
+ * `{ data, error }` results, embedded `relation(columns)` selects and `.single()` errors.
+ */
+export interface StorageQuery extends PromiseLike<StorageResult> {
+    select(columns?: string, options?: { count?: 'exact'; head?: boolean }): StorageQuery;
+    eq(column: string, value: any): StorageQuery;
+    in(column: string, values: readonly any[]): StorageQuery;
+    gt(column: string, value: any): StorageQuery;
+    gte(column: string, value: any): StorageQuery;
+    lt(column: string, value: any): StorageQuery;
+    lte(column: string, value: any): StorageQuery;
+    not(column: string, operator: 'is', value: null): StorageQuery;
+    order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): StorageQuery;
+    limit(count: number): StorageQuery;
+    single(): StorageQuery;
+    maybeSingle(): StorageQuery;
+}
+
+export interface StorageTableQuery {
+    select(columns?: string, options?: { count?: 'exact'; head?: boolean }): StorageQuery;
+    insert(values: object | object[]): StorageQuery;
+    update(values: object): StorageQuery;
+    upsert(values: object | object[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): StorageQuery;
+    delete(): StorageQuery;
+}
+
+export interface StorageAdapter {
+    readonly kind: 'supabase' | 'local';
+    getUser(): Promise<{ data: { user: User | null } }>;
+    from(table: StorageTable): StorageTableQuery;
+    /** Calls `onChange` with the user's row (or null once deleted) whenever another client changes it. Returns an unsubscribe function. */
+    subscribe(table: StorageTable, userId: string, onChange: (row: any | null) => void): () => void;
+}
+
+// --- Active Backend ---
+
+export type StorageMode = StorageAdapter['kind'];
+
+const STORAGE_MODE_KEY = 'focusflow-storage-mode';
+
+export const getStorageMode = (): StorageMode => {
+    try {
+        return localStorage.getItem(STORAGE_MODE_KEY) === 'local' ? 'local' : 'supabase';
+    } catch {
+        return 'supabase';
+    }
+};
+
+export const setStorageMode = (mode: StorageMode): void => {
+    if (mode === 'local') localStorage.setItem(STORAGE_MODE_KEY, 'local');
+    else localStorage.removeItem(STORAGE_MODE_KEY);
+};
+
+export const getStorage = (): StorageAdapter => (getStorageMode() === 'local' ? localAdapter : supabaseAdapter);
+
+/** Resolves the active adapter on every call so switching modes takes effect without a reload. */
+export const storage: StorageAdapter = {
+    get kind() { return getStorage().kind; },
+    getUser: () => getStorage().getUser(),
+    from: (table) => getStorage().from(table),
+    subscribe: (table, userId, onChange) => getStorage().subscribe(table, userId, onChange),
+};
+
+/** A stand-in session for local mode, so the rest of the app can keep gating on `session`. */
+export const getLocalSession = (): Session => ({
+    access_token: '',
+    refresh_token: '',
+    expires_in: 0,
+    token_type: 'bearer',
+    user: LOCAL_USER,
+});
@@ -0,0 +1,22 @@
+import { supabase } from './supabaseClient';
+import type { StorageAdapter, StorageTableQuery } from './storageAdapter';
+
+export const supabaseAdapter: StorageAdapter = {
+    kind: 'supabase',
+    getUser: async () => {
+        const { data } = await supabase.auth.getUser();
+        return { data: { user: data.user } };
+    },
+    // The Postgrest builder already implements the StorageQuery contract; it is the reference for it.
+    from: (table) => supabase.from(table) as unknown as StorageTableQuery,
+    // Requires the table to be part of the `supabase_realtime` publication.
+    subscribe: (table, userId, onChange) => {
+        const channel = supabase
+            .channel(`${table}:${userId}`)
+            .on('postgres_changes', { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` }, payload => {
+                onChange(payload.eventType === 'DELETE' ? null : payload.new);
+            })
+            .subscribe();
+        return () => { supabase.removeChannel(channel); };
+    },
+};
@@ -45,4 +45,26 @@ self.addEventListener('activate', event => {
       );
     })
   );
-});
\ No newline at end of file
+});
+
+// Notification actions are handled by the app: focus its window and forward the click.
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const message = { type: 'notification-click', action: event.action || '', data: event.notification.data || {} };
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then(clientList => {
+        const client = clientList.find(c => c.focused) || clientList[0];
+        if (client) {
+          client.postMessage(message);
+          return client.focus();
+        }
+        // No window is open: pass the click through the URL; the restored timer picks up where it left off.
+        const params = new URLSearchParams();
+        if (message.data.page) params.set('page', message.data.page);
+        if (message.action) params.set('notificationAction', message.action);
+        const query = params.toString();
+        return self.clients.openWindow(query ? `./?${query}` : './');
+      })
+  );
+});
@@ -2,7 +2,7 @@ import { Session, User } from '@supabase/supabase-js';
 
 export type Mode = 'focus' | 'break';
 
-export type Page = 'timer' | 'plan' | 'stats' | 'ai' | 'settings' | 'goals';
+export type Page = 'timer' | 'plan' | 'stats' | 'ai' | 'settings' | 'goals' | 'review';
 
 // Corresponds to the `projects` table
 export interface Project {
@@ -20,6 +20,8 @@ export interface Project {
     priority: number | null;
     active_days: number[] | null;
     is_pinned: boolean;
+    goal_id?: string | null; // The long-term goal this project serves
+    count_subtasks?: boolean; // For 'task_count' projects, each checklist item counts as a task
 }
 
 // Corresponds to the `project_updates` table
@@ -70,6 +72,25 @@ export interface Target {
     target_minutes: number | null;
     progress_minutes: number;
     is_pinned: boolean;
+    goal_id?: string | null; // The long-term goal this target serves
+}
+
+// A checklist item inside a task
+export interface Subtask {
+    id: string;
+    text: string;
+    completed_at: string | null;
+}
+
+// How a recurring template repeats. Templates without a rule repeat weekly on `recurring_days`.
+export type RecurrenceFrequency = 'weekly' | 'interval' | 'monthly_date' | 'monthly_weekday' | 'after_completion';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval?: number; // Weeks for 'weekly', days for 'interval' and 'after_completion'
+    month_day?: number; // 'monthly_date'; clamped to the last day of shorter months
+    week_of_month?: number; // 'monthly_weekday': 1-4, or -1 for the last one
+    weekday?: number; // 'monthly_weekday': 0 = Sunday
 }
 
 // Corresponds to the `tasks` table
@@ -89,6 +110,10 @@ export interface Task {
     projects?: { name: string } | null; // For joined data
     custom_focus_duration: number | null;
     custom_break_duration: number | null;
+    timer_preset_id?: string | null; // Built-in or custom TimerPreset id; custom durations above still win
+    sound_mix_id?: string | null; // SavedSoundMix to play while focusing on this task
+    prerequisite_ids?: string[] | null; // Tasks that must be completed before this one can be worked on
+    subtasks?: Subtask[] | null;
     priority: number | null;
     // New fields for recurrence
     is_recurring?: boolean;
@@ -97,17 +122,78 @@ export interface Task {
     template_task_id?: string | null;
     stop_on_project_completion?: boolean;
     is_active?: boolean;
+    recurrence_rule?: RecurrenceRule | null;
+    recurring_start_date?: string | null;
+    recurring_count?: number | null; // Stop after this many occurrences
+    recurrence_exceptions?: Record<string, string | null> | null; // Occurrence date → the date it was moved to, or null when skipped
+    occurrence_date?: string | null; // On generated tasks: the date the template scheduled, even after the task is moved
+    is_missed?: boolean; // Backfilled for an occurrence that passed while the app wasn't opened
+    recurrence_processed_through?: string | null; // On templates: the last date occurrences have been generated for
+}
+
+// A named focus/break pattern, selectable in Settings and per task
+export interface TimerPreset {
+    id: string;
+    name: string;
+    focusDuration: number;
+    breakDuration: number;
+    longBreakDuration: number;
+    sessionsPerCycle: number;
+}
+
+// Ambient soundscape mixer; volumes are 0-1 per channel
+export type SoundChannel = 'white' | 'pink' | 'brown' | 'rain' | 'binaural' | 'clock';
+
+export interface SoundMix {
+    volumes: Record<SoundChannel, number>;
+    binauralBaseHz: number;
+    binauralBeatHz: number;
+}
+
+export interface SavedSoundMix extends SoundMix {
+    id: string;
+    name: string;
+    tags: string[]; // Default soundscape for tasks with any of these tags
+}
+
+// Audio cues; each event plays a built-in tone id or the id of a sound uploaded on this device
+export type SoundEvent = 'focusStart' | 'focusEnd' | 'breakStart' | 'breakEnd' | 'alert' | 'notification';
+
+export interface SoundSettings {
+    volume: number; // Master volume for cues, 0-1
+    silentMode: boolean; // No cues at all; phase ends are announced with system notifications instead
+    alertRepeatCount: number; // How often the alert repeats while the completion modal is open; 0 = until dismissed
+    alertIntervalSeconds: number;
+    eventSounds: Record<SoundEvent, string>;
+}
+
+export interface CustomSound {
+    id: string;
+    name: string;
+    data: Blob;
 }
 
 // Corresponds to the `settings` table (without user_id)
 export interface Settings {
     focusDuration: number;
     breakDuration: number;
+    longBreakDuration: number;
     sessionsPerCycle: number;
+    autoStartNextPhase: boolean;
+    customTimerPresets: TimerPreset[];
+    breakActivities: string[];
+    soundMixes: SavedSoundMix[];
+    autoPlaySoundscape: boolean; // Start the task's soundscape with focus and fade it out for breaks
+    soundSettings: SoundSettings;
     todaySortBy: 'default' | 'priority';
+    splitSessionCredit: SplitSessionCredit;
+    wellbeingCheckIns: boolean; // Offer the start-of-day and end-of-session check-ins
     dailyFocusTarget: number | null;
     dailyFocusTargetsByDay: { [key: number]: number | null } | null;
 }
+// How a pomodoro that switched tasks part-way is counted toward each task's completed_poms
+export type SplitSessionCredit = 'proportional' | 'longest';
+
 export interface DbSettings extends Settings {
     user_id: string;
     updated_at: string;
@@ -122,21 +208,124 @@ export interface DbDailyLog {
     total_focus_minutes: number;
     challenges?: string | null;
     improvements?: string | null;
+    wins?: string | null;
+    mood?: number | null; // 1-5
+    energy?: number | null; // 1-5
+    tomorrow_priorities?: string[] | null; // Up to three things to get done first tomorrow
+    reviewed_at?: string | null; // Set once the end-of-day review has been saved
+    check_in?: WellbeingCheckIn | null; // The start-of-day check-in
+}
+
+// A quick self-report of how the user feels, taken at the start of the day and after focus sessions.
+// Every field may be skipped.
+export interface WellbeingCheckIn {
+    energy: number | null; // 1-5
+    mood: number | null; // 1-5
+    sleep_hours?: number | null; // Only asked at the start of the day
+    caffeine?: number | null; // Caffeinated drinks so far today
+}
+
+// The answers of the guided end-of-day review, stored on that day's daily_logs row
+export type DailyReview = Required<Pick<DbDailyLog, 'challenges' | 'improvements' | 'wins' | 'mood' | 'energy' | 'tomorrow_priorities'>>;
+
+// Corresponds to the `weekly_reviews` table, one row per user and week
+export interface WeeklyReview {
+    id: string;
+    user_id: string;
+    week_start: string; // YYYY-MM-DD, the Monday of the week
+    wins: string | null;
+    challenges: string | null;
+    lessons: string | null;
+    next_week_focus: string | null;
+    created_at: string;
+    updated_at: string;
 }
 
+export type WeeklyReviewAnswers = Pick<WeeklyReview, 'wins' | 'challenges' | 'lessons' | 'next_week_focus'>;
+
 // New type for focus level
 export type FocusLevel = 'complete_focus' | 'half_focus' | 'none_focus';
 
+// A pause inside a focus session; `resumed_at` stays null while the timer is still paused
+export interface SessionInterruption {
+    paused_at: string;
+    resumed_at: string | null;
+    reason: string | null;
+}
+
+// Part of a focus session spent on one task; a new segment starts each time the task is switched mid-session
+export interface FocusSegment {
+    task_id: string | null;
+    started_at: string;
+    start_elapsed_seconds: number; // Focus seconds already elapsed in the session when the segment began
+}
+
+// Start time and pauses of a focus session, recorded alongside its history row
+export interface FocusSessionDetails {
+    started_at: string;
+    interruptions: SessionInterruption[];
+    segments?: FocusSegment[]; // Only set once the task has been switched; each segment gets its own history row
+    check_in?: WellbeingCheckIn | null; // Answered in the completion modal
+}
+
+// One segment of a split session, ready to be written as its own pomodoro_history row
+export interface FocusSegmentLog {
+    task_id: string | null;
+    duration_minutes: number;
+    pom_credit: number; // Added to the task's completed_poms
+    ended_at: string;
+    details: FocusSessionDetails;
+}
+
 // Corresponds to the new `pomodoro_history` table
 export interface PomodoroHistory {
     id: string;
     user_id: string;
     task_id: string | null;
     ended_at: string;
-    duration_minutes: number;
+    duration_minutes: number; // net focus time
     difficulty: FocusLevel | null;
+    started_at?: string | null;
+    interruptions?: SessionInterruption[] | null;
+    wall_clock_minutes?: number | null; // started_at to ended_at, including pauses
+    source?: 'timer' | 'manual' | null; // null on sessions logged before manual entry existed, which all came from the timer
+    note?: string | null;
+    edit_history?: PomodoroHistoryEdit[] | null; // Values replaced by corrections, oldest first
+    check_in?: WellbeingCheckIn | null;
+    pom_credit?: number | null; // The share of a pomodoro a split segment gave its task; null means a whole one
 }
 
+// The parts of a logged session that can be corrected afterwards
+export type PomodoroHistoryFields = Pick<PomodoroHistory, 'task_id' | 'duration_minutes' | 'ended_at' | 'difficulty'>;
+
+export interface PomodoroHistoryEdit {
+    edited_at: string;
+    previous: PomodoroHistoryFields;
+}
+
+// Focus time recorded by hand after the fact, e.g. for studying away from the device
+export interface ManualFocusEntry {
+    task_id: string | null;
+    started_at: string;
+    ended_at: string;
+    duration_minutes: number; // Net focus time, which may be shorter than started_at to ended_at
+    difficulty: FocusLevel | null;
+    note: string | null;
+}
+
+// Corresponds to the `active_sessions` table (one row per user), mirroring the running timer across devices
+export interface ActiveSession {
+    user_id: string;
+    mode: Mode;
+    task_id: string | null;
+    phase_end_time: number | null; // epoch ms; set while a countdown is running
+    current_session: number;
+    time_remaining: number; // seconds; authoritative while paused (elapsed seconds for stopwatch tasks)
+    session_total_time: number;
+    is_running: boolean;
+    updated_by: string; // client id of the last writer, so clients can ignore their own echoes
+    updated_at: string;
+}
 
 // Legacy types for compatibility during refactor
 export interface AppState {
@@ -145,6 +334,7 @@ export interface AppState {
     timeRemaining: number;
     isRunning: boolean;
     sessionTotalTime: number;
+    activeTaskId?: string | null; // The task chosen for the timer; null is a free session with no task, unset follows today's list
 }
 
 // For the AI Coach chat
@@ -176,6 +366,45 @@ export interface AppNotification {
   unique_id: string;
 }
 
+// Corresponds to the `break_history` table
+export type BreakOutcome = 'completed' | 'skipped' | 'extended';
+
+export interface BreakHistory {
+    id: string;
+    user_id: string;
+    task_id: string | null; // The task whose focus session the break followed
+    started_at: string;
+    ended_at: string;
+    planned_minutes: number;
+    duration_minutes: number;
+    extended_minutes: number;
+    is_long_break: boolean;
+    outcome: BreakOutcome;
+    activity: string | null;
+}
+
+// The break in progress; becomes a BreakHistory row when the break ends
+export interface BreakSessionDetails {
+    started_at: string;
+    task_id: string | null;
+    planned_minutes: number;
+    extended_minutes: number;
+    is_long_break: boolean;
+    activity: string | null;
+    skipped: boolean;
+    ended_at: string | null;
+    duration_seconds: number | null;
+}
+
+// Versioned snapshot of every user table, produced by the Export/Import section in Settings
+export type ArchiveTable = 'settings' | 'goals' | 'projects' | 'targets' | 'commitments' | 'tasks' | 'project_updates' | 'pomodoro_history' | 'break_history' | 'daily_logs' | 'weekly_reviews' | 'ai_memories' | 'notifications';
+
+export interface DataArchive {
+    app: 'focusflow';
+    version: number;
+    exported_at: string;
+    tables: Record<ArchiveTable, Record<string, any>[]>;
+}
 
 // Supabase session and user for auth
 export type { Session, User };
\ No newline at end of file
@@ -1,9 +1,9 @@
 
+import { CustomSound, SoundEvent, SoundSettings } from '../types';
+
 let audioContext: AudioContext | null = null;
-let whiteNoiseNode: AudioBufferSourceNode | null = null;
-let whiteNoiseGainNode: GainNode | null = null;
 
-const getAudioContext = (): AudioContext | null => {
+export const getAudioContext = (): AudioContext | null => {
     if (!audioContext && (window.AudioContext || (window as any).webkitAudioContext)) {
         audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
     }
@@ -17,7 +17,66 @@ export const resumeAudioContext = (): void => {
     }
 };
 
-const playSound = (frequency: number, duration: number): void => {
+// --- Cues ---
+
+// [frequency (Hz), duration (s), delay (ms)]
+type Note = [number, number, number];
+
+export const NO_SOUND = 'none';
+
+export const BUILT_IN_TONES: { id: string; name: string; notes: Note[] }[] = [
+    { id: 'rise', name: 'Rising Chime', notes: [[523.25, 0.15, 0], [659.25, 0.15, 150], [783.99, 0.2, 300], [1046.50, 0.25, 450]] },
+    { id: 'fanfare', name: 'Fanfare', notes: [[1046.50, 0.1, 0], [1174.66, 0.1, 100], [1318.51, 0.1, 200], [1567.98, 0.2, 300], [1567.98, 0.1, 500], [1318.51, 0.3, 600]] },
+    { id: 'fall', name: 'Falling Chime', notes: [[880, 0.2, 0], [783.99, 0.2, 200], [659.25, 0.2, 400], [523.25, 0.3, 600]] },
+    { id: 'wake', name: 'Wake Up', notes: [[659.25, 0.15, 0], [659.25, 0.15, 200], [783.99, 0.2, 400], [1046.50, 0.25, 600]] },
+    { id: 'alarm', name: 'Alarm', notes: [[1000, 0.3, 0], [1200, 0.3, 400]] },
+    { id: 'ping', name: 'Ping', notes: [[880.00, 0.1, 0], [1046.50, 0.2, 120]] },
+    { id: 'bell', name: 'Soft Bell', notes: [[1318.51, 1.2, 0], [659.25, 1.2, 0]] },
+    { id: 'pulse', name: 'Triple Pulse', notes: [[740, 0.12, 0], [740, 0.12, 250], [740, 0.12, 500]] },
+];
+
+export const SOUND_EVENTS: { id: SoundEvent; label: string }[] = [
+    { id: 'focusStart', label: 'Focus starts' },
+    { id: 'focusEnd', label: 'Focus ends' },
+    { id: 'breakStart', label: 'Break starts' },
+    { id: 'breakEnd', label: 'Break ends' },
+    { id: 'alert', label: 'Repeating alert' },
+    { id: 'notification', label: 'In-app notification' },
+];
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+    volume: 0.8,
+    silentMode: false,
+    alertRepeatCount: 0,
+    alertIntervalSeconds: 3,
+    eventSounds: { focusStart: 'rise', focusEnd: 'fanfare', breakStart: 'fall', breakEnd: 'wake', alert: 'alarm', notification: 'ping' },
+};
+
+let soundSettings: SoundSettings = DEFAULT_SOUND_SETTINGS;
+const customSoundBuffers = new Map<string, AudioBuffer>();
+let alertTimer: number | null = null;
+
+/** Called by App whenever settings load or change, so cue helpers need no arguments. */
+export const configureSounds = (settings: SoundSettings): void => {
+    soundSettings = settings;
+    if (settings.silentMode) stopAlertLoop();
+};
+
+/** Decodes the sounds uploaded on this device so they can play without delay. */
+export const loadCustomSounds = async (sounds: CustomSound[]): Promise<void> => {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    customSoundBuffers.clear();
+    await Promise.all(sounds.map(async sound => {
+        try {
+            customSoundBuffers.set(sound.id, await ctx.decodeAudioData(await sound.data.arrayBuffer()));
+        } catch (e) {
+            console.error(`Error decoding custom sound "${sound.name}":`, e);
+        }
+    }));
+};
+
+const playSound = (frequency: number, duration: number, volume: number): void => {
     try {
         const ctx = getAudioContext();
         if (!ctx) return;
@@ -28,8 +87,8 @@ const playSound = (frequency: number, duration: number): void => {
         gainNode.connect(ctx.destination);
         oscillator.type = 'sine';
         oscillator.frequency.setValueAtTime(frequency, ctx.currentTime);
-        gainNode.gain.setValueAtTime(0.3, ctx.currentTime);
-        gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + duration);
+        gainNode.gain.setValueAtTime(Math.max(0.3 * volume, 0.0001), ctx.currentTime);
+        gainNode.gain.exponentialRampToValueAtTime(0.0001, ctx.currentTime + duration);
         oscillator.start(ctx.currentTime);
         oscillator.stop(ctx.currentTime + duration);
     } catch (e) {
@@ -37,15 +96,77 @@ const playSound = (frequency: number, duration: number): void => {
     }
 };
 
-export const playFocusStartSound = () => { playSound(523.25, 0.15); setTimeout(() => playSound(659.25, 0.15), 150); setTimeout(() => playSound(783.99, 0.2), 300); setTimeout(() => playSound(1046.50, 0.25), 450); };
-export const playFocusEndSound = () => { playSound(1046.50, 0.1); setTimeout(() => playSound(1174.66, 0.1), 100); setTimeout(() => playSound(1318.51, 0.1), 200); setTimeout(() => playSound(1567.98, 0.2), 300); setTimeout(() => playSound(1567.98, 0.1), 500); setTimeout(() => playSound(1318.51, 0.3), 600); };
-export const playBreakStartSound = () => { playSound(880, 0.2); setTimeout(() => playSound(783.99, 0.2), 200); setTimeout(() => playSound(659.25, 0.2), 400); setTimeout(() => playSound(523.25, 0.3), 600); };
-export const playBreakEndSound = () => { playSound(659.25, 0.15); setTimeout(() => playSound(659.25, 0.15), 200); setTimeout(() => playSound(783.99, 0.2), 400); setTimeout(() => playSound(1046.50, 0.25), 600); };
-export const playAlertLoop = () => { playSound(1000, 0.3); setTimeout(() => playSound(1200, 0.3), 400); };
-export const playNotificationSound = () => { playSound(880.00, 0.1); setTimeout(() => playSound(1046.50, 0.2), 120); };
+const playBuffer = (buffer: AudioBuffer, volume: number): void => {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    const source = ctx.createBufferSource();
+    const gainNode = ctx.createGain();
+    source.buffer = buffer;
+    gainNode.gain.setValueAtTime(volume, ctx.currentTime);
+    source.connect(gainNode).connect(ctx.destination);
+    source.start();
+};
+
+// Plays a built-in tone or uploaded sound; returns false if the id is unknown (e.g. uploaded on another device).
+const playTone = (soundId: string, volume: number): boolean => {
+    if (soundId === NO_SOUND) return true;
+    const buffer = customSoundBuffers.get(soundId);
+    if (buffer) {
+        playBuffer(buffer, volume);
+        return true;
+    }
+    const tone = BUILT_IN_TONES.find(t => t.id === soundId);
+    if (!tone) return false;
+    tone.notes.forEach(([frequency, duration, delay]) => {
+        if (delay === 0) playSound(frequency, duration, volume);
+        else setTimeout(() => playSound(frequency, duration, volume), delay);
+    });
+    return true;
+};
+
+const playCue = (event: SoundEvent): void => {
+    if (soundSettings.silentMode) return;
+    if (!playTone(soundSettings.eventSounds[event], soundSettings.volume)) {
+        playTone(DEFAULT_SOUND_SETTINGS.eventSounds[event], soundSettings.volume);
+    }
+};
+
+/** Plays a sound at the given volume regardless of silent mode, for trying sounds out in Settings. */
+export const previewSound = (soundId: string, volume: number): void => {
+    resumeAudioContext();
+    playTone(soundId, volume);
+};
+
+export const playFocusStartSound = () => playCue('focusStart');
+export const playFocusEndSound = () => playCue('focusEnd');
+export const playBreakStartSound = () => playCue('breakStart');
+export const playBreakEndSound = () => playCue('breakEnd');
+export const playNotificationSound = () => playCue('notification');
+
+/** Repeats the alert cue until stopAlertLoop() or until it has played alertRepeatCount times (0 = no limit). */
+export const startAlertLoop = (): void => {
+    stopAlertLoop();
+    if (soundSettings.silentMode) return;
+    let timesPlayed = 1;
+    playCue('alert');
+    alertTimer = window.setInterval(() => {
+        if (soundSettings.alertRepeatCount > 0 && timesPlayed >= soundSettings.alertRepeatCount) {
+            stopAlertLoop();
+            return;
+        }
+        timesPlayed++;
+        playCue('alert');
+    }, Math.max(1, soundSettings.alertIntervalSeconds) * 1000);
+};
+
+export const stopAlertLoop = (): void => {
+    if (alertTimer) clearInterval(alertTimer);
+    alertTimer = null;
+};
 
 // New function for the celebration animation
 export const playExplosionSound = (): void => {
+    if (soundSettings.silentMode) return;
     try {
         const ctx = getAudioContext();
         if (!ctx) return;
@@ -66,7 +187,7 @@ export const playExplosionSound = (): void => {
         const gainNode = ctx.createGain();
         gainNode.gain.setValueAtTime(0, ctx.currentTime);
         // Quick attack, then exponential decay
-        gainNode.gain.linearRampToValueAtTime(0.3, ctx.currentTime + 0.01);
+        gainNode.gain.linearRampToValueAtTime(Math.max(0.3 * soundSettings.volume, 0.001), ctx.currentTime + 0.01);
         gainNode.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.5);
 
         // Connect nodes and play
@@ -78,47 +199,3 @@ export const playExplosionSound = (): void => {
     }
 };
 
-
-// --- White Noise ---
-export const playWhiteNoise = (): void => {
-    const ctx = getAudioContext();
-    if (!ctx || whiteNoiseNode) return;
-
-    const bufferSize = 2 * ctx.sampleRate;
-    const noiseBuffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
-    const output = noiseBuffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-        output[i] = Math.random() * 2 - 1;
-    }
-
-    whiteNoiseNode = ctx.createBufferSource();
-    whiteNoiseNode.buffer = noiseBuffer;
-    whiteNoiseNode.loop = true;
-
-    whiteNoiseGainNode = ctx.createGain();
-    whiteNoiseGainNode.gain.setValueAtTime(0.1, ctx.currentTime);
-
-    whiteNoiseNode.connect(whiteNoiseGainNode).connect(ctx.destination);
-    whiteNoiseNode.start();
-};
-
-export const stopWhiteNoise = (): void => {
-    if (whiteNoiseNode) {
-        whiteNoiseNode.stop();
-        whiteNoiseNode.disconnect();
-        whiteNoiseNode = null;
-    }
-    if (whiteNoiseGainNode) {
-        whiteNoiseGainNode.disconnect();
-        whiteNoiseGainNode = null;
-    }
-};
-
-export const setWhiteNoiseVolume = (volume: number): void => {
-    const ctx = getAudioContext();
-    if (whiteNoiseGainNode && ctx) {
-        // Volume is between 0 and 1, but we want it to be quiet. Max at 0.2
-        const effectiveVolume = Math.max(0, Math.min(0.2, volume));
-        whiteNoiseGainNode.gain.setValueAtTime(effectiveVolume, ctx.currentTime);
-    }
-};
\ No newline at end of file
@@ -0,0 +1,26 @@
+const escapeCsvCell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Converts rows to CSV with a header built from the union of all row keys.
+ * Arrays and objects (tags, comments, JSON settings) are written as JSON text.
+ */
+export const toCsv = (rows: Record<string, any>[]): string => {
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const lines = [columns.join(','), ...rows.map(row => columns.map(column => escapeCsvCell(row[column])).join(','))];
+    return lines.join('\r\n');
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -13,6 +13,13 @@ export const getMonthStartDateString = (date = new Date()): string => {
     return `${year}-${month}-01`;
 };
 
+// Weeks run Monday to Sunday, as in the weekly review.
+export const getWeekStartDateString = (date = new Date()): string => {
+    const monday = new Date(date);
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+    return getTodayDateString(monday);
+};
+
 export const getSevenDaysAgoDateString = (): string => {
     const date = new Date();
     date.setDate(date.getDate() - 6);
@@ -0,0 +1,95 @@
+import { Settings, Task } from '../types';
+import { getTimerDurations } from './timer';
+
+export const indexTasks = (tasks: Task[]): Map<string, Task> => new Map(tasks.map(t => [t.id, t]));
+
+/** Prerequisites that still stand in the way; completed or deleted ones no longer block. */
+export const getBlockingTasks = (task: Task, tasksById: Map<string, Task>): Task[] =>
+    (task.prerequisite_ids || [])
+        .map(id => tasksById.get(id))
+        .filter((t): t is Task => !!t && !t.completed_at);
+
+export const isTaskBlocked = (task: Task, tasksById: Map<string, Task>): boolean => getBlockingTasks(task, tasksById).length > 0;
+
+/** Moves blocked tasks behind the ones that can be started, keeping the order within each group. */
+export const orderUnblockedFirst = (tasks: Task[], allTasks: Task[]): Task[] => {
+    const tasksById = indexTasks(allTasks);
+    const blockedIds = new Set(tasks.filter(t => isTaskBlocked(t, tasksById)).map(t => t.id));
+    if (blockedIds.size === 0) return tasks;
+    return [...tasks.filter(t => !blockedIds.has(t.id)), ...tasks.filter(t => blockedIds.has(t.id))];
+};
+
+/** True when making `prerequisiteId` a prerequisite of `taskId` would close a loop. */
+export const wouldCreateCycle = (taskId: string, prerequisiteId: string, tasksById: Map<string, Task>): boolean => {
+    const stack = [prerequisiteId];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === taskId) return true;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        stack.push(...(tasksById.get(id)?.prerequisite_ids || []));
+    }
+    return false;
+};
+
+/** Focus minutes still needed to finish a task; stopwatch tasks count as one focus session. */
+export const getRemainingFocusMinutes = (task: Task, settings: Settings): number => {
+    if (task.completed_at) return 0;
+    const sessions = task.total_poms < 0 ? 1 : Math.max(1, task.total_poms - task.completed_poms);
+    return sessions * getTimerDurations(task, settings).focusDuration;
+};
+
+export interface DependencyGraph {
+    levels: Task[][]; // levels[n] holds tasks whose longest prerequisite chain inside the set is n tasks long
+    criticalPath: Task[]; // The chain of tasks with the most remaining focus time, first task first
+    criticalMinutes: number;
+}
+
+/**
+ * Lays out the prerequisite graph of a set of tasks (usually one project's) and finds its critical path.
+ * Prerequisites outside the set still block a task but are not part of the layout.
+ */
+export const buildDependencyGraph = (tasks: Task[], settings: Settings): DependencyGraph => {
+    const tasksById = indexTasks(tasks);
+    const inSetPrerequisites = (task: Task) => (task.prerequisite_ids || []).filter(id => tasksById.has(id) && id !== task.id);
+
+    const depth = new Map<string, number>();
+    const longest = new Map<string, { minutes: number; previous: string | null }>();
+    const visiting = new Set<string>();
+
+    // Cycles cannot be created from the UI, but synced edits from two devices could still produce one.
+    const visit = (task: Task) => {
+        if (depth.has(task.id) || visiting.has(task.id)) return;
+        visiting.add(task.id);
+        let taskDepth = 0;
+        let best: { minutes: number; previous: string | null } = { minutes: 0, previous: null };
+        inSetPrerequisites(task).forEach(id => {
+            const prerequisite = tasksById.get(id)!;
+            visit(prerequisite);
+            if (!depth.has(id)) return;
+            taskDepth = Math.max(taskDepth, depth.get(id)! + 1);
+            const chain = longest.get(id)!;
+            if (chain.minutes > best.minutes || best.previous === null) best = { minutes: chain.minutes, previous: id };
+        });
+        visiting.delete(task.id);
+        depth.set(task.id, taskDepth);
+        longest.set(task.id, { minutes: best.minutes + getRemainingFocusMinutes(task, settings), previous: best.previous });
+    };
+    tasks.forEach(visit);
+
+    const levels: Task[][] = [];
+    tasks.forEach(task => {
+        const level = depth.get(task.id) ?? 0;
+        (levels[level] = levels[level] || []).push(task);
+    });
+
+    let endId: string | null = null;
+    for (const [id, chain] of longest) {
+        if (endId === null || chain.minutes > longest.get(endId)!.minutes) endId = id;
+    }
+    const criticalPath: Task[] = [];
+    for (let id = endId; id !== null; id = longest.get(id)!.previous) criticalPath.unshift(tasksById.get(id)!);
+
+    return { levels, criticalPath, criticalMinutes: endId ? longest.get(endId)!.minutes : 0 };
+};
@@ -0,0 +1,120 @@
+import { FocusLevel, PomodoroHistory } from '../types';
+import { getTodayDateString } from './date';
+
+// Rows run Monday to Sunday, like the weekly review.
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface FocusHeatmapCell {
+    weekday: number; // 0 = Monday
+    hour: number; // 0-23, local time
+    minutes: number;
+    qualityMinutes: number; // Minutes weighted by the session's focus rating
+    sessions: number;
+    ratedSessions: number;
+    completeFocusSessions: number;
+}
+
+export interface FocusWindow {
+    startHour: number;
+    endHour: number; // Exclusive
+    weekday: number | null; // null when worked out across all days
+    avgMinutesPerDay: number; // Focus inside the window, averaged over the days with any focus
+    completeFocusPct: number | null;
+}
+
+const FOCUS_LEVEL_WEIGHTS: Record<FocusLevel, number> = { complete_focus: 1, half_focus: 0.5, none_focus: 0 };
+// Below this many sessions a "best window" is mostly noise.
+const MIN_WINDOW_SESSIONS = 5;
+
+const toWeekday = (date: Date) => (date.getDay() + 6) % 7;
+
+const getSessionSpan = (h: PomodoroHistory): { start: Date; end: Date } => {
+    const end = new Date(h.ended_at);
+    const start = h.started_at ? new Date(h.started_at) : new Date(end.getTime() - (Number(h.duration_minutes) || 0) * 60000);
+    return { start: start < end ? start : end, end };
+};
+
+/**
+ * Buckets focus into 7x24 weekday/hour cells. A session's minutes are spread over the hours it spanned;
+ * its count and rating go to the hour holding its midpoint. Unrated sessions are weighted by the average rating.
+ */
+export const buildFocusHeatmap = (history: PomodoroHistory[]): FocusHeatmapCell[] => {
+    const cells: FocusHeatmapCell[] = Array.from({ length: 7 * 24 }, (_, i) => ({
+        weekday: Math.floor(i / 24), hour: i % 24, minutes: 0, qualityMinutes: 0, sessions: 0, ratedSessions: 0, completeFocusSessions: 0,
+    }));
+    const cellAt = (date: Date) => cells[toWeekday(date) * 24 + date.getHours()];
+
+    const rated = history.filter(h => h.difficulty);
+    const defaultWeight = rated.length > 0 ? rated.reduce((sum, h) => sum + FOCUS_LEVEL_WEIGHTS[h.difficulty!], 0) / rated.length : 1;
+
+    history.forEach(h => {
+        const minutes = Number(h.duration_minutes) || 0;
+        const weight = h.difficulty ? FOCUS_LEVEL_WEIGHTS[h.difficulty] : defaultWeight;
+        const { start, end } = getSessionSpan(h);
+        const spanMs = end.getTime() - start.getTime();
+
+        if (spanMs === 0) {
+            cellAt(end).minutes += minutes;
+            cellAt(end).qualityMinutes += minutes * weight;
+        } else {
+            let cursor = start;
+            while (cursor < end) {
+                const nextHour = new Date(cursor);
+                nextHour.setMinutes(60, 0, 0);
+                const sliceEnd = nextHour < end ? nextHour : end;
+                const share = minutes * (sliceEnd.getTime() - cursor.getTime()) / spanMs;
+                cellAt(cursor).minutes += share;
+                cellAt(cursor).qualityMinutes += share * weight;
+                cursor = sliceEnd;
+            }
+        }
+
+        const midpoint = cellAt(new Date(start.getTime() + spanMs / 2));
+        midpoint.sessions++;
+        if (h.difficulty) {
+            midpoint.ratedSessions++;
+            if (h.difficulty === 'complete_focus') midpoint.completeFocusSessions++;
+        }
+    });
+    return cells;
+};
+
+/**
+ * Finds the run of consecutive hours with the most rating-weighted focus, optionally for one weekday only.
+ * Windows don't wrap past midnight. Returns null when there are too few sessions to say.
+ */
+export const findBestFocusWindow = (history: PomodoroHistory[], windowHours = 2, weekday: number | null = null): FocusWindow | null => {
+    const sessions = weekday === null ? history : history.filter(h => toWeekday(new Date(h.ended_at)) === weekday);
+    if (sessions.length < MIN_WINDOW_SESSIONS) return null;
+
+    const cells = buildFocusHeatmap(sessions).filter(c => weekday === null || c.weekday === weekday);
+    const byHour = Array.from({ length: 24 }, (_, hour) => cells.filter(c => c.hour === hour));
+    const sum = (hours: FocusHeatmapCell[][], key: keyof FocusHeatmapCell) => hours.flat().reduce((total, c) => total + c[key], 0);
+
+    let bestStart = 0;
+    let bestScore = -1;
+    for (let start = 0; start + windowHours <= 24; start++) {
+        const score = sum(byHour.slice(start, start + windowHours), 'qualityMinutes');
+        if (score > bestScore) { bestScore = score; bestStart = start; }
+    }
+    if (bestScore <= 0) return null;
+
+    const windowCells = byHour.slice(bestStart, bestStart + windowHours);
+    const ratedSessions = sum(windowCells, 'ratedSessions');
+    const activeDays = new Set(sessions.map(h => getTodayDateString(new Date(h.ended_at)))).size;
+    return {
+        startHour: bestStart,
+        endHour: bestStart + windowHours,
+        weekday,
+        avgMinutesPerDay: Math.round(sum(windowCells, 'minutes') / activeDays),
+        completeFocusPct: ratedSessions > 0 ? Math.round(sum(windowCells, 'completeFocusSessions') / ratedSessions * 100) : null,
+    };
+};
+
+export const formatHour = (hour: number): string => {
+    const normalized = hour % 24;
+    return `${normalized % 12 || 12} ${normalized < 12 ? 'AM' : 'PM'}`;
+};
+
+export const formatFocusWindow = (window: FocusWindow): string =>
+    `${window.weekday === null ? '' : `${WEEKDAY_LABELS[window.weekday]} `}${formatHour(window.startHour)}–${formatHour(window.endHour)}`;
@@ -0,0 +1,101 @@
+import { Goal, PomodoroHistory, Project, Target, Task } from '../types';
+import { getTodayDateString } from './date';
+
+// Ordered from most to least urgent; a goal takes the most urgent state of its projects and targets.
+export type GoalRisk = 'overdue' | 'at_risk' | 'on_track' | 'no_deadline' | 'done';
+const RISK_ORDER: GoalRisk[] = ['overdue', 'at_risk', 'on_track', 'no_deadline', 'done'];
+
+export const GOAL_RISK_LABELS: Record<GoalRisk, string> = {
+    overdue: 'Overdue',
+    at_risk: 'At risk',
+    on_track: 'On track',
+    no_deadline: 'No deadline',
+    done: 'Done',
+};
+
+export interface GoalRollup {
+    projects: Project[];
+    targets: Target[];
+    taskIds: Set<string>;
+    totalTasks: number;
+    completedTasks: number;
+    focusMinutes: number;
+    risk: GoalRisk;
+    nextDeadline: string | null;
+}
+
+// Manual items have no measurable progress, so only their deadline counts toward risk.
+const MANUAL_AT_RISK_DAYS = 3;
+// How far progress may trail the share of time already used before an item counts as at risk.
+const PACE_TOLERANCE = 0.15;
+
+const daysBetween = (from: string, to: string): number =>
+    Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / 86400000);
+
+const getDeadlineRisk = (deadline: string | null, start: string, progress: number | null, today: string): GoalRisk => {
+    if (!deadline) return 'no_deadline';
+    if (deadline < today) return 'overdue';
+    if (progress === null) return daysBetween(today, deadline) <= MANUAL_AT_RISK_DAYS ? 'at_risk' : 'on_track';
+    const totalDays = Math.max(1, daysBetween(start, deadline));
+    const elapsed = Math.min(1, Math.max(0, daysBetween(start, today) / totalDays));
+    return progress < elapsed - PACE_TOLERANCE ? 'at_risk' : 'on_track';
+};
+
+export const getProjectRisk = (project: Project, today = getTodayDateString()): GoalRisk => {
+    if (project.status === 'completed') return 'done';
+    if (project.status === 'due') return 'overdue';
+    const progress = project.completion_criteria_type !== 'manual' && project.completion_criteria_value
+        ? project.progress_value / project.completion_criteria_value
+        : null;
+    return getDeadlineRisk(project.deadline, project.start_date || project.created_at.slice(0, 10), progress, today);
+};
+
+export const getTargetRisk = (target: Target, today = getTodayDateString()): GoalRisk => {
+    if (target.completed_at) return 'done';
+    if (target.status === 'incomplete') return 'overdue';
+    const progress = target.completion_mode === 'focus_minutes' && target.target_minutes
+        ? target.progress_minutes / target.target_minutes
+        : null;
+    return getDeadlineRisk(target.deadline, target.start_date || target.created_at.slice(0, 10), progress, today);
+};
+
+/**
+ * Rolls linked projects and targets up into each goal. A goal's tasks are the tasks of its projects
+ * plus tasks tagged for its focus-minute targets; focus minutes come from their pomodoro history.
+ */
+export const computeGoalRollups = (goals: Goal[], projects: Project[], targets: Target[], tasks: Task[], history: PomodoroHistory[]): Map<string, GoalRollup> => {
+    const today = getTodayDateString();
+    const minutesByTask = new Map<string, number>();
+    history.forEach(h => {
+        if (h.task_id) minutesByTask.set(h.task_id, (minutesByTask.get(h.task_id) || 0) + (Number(h.duration_minutes) || 0));
+    });
+
+    const rollups = new Map<string, GoalRollup>();
+    goals.forEach(goal => {
+        const goalProjects = projects.filter(p => p.goal_id === goal.id);
+        const goalTargets = targets.filter(t => t.goal_id === goal.id);
+        const projectIds = new Set(goalProjects.map(p => p.id));
+        const targetTags = new Set(goalTargets.flatMap(t => t.tags || []).map(tag => tag.toLowerCase()));
+        const goalTasks = tasks.filter(t =>
+            (t.project_id && projectIds.has(t.project_id)) || (t.tags || []).some(tag => targetTags.has(tag.toLowerCase())));
+
+        const itemRisks = [...goalProjects.map(p => getProjectRisk(p, today)), ...goalTargets.map(t => getTargetRisk(t, today))];
+        const risk = goal.completed_at ? 'done' : RISK_ORDER.find(r => itemRisks.includes(r)) || 'no_deadline';
+        const openDeadlines = [
+            ...goalProjects.filter(p => p.status === 'active').map(p => p.deadline),
+            ...goalTargets.filter(t => !t.completed_at && t.status === 'active').map(t => t.deadline),
+        ].filter((d): d is string => !!d && d >= today).sort();
+
+        rollups.set(goal.id, {
+            projects: goalProjects,
+            targets: goalTargets,
+            taskIds: new Set(goalTasks.map(t => t.id)),
+            totalTasks: goalTasks.length,
+            completedTasks: goalTasks.filter(t => t.completed_at).length,
+            focusMinutes: goalTasks.reduce((sum, t) => sum + (minutesByTask.get(t.id) || 0), 0),
+            risk,
+            nextDeadline: openDeadlines[0] || null,
+        });
+    });
+    return rollups;
+};
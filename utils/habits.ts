@@ -0,0 +1,65 @@
+import { Task } from '../types';
+import { addDaysToDateString, getOccurrenceDate, getRecurrenceAdherence, RecurrenceInstance } from './recurrence';
+
+// Per-automation habit tracking, built from the tasks that share a template_task_id.
+// A streak counts consecutive completed occurrences; skipped ones have no task, so they neither add to nor break it.
+
+export type HabitDayStatus = 'done' | 'missed' | 'skipped' | 'pending' | 'none';
+
+export interface HabitStats {
+    current: number;
+    longest: number;
+    completion30: number | null; // 0-1 share of occurrences completed over the last 30 days
+    completion90: number | null;
+    brokenOn: string | null; // Occurrence date of the miss that ended the latest streak, while it's still the latest settled occurrence
+    brokenLength: number; // How long the streak was that `brokenOn` ended
+}
+
+// Streaks shorter than this aren't worth a notification when they break.
+export const HABIT_STREAK_ALERT_MIN = 3;
+
+const byOccurrenceDate = (a: RecurrenceInstance, b: RecurrenceInstance) => getOccurrenceDate(a).localeCompare(getOccurrenceDate(b));
+
+export const getHabitStats = (instances: RecurrenceInstance[], today: string): HabitStats => {
+    // Today's task only counts once it's done; until then it can't break anything.
+    const settled = instances.filter(i => i.completed_at || i.due_date < today).sort(byOccurrenceDate);
+
+    let run = 0;
+    let longest = 0;
+    let brokenLength = 0;
+    settled.forEach(instance => {
+        if (instance.completed_at) {
+            run++;
+            longest = Math.max(longest, run);
+        } else {
+            brokenLength = run;
+            run = 0;
+        }
+    });
+
+    const last = settled[settled.length - 1];
+    const brokenOn = last && !last.completed_at ? getOccurrenceDate(last) : null;
+
+    return {
+        current: run,
+        longest,
+        completion30: getRecurrenceAdherence(instances, today, 30).rate,
+        completion90: getRecurrenceAdherence(instances, today, 90).rate,
+        brokenOn,
+        brokenLength: brokenOn ? brokenLength : 0,
+    };
+};
+
+/** The state of each day from `from` to `to` inclusive, for the per-automation heatmap. */
+export const getHabitDayStatuses = (template: Task, instances: RecurrenceInstance[], from: string, to: string, today: string): Map<string, HabitDayStatus> => {
+    const byDate = new Map(instances.map(i => [getOccurrenceDate(i), i]));
+    const exceptions = template.recurrence_exceptions || {};
+    const statuses = new Map<string, HabitDayStatus>();
+
+    for (let date = from; date <= to; date = addDaysToDateString(date, 1)) {
+        const instance = byDate.get(date);
+        if (instance) statuses.set(date, instance.completed_at ? 'done' : instance.due_date < today ? 'missed' : 'pending');
+        else statuses.set(date, exceptions[date] === null ? 'skipped' : 'none');
+    }
+    return statuses;
+};
@@ -0,0 +1,115 @@
+import { Project } from '../types';
+import { getTodayDateString } from './date';
+
+// Parses quick-add shorthand out of a task title, e.g.
+// "Read ch.5 #physics @Thesis p1 3poms tomorrow every Mon,Wed". Runs locally, so it works offline.
+
+export interface ParsedQuickAdd {
+    text: string; // The title with every recognised token removed
+    tags: string[];
+    projectName: string | null; // As typed after '@'; underscores stand for spaces
+    priority: number | null;
+    poms: number | null;
+    dueDate: string | null;
+    recurringDays: number[] | null; // 0 = Sunday, as in Task.recurring_days
+}
+
+const DAY_ALIASES: Record<string, number> = {
+    sun: 0, sunday: 0, mon: 1, monday: 1, tue: 2, tues: 2, tuesday: 2, wed: 3, wednesday: 3,
+    thu: 4, thur: 4, thurs: 4, thursday: 4, fri: 5, friday: 5, sat: 6, saturday: 6,
+};
+// Alone, only full names count as a due date; short forms like "sat" or "sun" are too often plain words.
+const FULL_DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+
+const addDays = (days: number): string => {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return getTodayDateString(date);
+};
+
+// The next occurrence of a weekday, never today, so "friday" on a Friday means next week.
+const nextWeekday = (day: number): string => addDays(((day - new Date().getDay() + 6) % 7) + 1);
+
+/** "mon,wed", "mon/wed" or "mon&wed" → [1, 3]; null when any part is not a day. */
+const parseDayList = (token: string): number[] | null => {
+    const parts = token.toLowerCase().split(/[,/&]/).filter(Boolean);
+    if (parts.length === 0 || parts.some(p => DAY_ALIASES[p] === undefined)) return null;
+    return parts.map(p => DAY_ALIASES[p]);
+};
+
+const normalizeProjectName = (name: string): string => name.toLowerCase().replace(/[\s_-]+/g, '');
+
+export const findProjectByName = (projects: Project[], name: string): Project | undefined =>
+    projects.find(p => normalizeProjectName(p.name) === normalizeProjectName(name));
+
+export const formatQuickAddProjectName = (name: string): string => name.replace(/_/g, ' ').trim();
+
+export const parseQuickAdd = (input: string): ParsedQuickAdd => {
+    const tokens = input.trim().split(/\s+/).filter(Boolean);
+    const kept: string[] = [];
+    const result: ParsedQuickAdd = { text: '', tags: [], projectName: null, priority: null, poms: null, dueDate: null, recurringDays: null };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const lower = token.toLowerCase();
+        const next = tokens[i + 1]?.toLowerCase();
+
+        if (/^#[\w-]+$/.test(token)) {
+            const tag = token.slice(1);
+            if (!result.tags.includes(tag)) result.tags.push(tag);
+        } else if (/^@[\w-]+$/.test(token) && result.projectName === null) {
+            result.projectName = token.slice(1);
+        } else if (/^p[1-4]$/.test(lower) && result.priority === null) {
+            result.priority = Number(lower[1]);
+        } else if (/^\d+(poms?|pomodoros?)$/.test(lower) && result.poms === null) {
+            result.poms = parseInt(lower, 10);
+        } else if (/^\d+$/.test(lower) && next && /^(poms?|pomodoros?)$/.test(next) && result.poms === null) {
+            result.poms = parseInt(lower, 10);
+            i++;
+        } else if (lower === 'every' && next && result.recurringDays === null) {
+            if (next === 'day') { result.recurringDays = EVERY_DAY; i++; continue; }
+            if (next === 'weekday') { result.recurringDays = WEEKDAYS; i++; continue; }
+            if (next === 'weekend') { result.recurringDays = WEEKEND; i++; continue; }
+            // Day lists may be split over several tokens: "every mon, wed and fri".
+            const days: number[] = [];
+            let j = i + 1;
+            while (j < tokens.length) {
+                const part = tokens[j].toLowerCase();
+                if (part === 'and' && days.length > 0) { j++; continue; }
+                const parsed = parseDayList(part);
+                if (!parsed) break;
+                days.push(...parsed);
+                j++;
+            }
+            if (days.length === 0) { kept.push(token); continue; }
+            result.recurringDays = [...new Set(days)].sort((a, b) => a - b);
+            i = j - 1;
+        } else if (lower === 'today' && result.dueDate === null) {
+            result.dueDate = getTodayDateString();
+        } else if ((lower === 'tomorrow' || lower === 'tmr' || lower === 'tmrw') && result.dueDate === null) {
+            result.dueDate = addDays(1);
+        } else if (lower === 'next' && next && DAY_ALIASES[next] !== undefined && result.dueDate === null) {
+            result.dueDate = nextWeekday(DAY_ALIASES[next]);
+            i++;
+        } else if (lower === 'in' && next && /^\d+$/.test(next) && /^(days?|weeks?)$/.test(tokens[i + 2]?.toLowerCase() || '') && result.dueDate === null) {
+            result.dueDate = addDays(parseInt(next, 10) * (tokens[i + 2].toLowerCase().startsWith('week') ? 7 : 1));
+            i += 2;
+        } else if (FULL_DAY_NAMES.includes(lower) && result.dueDate === null) {
+            result.dueDate = nextWeekday(DAY_ALIASES[lower]);
+        } else if (/^\d{4}-\d{2}-\d{2}$/.test(token) && !isNaN(new Date(token + 'T00:00:00').getTime()) && result.dueDate === null) {
+            result.dueDate = token;
+        } else {
+            kept.push(token);
+        }
+    }
+
+    result.text = kept.join(' ');
+    return result;
+};
+
+/** True when the input contains anything the parser would act on. */
+export const hasQuickAddFields = (parsed: ParsedQuickAdd): boolean =>
+    parsed.tags.length > 0 || parsed.projectName !== null || parsed.priority !== null || parsed.poms !== null || parsed.dueDate !== null || parsed.recurringDays !== null;
@@ -0,0 +1,207 @@
+import { RecurrenceRule, Task } from '../types';
+import { getTodayDateString } from './date';
+
+// Scheduling for recurring templates. Instances are generated this many days ahead
+// so upcoming occurrences show up in the tomorrow and future lists.
+export const RECURRENCE_LOOKAHEAD_DAYS = 7;
+// How far back occurrences missed while the app was closed are filled in.
+export const RECURRENCE_BACKFILL_MAX_DAYS = 60;
+
+export const RECURRENCE_DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEK_OF_MONTH_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' };
+
+// The instance fields the scheduler reads; a subset of Task so raw rows from the database fit too.
+export type RecurrenceInstance = Pick<Task, 'due_date' | 'completed_at' | 'occurrence_date'>;
+
+export interface RecurrenceAdherence {
+    completed: number;
+    missed: number;
+    rate: number | null; // 0-1, or null before anything was due
+}
+
+export interface PendingOccurrence {
+    occurrenceDate: string; // The date the rule scheduled
+    dueDate: string; // Where the instance goes, which differs when the occurrence was moved
+}
+
+const parseDate = (dateString: string) => new Date(`${dateString}T12:00:00`);
+
+export const addDaysToDateString = (dateString: string, days: number): string => {
+    const date = parseDate(dateString);
+    date.setDate(date.getDate() + days);
+    return getTodayDateString(date);
+};
+
+const daysBetween = (from: string, to: string) => Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / 86400000);
+
+const ordinal = (n: number) => `${n}${n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'}`;
+
+export const getRecurrenceRule = (template: Task): RecurrenceRule => template.recurrence_rule || { frequency: 'weekly', interval: 1 };
+
+export const getRecurrenceStartDate = (template: Task): string =>
+    template.recurring_start_date || getTodayDateString(template.created_at ? new Date(template.created_at) : new Date());
+
+/** The occurrence a generated task stands for; tasks made before occurrence dates existed use their due date. */
+export const getOccurrenceDate = (instance: RecurrenceInstance): string => instance.occurrence_date || instance.due_date;
+
+/** Whether a calendar rule lands on a date, ignoring the start date, end date and count limit. */
+const matchesRule = (template: Task, rule: RecurrenceRule, date: string, start: string): boolean => {
+    const day = parseDate(date);
+    const interval = Math.max(1, rule.interval || 1);
+    const lastDayOfMonth = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+
+    switch (rule.frequency) {
+        case 'weekly': {
+            const days = template.recurring_days;
+            if (days && days.length > 0 && !days.includes(day.getDay())) return false;
+            if (interval === 1) return true;
+            // Weeks are counted from the Sunday of the week the template starts in.
+            const weekStart = (d: string) => addDaysToDateString(d, -parseDate(d).getDay());
+            return (daysBetween(weekStart(start), weekStart(date)) / 7) % interval === 0;
+        }
+        case 'interval':
+            return daysBetween(start, date) % interval === 0;
+        case 'monthly_date':
+            return day.getDate() === Math.min(rule.month_day || 1, lastDayOfMonth);
+        case 'monthly_weekday':
+            if (day.getDay() !== (rule.weekday ?? 1)) return false;
+            return rule.week_of_month === -1 ? day.getDate() + 7 > lastDayOfMonth : Math.ceil(day.getDate() / 7) === (rule.week_of_month || 1);
+        default:
+            return false; // 'after_completion' depends on the instances, not the calendar
+    }
+};
+
+/**
+ * Dates a calendar rule schedules between `from` and `to` inclusive, within the template's start date,
+ * end date and count limit. Skipped occurrences are included: like RRULE's EXDATE, they still use up the count.
+ */
+export const getCalendarOccurrences = (template: Task, from: string, to: string): string[] => {
+    const rule = getRecurrenceRule(template);
+    if (rule.frequency === 'after_completion') return [];
+
+    const start = getRecurrenceStartDate(template);
+    const last = template.recurring_end_date && template.recurring_end_date < to ? template.recurring_end_date : to;
+    const limit = template.recurring_count || null;
+    const dates: string[] = [];
+    let count = 0;
+    // With a count limit the walk has to begin at the start date, since earlier occurrences use it up.
+    for (let date = limit || from < start ? start : from; date <= last; date = addDaysToDateString(date, 1)) {
+        if (!matchesRule(template, rule, date, start)) continue;
+        count++;
+        if (limit && count > limit) break;
+        if (date >= from) dates.push(date);
+    }
+    return dates;
+};
+
+/** The next occurrence of an 'after_completion' template, or null while one is still open or the rule has run out. */
+const getNextAfterCompletionDate = (template: Task, instances: RecurrenceInstance[], today: string): string | null => {
+    if (instances.some(i => !i.completed_at)) return null;
+
+    const exceptions = template.recurrence_exceptions || {};
+    const skipped = Object.keys(exceptions).filter(date => exceptions[date] === null);
+    const interval = Math.max(1, getRecurrenceRule(template).interval || 1);
+    let used = instances.length + skipped.filter(date => !instances.some(i => getOccurrenceDate(i) === date)).length;
+    if (template.recurring_count && used >= template.recurring_count) return null;
+
+    // A skipped occurrence counts as done on the day it was due.
+    const doneDates = [
+        ...instances.map(i => getTodayDateString(new Date(i.completed_at!))),
+        ...skipped,
+    ].sort();
+    const lastDone = doneDates[doneDates.length - 1];
+    let next = lastDone ? addDaysToDateString(lastDone, interval) : getRecurrenceStartDate(template);
+    if (next < today) next = today;
+    while (exceptions[next] === null) {
+        next = addDaysToDateString(next, interval);
+        used++;
+        if (template.recurring_count && used >= template.recurring_count) return null;
+    }
+    if (template.recurring_end_date && next > template.recurring_end_date) return null;
+    return next;
+};
+
+/**
+ * Occurrences that need an instance created, from today up to `horizon`. Occurrences that already have one
+ * (even if it was moved or completed) and skipped occurrences are left out; moved ones use their new date.
+ */
+export const getPendingOccurrences = (template: Task, instances: RecurrenceInstance[], today: string, horizon: string): PendingOccurrence[] => {
+    const exceptions = template.recurrence_exceptions || {};
+    const generated = new Set(instances.map(getOccurrenceDate));
+
+    let occurrenceDates: string[];
+    if (getRecurrenceRule(template).frequency === 'after_completion') {
+        const next = getNextAfterCompletionDate(template, instances, today);
+        occurrenceDates = next ? [next] : [];
+    } else {
+        // Later occurrences that were moved into the window are due now as well.
+        const movedIn = Object.keys(exceptions).filter(date => date > horizon && exceptions[date] && exceptions[date]! <= horizon
+            && getCalendarOccurrences(template, date, date).length > 0);
+        occurrenceDates = [...getCalendarOccurrences(template, today, horizon), ...movedIn];
+    }
+
+    return occurrenceDates
+        .filter(date => !generated.has(date) && exceptions[date] !== null)
+        .map(date => ({ occurrenceDate: date, dueDate: exceptions[date] || date }));
+};
+
+/**
+ * Calendar occurrences between the template's last processed date and yesterday that never got an instance,
+ * typically because the app wasn't opened that day. Skipped and moved occurrences are left out.
+ */
+export const getMissedOccurrences = (template: Task, instances: RecurrenceInstance[], today: string): string[] => {
+    if (getRecurrenceRule(template).frequency === 'after_completion') return [];
+
+    const generated = instances.map(getOccurrenceDate).sort();
+    // Templates processed before this was tracked fall back to their latest instance.
+    const processedThrough = template.recurrence_processed_through || generated[generated.length - 1];
+    if (!processedThrough) return [];
+
+    const yesterday = addDaysToDateString(today, -1);
+    const earliest = addDaysToDateString(today, -RECURRENCE_BACKFILL_MAX_DAYS);
+    const from = addDaysToDateString(processedThrough, 1);
+    if (from > yesterday) return [];
+
+    const exceptions = template.recurrence_exceptions || {};
+    return getCalendarOccurrences(template, from < earliest ? earliest : from, yesterday)
+        .filter(date => !generated.includes(date) && exceptions[date] === undefined);
+};
+
+/**
+ * How many of a template's occurrences in the last `days` days were completed. Today's only counts once it's done,
+ * and skipped occurrences have no instance, so they don't count at all.
+ */
+export const getRecurrenceAdherence = (instances: RecurrenceInstance[], today: string, days = 30): RecurrenceAdherence => {
+    const since = addDaysToDateString(today, -(days - 1));
+    const recent = instances.filter(i => getOccurrenceDate(i) >= since && getOccurrenceDate(i) <= today);
+    const completed = recent.filter(i => i.completed_at).length;
+    const missed = recent.filter(i => !i.completed_at && i.due_date < today).length;
+    return { completed, missed, rate: completed + missed > 0 ? completed / (completed + missed) : null };
+};
+
+/** The next few scheduled dates of a calendar rule, for previewing and editing single occurrences. */
+export const getUpcomingOccurrences = (template: Task, count: number, from = getTodayDateString()): string[] =>
+    getCalendarOccurrences(template, from, addDaysToDateString(from, 366)).slice(0, count);
+
+/** A short human description, e.g. "Every 2 weeks on Mon, Wed" or "Monthly on the last Fri". */
+export const describeRecurrence = (template: Task): string => {
+    const rule = getRecurrenceRule(template);
+    const interval = Math.max(1, rule.interval || 1);
+    switch (rule.frequency) {
+        case 'interval':
+            return interval === 1 ? 'Every day' : `Every ${interval} days`;
+        case 'monthly_date':
+            return `Monthly on the ${ordinal(rule.month_day || 1)}`;
+        case 'monthly_weekday':
+            return `Monthly on the ${WEEK_OF_MONTH_LABELS[rule.week_of_month || 1]} ${RECURRENCE_DAY_LABELS[rule.weekday ?? 1]}`;
+        case 'after_completion':
+            return `${interval} day${interval === 1 ? '' : 's'} after each completion`;
+        default: {
+            const days = template.recurring_days && template.recurring_days.length > 0 && template.recurring_days.length < 7
+                ? [...template.recurring_days].sort((a, b) => a - b).map(d => RECURRENCE_DAY_LABELS[d]).join(', ')
+                : null;
+            if (interval === 1) return days || 'Every day';
+            return `Every ${interval} weeks${days ? ` on ${days}` : ''}`;
+        }
+    }
+};
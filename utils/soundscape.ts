@@ -0,0 +1,263 @@
+import { getAudioContext } from './audio';
+import { Settings, SoundChannel, SoundMix, SavedSoundMix, Task } from '../types';
+
+export const SOUND_CHANNELS: { id: SoundChannel; label: string; icon: string }[] = [
+    { id: 'white', label: 'White Noise', icon: '🌫️' },
+    { id: 'pink', label: 'Pink Noise', icon: '🌸' },
+    { id: 'brown', label: 'Brown Noise', icon: '🌊' },
+    { id: 'rain', label: 'Rain', icon: '🌧️' },
+    { id: 'binaural', label: 'Binaural Beats', icon: '🧠' },
+    { id: 'clock', label: 'Ticking Clock', icon: '🕰️' },
+];
+
+// Loudest gain each channel reaches at 100%; kept low so the mix sits under speech and alerts.
+const CHANNEL_MAX_GAIN: Record<SoundChannel, number> = { white: 0.2, pink: 0.3, brown: 0.5, rain: 0.4, binaural: 0.15, clock: 0.3 };
+
+export const DEFAULT_SOUND_MIX: SoundMix = {
+    volumes: { white: 0, pink: 0, brown: 0.5, rain: 0, binaural: 0, clock: 0 },
+    binauralBaseHz: 200,
+    binauralBeatHz: 10,
+};
+
+const LIVE_MIX_KEY = 'focusflow-soundscape';
+const FADE_SECONDS = 3;
+
+// --- Live Mix ---
+
+/** The mix currently dialled in on this device; saved mixes live in Settings. */
+export const loadLiveSoundMix = (): SoundMix => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(LIVE_MIX_KEY) || 'null');
+        return saved ? { ...DEFAULT_SOUND_MIX, ...saved, volumes: { ...DEFAULT_SOUND_MIX.volumes, ...saved.volumes } } : DEFAULT_SOUND_MIX;
+    } catch {
+        return DEFAULT_SOUND_MIX;
+    }
+};
+
+export const saveLiveSoundMix = (mix: SoundMix): void => {
+    localStorage.setItem(LIVE_MIX_KEY, JSON.stringify(mix));
+};
+
+/** A task's own soundscape wins over one assigned to any of its tags. */
+export const getTaskSoundMix = (task: Task | null | undefined, settings: Settings): SavedSoundMix | null => {
+    if (!task) return null;
+    const mixes = settings.soundMixes || [];
+    const ownMix = task.sound_mix_id ? mixes.find(m => m.id === task.sound_mix_id) : undefined;
+    if (ownMix) return ownMix;
+    const taskTags = (task.tags || []).map(t => t.trim().toLowerCase());
+    return mixes.find(m => m.tags.some(tag => taskTags.includes(tag.trim().toLowerCase()))) || null;
+};
+
+// --- Procedural Buffers ---
+
+const bufferCache = new Map<string, AudioBuffer>();
+
+const createLoopBuffer = (ctx: AudioContext, key: string, seconds: number, fill: (data: Float32Array, sampleRate: number) => void): AudioBuffer => {
+    const cached = bufferCache.get(key);
+    if (cached) return cached;
+    const buffer = ctx.createBuffer(1, Math.floor(seconds * ctx.sampleRate), ctx.sampleRate);
+    fill(buffer.getChannelData(0), ctx.sampleRate);
+    bufferCache.set(key, buffer);
+    return buffer;
+};
+
+const fillWhite = (data: Float32Array) => {
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+};
+
+// Paul Kellet's refined pink noise filter.
+const fillPink = (data: Float32Array) => {
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+    for (let i = 0; i < data.length; i++) {
+        const white = Math.random() * 2 - 1;
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.96900 * b2 + white * 0.1538520;
+        b3 = 0.86650 * b3 + white * 0.3104856;
+        b4 = 0.55000 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.0168980;
+        data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+        b6 = white * 0.115926;
+    }
+};
+
+const fillBrown = (data: Float32Array) => {
+    let last = 0;
+    for (let i = 0; i < data.length; i++) {
+        last = (last + 0.02 * (Math.random() * 2 - 1)) / 1.02;
+        data[i] = last * 3.5;
+    }
+};
+
+// A bed of soft noise with scattered droplets that ring out briefly.
+const fillRain = (data: Float32Array, sampleRate: number) => {
+    fillPink(data);
+    for (let i = 0; i < data.length; i++) data[i] *= 0.5;
+    const dropletCount = Math.floor((data.length / sampleRate) * 40);
+    for (let d = 0; d < dropletCount; d++) {
+        const start = Math.floor(Math.random() * data.length);
+        const length = Math.floor(sampleRate * (0.005 + Math.random() * 0.02));
+        const amplitude = 0.2 + Math.random() * 0.4;
+        for (let i = 0; i < length; i++) {
+            data[(start + i) % data.length] += (Math.random() * 2 - 1) * amplitude * Math.exp(-6 * i / length);
+        }
+    }
+};
+
+// One second with a "tick" on the beat and a lower "tock" on the half beat.
+const fillClock = (data: Float32Array, sampleRate: number) => {
+    const click = (offset: number, frequency: number) => {
+        const length = Math.floor(sampleRate * 0.012);
+        for (let i = 0; i < length; i++) {
+            data[offset + i] = Math.sin(2 * Math.PI * frequency * i / sampleRate) * Math.exp(-8 * i / length);
+        }
+    };
+    click(0, 2200);
+    click(Math.floor(sampleRate / 2), 1600);
+};
+
+// --- Mixer ---
+
+interface ChannelNodes {
+    gain: GainNode;
+    sources: AudioScheduledSourceNode[];
+    oscillators?: OscillatorNode[];
+}
+
+let masterGain: GainNode | null = null;
+const channelNodes = new Map<SoundChannel, ChannelNodes>();
+let currentMix: SoundMix = loadLiveSoundMix();
+let isPlaying = false;
+let stopTimeout: number | null = null;
+const listeners = new Set<(playing: boolean, mix: SoundMix) => void>();
+
+const notify = () => listeners.forEach(listener => listener(isPlaying, currentMix));
+
+export const subscribeToSoundscape = (listener: (playing: boolean, mix: SoundMix) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const isSoundscapePlaying = (): boolean => isPlaying;
+export const getCurrentSoundMix = (): SoundMix => currentMix;
+
+const getMasterGain = (ctx: AudioContext): GainNode => {
+    if (!masterGain) {
+        masterGain = ctx.createGain();
+        masterGain.gain.setValueAtTime(0, ctx.currentTime);
+        masterGain.connect(ctx.destination);
+    }
+    return masterGain;
+};
+
+const startChannel = (ctx: AudioContext, channel: SoundChannel): ChannelNodes => {
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, ctx.currentTime);
+    gain.connect(getMasterGain(ctx));
+
+    if (channel === 'binaural') {
+        // Each ear hears a slightly different pitch; the brain perceives the difference as a beat.
+        const oscillators = [-1, 1].map(pan => {
+            const oscillator = ctx.createOscillator();
+            const panner = ctx.createStereoPanner();
+            panner.pan.setValueAtTime(pan, ctx.currentTime);
+            oscillator.connect(panner).connect(gain);
+            oscillator.start();
+            return oscillator;
+        });
+        const nodes = { gain, sources: oscillators, oscillators };
+        setBinauralFrequencies(nodes, currentMix.binauralBaseHz, currentMix.binauralBeatHz);
+        return nodes;
+    }
+
+    const fills: Record<Exclude<SoundChannel, 'binaural'>, [number, (data: Float32Array, sampleRate: number) => void]> = {
+        white: [4, fillWhite], pink: [4, fillPink], brown: [4, fillBrown], rain: [6, fillRain], clock: [1, fillClock],
+    };
+    const [seconds, fill] = fills[channel];
+    const source = ctx.createBufferSource();
+    source.buffer = createLoopBuffer(ctx, channel, seconds, fill);
+    source.loop = true;
+    if (channel === 'rain') {
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'highpass';
+        filter.frequency.setValueAtTime(400, ctx.currentTime);
+        source.connect(filter).connect(gain);
+    } else {
+        source.connect(gain);
+    }
+    source.start();
+    return { gain, sources: [source] };
+};
+
+const stopChannel = (channel: SoundChannel) => {
+    const nodes = channelNodes.get(channel);
+    if (!nodes) return;
+    nodes.sources.forEach(source => { source.stop(); source.disconnect(); });
+    nodes.gain.disconnect();
+    channelNodes.delete(channel);
+};
+
+const setBinauralFrequencies = (nodes: ChannelNodes, baseHz: number, beatHz: number) => {
+    const ctx = getAudioContext();
+    if (!ctx || !nodes.oscillators) return;
+    nodes.oscillators[0].frequency.setTargetAtTime(baseHz, ctx.currentTime, 0.1);
+    nodes.oscillators[1].frequency.setTargetAtTime(baseHz + beatHz, ctx.currentTime, 0.1);
+};
+
+// Starts channels that became audible and stops silent ones so idle channels cost nothing.
+const syncChannels = () => {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    SOUND_CHANNELS.forEach(({ id }) => {
+        const volume = currentMix.volumes[id] || 0;
+        if (volume <= 0) {
+            stopChannel(id);
+            return;
+        }
+        let nodes = channelNodes.get(id);
+        if (!nodes) {
+            nodes = startChannel(ctx, id);
+            channelNodes.set(id, nodes);
+        }
+        nodes.gain.gain.setTargetAtTime(volume * CHANNEL_MAX_GAIN[id], ctx.currentTime, 0.1);
+        if (id === 'binaural') setBinauralFrequencies(nodes, currentMix.binauralBaseHz, currentMix.binauralBeatHz);
+    });
+};
+
+/** Switches to a mix; while playing, channels glide to their new volumes. */
+export const applySoundMix = (mix: SoundMix): void => {
+    currentMix = { volumes: { ...mix.volumes }, binauralBaseHz: mix.binauralBaseHz, binauralBeatHz: mix.binauralBeatHz };
+    saveLiveSoundMix(currentMix);
+    if (isPlaying) syncChannels();
+    notify();
+};
+
+export const playSoundscape = (mix?: SoundMix): void => {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    if (mix) currentMix = { volumes: { ...mix.volumes }, binauralBaseHz: mix.binauralBaseHz, binauralBeatHz: mix.binauralBeatHz };
+    if (stopTimeout) { clearTimeout(stopTimeout); stopTimeout = null; }
+    isPlaying = true;
+    syncChannels();
+    const master = getMasterGain(ctx);
+    master.gain.cancelScheduledValues(ctx.currentTime);
+    master.gain.setTargetAtTime(1, ctx.currentTime, FADE_SECONDS / 4);
+    notify();
+};
+
+/** Fades out, then releases every channel. */
+export const stopSoundscape = (fadeSeconds = 0.3): void => {
+    const ctx = getAudioContext();
+    if (!ctx || !isPlaying) return;
+    isPlaying = false;
+    const master = getMasterGain(ctx);
+    master.gain.cancelScheduledValues(ctx.currentTime);
+    master.gain.setTargetAtTime(0, ctx.currentTime, fadeSeconds / 4);
+    stopTimeout = window.setTimeout(() => {
+        SOUND_CHANNELS.forEach(({ id }) => stopChannel(id));
+        stopTimeout = null;
+    }, fadeSeconds * 1000 + 100);
+    notify();
+};
+
+export const fadeOutSoundscape = (): void => stopSoundscape(FADE_SECONDS);
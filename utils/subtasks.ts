@@ -0,0 +1,28 @@
+import { Subtask, Task } from '../types';
+
+export const createSubtask = (text: string): Subtask => ({
+    id: `sub-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    text: text.trim(),
+    completed_at: null,
+});
+
+/** Copies a checklist for a new task (duplicates, recurring instances) with every item unticked. */
+export const resetSubtasks = (subtasks: Subtask[] | null | undefined): Subtask[] | null =>
+    subtasks && subtasks.length > 0 ? subtasks.map(s => ({ ...s, completed_at: null })) : null;
+
+export const countCompletedSubtasks = (task: Pick<Task, 'subtasks'>): number => (task.subtasks || []).filter(s => s.completed_at).length;
+
+/** Checklist items ticked off since a focus session started. */
+export const getSubtasksCompletedSince = (task: Task | null | undefined, since: string | null | undefined): Subtask[] =>
+    task && since ? (task.subtasks || []).filter(s => s.completed_at && s.completed_at >= since) : [];
+
+/** Adds the ticked-off items to a session comment so they show up in the task's history. */
+export const appendSubtaskSummary = (comment: string, completed: Subtask[]): string => {
+    if (completed.length === 0) return comment;
+    const summary = `✅ ${completed.map(s => s.text).join(', ')}`;
+    return comment ? `${comment} (${summary})` : summary;
+};
+
+/** How much a task adds to a 'task_count' project that counts checklist items instead of whole tasks. */
+export const getTaskCountUnits = (task: Pick<Task, 'subtasks' | 'completed_at'>): number =>
+    task.subtasks && task.subtasks.length > 0 ? countCompletedSubtasks(task) : (task.completed_at ? 1 : 0);
@@ -0,0 +1,72 @@
+export type SystemNotificationPermission = NotificationPermission | 'unsupported';
+
+export const getSystemNotificationPermission = (): SystemNotificationPermission =>
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestSystemNotificationPermission = async (): Promise<SystemNotificationPermission> => {
+    if (typeof Notification === 'undefined') return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    try {
+        return await Notification.requestPermission();
+    } catch (e) {
+        console.error("Error requesting notification permission:", e);
+        return Notification.permission;
+    }
+};
+
+// Modal messages contain simple HTML; notifications only show plain text.
+const toPlainText = (html: string): string => html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+export interface SystemNotificationOptions {
+    tag?: string;
+    actions?: { action: string; title: string }[]; // Only shown when the service worker displays the notification
+    data?: Record<string, unknown>;
+}
+
+// Clicks on these notifications are forwarded by sw.js to the open app window.
+export interface NotificationClickMessage {
+    type: 'notification-click';
+    action: string; // The clicked action, or '' for the notification body
+    data: Record<string, unknown>;
+}
+
+const getServiceWorkerRegistration = async (): Promise<ServiceWorkerRegistration | undefined> => {
+    if (!('serviceWorker' in navigator)) return undefined;
+    try {
+        return await navigator.serviceWorker.getRegistration();
+    } catch {
+        return undefined;
+    }
+};
+
+export const showSystemNotification = async (title: string, message: string, options: SystemNotificationOptions = {}): Promise<void> => {
+    if (getSystemNotificationPermission() !== 'granted') return;
+    const notificationOptions = { body: toPlainText(message), icon: './icon.svg', tag: options.tag, data: options.data, actions: options.actions, renotify: !!options.tag } as NotificationOptions;
+    try {
+        const registration = await getServiceWorkerRegistration();
+        if (registration) {
+            await registration.showNotification(title, notificationOptions);
+        } else {
+            new Notification(title, notificationOptions);
+        }
+    } catch (e) {
+        console.error("Error showing system notification:", e);
+    }
+};
+
+/** Dismisses notifications that were answered inside the app. */
+export const closeSystemNotifications = async (tag: string): Promise<void> => {
+    const registration = await getServiceWorkerRegistration();
+    if (!registration) return;
+    const notifications = await registration.getNotifications({ tag });
+    notifications.forEach(notification => notification.close());
+};
+
+export const subscribeToNotificationClicks = (listener: (message: NotificationClickMessage) => void): (() => void) => {
+    if (!('serviceWorker' in navigator)) return () => {};
+    const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'notification-click') listener(event.data as NotificationClickMessage);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
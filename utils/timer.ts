@@ -0,0 +1,97 @@
+import { FocusSegmentLog, FocusSessionDetails, Settings, SplitSessionCredit, Task, TimerPreset } from '../types';
+
+export const BUILT_IN_TIMER_PRESETS: TimerPreset[] = [
+    { id: 'classic', name: 'Classic', focusDuration: 25, breakDuration: 5, longBreakDuration: 15, sessionsPerCycle: 4 },
+    { id: 'deep-work', name: 'Deep Work', focusDuration: 50, breakDuration: 10, longBreakDuration: 30, sessionsPerCycle: 2 },
+    { id: 'ultradian', name: 'Ultradian', focusDuration: 90, breakDuration: 20, longBreakDuration: 20, sessionsPerCycle: 1 },
+];
+
+export const getTimerPresets = (settings: Settings): TimerPreset[] => [...BUILT_IN_TIMER_PRESETS, ...(settings.customTimerPresets || [])];
+
+export const findTimerPreset = (settings: Settings, presetId: string | null | undefined): TimerPreset | undefined =>
+    presetId ? getTimerPresets(settings).find(p => p.id === presetId) : undefined;
+
+export const formatTimerPreset = (preset: Pick<TimerPreset, 'focusDuration' | 'breakDuration' | 'longBreakDuration' | 'sessionsPerCycle'>): string =>
+    preset.sessionsPerCycle > 1
+        ? `${preset.focusDuration}/${preset.breakDuration}/${preset.longBreakDuration}×${preset.sessionsPerCycle}`
+        : `${preset.focusDuration}/${preset.breakDuration}`;
+
+export type TimerDurations = Pick<TimerPreset, 'focusDuration' | 'breakDuration' | 'longBreakDuration' | 'sessionsPerCycle'>;
+
+/**
+ * Resolves the timer lengths for a task: its custom focus/break minutes win over its preset,
+ * which wins over the global settings. A preset that was deleted falls back to the settings.
+ */
+export const getTimerDurations = (task: Task | null | undefined, settings: Settings): TimerDurations => {
+    const base = findTimerPreset(settings, task?.timer_preset_id) || settings;
+    return {
+        focusDuration: task?.custom_focus_duration || base.focusDuration,
+        breakDuration: task?.custom_break_duration || base.breakDuration,
+        longBreakDuration: base.longBreakDuration,
+        sessionsPerCycle: base.sessionsPerCycle,
+    };
+};
+
+/** The break after the last focus session of a cycle is the long one. */
+export const isLongBreakDue = (currentSession: number, durations: TimerDurations): boolean => currentSession >= durations.sessionsPerCycle;
+
+/** Shares `total` whole units out in proportion to `weights`; the leftover units go to the largest remainders. */
+const apportion = (weights: number[], total: number): number[] => {
+    const sum = weights.reduce((a, b) => a + b, 0);
+    if (sum === 0) return weights.map(() => 0);
+    const exact = weights.map(weight => weight / sum * total);
+    const units = exact.map(Math.floor);
+    const leftover = total - units.reduce((a, b) => a + b, 0);
+    exact.map((value, i) => ({ i, remainder: value - units[i] }))
+        .sort((a, b) => b.remainder - a.remainder)
+        .slice(0, leftover)
+        .forEach(({ i }) => { units[i]++; });
+    return units;
+};
+
+/**
+ * Breaks a focus session that switched tasks into one log per segment. Minutes follow the countdown,
+ * so pauses aren't counted, and the pomodoro is shared out by `credit`: by time on each task (in tenths
+ * that always add up to the whole), or all of it to the task worked on longest. Time without a task
+ * earns no credit. A task's credit goes on its last segment, so the rows carry exactly what the task got.
+ */
+export const splitFocusSession = (details: FocusSessionDetails, sessionSeconds: number, endedAt: string, credit: SplitSessionCredit): FocusSegmentLog[] => {
+    const segments = details.segments || [];
+    const parts = segments.map((segment, i) => {
+        const next = segments[i + 1];
+        const endSeconds = next ? next.start_elapsed_seconds : sessionSeconds;
+        const partEndedAt = next ? next.started_at : endedAt;
+        return {
+            segment,
+            seconds: Math.max(0, endSeconds - segment.start_elapsed_seconds),
+            // Rounding the running total keeps the parts adding up to the whole session.
+            minutes: Math.round(endSeconds / 60) - Math.round(segment.start_elapsed_seconds / 60),
+            ended_at: partEndedAt,
+            interruptions: details.interruptions.filter(p => p.paused_at >= segment.started_at && p.paused_at < partEndedAt),
+        };
+    }).filter(part => part.minutes > 0);
+
+    const totalSeconds = parts.reduce((sum, part) => sum + part.seconds, 0);
+    const secondsByTask = new Map<string, number>();
+    parts.forEach(part => { if (part.segment.task_id) secondsByTask.set(part.segment.task_id, (secondsByTask.get(part.segment.task_id) || 0) + part.seconds); });
+    const creditByTask = new Map<string, number>();
+    if (credit === 'proportional') {
+        const taskIds = [...secondsByTask.keys()];
+        const taskSeconds = taskIds.map(id => secondsByTask.get(id)!);
+        const freeSeconds = totalSeconds - taskSeconds.reduce((a, b) => a + b, 0);
+        const tenths = apportion([...taskSeconds, freeSeconds], 10);
+        taskIds.forEach((id, i) => creditByTask.set(id, tenths[i] / 10));
+    } else {
+        const longestTaskId = [...secondsByTask.entries()].reduce<[string, number] | null>((best, entry) => !best || entry[1] >= best[1] ? entry : best, null)?.[0];
+        if (longestTaskId) creditByTask.set(longestTaskId, 1);
+    }
+    const taskIdsByPart = parts.map(part => part.segment.task_id);
+
+    return parts.map((part, i) => ({
+        task_id: part.segment.task_id,
+        duration_minutes: part.minutes,
+        pom_credit: part.segment.task_id && i === taskIdsByPart.lastIndexOf(part.segment.task_id) ? creditByTask.get(part.segment.task_id) ?? 0 : 0,
+        ended_at: part.ended_at,
+        details: { started_at: part.segment.started_at, interruptions: part.interruptions, check_in: details.check_in },
+    }));
+};
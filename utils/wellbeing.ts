@@ -0,0 +1,130 @@
+import { DbDailyLog, PomodoroHistory, WellbeingCheckIn } from '../types';
+import { getTodayDateString } from './date';
+
+export type CheckInFactor = keyof WellbeingCheckIn;
+
+interface CheckInFactorInfo {
+    key: CheckInFactor;
+    label: string;
+    buckets: string[];
+    toBucket: (value: number) => string;
+}
+
+const ratingBucket = (value: number) => String(Math.min(5, Math.max(1, Math.round(value))));
+
+export const CHECK_IN_FACTORS: CheckInFactorInfo[] = [
+    { key: 'energy', label: 'Energy', buckets: ['1', '2', '3', '4', '5'], toBucket: ratingBucket },
+    { key: 'mood', label: 'Mood', buckets: ['1', '2', '3', '4', '5'], toBucket: ratingBucket },
+    { key: 'sleep_hours', label: 'Sleep', buckets: ['<6h', '6-7h', '7-8h', '8h+'], toBucket: v => v < 6 ? '<6h' : v < 7 ? '6-7h' : v < 8 ? '7-8h' : '8h+' },
+    { key: 'caffeine', label: 'Caffeine', buckets: ['0', '1', '2', '3+'], toBucket: v => v >= 3 ? '3+' : String(Math.max(0, Math.round(v))) },
+];
+
+// Only energy and mood are asked after a session.
+export const SESSION_CHECK_IN_FACTORS: CheckInFactor[] = ['energy', 'mood'];
+
+// Fewer samples than this make a correlation meaningless, so none is reported.
+const MIN_CORRELATION_SAMPLES = 5;
+
+/** Pearson's r of two equally long series, or null when there is too little data or no variation. */
+export const pearsonCorrelation = (xs: number[], ys: number[]): number | null => {
+    const n = xs.length;
+    if (n < MIN_CORRELATION_SAMPLES || n !== ys.length) return null;
+    const meanX = xs.reduce((a, b) => a + b, 0) / n;
+    const meanY = ys.reduce((a, b) => a + b, 0) / n;
+    let covariance = 0, varianceX = 0, varianceY = 0;
+    for (let i = 0; i < n; i++) {
+        covariance += (xs[i] - meanX) * (ys[i] - meanY);
+        varianceX += (xs[i] - meanX) ** 2;
+        varianceY += (ys[i] - meanY) ** 2;
+    }
+    if (varianceX === 0 || varianceY === 0) return null;
+    return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+export const describeCorrelation = (r: number | null): string => {
+    if (r === null) return 'Not enough data';
+    const strength = Math.abs(r);
+    if (strength < 0.1) return 'No link';
+    const label = strength < 0.3 ? 'Weak' : strength < 0.5 ? 'Moderate' : 'Strong';
+    return `${label} ${r > 0 ? 'positive' : 'negative'}`;
+};
+
+export interface CheckInBucketStats {
+    bucket: string;
+    samples: number;
+    avgFocusMinutes: number | null;
+    completeFocusPct: number | null; // Share of rated sessions marked complete_focus
+}
+
+export interface CheckInCorrelation {
+    factor: CheckInFactor;
+    samples: number;
+    focusMinutesR: number | null;
+    completeFocusR: number | null;
+    buckets: CheckInBucketStats[];
+}
+
+interface CheckInSample {
+    value: number;
+    focusMinutes: number;
+    completeFocusRatio: number | null; // null when no session in the sample was rated
+}
+
+const toCorrelation = (factor: CheckInFactor, samples: CheckInSample[]): CheckInCorrelation => {
+    const info = CHECK_IN_FACTORS.find(f => f.key === factor)!;
+    const rated = samples.filter(s => s.completeFocusRatio !== null);
+    const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+    return {
+        factor,
+        samples: samples.length,
+        focusMinutesR: pearsonCorrelation(samples.map(s => s.value), samples.map(s => s.focusMinutes)),
+        completeFocusR: pearsonCorrelation(rated.map(s => s.value), rated.map(s => s.completeFocusRatio!)),
+        buckets: info.buckets.map(bucket => {
+            const inBucket = samples.filter(s => info.toBucket(s.value) === bucket);
+            const avgFocus = average(inBucket.map(s => s.focusMinutes));
+            const completeRatio = average(inBucket.filter(s => s.completeFocusRatio !== null).map(s => s.completeFocusRatio!));
+            return {
+                bucket,
+                samples: inBucket.length,
+                avgFocusMinutes: avgFocus === null ? null : Math.round(avgFocus),
+                completeFocusPct: completeRatio === null ? null : Math.round(completeRatio * 100),
+            };
+        }),
+    };
+};
+
+/** Links each day's start-of-day check-in to that day's total focus and the share of its sessions rated full focus. */
+export const correlateDailyCheckIns = (logs: DbDailyLog[], history: PomodoroHistory[], factor: CheckInFactor): CheckInCorrelation => {
+    const sessionsByDay = new Map<string, PomodoroHistory[]>();
+    history.forEach(h => {
+        const day = getTodayDateString(new Date(h.ended_at));
+        sessionsByDay.set(day, [...(sessionsByDay.get(day) || []), h]);
+    });
+
+    const samples = logs.flatMap(log => {
+        const value = log.check_in?.[factor];
+        if (value === null || value === undefined) return [];
+        const sessions = sessionsByDay.get(log.date) || [];
+        const rated = sessions.filter(h => h.difficulty);
+        return [{
+            value,
+            focusMinutes: sessions.reduce((sum, h) => sum + (Number(h.duration_minutes) || 0), 0),
+            completeFocusRatio: rated.length > 0 ? rated.filter(h => h.difficulty === 'complete_focus').length / rated.length : null,
+        }];
+    });
+    return toCorrelation(factor, samples);
+};
+
+/** Links the check-in given at the end of a session to that session's length and focus rating. */
+export const correlateSessionCheckIns = (history: PomodoroHistory[], factor: CheckInFactor): CheckInCorrelation => {
+    const samples = history.flatMap(h => {
+        const value = h.check_in?.[factor];
+        if (value === null || value === undefined) return [];
+        return [{
+            value,
+            focusMinutes: Number(h.duration_minutes) || 0,
+            completeFocusRatio: h.difficulty ? (h.difficulty === 'complete_focus' ? 1 : 0) : null,
+        }];
+    });
+    return toCorrelation(factor, samples);
+};